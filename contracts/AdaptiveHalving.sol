@@ -2,13 +2,15 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "./proxy/PoWaiUpgradeable.sol";
 
 // Interface for ChronoFuel token to access total mined/burned amounts and total supply
 interface IChronoFuelStats {
     function getTotalMinedTokens() external view returns (uint256);
     function getTotalGlobalBurned() external view returns (uint256);
     function totalSupply() external view returns (uint256);
+    function epochEmissionBudget() external view returns (uint256);
 }
 
 // Interface for PoWaiCore to query total staked amount
@@ -20,8 +22,17 @@ interface IPoWaiCoreStats {
  * @title AdaptiveHalving
  * @dev Manages the dynamic halving mechanism and special halving effects (shields, keys).
  * Calculates the next halving threshold and rate based on global token metrics.
+ * An epoch ends at the halving threshold or, if it is smaller, at ChronoFuel's epoch emission budget.
+ * Privileged operations are gated by HALVING_OPERATOR_ROLE, which is granted to the
+ * deployer and to the linked PoWaiCore contract.
+ * Halving Keys stop stacking at maxHalvingKeyEffectPercentage: reduceHalvingRate then leaves the effect
+ * unchanged and returns false, and PoWaiCore trips ChronoFuel's circuit breaker.
+ * Deployed behind a PoWaiProxy (UUPS) and set up with initialize; upgrades need DEFAULT_ADMIN_ROLE.
  */
-contract AdaptiveHalving is Ownable {
+contract AdaptiveHalving is AccessControl, PoWaiUpgradeable {
+    // --- Roles ---
+    bytes32 public constant HALVING_OPERATOR_ROLE = keccak256("HALVING_OPERATOR_ROLE");
+
     IChronoFuelStats public chronoFuelToken; // Reference to ChronoFuel token for stats
     IPoWaiCoreStats public powaiCoreContract; // Reference to PoWaiCore for staked amount
 
@@ -36,36 +47,52 @@ contract AdaptiveHalving is Ownable {
     uint256 public constant PRECISION_FACTOR = 10**10; // 10^10
 
     uint256 public halvingCount; // Number of times halving has occurred
-    uint256 public currentHalvingThreshold; // Current threshold for the next halving
+    uint256 public currentHalvingThreshold; // CFL that must be mined during the current epoch to trigger the next halving
+    uint256 public halvingEpochStartMined; // Total mined CFL at the start of the current halving epoch
+    uint256 public emissionFactorScaled; // Cumulative product of (100% - halving rate) over all halvings, scaled by PRECISION_FACTOR
     uint256 public halvingKeyEffectPercentage;
 
     mapping(address => bool) public hasAntiHalvingShield;
 
+    // --- Circuit Breaker ---
+    uint256 public maxHalvingKeyEffectPercentage; // Bound on halvingKeyEffectPercentage; 0 = no bound
+
     event HalvingTriggered(uint256 newThreshold, uint256 newRate, uint256 count);
     event AntiHalvingShieldGranted(address indexed user);
     event AntiHalvingShieldConsumed(address indexed user);
     event HalvingRateReducedByNFT(uint256 reductionAmount, uint256 newCumulativeReduction);
     event ChronoFuelTokenStatsSet(address indexed tokenAddress);
     event PoWaiCoreContractSet(address indexed coreAddress);
+    event MaxHalvingKeyEffectPercentageUpdated(uint256 maxHalvingKeyEffectPercentage);
+    event HalvingKeyBoundExceeded(uint256 attemptedEffectPercentage, uint256 maxHalvingKeyEffectPercentage);
 
 
+    constructor() {
+        _disableInitializers();
+    }
+
     /**
-     * @dev Constructor. Sets the initial ChronoFuel token address for stats.
+     * @dev Initializes the proxy. Sets the initial ChronoFuel token address for stats.
      * @param _chronoFuelTokenAddress The address of the ChronoFuel token contract.
      */
-    constructor(address _chronoFuelTokenAddress) Ownable(msg.sender) {
+    function initialize(address _chronoFuelTokenAddress) public initializer {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(HALVING_OPERATOR_ROLE, msg.sender);
         require(_chronoFuelTokenAddress != address(0), "AdaptiveHalving: ChronoFuel token address cannot be zero");
         chronoFuelToken = IChronoFuelStats(_chronoFuelTokenAddress);
         currentHalvingThreshold = INITIAL_HALVING_THRESHOLD;
+        // The initial supply is not mined through PoWai, so the first epoch starts after it
+        halvingEpochStartMined = chronoFuelToken.getTotalMinedTokens();
+        emissionFactorScaled = PRECISION_FACTOR;
         emit ChronoFuelTokenStatsSet(_chronoFuelTokenAddress);
     }
 
     /**
      * @dev Sets the address of the ChronoFuel token contract for stats.
-     * Can only be called once by the owner.
+     * Can only be called once by an admin.
      * @param _tokenAddress The address of the ChronoFuel token contract.
      */
-    function setChronoFuelToken(address _tokenAddress) public onlyOwner {
+    function setChronoFuelToken(address _tokenAddress) public onlyRole(DEFAULT_ADMIN_ROLE) {
         require(address(chronoFuelToken) == address(0) || address(chronoFuelToken) == _tokenAddress, "AdaptiveHalving: ChronoFuel token already set or invalid update");
         require(_tokenAddress != address(0), "AdaptiveHalving: Zero address not allowed");
         chronoFuelToken = IChronoFuelStats(_tokenAddress);
@@ -75,26 +102,48 @@ contract AdaptiveHalving is Ownable {
     /**
      * @dev Sets the address of the PoWaiCore contract.
      * This is needed to query the total staked amount for halving rate calculation.
+     * The stored PoWaiCore is granted HALVING_OPERATOR_ROLE.
      * @param _powaiCoreAddress The address of the PoWaiCore contract.
      */
-    function setPoWaiCoreContract(address _powaiCoreAddress) public onlyOwner {
+    function setPoWaiCoreContract(address _powaiCoreAddress) public onlyRole(DEFAULT_ADMIN_ROLE) {
         require(_powaiCoreAddress != address(0), "AdaptiveHalving: Zero address not allowed for PoWaiCore");
         require(address(powaiCoreContract) == address(0) || address(powaiCoreContract) == _powaiCoreAddress, "AdaptiveHalving: PoWaiCore address already set or invalid update");
         powaiCoreContract = IPoWaiCoreStats(_powaiCoreAddress);
+        _grantRole(HALVING_OPERATOR_ROLE, _powaiCoreAddress);
         emit PoWaiCoreContractSet(_powaiCoreAddress);
     }
 
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+
+    /**
+     * @dev Sets the bound Halving Keys may reduce the halving rate by in total before the circuit breaker trips.
+     * @param _maxHalvingKeyEffectPercentage The bound in percent; 0 disables it. Cannot be below the current effect.
+     */
+    function setMaxHalvingKeyEffectPercentage(uint256 _maxHalvingKeyEffectPercentage) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(
+            _maxHalvingKeyEffectPercentage == 0 || _maxHalvingKeyEffectPercentage >= halvingKeyEffectPercentage,
+            "AdaptiveHalving: Bound below current halving key effect"
+        );
+        maxHalvingKeyEffectPercentage = _maxHalvingKeyEffectPercentage;
+        emit MaxHalvingKeyEffectPercentageUpdated(_maxHalvingKeyEffectPercentage);
+    }
+
     /**
      * @dev Checks if halving should occur and applies it.
-     * This function should be called periodically (e.g., by a keeper network or during a key transaction).
-     * @param _powaiCoreAddress The address of the PoWaiCore contract. Passed explicitly for modifier check.
+     * The threshold is refreshed from the global burned amount first, then a halving is applied
+     * once the CFL mined since the start of the current epoch reaches it (or the epoch emission budget,
+     * if that is smaller). Each halving multiplies the emission factor by (100% - current halving rate).
+     * Called by PoWaiCore after every claim; may also be called by a keeper network.
      */
-    function checkAndApplyHalving(address _powaiCoreAddress) external onlyOwnerOrPoWaiCore(_powaiCoreAddress) {
+    function checkAndApplyHalving() external onlyRole(HALVING_OPERATOR_ROLE) {
+        _calculateNextThreshold();
+        uint256 epochLength = _epochLength(currentHalvingThreshold);
         uint256 totalMined = chronoFuelToken.getTotalMinedTokens();
-        if (totalMined >= currentHalvingThreshold) {
+        if (totalMined - halvingEpochStartMined >= epochLength) {
             halvingCount++;
-            _calculateNextThreshold();
+            halvingEpochStartMined = halvingEpochStartMined + epochLength;
             uint256 currentRate = getAdjustedHalvingRate();
+            emissionFactorScaled = (emissionFactorScaled * (100 - currentRate)) / 100;
             emit HalvingTriggered(currentHalvingThreshold, currentRate, halvingCount);
         }
     }
@@ -103,21 +152,19 @@ contract AdaptiveHalving is Ownable {
      * @dev Grants an Anti-Halving Shield to a user.
      * Called by PoWaiCore when an Epic reward is won.
      * @param user The address of the user to grant the shield to.
-     * @param _powaiCoreAddress The address of the PoWaiCore contract.
      */
-    function grantAntiHalvingShield(address user, address _powaiCoreAddress) external onlyOwnerOrPoWaiCore(_powaiCoreAddress) {
+    function grantAntiHalvingShield(address user) external onlyRole(HALVING_OPERATOR_ROLE) {
         hasAntiHalvingShield[user] = true;
         emit AntiHalvingShieldGranted(user);
     }
 
     /**
      * @dev Consumes an Anti-Halving Shield for a user.
-     * This function should be called by PoWaiCore when it detects a user with a shield
-     * is about to be affected by a halving, allowing their next reward to be exempted.
+     * Called by PoWaiCore when a user with a shield claims while a halving is in effect;
+     * that claim is exempted from the emission factor.
      * @param user The address of the user whose shield to consume.
-     * @param _powaiCoreAddress The address of the PoWaiCore contract.
      */
-    function consumeAntiHalvingShield(address user, address _powaiCoreAddress) external onlyOwnerOrPoWaiCore(_powaiCoreAddress) {
+    function consumeAntiHalvingShield(address user) external onlyRole(HALVING_OPERATOR_ROLE) {
         require(hasAntiHalvingShield[user], "AdaptiveHalving: User does not have an Anti-Halving Shield");
         hasAntiHalvingShield[user] = false;
         emit AntiHalvingShieldConsumed(user);
@@ -126,22 +173,36 @@ contract AdaptiveHalving is Ownable {
     /**
      * @dev Reduces the system's global halving rate.
      * Called by PoWaiCore when a Legendary reward (Halving Key NFT) is won.
+     * A reduction that would take the cumulative effect over maxHalvingKeyEffectPercentage is not applied.
      * @param percentageReduction The percentage amount to reduce the halving rate by (e.g., 3 for 3%).
-     * @param _powaiCoreAddress The address of the PoWaiCore contract.
+     * @return applied False if the reduction crossed the bound.
      */
-    function reduceHalvingRate(uint256 percentageReduction, address _powaiCoreAddress) external onlyOwnerOrPoWaiCore(_powaiCoreAddress) {
+    function reduceHalvingRate(uint256 percentageReduction) external onlyRole(HALVING_OPERATOR_ROLE) returns (bool applied) {
         require(percentageReduction > 0, "AdaptiveHalving: Reduction must be positive");
-        
-        halvingKeyEffectPercentage = halvingKeyEffectPercentage + percentageReduction;
+
+        uint256 newEffect = halvingKeyEffectPercentage + percentageReduction;
+        if (maxHalvingKeyEffectPercentage != 0 && newEffect > maxHalvingKeyEffectPercentage) {
+            emit HalvingKeyBoundExceeded(newEffect, maxHalvingKeyEffectPercentage);
+            return false;
+        }
+        halvingKeyEffectPercentage = newEffect;
 
         emit HalvingRateReducedByNFT(percentageReduction, halvingKeyEffectPercentage);
+        return true;
     }
 
     /**
-     * @dev Calculates the next halving threshold.
+     * @dev Calculates the next halving threshold (CFL to mine within the current epoch).
      * Formula: Next Halving = 21M * (1 + Global_Burned / 2.1B)
      */
     function _calculateNextThreshold() internal {
+        currentHalvingThreshold = _projectedHalvingThreshold();
+    }
+
+    /**
+     * @dev Returns the threshold _calculateNextThreshold would store for the current global burn.
+     */
+    function _projectedHalvingThreshold() internal view returns (uint256) {
         uint256 globalBurned = chronoFuelToken.getTotalGlobalBurned();
         
         // Ensure PRECISION_FACTOR is applied correctly for decimal math
@@ -151,7 +212,15 @@ contract AdaptiveHalving is Ownable {
         // (1 + burnFactor) scaled by PRECISION_FACTOR
         uint256 multiplierScaled = PRECISION_FACTOR + burnFactorScaled; 
 
-        currentHalvingThreshold = (INITIAL_HALVING_THRESHOLD * multiplierScaled) / PRECISION_FACTOR;
+        return (INITIAL_HALVING_THRESHOLD * multiplierScaled) / PRECISION_FACTOR;
+    }
+
+    /**
+     * @dev CFL mined in an epoch before it ends: the halving threshold, capped by the epoch emission budget.
+     */
+    function _epochLength(uint256 _threshold) internal view returns (uint256) {
+        uint256 budget = chronoFuelToken.epochEmissionBudget();
+        return budget < _threshold ? budget : _threshold;
     }
 
     /**
@@ -192,9 +261,29 @@ contract AdaptiveHalving is Ownable {
         }
     }
 
-    modifier onlyOwnerOrPoWaiCore(address _powaiCoreAddress) {
-        require(msg.sender == owner() || msg.sender == _powaiCoreAddress, "AdaptiveHalving: Unauthorized caller");
-        _;
+    /**
+     * @dev Reports whether checkAndApplyHalving would apply a halving right now.
+     * Uses the threshold refreshed from the current global burn, as checkAndApplyHalving does,
+     * so keepers can poll this instead of re-implementing the formula.
+     * @return due True if the CFL mined this epoch has reached the threshold.
+     * @return minedThisEpoch CFL mined since the start of the current halving epoch.
+     * @return threshold CFL that must be mined this epoch to trigger the next halving (capped by the epoch emission budget).
+     */
+    function getHalvingStatus() public view returns (bool due, uint256 minedThisEpoch, uint256 threshold) {
+        threshold = _epochLength(_projectedHalvingThreshold());
+        minedThisEpoch = chronoFuelToken.getTotalMinedTokens() - halvingEpochStartMined;
+        due = minedThisEpoch >= threshold;
+    }
+
+    /**
+     * @dev CFL that can still be mined in the current halving epoch under ChronoFuel's epoch emission budget.
+     * PoWaiCore defers the part of a reward above it; once it reaches 0 the next checkAndApplyHalving
+     * starts a new epoch with a fresh budget.
+     */
+    function remainingEpochBudget() public view returns (uint256) {
+        uint256 budget = chronoFuelToken.epochEmissionBudget();
+        uint256 minedThisEpoch = chronoFuelToken.getTotalMinedTokens() - halvingEpochStartMined;
+        return budget > minedThisEpoch ? budget - minedThisEpoch : 0;
     }
 
     function getCurrentHalvingThreshold() public view returns (uint256) {
@@ -205,6 +294,14 @@ contract AdaptiveHalving is Ownable {
         return halvingCount;
     }
 
+    /**
+     * @dev Returns the cumulative emission factor applied to PoWai rewards, scaled by PRECISION_FACTOR.
+     * Starts at PRECISION_FACTOR (1.0x) and shrinks with every halving.
+     */
+    function getEmissionFactor() public view returns (uint256) {
+        return emissionFactorScaled;
+    }
+
     function getCumulativeHalvingKeyEffectPercentage() public view returns (uint256) {
         return halvingKeyEffectPercentage;
     }
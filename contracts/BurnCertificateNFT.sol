@@ -0,0 +1,153 @@
+// contracts/BurnCertificateNFT.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+
+/**
+ * @title BurnCertificateNFT
+ * @dev Transferable ERC-721 proof of burn, minted by PoWaiCore.boostBurnWithCertificate.
+ * Each certificate snapshots the BurnRecord it was minted for, and tokenURI renders the JSON
+ * metadata and SVG image fully on-chain.
+ *
+ * Certificates are commemorative: transferring one does NOT transfer the DAO points or airdrop
+ * rights of the burn. Those stay with the original burner (DaoPoints voting power and the
+ * burner's userBurnRecords in PoWaiCore), so governance power and airdrops cannot be bought on
+ * NFT markets. The original burner is recorded in every certificate.
+ */
+contract BurnCertificateNFT is ERC721, AccessControl {
+    using Strings for uint256;
+    using Strings for address;
+
+    // --- Roles ---
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+
+    struct Certificate {
+        address burner; // Original burner; keeps the DAO points and airdrop rights
+        uint256 burnRecordIndex; // Index in PoWaiCore.userBurnRecords[burner]
+        uint256 amountBurned;
+        uint256 mintPowerBeforeBurn;
+        uint256 daoPoints;
+        uint256 airdropRights;
+        uint256 timestamp;
+    }
+
+    address public powaiCoreContract;
+    uint256 public nextTokenId = 1;
+    mapping(uint256 => Certificate) private certificates;
+
+    event CertificateMinted(uint256 indexed tokenId, address indexed burner, uint256 burnRecordIndex, uint256 amountBurned);
+    event PoWaiCoreContractSet(address indexed coreAddress);
+
+    constructor() ERC721("ChronoFuel Burn Certificate", "CFLBURN") {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    }
+
+    /**
+     * @dev Sets the PoWaiCore contract and grants it MINTER_ROLE.
+     * Can only be called once by an admin.
+     * @param _powaiCoreAddress The address of the PoWaiCore contract.
+     */
+    function setPoWaiCoreContract(address _powaiCoreAddress) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_powaiCoreAddress != address(0), "BurnCertificateNFT: Zero address not allowed for PoWaiCore");
+        require(powaiCoreContract == address(0) || powaiCoreContract == _powaiCoreAddress, "BurnCertificateNFT: PoWaiCore address already set or invalid update");
+        powaiCoreContract = _powaiCoreAddress;
+        _grantRole(MINTER_ROLE, _powaiCoreAddress);
+        emit PoWaiCoreContractSet(_powaiCoreAddress);
+    }
+
+    /**
+     * @dev Mints a certificate for a burn record to its burner.
+     * @return tokenId The id of the new certificate.
+     */
+    function mintCertificate(
+        address burner,
+        uint256 burnRecordIndex,
+        uint256 amountBurned,
+        uint256 mintPowerBeforeBurn,
+        uint256 daoPoints,
+        uint256 airdropRights,
+        uint256 timestamp
+    ) external onlyRole(MINTER_ROLE) returns (uint256 tokenId) {
+        tokenId = nextTokenId;
+        nextTokenId = tokenId + 1;
+        certificates[tokenId] = Certificate({
+            burner: burner,
+            burnRecordIndex: burnRecordIndex,
+            amountBurned: amountBurned,
+            mintPowerBeforeBurn: mintPowerBeforeBurn,
+            daoPoints: daoPoints,
+            airdropRights: airdropRights,
+            timestamp: timestamp
+        });
+        _safeMint(burner, tokenId);
+        emit CertificateMinted(tokenId, burner, burnRecordIndex, amountBurned);
+    }
+
+    function getCertificate(uint256 tokenId) public view returns (Certificate memory) {
+        _requireOwned(tokenId);
+        return certificates[tokenId];
+    }
+
+    /**
+     * @dev Returns a data URI with the certificate's JSON metadata and embedded SVG image.
+     */
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        Certificate memory certificate = certificates[tokenId];
+
+        string memory json = string.concat(
+            '{"name":"ChronoFuel Burn Certificate #', tokenId.toString(),
+            '","description":"Proof that ', certificate.burner.toHexString(), ' burned ', _formatCfl(certificate.amountBurned),
+            ' CFL in ChronoFuel PoWai. DAO points and airdrop rights stay with the original burner and do not transfer with this certificate.",',
+            '"image":"data:image/svg+xml;base64,', Base64.encode(bytes(_renderSvg(tokenId, certificate))), '",',
+            _renderAttributes(certificate),
+            '}'
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721, AccessControl) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    function _renderAttributes(Certificate memory certificate) internal pure returns (string memory) {
+        return string.concat(
+            '"attributes":[',
+            '{"trait_type":"Amount Burned (CFL)","value":"', _formatCfl(certificate.amountBurned), '"},',
+            '{"trait_type":"Mint Power Before Burn","value":"', _formatCfl(certificate.mintPowerBeforeBurn), '"},',
+            '{"trait_type":"DAO Points","display_type":"number","value":', certificate.daoPoints.toString(), '},',
+            '{"trait_type":"Airdrop Rights","display_type":"number","value":', certificate.airdropRights.toString(), '},',
+            '{"trait_type":"Burned At","display_type":"date","value":', certificate.timestamp.toString(), '},',
+            '{"trait_type":"Original Burner","value":"', certificate.burner.toHexString(), '"}',
+            ']'
+        );
+    }
+
+    function _renderSvg(uint256 tokenId, Certificate memory certificate) internal pure returns (string memory) {
+        return string.concat(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400" viewBox="0 0 400 400">',
+            '<rect width="400" height="400" fill="#140b05"/>',
+            '<rect x="12" y="12" width="376" height="376" rx="16" fill="none" stroke="#ff7a18" stroke-width="4"/>',
+            '<text x="200" y="70" fill="#ff7a18" font-family="monospace" font-size="22" text-anchor="middle">BURN CERTIFICATE #', tokenId.toString(), '</text>',
+            '<text x="200" y="150" fill="#ffffff" font-family="monospace" font-size="34" text-anchor="middle">', _formatCfl(certificate.amountBurned), ' CFL</text>',
+            '<text x="40" y="220" fill="#ffc58f" font-family="monospace" font-size="16">Mint power: ', _formatCfl(certificate.mintPowerBeforeBurn), '</text>',
+            '<text x="40" y="250" fill="#ffc58f" font-family="monospace" font-size="16">DAO points: ', certificate.daoPoints.toString(), '</text>',
+            '<text x="40" y="280" fill="#ffc58f" font-family="monospace" font-size="16">Airdrop rights: ', certificate.airdropRights.toString(), '</text>',
+            '<text x="40" y="350" fill="#8a6a50" font-family="monospace" font-size="10">', certificate.burner.toHexString(), '</text>',
+            '</svg>'
+        );
+    }
+
+    /**
+     * @dev Formats an 18-decimal amount with two decimals, rounded down (e.g. "12.50").
+     */
+    function _formatCfl(uint256 amount) internal pure returns (string memory) {
+        uint256 whole = amount / 1e18;
+        uint256 cents = (amount % 1e18) / 1e16;
+        return string.concat(whole.toString(), cents < 10 ? ".0" : ".", cents.toString());
+    }
+}
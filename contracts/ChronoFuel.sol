@@ -3,42 +3,227 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "./proxy/PoWaiUpgradeable.sol";
+
+/**
+ * @dev Supports EIP-2612 `permit`, so PoWaiCore's stakeWithPermit/boostBurnWithPermit need no separate approve.
+ * Deployed behind a PoWaiProxy (UUPS) and set up with initialize; upgrades need DEFAULT_ADMIN_ROLE.
+ * Name and symbol are constants because the ERC20 constructor only writes them to the implementation's storage.
+ * Emission is bounded by a hard maxSupply on all CFL ever mined and by epochEmissionBudget, the most CFL
+ * mined per halving epoch (AdaptiveHalving ends an epoch early once its budget is spent).
+ * Minting can be halted: PAUSER_ROLE pauses it in an emergency, and a circuit breaker pauses it on its own
+ * when the CFL minted in one block or one hour would exceed maxMintPerBlock or maxMintPerHour.
+ * Transfers and burns are never paused. Only DEFAULT_ADMIN_ROLE can resume minting.
+ */
+contract ChronoFuel is ERC20, ERC20Permit, AccessControl, PoWaiUpgradeable {
+    // --- Roles ---
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE"); // Held by the linked PoWaiCore contract
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE"); // Emergency guardians, and PoWaiCore for the halving key breaker
 
-contract ChronoFuel is ERC20, Ownable {
     uint256 public constant INITIAL_SUPPLY = 21_000_000 * (10 ** 18); // 21M tokens with 18 decimals
+    uint256 public constant DEFAULT_MAX_SUPPLY = 210_000_000 * (10 ** 18); // 210M CFL, initial supply included
+    uint256 public constant DEFAULT_EPOCH_EMISSION_BUDGET = 42_000_000 * (10 ** 18); // 2x the initial halving threshold
     uint256 public totalGlobalBurned; // Total CFL burned across the entire system
     uint256 public totalMinedTokens;  // Total CFL minted across the entire system
 
     // Mapping to store user-specific burned amounts for Burn Booster Engine
     mapping(address => uint256) public userBurnedAmounts;
 
-    // The address of the PoWaiCore contract, authorized to mint tokens
+    // The address of the PoWaiCore contract, granted MINTER_ROLE when linked
     address public powaiCoreContract;
 
+    // --- Emission Limits ---
+    uint256 public maxSupply; // Cap on totalMinedTokens; burning does not free room under it
+    uint256 public epochEmissionBudget; // Most CFL mined per halving epoch
+
+    // --- Circuit Breaker ---
+    // Mints are counted per block and per clock hour (block.timestamp / 1 hours) while a limit is set
+    bool public mintingPaused;
+    uint256 public maxMintPerBlock; // 0 = no limit
+    uint256 public maxMintPerHour; // 0 = no limit
+    uint256 public mintRateBlock; // Block mintedInBlock counts
+    uint256 public mintedInBlock;
+    uint256 public mintRateHour; // Hour mintedInHour counts
+    uint256 public mintedInHour;
+
     // --- Events ---
     event TokensBurned(address indexed burner, uint256 amount);
     event TokensMinted(address indexed minter, uint256 amount);
     event PoWaiCoreContractSet(address indexed _powaiCoreContract);
+    event MaxSupplyUpdated(uint256 maxSupply);
+    event EpochEmissionBudgetUpdated(uint256 epochEmissionBudget);
+    event MintingPaused(address indexed account);
+    event MintingUnpaused(address indexed account);
+    event MintRateLimitsUpdated(uint256 maxMintPerBlock, uint256 maxMintPerHour);
+    event CircuitBreakerTripped(string reason, uint256 attempted, uint256 limit); // attempted includes the refused mint
+
+    /// @dev The EIP-712 domain name is kept in immutables, so it also holds for the proxy.
+    constructor() ERC20("ChronoFuel", "CFL") ERC20Permit("ChronoFuel") {
+        _disableInitializers();
+    }
 
-    constructor() ERC20("ChronoFuel", "CFL") Ownable(msg.sender) {
+    /**
+     * @dev Initializes the proxy: grants DEFAULT_ADMIN_ROLE and PAUSER_ROLE to and mints the initial supply for the caller.
+     * It sets the current initializer version (2), so a new proxy can never run initializeV2. A proxy initialized at
+     * version 1 has minted the initial supply already and is refused here.
+     */
+    function initialize() public reinitializer(2) {
+        if (totalMinedTokens != 0) {
+            revert InvalidInitialization();
+        }
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
         _mint(msg.sender, INITIAL_SUPPLY); // Mint initial supply to the deployer
         totalMinedTokens = INITIAL_SUPPLY; // <<<--- FIX: อัปเดต totalMinedTokens ใน constructor
+        maxSupply = DEFAULT_MAX_SUPPLY;
+        epochEmissionBudget = DEFAULT_EPOCH_EMISSION_BUDGET;
+    }
+
+    /**
+     * @dev Sets up what initialize sets up since version 2 on a proxy upgraded from version 1, which had no
+     * emission limits or PAUSER_ROLE: left at 0, maxSupply and epochEmissionBudget would let no reward be minted,
+     * and setMaxSupply can never raise the cap. Run it as the upgrade call (scripts/upgrades/upgrade.ts does).
+     * Grants PAUSER_ROLE to `pauser`, e.g. the guardian multisig.
+     */
+    function initializeV2(address pauser) public reinitializer(2) onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(pauser != address(0), "ChronoFuel: Zero address not allowed for pauser");
+        _grantRole(PAUSER_ROLE, pauser);
+        maxSupply = DEFAULT_MAX_SUPPLY;
+        epochEmissionBudget = DEFAULT_EPOCH_EMISSION_BUDGET;
+    }
+
+    function name() public pure override returns (string memory) {
+        return "ChronoFuel";
+    }
+
+    function symbol() public pure override returns (string memory) {
+        return "CFL";
     }
 
-    function setPoWaiCoreContract(address _powaiCoreContract) public onlyOwner {
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+
+    /**
+     * @dev Links the PoWaiCore contract and grants it MINTER_ROLE, and PAUSER_ROLE so it can trip the
+     * circuit breaker when Halving Keys cross AdaptiveHalving's bound.
+     * Can only be set once by an admin; the roles are keyed on the stored address. Calling it again with
+     * the same address grants roles added by an upgrade.
+     * @param _powaiCoreContract The address of the PoWaiCore contract.
+     */
+    function setPoWaiCoreContract(address _powaiCoreContract) public onlyRole(DEFAULT_ADMIN_ROLE) {
         require(_powaiCoreContract != address(0), "ChronoFuel: Zero address not allowed for PoWaiCore");
         require(powaiCoreContract == address(0) || powaiCoreContract == _powaiCoreContract, "ChronoFuel: PoWaiCore address already set or invalid update");
         powaiCoreContract = _powaiCoreContract;
+        _grantRole(MINTER_ROLE, _powaiCoreContract);
+        _grantRole(PAUSER_ROLE, _powaiCoreContract);
         emit PoWaiCoreContractSet(_powaiCoreContract);
     }
 
-    function _mintTokens(address to, uint256 amount) external { // Changed to external for PoWaiCore to call
-        require(msg.sender == powaiCoreContract, "ChronoFuel: Only PoWaiCore can mint");
+    /**
+     * @dev Lowers the hard supply cap. It can never be raised, nor set below the CFL already mined.
+     * @param _maxSupply The new cap on totalMinedTokens.
+     */
+    function setMaxSupply(uint256 _maxSupply) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_maxSupply <= maxSupply, "ChronoFuel: Max supply can only be lowered");
+        require(_maxSupply >= totalMinedTokens, "ChronoFuel: Max supply below mined supply");
+        maxSupply = _maxSupply;
+        emit MaxSupplyUpdated(_maxSupply);
+    }
+
+    /**
+     * @dev Sets the most CFL that may be mined per halving epoch. Takes effect in the current epoch.
+     * @param _epochEmissionBudget The new budget; must be positive.
+     */
+    function setEpochEmissionBudget(uint256 _epochEmissionBudget) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_epochEmissionBudget > 0, "ChronoFuel: Epoch emission budget must be positive");
+        epochEmissionBudget = _epochEmissionBudget;
+        emit EpochEmissionBudgetUpdated(_epochEmissionBudget);
+    }
+
+    // --- Circuit Breaker ---
+
+    /**
+     * @dev Halts minting until an admin calls unpauseMinting.
+     */
+    function pauseMinting() public onlyRole(PAUSER_ROLE) {
+        _pauseMinting();
+    }
+
+    /**
+     * @dev Resumes minting, e.g. once the cause of a circuit breaker trip has been dealt with.
+     * The mints counted in the current block and hour still count towards the limits.
+     */
+    function unpauseMinting() public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(mintingPaused, "ChronoFuel: Minting not paused");
+        mintingPaused = false;
+        emit MintingUnpaused(_msgSender());
+    }
+
+    /**
+     * @dev Sets the CFL that may be minted per block and per hour before the circuit breaker trips.
+     * @param _maxMintPerBlock The per-block limit; 0 disables it.
+     * @param _maxMintPerHour The per-hour limit; 0 disables it.
+     */
+    function setMintRateLimits(uint256 _maxMintPerBlock, uint256 _maxMintPerHour) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        maxMintPerBlock = _maxMintPerBlock;
+        maxMintPerHour = _maxMintPerHour;
+        emit MintRateLimitsUpdated(_maxMintPerBlock, _maxMintPerHour);
+    }
+
+    /**
+     * @dev Mints `amount` to `to` unless minting is paused, or this mint would take the CFL minted in the
+     * current block or hour over its limit; that trips the circuit breaker instead. Either way nothing is
+     * minted and false is returned rather than reverting, so PoWaiCore can still settle a claim (it defers
+     * the reward) and the trip is not rolled back.
+     * @return minted Whether `amount` was minted.
+     */
+    function _mintTokens(address to, uint256 amount) external onlyRole(MINTER_ROLE) returns (bool minted) { // Changed to external for PoWaiCore to call
         require(amount > 0, "ChronoFuel: Cannot mint zero tokens");
+        require(amount <= remainingSupply(), "ChronoFuel: Max supply exceeded");
+        if (mintingPaused || !_recordMintRate(amount)) {
+            return false;
+        }
         _mint(to, amount);
         totalMinedTokens = totalMinedTokens + amount;
         emit TokensMinted(to, amount);
+        return true;
+    }
+
+    /**
+     * @dev Counts `amount` towards the per-block and per-hour totals while a limit is set, or trips the
+     * circuit breaker if it does not fit under one of the limits.
+     * @return withinLimits Whether `amount` may be minted.
+     */
+    function _recordMintRate(uint256 amount) internal returns (bool withinLimits) {
+        if (maxMintPerBlock == 0 && maxMintPerHour == 0) {
+            return true;
+        }
+        uint256 hour = block.timestamp / 1 hours;
+        uint256 blockTotal = (mintRateBlock == block.number ? mintedInBlock : 0) + amount;
+        uint256 hourTotal = (mintRateHour == hour ? mintedInHour : 0) + amount;
+        if (maxMintPerBlock != 0 && blockTotal > maxMintPerBlock) {
+            return _tripCircuitBreaker("Mint per block limit exceeded", blockTotal, maxMintPerBlock);
+        }
+        if (maxMintPerHour != 0 && hourTotal > maxMintPerHour) {
+            return _tripCircuitBreaker("Mint per hour limit exceeded", hourTotal, maxMintPerHour);
+        }
+        mintRateBlock = block.number;
+        mintedInBlock = blockTotal;
+        mintRateHour = hour;
+        mintedInHour = hourTotal;
+        return true;
+    }
+
+    function _tripCircuitBreaker(string memory reason, uint256 attempted, uint256 limit) internal returns (bool) {
+        emit CircuitBreakerTripped(reason, attempted, limit);
+        _pauseMinting();
+        return false;
+    }
+
+    function _pauseMinting() internal {
+        mintingPaused = true;
+        emit MintingPaused(_msgSender());
     }
 
     function burn(uint256 amount) public {
@@ -62,6 +247,19 @@ contract ChronoFuel is ERC20, Ownable {
         emit TokensBurned(from, amount);
     }
 
+    /**
+     * @dev Burns `amount` of the caller's tokens and credits the burn to `account`. Lets PoWaiCore burn
+     * a reward it minted to itself on the user's behalf (claimAndBurn) without paying it out first.
+     * @param account The address credited with the burn.
+     * @param amount The amount of tokens to burn.
+     */
+    function burnFor(address account, uint256 amount) external onlyRole(MINTER_ROLE) {
+        _burn(msg.sender, amount);
+        totalGlobalBurned = totalGlobalBurned + amount;
+        userBurnedAmounts[account] = userBurnedAmounts[account] + amount;
+        emit TokensBurned(account, amount);
+    }
+
     function getTotalGlobalBurned() public view returns (uint256) {
         return totalGlobalBurned;
     }
@@ -70,6 +268,13 @@ contract ChronoFuel is ERC20, Ownable {
         return totalMinedTokens;
     }
 
+    /**
+     * @dev CFL that can still be mined before maxSupply is reached.
+     */
+    function remainingSupply() public view returns (uint256) {
+        return maxSupply > totalMinedTokens ? maxSupply - totalMinedTokens : 0;
+    }
+
     function getUserBurnedAmount(address user) public view returns (uint256) {
         return userBurnedAmounts[user];
     }
@@ -0,0 +1,78 @@
+// contracts/DaoPoints.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/governance/utils/Votes.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+/**
+ * @title DaoPoints
+ * @dev Non-transferable ledger of the DAO points earned through PoWaiCore.boostBurn
+ * (DAO_POINTS_PER_CFL_BURNED per whole CFL burned), exposed as checkpointed voting power
+ * for PoWaiGovernor. Voting power is snapshotted by block number, so points earned after a
+ * proposal's snapshot cannot be used to vote on it.
+ * Accounts are self-delegated the first time they earn points and may re-delegate at any time.
+ * Points can only be issued by POINTS_ISSUER_ROLE, which is granted to the linked PoWaiCore.
+ */
+contract DaoPoints is AccessControl, Votes {
+    // --- Roles ---
+    bytes32 public constant POINTS_ISSUER_ROLE = keccak256("POINTS_ISSUER_ROLE");
+
+    address public powaiCoreContract;
+    mapping(address => uint256) private _points;
+
+    event DaoPointsIssued(address indexed account, uint256 amount);
+    event PoWaiCoreContractSet(address indexed coreAddress);
+
+    constructor() EIP712("ChronoFuel DAO Points", "1") {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+    }
+
+    /**
+     * @dev Sets the PoWaiCore contract and grants it POINTS_ISSUER_ROLE.
+     * Can only be called once by an admin.
+     * @param _powaiCoreAddress The address of the PoWaiCore contract.
+     */
+    function setPoWaiCoreContract(address _powaiCoreAddress) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_powaiCoreAddress != address(0), "DaoPoints: Zero address not allowed for PoWaiCore");
+        require(powaiCoreContract == address(0) || powaiCoreContract == _powaiCoreAddress, "DaoPoints: PoWaiCore address already set or invalid update");
+        powaiCoreContract = _powaiCoreAddress;
+        _grantRole(POINTS_ISSUER_ROLE, _powaiCoreAddress);
+        emit PoWaiCoreContractSet(_powaiCoreAddress);
+    }
+
+    /**
+     * @dev Credits `amount` DAO points to `account` and checkpoints the voting power of its delegate.
+     * @param account The account that earned the points.
+     * @param amount The number of points earned.
+     */
+    function issue(address account, uint256 amount) external onlyRole(POINTS_ISSUER_ROLE) {
+        require(account != address(0), "DaoPoints: Zero address not allowed");
+        require(amount > 0, "DaoPoints: Amount must be positive");
+        if (delegates(account) == address(0)) {
+            _delegate(account, account);
+        }
+        _points[account] = _points[account] + amount;
+        _transferVotingUnits(address(0), account, amount);
+        emit DaoPointsIssued(account, amount);
+    }
+
+    /**
+     * @dev Returns the DAO points `account` has earned (independent of delegation).
+     */
+    function pointsOf(address account) public view returns (uint256) {
+        return _points[account];
+    }
+
+    /**
+     * @dev Returns the total DAO points issued so far.
+     */
+    function totalPoints() public view returns (uint256) {
+        return _getTotalSupply();
+    }
+
+    function _getVotingUnits(address account) internal view override returns (uint256) {
+        return _points[account];
+    }
+}
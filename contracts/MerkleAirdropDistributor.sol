@@ -0,0 +1,81 @@
+// contracts/MerkleAirdropDistributor.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/structs/BitMaps.sol";
+
+/**
+ * @title MerkleAirdropDistributor
+ * @dev Pays out a partner token drop to CFL burners according to a Merkle root built from
+ * PoWaiCore `airdropRights` (see scripts/airdrop/buildAirdrop.ts).
+ * Leaves are keccak256(abi.encodePacked(index, account, amount)) and pairs are hashed in sorted
+ * order, as expected by OpenZeppelin's MerkleProof. Each index can be claimed once, by anyone,
+ * on behalf of its account. After `expiry` claims close and an admin can sweep what is left.
+ */
+contract MerkleAirdropDistributor is AccessControl {
+    using SafeERC20 for IERC20;
+    using BitMaps for BitMaps.BitMap;
+
+    IERC20 public immutable token;
+    bytes32 public immutable merkleRoot;
+    uint256 public immutable expiry; // Timestamp after which claims close
+
+    BitMaps.BitMap private claimedIndexes;
+
+    event Claimed(uint256 indexed index, address indexed account, uint256 amount);
+    event Swept(address indexed to, uint256 amount);
+
+    /**
+     * @dev Constructor. The distributor must be funded with `token` after deployment.
+     * @param _token The token being distributed.
+     * @param _merkleRoot The root of the (index, account, amount) Merkle tree.
+     * @param _expiry The timestamp after which claims close and the remainder can be swept.
+     */
+    constructor(address _token, bytes32 _merkleRoot, uint256 _expiry) {
+        require(_token != address(0), "MerkleAirdropDistributor: Token address cannot be zero");
+        require(_expiry > block.timestamp, "MerkleAirdropDistributor: Expiry must be in the future");
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        token = IERC20(_token);
+        merkleRoot = _merkleRoot;
+        expiry = _expiry;
+    }
+
+    function isClaimed(uint256 index) public view returns (bool) {
+        return claimedIndexes.get(index);
+    }
+
+    /**
+     * @dev Transfers `amount` tokens to `account` if (index, account, amount) is in the tree.
+     * @param index The leaf index from the proofs file.
+     * @param account The account entitled to the tokens.
+     * @param amount The amount of tokens to transfer.
+     * @param merkleProof The sibling hashes from the leaf up to the root.
+     */
+    function claim(uint256 index, address account, uint256 amount, bytes32[] calldata merkleProof) external {
+        require(block.timestamp <= expiry, "MerkleAirdropDistributor: Claim period has ended");
+        require(!isClaimed(index), "MerkleAirdropDistributor: Already claimed");
+
+        bytes32 leaf = keccak256(abi.encodePacked(index, account, amount));
+        require(MerkleProof.verifyCalldata(merkleProof, merkleRoot, leaf), "MerkleAirdropDistributor: Invalid proof");
+
+        claimedIndexes.set(index);
+        token.safeTransfer(account, amount);
+        emit Claimed(index, account, amount);
+    }
+
+    /**
+     * @dev Sends the unclaimed remainder to `to` once the claim period has ended.
+     * @param to The address receiving the remaining tokens.
+     */
+    function sweep(address to) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(block.timestamp > expiry, "MerkleAirdropDistributor: Claim period not ended");
+        require(to != address(0), "MerkleAirdropDistributor: Zero address not allowed");
+        uint256 remaining = token.balanceOf(address(this));
+        token.safeTransfer(to, remaining);
+        emit Swept(to, remaining);
+    }
+}
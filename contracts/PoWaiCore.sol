@@ -3,36 +3,86 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
 // <<<--- แก้ไขตรงนี้: เปลี่ยน "openzeppelin-contracts/" ออกไป
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol"; 
-import "hardhat/console.sol"; 
+import "./proxy/PoWaiUpgradeable.sol";
+import "./interfaces/IRandomnessProvider.sol";
+import "./libraries/PoWaiRewardMath.sol";
 
 // Interface for the ChronoFuel token to access its specific functions
 interface IChronoFuel is IERC20 {
-    function _mintTokens(address to, uint256 amount) external;
+    function _mintTokens(address to, uint256 amount) external returns (bool minted);
+    function pauseMinting() external;
+    function mintingPaused() external view returns (bool);
     function burn(uint256 amount) external;
     function burnFrom(address from, uint256 amount) external;
+    function burnFor(address account, uint256 amount) external;
     function getUserBurnedAmount(address user) external view returns (uint256);
     function totalSupply() external view returns (uint256);
+    function remainingSupply() external view returns (uint256);
+}
+
+// Interface for the opt-in ERC-721 burn certificates
+interface IBurnCertificateNFT {
+    function mintCertificate(
+        address burner,
+        uint256 burnRecordIndex,
+        uint256 amountBurned,
+        uint256 mintPowerBeforeBurn,
+        uint256 daoPoints,
+        uint256 airdropRights,
+        uint256 timestamp
+    ) external returns (uint256 tokenId);
+}
+
+// Interface for the DAO points ledger that backs governance voting power
+interface IDaoPoints {
+    function issue(address account, uint256 amount) external;
 }
 
 // Interface for Adaptive Halving contract
 interface IAdaptiveHalving {
-    function grantAntiHalvingShield(address user, address powaiCoreAddress) external;
-    function reduceHalvingRate(uint256 percentageReduction, address powaiCoreAddress) external;
-    function consumeAntiHalvingShield(address user, address powaiCoreAddress) external;
+    function grantAntiHalvingShield(address user) external;
+    function reduceHalvingRate(uint256 percentageReduction) external returns (bool applied);
+    function consumeAntiHalvingShield(address user) external;
+    function checkAndApplyHalving() external;
+    function hasAntiHalvingShield(address user) external view returns (bool);
+    function getEmissionFactor() external view returns (uint256);
+    function remainingEpochBudget() external view returns (uint256);
 }
 
 /**
  * @title PoWaiCore
  * @dev The core contract for the ChronoFuel Proof-of-Wait (PoWai) system.
  * Manages user waiting, staking, burning effects, and reward distribution.
+ * Configuration is restricted to DEFAULT_ADMIN_ROLE; PoWaiCore itself holds MINTER_ROLE on
+ * ChronoFuel and HALVING_OPERATOR_ROLE on AdaptiveHalving once linked.
+ * Reward tiers are drawn from an external IRandomnessProvider: claimReward locks in the
+ * mint power and requests a random word, and the provider's callback settles the claim.
+ * Reward tiers, the wait cap, the cooldown bounds and the burn factor are governed parameters,
+ * tunable by DEFAULT_ADMIN_ROLE (the PoWaiGovernor timelock once governance has taken over).
+ * Besides the liquid stake, users can open time-locked positions (30/90/180/365 days) that earn an
+ * extra lock boost until they unlock; exiting one early burns a penalty.
+ * Users can skip the separate approve with stakeWithPermit/boostBurnWithPermit (EIP-2612), and a
+ * relayer can pay the gas for them through the trusted ERC-2771 forwarder (see setTrustedForwarder).
+ * Rewards respect ChronoFuel's emission limits: the part above the max supply is forfeited and the part
+ * above the current epoch's emission budget is deferred, to be minted later with claimDeferredRewards.
+ * PAUSER_ROLE can pause staking, claiming and burning in an emergency, and they also stop while ChronoFuel's
+ * circuit breaker has halted minting (see paused). Unstaking is never paused so users can always exit.
+ * Claims requested before a pause still settle; while minting is halted their reward is deferred in full.
+ * Deployed behind a PoWaiProxy (UUPS) and set up with initialize; upgrades need DEFAULT_ADMIN_ROLE.
+ * Upgrades must keep the storage layout: only append new state variables (see scripts/upgrades).
  */
-contract PoWaiCore is Ownable, ReentrancyGuard {
+contract PoWaiCore is AccessControl, ReentrancyGuard, IRandomnessConsumer, PoWaiUpgradeable {
     // --- External Contract Instances ---
     IChronoFuel public chronoFuelToken;
     IAdaptiveHalving public adaptiveHalving;
+    IRandomnessProvider public randomnessProvider;
+    IDaoPoints public daoPointsContract;
+    IBurnCertificateNFT public burnCertificateNFT;
+    address public trustedForwarder; // ERC-2771 forwarder (PoWaiForwarder) allowed to relay user calls
 
     // Structure and mapping for Burn Records (replaces NFT for burn certificate)
     struct BurnRecord {
@@ -45,29 +95,33 @@ contract PoWaiCore is Ownable, ReentrancyGuard {
     mapping(address => BurnRecord[]) public userBurnRecords; // Stores all burn records for a user
 
     // --- Constants ---
-    uint256 public constant AHBM_DECIMALS = 10**18;
-    uint256 public constant PRECISION_FACTOR = 10**10; // 10^10 for 10 decimal precision
+    uint256 public constant AHBM_DECIMALS = PoWaiRewardMath.AHBM_DECIMALS;
+    uint256 public constant PRECISION_FACTOR = PoWaiRewardMath.PRECISION_FACTOR; // 10^10 for 10 decimal precision
+
+    uint256 public constant BASE_TIME_REWARD_PER_HOUR_AHBM = PoWaiRewardMath.BASE_TIME_REWARD_PER_HOUR_AHBM; // 1 CFL/ชม. (scaled)
+    uint256 public constant COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS = PoWaiRewardMath.COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS;
+    uint256 public constant BURN_FACTOR_DENOMINATOR = PoWaiRewardMath.BURN_FACTOR_DENOMINATOR;
+    uint256 public constant DAO_POINTS_PER_CFL_BURNED = 4;
 
-    uint256 public constant BASE_TIME_REWARD_PER_HOUR_AHBM = 1 * AHBM_DECIMALS; // 1 CFL/ชม. (scaled)
-    uint256 public constant MAX_WAIT_HOURS = 24;
+    uint256 public constant TIER_COUNT = 4; // Common, Rare, Epic, Legendary
+    uint256 public constant MAX_WAIT_HOURS_LIMIT = 24 * 30;
+    uint256 public constant MAX_COOLDOWN_SECONDS_LIMIT = 1 days;
+    uint256 public constant MAX_TIER_MULTIPLIER_SCALED = 1000; // 100x (scaled by 10)
+    uint256 public constant MAX_BURN_FACTOR_NUMERATOR = 50; // 5.0
 
-    uint256 public constant MIN_COOLDOWN_SECONDS = 1 minutes;
-    uint256 public constant MAX_COOLDOWN_SECONDS = 15 minutes;
-    uint256 public constant COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS = 12;
+    // --- Governed Parameters ---
+    // Tunable by DEFAULT_ADMIN_ROLE, which the governance timelock takes over. Defaults are set in initialize.
+    uint256 public maxWaitHours;
 
-    uint256 public constant BURN_FACTOR_NUMERATOR = 7; // Represents 0.7
-    uint256 public constant BURN_FACTOR_DENOMINATOR = 10; // Represents 0.7
+    uint256 public minCooldownSeconds;
+    uint256 public maxCooldownSeconds;
 
-    uint256 public constant COMMON_PROB = 70;
-    uint256 public constant RARE_PROB = 22;
-    uint256 public constant EPIC_PROB = 7;
-    uint256 public constant LEGENDARY_PROB = 1;
+    uint256 public burnFactorNumerator; // Over BURN_FACTOR_DENOMINATOR
 
+    // Indexed by reward tier id; probabilities are percentages and must sum to 100
+    uint256[4] public tierProbabilities;
     // Multipliers are raw values scaled by 10 for 1 decimal precision
-    uint256 public constant COMMON_MULTIPLIER_SCALED = 10;   // 1.0x (scaled by 10)
-    uint256 public constant RARE_MULTIPLIER_SCALED = 18;    // 1.8x (scaled by 10)
-    uint256 public constant EPIC_MULTIPLIER_SCALED = 35;    // 3.5x (scaled by 10)
-    uint256 public constant LEGENDARY_MULTIPLIER_SCALED = 80; // 8.0x (scaled by 10)
+    uint256[4] public tierMultipliersScaled;
 
 
     // --- User State ---
@@ -76,44 +130,151 @@ contract PoWaiCore is Ownable, ReentrancyGuard {
         uint256 stakedAmount;
     }
     mapping(address => UserData) public userData;
-    uint256 public totalStakedAmount; // Global sum of all staked amounts
+    uint256 public totalStakedAmount; // Global sum of all staked amounts, flexible and locked
+
+    // --- Locked Staking ---
+    // Lock tiers: 0 = 30 days, 1 = 90 days, 2 = 180 days, 3 = 365 days (see getLockTerms).
+    // Locked CFL counts towards the stake boost like flexible stake, and positions that have not
+    // unlocked yet add a lock boost weighted by their share of the user's total stake.
+    uint256 public constant LOCK_TIER_COUNT = 4;
+    uint256 public constant MAX_OPEN_LOCK_POSITIONS = 10; // Bounds the loop in _calculateLockBoost
+    uint256 public constant EARLY_EXIT_PENALTY_MAX_PERCENT = 25; // Charged on a full lock, pro-rated by time remaining
+
+    struct LockPosition {
+        uint256 amount;
+        uint256 lockTierId;
+        uint256 boostPercent; // 100 = 1.0x
+        uint256 startTimestamp;
+        uint256 unlockTimestamp;
+        bool withdrawn;
+    }
+    mapping(address => LockPosition[]) public userLockPositions; // positionId = index, never reused
+    mapping(address => uint256[]) private openLockPositionIds;
+    mapping(address => uint256) public userLockedAmount;
 
     // --- Dynamic Cooldown Tracking ---
+    // Active users are counted in a ring of hourly buckets spanning ACTIVITY_WINDOW. A user is
+    // counted in the bucket of their last activity until that hour leaves the window, and buckets
+    // expire lazily as the ring rolls forward, so every update costs O(1).
     mapping(address => uint256) public userLastActivityTime;
-    address[] private activeUsersList;
-    mapping(address => uint256) private activeUsersIndex;
-    uint256 public activeUsersCount;
     uint256 public constant ACTIVITY_WINDOW = 24 hours;
-
-    // For randomness nonce
-    mapping(address => uint256) private _nonce;
+    uint256 public constant ACTIVITY_BUCKET_SECONDS = 1 hours;
+    uint256 public constant ACTIVITY_BUCKET_COUNT = 24; // ACTIVITY_WINDOW / ACTIVITY_BUCKET_SECONDS
+    uint256[24] private activityBucketCounts; // Indexed by hour % ACTIVITY_BUCKET_COUNT
+    uint256 private activeUsersTotal; // Sum of all bucket counts as of lastActivityRollHour
+    uint256 private lastActivityRollHour; // Last hour the ring was rolled forward to
+
+    // --- Pending Claims (awaiting randomness) ---
+    struct PendingClaim {
+        address user;
+        uint256 timeWaitedSeconds;
+        uint256 stakedAmount;
+        uint256 mintPower; // Effective mint power locked in at request time (10^18 scaled)
+        uint256 cooldownUsed;
+        uint256 halvingFactor; // Scaled by PRECISION_FACTOR
+    }
+    mapping(uint256 => PendingClaim) public pendingClaims; // requestId => claim
+
+    // --- Deferred Rewards ---
+    // Reward a claim could not mint within the epoch emission budget, owed until claimDeferredRewards
+    mapping(address => uint256) public deferredRewards;
+    uint256 public totalDeferredRewards;
+
+    // --- Compounding and Delegated Claims ---
+    // Where a claim's minted reward goes. Requests without a routing pay it out to the user.
+    enum ClaimMode { Payout, Stake, Burn }
+    struct ClaimRouting {
+        ClaimMode mode;
+        uint256 burnPercent; // Share of the minted reward burned for boost, for ClaimMode.Burn
+    }
+    mapping(uint256 => ClaimRouting) public claimRoutings; // requestId => routing, until settled
+    mapping(address => mapping(address => uint256)) public claimOperators; // user => operator => modes it may claim with, bit 1 << ClaimMode
+
+    // --- Emergency Pause ---
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bool private pausedByPauser; // See paused()
+
+    // --- Claim Preview ---
+    struct ClaimPreview {
+        uint256 timeWaitedSeconds;
+        uint256 timeReward; // 10^18 scaled
+        uint256 stakeBoost;
+        uint256 burnBoostScaled; // Scaled by PRECISION_FACTOR
+        uint256 lockBoostScaled; // Scaled by PRECISION_FACTOR
+        uint256 halvingFactor; // Scaled by PRECISION_FACTOR
+        uint256 mintPower; // 10^18 scaled, before the reward tier
+        uint256[4] tierRewards; // Common, Rare, Epic, Legendary
+        uint256 expectedReward; // Probability-weighted average of tierRewards
+        uint256 cooldown; // Cooldown the claim would be checked against
+        uint256 claimableAt;
+        bool canClaim;
+    }
 
     // --- Events ---
     event Staked(address indexed user, uint256 amount);
     event Unstaked(address indexed user, uint256 amount);
+    event LockedStaked(address indexed user, uint256 indexed positionId, uint256 amount, uint256 lockTierId, uint256 unlockTimestamp);
+    event LockedUnstaked(address indexed user, uint256 indexed positionId, uint256 amountReturned, uint256 penaltyBurned);
     event BurnedForBoost(address indexed burner, uint256 amountBurned); // No newNFTId now
-    event RewardClaimed(address indexed user, uint256 timeWaitedSeconds, uint256 stakedAmount, uint256 baseMintPower, uint256 finalReward, uint256 rewardTierId, uint256 cooldownUsed);
+    // finalReward is the drawn reward: mintedReward was minted, deferredReward is owed and the rest hit the max supply.
+    // remainingEpochBudget and remainingSupply are the emission limits left after the claim.
+    event RewardClaimed(address indexed user, uint256 indexed requestId, uint256 timeWaitedSeconds, uint256 stakedAmount, uint256 baseMintPower, uint256 finalReward, uint256 rewardTierId, uint256 cooldownUsed, uint256 halvingFactor, uint256 mintedReward, uint256 deferredReward, uint256 remainingEpochBudget, uint256 remainingSupply); // halvingFactor scaled by PRECISION_FACTOR
+    event DeferredRewardsClaimed(address indexed user, uint256 mintedReward, uint256 stillDeferred);
+    event RewardRequested(address indexed user, uint256 indexed requestId, uint256 mintPower);
+    event PendingClaimDiscarded(address indexed user, uint256 indexed requestId);
+    event ClaimRouted(address indexed user, address indexed caller, uint256 indexed requestId, ClaimMode mode, uint256 burnPercent); // Compounding or operator claims
+    event RewardStaked(address indexed user, uint256 indexed requestId, uint256 amount); // claimAndStake settled
+    event RewardBurned(address indexed user, uint256 indexed requestId, uint256 amountBurned, uint256 amountPaidOut, uint256 burnRecordIndex); // claimAndBurn settled
+    event ClaimOperatorUpdated(address indexed user, address indexed operator, uint256 allowedModes);
     event ChronoFuelTokenSet(address indexed tokenAddress);
     event AdaptiveHalvingSet(address indexed halvingAddress);
+    event RandomnessProviderSet(address indexed providerAddress);
+    event DaoPointsContractSet(address indexed daoPointsAddress);
+    event BurnCertificateNFTSet(address indexed certificateAddress);
+    event TrustedForwarderSet(address indexed forwarderAddress);
+    event BurnCertificateMinted(address indexed burner, uint256 burnRecordIndex, uint256 indexed tokenId);
+    event MaxWaitHoursUpdated(uint256 maxWaitHours);
+    event CooldownBoundsUpdated(uint256 minCooldownSeconds, uint256 maxCooldownSeconds);
+    event BurnFactorNumeratorUpdated(uint256 burnFactorNumerator);
+    event RewardTiersUpdated(uint256[4] probabilities, uint256[4] multipliersScaled);
+    event Paused(address account);
+    event Unpaused(address account);
+
+    modifier whenNotPaused() {
+        _requireNotPaused();
+        _;
+    }
+
+    constructor() {
+        _disableInitializers();
+    }
 
     /**
-     * @dev Constructor. Sets the initial ChronoFuel token address.
+     * @dev Initializes the proxy. Sets the initial ChronoFuel token address and the governed parameter defaults.
+     * Grants DEFAULT_ADMIN_ROLE and PAUSER_ROLE to the caller.
      * @param _chronoFuelTokenAddress The address of the ChronoFuel (CFL) token contract.
      */
-    constructor(address _chronoFuelTokenAddress) Ownable(msg.sender) {
-        console.log("Contract Deploy: PoWaiCore constructor"); console.logAddress(_chronoFuelTokenAddress); 
+    function initialize(address _chronoFuelTokenAddress) public initializer {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
         require(_chronoFuelTokenAddress != address(0), "PoWaiCore: ChronoFuel token address cannot be zero");
         chronoFuelToken = IChronoFuel(_chronoFuelTokenAddress);
         emit ChronoFuelTokenSet(_chronoFuelTokenAddress);
+
+        maxWaitHours = 24;
+        minCooldownSeconds = 1 minutes;
+        maxCooldownSeconds = 15 minutes;
+        burnFactorNumerator = 7; // 0.7
+        tierProbabilities = [uint256(70), 22, 7, 1];
+        tierMultipliersScaled = [uint256(10), 18, 35, 80]; // 1.0x, 1.8x, 3.5x, 8.0x
     }
 
     /**
      * @dev Sets the address of the ChronoFuel token contract.
-     * Can only be called once by the owner and if not already set.
+     * Can only be called once by an admin and if not already set.
      * @param _tokenAddress The address of the ChronoFuel token contract.
      */
-    function setChronoFuelToken(address _tokenAddress) public onlyOwner {
-        console.log("setChronoFuelToken:"); console.logAddress(_tokenAddress); 
+    function setChronoFuelToken(address _tokenAddress) public onlyRole(DEFAULT_ADMIN_ROLE) {
         require(_tokenAddress != address(0), "PoWaiCore: Zero address not allowed");
         require(address(chronoFuelToken) == address(0) || address(chronoFuelToken) == _tokenAddress, "PoWaiCore: ChronoFuel token already set or invalid update");
         chronoFuelToken = IChronoFuel(_tokenAddress);
@@ -124,26 +285,177 @@ contract PoWaiCore is Ownable, ReentrancyGuard {
      * @dev Sets the address of the Adaptive Halving contract.
      * @param _halvingAddress The address of the Adaptive Halving contract.
      */
-    function setAdaptiveHalving(address _halvingAddress) public onlyOwner {
-        console.log("setAdaptiveHalving:"); console.logAddress(_halvingAddress); 
+    function setAdaptiveHalving(address _halvingAddress) public onlyRole(DEFAULT_ADMIN_ROLE) {
         require(_halvingAddress != address(0), "PoWaiCore: Zero address not allowed for Halving contract");
         require(address(adaptiveHalving) == address(0) || address(adaptiveHalving) == _halvingAddress, "PoWaiCore: Adaptive Halving already set or invalid update");
         adaptiveHalving = IAdaptiveHalving(_halvingAddress);
         emit AdaptiveHalvingSet(_halvingAddress);
     }
 
+    /**
+     * @dev Sets the randomness provider used to draw reward tiers.
+     * May be replaced by an admin (e.g. to migrate VRF coordinators); claims already
+     * requested from the previous provider can no longer be fulfilled. If the new provider
+     * reuses their request ids, clear them with discardPendingClaim.
+     * @param _providerAddress The address of the IRandomnessProvider contract.
+     */
+    function setRandomnessProvider(address _providerAddress) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_providerAddress != address(0), "PoWaiCore: Zero address not allowed for randomness provider");
+        randomnessProvider = IRandomnessProvider(_providerAddress);
+        emit RandomnessProviderSet(_providerAddress);
+    }
+
+    /**
+     * @dev Drops a pending claim a replaced randomness provider will never fulfil, freeing its request id
+     * (and routing) for the current provider. The claim's reward is forfeited; the cooldown it used stays spent.
+     * @param requestId The stale request.
+     */
+    function discardPendingClaim(uint256 requestId) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        address userAddress = pendingClaims[requestId].user;
+        require(userAddress != address(0), "PoWaiCore: Unknown or settled request");
+        delete pendingClaims[requestId];
+        delete claimRoutings[requestId];
+        emit PendingClaimDiscarded(userAddress, requestId);
+    }
+
+    /**
+     * @dev Sets the DAO points ledger credited on every boostBurn.
+     * Can only be called once by an admin. Burns made before it is set earn no voting power.
+     * @param _daoPointsAddress The address of the DaoPoints contract.
+     */
+    function setDaoPointsContract(address _daoPointsAddress) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_daoPointsAddress != address(0), "PoWaiCore: Zero address not allowed for DAO points");
+        require(address(daoPointsContract) == address(0) || address(daoPointsContract) == _daoPointsAddress, "PoWaiCore: DAO points already set or invalid update");
+        daoPointsContract = IDaoPoints(_daoPointsAddress);
+        emit DaoPointsContractSet(_daoPointsAddress);
+    }
+
+    /**
+     * @dev Sets the BurnCertificateNFT contract used by boostBurnWithCertificate.
+     * Can only be called once by an admin.
+     * @param _certificateAddress The address of the BurnCertificateNFT contract.
+     */
+    function setBurnCertificateNFT(address _certificateAddress) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_certificateAddress != address(0), "PoWaiCore: Zero address not allowed for burn certificates");
+        require(address(burnCertificateNFT) == address(0) || address(burnCertificateNFT) == _certificateAddress, "PoWaiCore: Burn certificates already set or invalid update");
+        burnCertificateNFT = IBurnCertificateNFT(_certificateAddress);
+        emit BurnCertificateNFTSet(_certificateAddress);
+    }
+
+    /**
+     * @dev Sets the ERC-2771 forwarder that may relay calls on behalf of users.
+     * Can only be called once by an admin. Calls through the forwarder act as the signer of the
+     * forwarded request, for user functions and role-gated functions alike.
+     * @param _forwarderAddress The address of the PoWaiForwarder contract.
+     */
+    function setTrustedForwarder(address _forwarderAddress) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_forwarderAddress != address(0), "PoWaiCore: Zero address not allowed for forwarder");
+        require(trustedForwarder == address(0) || trustedForwarder == _forwarderAddress, "PoWaiCore: Trusted forwarder already set or invalid update");
+        trustedForwarder = _forwarderAddress;
+        emit TrustedForwarderSet(_forwarderAddress);
+    }
+
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+
+    // --- Emergency Pause ---
+
+    /**
+     * @dev Pauses staking, claiming and burning. Unstaking stays open. Claims already requested still settle,
+     * but their whole reward is deferred, to be minted by claimDeferredRewards once unpaused.
+     */
+    function pause() public onlyRole(PAUSER_ROLE) {
+        pausedByPauser = true;
+        emit Paused(_msgSender());
+    }
+
+    /**
+     * @dev Lifts a pause. Only DEFAULT_ADMIN_ROLE (governance) can, so a guardian cannot undo its own pause.
+     */
+    function unpause() public onlyRole(DEFAULT_ADMIN_ROLE) {
+        pausedByPauser = false;
+        emit Unpaused(_msgSender());
+    }
+
+    /**
+     * @dev Whether stake, stakeLocked, claims, boostBurn and claimDeferredRewards are halted: PoWaiCore is
+     * paused, or ChronoFuel's circuit breaker (or a pauser) has halted minting.
+     */
+    function paused() public view returns (bool) {
+        return pausedByPauser || chronoFuelToken.mintingPaused();
+    }
+
+    function _requireNotPaused() internal view {
+        require(!paused(), "PoWaiCore: Paused");
+    }
+
+    // --- Governed Parameter Setters ---
+
+    /**
+     * @dev Sets the number of waited hours after which the time reward stops growing.
+     */
+    function setMaxWaitHours(uint256 _maxWaitHours) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_maxWaitHours > 0 && _maxWaitHours <= MAX_WAIT_HOURS_LIMIT, "PoWaiCore: Invalid max wait hours");
+        maxWaitHours = _maxWaitHours;
+        emit MaxWaitHoursUpdated(_maxWaitHours);
+    }
+
+    /**
+     * @dev Sets the bounds the dynamic cooldown is clamped to.
+     */
+    function setCooldownBounds(uint256 _minCooldownSeconds, uint256 _maxCooldownSeconds) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_minCooldownSeconds > 0 && _minCooldownSeconds <= _maxCooldownSeconds, "PoWaiCore: Invalid cooldown bounds");
+        require(_maxCooldownSeconds <= MAX_COOLDOWN_SECONDS_LIMIT, "PoWaiCore: Max cooldown too long");
+        minCooldownSeconds = _minCooldownSeconds;
+        maxCooldownSeconds = _maxCooldownSeconds;
+        emit CooldownBoundsUpdated(_minCooldownSeconds, _maxCooldownSeconds);
+    }
+
+    /**
+     * @dev Sets the burn boost coefficient (over BURN_FACTOR_DENOMINATOR).
+     */
+    function setBurnFactorNumerator(uint256 _burnFactorNumerator) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_burnFactorNumerator <= MAX_BURN_FACTOR_NUMERATOR, "PoWaiCore: Burn factor too high");
+        burnFactorNumerator = _burnFactorNumerator;
+        emit BurnFactorNumeratorUpdated(_burnFactorNumerator);
+    }
+
+    /**
+     * @dev Sets the probability (percent) and multiplier (scaled by 10) of every reward tier,
+     * indexed by tier id (Common, Rare, Epic, Legendary).
+     */
+    function setRewardTiers(uint256[4] calldata _probabilities, uint256[4] calldata _multipliersScaled) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        uint256 totalProbability;
+        for (uint256 i = 0; i < TIER_COUNT; i++) {
+            require(_multipliersScaled[i] > 0 && _multipliersScaled[i] <= MAX_TIER_MULTIPLIER_SCALED, "PoWaiCore: Invalid tier multiplier");
+            totalProbability = totalProbability + _probabilities[i];
+        }
+        require(totalProbability == 100, "PoWaiCore: Tier probabilities must sum to 100");
+        tierProbabilities = _probabilities;
+        tierMultipliersScaled = _multipliersScaled;
+        emit RewardTiersUpdated(_probabilities, _multipliersScaled);
+    }
+
     /**
      * @dev Allows a user to stake CFL tokens.
      * Users must approve this contract to spend their tokens first.
      * @param amount The amount of CFL to stake.
      */
-    function stake(uint256 amount) public nonReentrant {
-        console.log("stake: amount"); console.logUint(amount); 
+    function stake(uint256 amount) public nonReentrant whenNotPaused {
         require(amount > 0, "PoWaiCore: Stake amount must be positive");
-        require(chronoFuelToken.transferFrom(msg.sender, address(this), amount), "PoWaiCore: CFL transfer failed");
-        userData[msg.sender].stakedAmount = userData[msg.sender].stakedAmount + amount;
+        require(chronoFuelToken.transferFrom(_msgSender(), address(this), amount), "PoWaiCore: CFL transfer failed");
+        userData[_msgSender()].stakedAmount = userData[_msgSender()].stakedAmount + amount;
         totalStakedAmount = totalStakedAmount + amount;
-        emit Staked(msg.sender, amount);
+        emit Staked(_msgSender(), amount);
+    }
+
+    /**
+     * @dev Same as stake, with an EIP-2612 permit for the CFL instead of a prior approve.
+     * @param amount The amount of CFL to stake; the permit must cover at least this amount.
+     * @param deadline The permit deadline.
+     */
+    function stakeWithPermit(uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s) public {
+        _permitChronoFuel(amount, deadline, v, r, s);
+        stake(amount);
     }
 
     /**
@@ -151,113 +463,420 @@ contract PoWaiCore is Ownable, ReentrancyGuard {
      * @param amount The amount of CFL to unstake.
      */
     function unstake(uint256 amount) public nonReentrant {
-        console.log("unstake: amount"); console.logUint(amount); 
         require(amount > 0, "PoWaiCore: Unstake amount must be positive");
-        require(userData[msg.sender].stakedAmount >= amount, "PoWaiCore: Insufficient staked amount");
-        userData[msg.sender].stakedAmount = userData[msg.sender].stakedAmount - amount;
+        require(userData[_msgSender()].stakedAmount >= amount, "PoWaiCore: Insufficient staked amount");
+        userData[_msgSender()].stakedAmount = userData[_msgSender()].stakedAmount - amount;
         totalStakedAmount = totalStakedAmount - amount;
-        require(chronoFuelToken.transfer(msg.sender, amount), "PoWaiCore: CFL transfer failed");
-        emit Unstaked(msg.sender, amount);
+        require(chronoFuelToken.transfer(_msgSender(), amount), "PoWaiCore: CFL transfer failed");
+        emit Unstaked(_msgSender(), amount);
+    }
+
+    /**
+     * @dev Stakes CFL in a new position locked for the duration of `lockTierId`.
+     * Users must approve this contract to spend their tokens first.
+     * @param amount The amount of CFL to lock.
+     * @param lockTierId 0 = 30 days, 1 = 90 days, 2 = 180 days, 3 = 365 days.
+     * @return positionId The index of the new position in userLockPositions[msg.sender].
+     */
+    function stakeLocked(uint256 amount, uint256 lockTierId) public nonReentrant whenNotPaused returns (uint256 positionId) {
+        require(amount > 0, "PoWaiCore: Stake amount must be positive");
+        require(openLockPositionIds[_msgSender()].length < MAX_OPEN_LOCK_POSITIONS, "PoWaiCore: Too many open lock positions");
+        (uint256 lockDuration, uint256 boostPercent) = getLockTerms(lockTierId);
+        require(chronoFuelToken.transferFrom(_msgSender(), address(this), amount), "PoWaiCore: CFL transfer failed");
+
+        positionId = userLockPositions[_msgSender()].length;
+        userLockPositions[_msgSender()].push(LockPosition({
+            amount: amount,
+            lockTierId: lockTierId,
+            boostPercent: boostPercent,
+            startTimestamp: block.timestamp,
+            unlockTimestamp: block.timestamp + lockDuration,
+            withdrawn: false
+        }));
+        openLockPositionIds[_msgSender()].push(positionId);
+        userLockedAmount[_msgSender()] = userLockedAmount[_msgSender()] + amount;
+        totalStakedAmount = totalStakedAmount + amount;
+        emit LockedStaked(_msgSender(), positionId, amount, lockTierId, block.timestamp + lockDuration);
+    }
+
+    /**
+     * @dev Closes a lock position and returns its CFL. Before the unlock time, an early-exit
+     * penalty is burned (counted in ChronoFuel's totalGlobalBurned) and the rest is returned.
+     * @param positionId The position to close.
+     */
+    function unstakeLocked(uint256 positionId) public nonReentrant {
+        require(positionId < userLockPositions[_msgSender()].length, "PoWaiCore: Unknown lock position");
+        LockPosition storage position = userLockPositions[_msgSender()][positionId];
+        require(!position.withdrawn, "PoWaiCore: Lock position already withdrawn");
+
+        (uint256 amountReturned, uint256 penalty) = previewUnstakeLocked(_msgSender(), positionId);
+        position.withdrawn = true;
+        _removeOpenLockPosition(_msgSender(), positionId);
+        userLockedAmount[_msgSender()] = userLockedAmount[_msgSender()] - position.amount;
+        totalStakedAmount = totalStakedAmount - position.amount;
+
+        if (penalty > 0) {
+            chronoFuelToken.burn(penalty); // Burns from this contract's balance, which holds the stake
+        }
+        require(chronoFuelToken.transfer(_msgSender(), amountReturned), "PoWaiCore: CFL transfer failed");
+        emit LockedUnstaked(_msgSender(), positionId, amountReturned, penalty);
+    }
+
+    /**
+     * @dev Returns what unstakeLocked would pay out and burn for a position at the current block.
+     * The penalty is EARLY_EXIT_PENALTY_MAX_PERCENT of the amount, pro-rated by the share of the
+     * lock duration still remaining, and zero once the position has unlocked.
+     */
+    function previewUnstakeLocked(address user, uint256 positionId) public view returns (uint256 amountReturned, uint256 penalty) {
+        LockPosition storage position = userLockPositions[user][positionId];
+        if (position.withdrawn) {
+            return (0, 0);
+        }
+        if (block.timestamp < position.unlockTimestamp) {
+            uint256 remaining = position.unlockTimestamp - block.timestamp;
+            uint256 lockDuration = position.unlockTimestamp - position.startTimestamp;
+            penalty = (position.amount * EARLY_EXIT_PENALTY_MAX_PERCENT * remaining) / (100 * lockDuration);
+        }
+        amountReturned = position.amount - penalty;
+    }
+
+    /**
+     * @dev Returns the lock duration and boost (100 = 1.0x) of a lock tier.
+     */
+    function getLockTerms(uint256 lockTierId) public pure returns (uint256 lockDuration, uint256 boostPercent) {
+        if (lockTierId == 0) return (30 days, 110);
+        if (lockTierId == 1) return (90 days, 125);
+        if (lockTierId == 2) return (180 days, 150);
+        if (lockTierId == 3) return (365 days, 200);
+        revert("PoWaiCore: Invalid lock tier");
     }
 
     /**
      * @dev Core function to claim PoWai rewards.
-     * Includes time tracking, staking boost, burn boost, dynamic cooldown, and random rewards.
+     * Includes time tracking, staking boost, burn boost, dynamic cooldown and the halving factor.
+     * The resulting mint power is locked in and a random word is requested; the reward tier is
+     * applied and CFL is minted when the randomness provider calls fulfillRandomness.
+     * @return requestId The randomness request that will settle this claim.
      */
-    function claimReward() public nonReentrant {
-        UserData storage user = userData[msg.sender];
-        console.log("claimReward called by:"); console.logAddress(msg.sender); 
+    function claimReward() public nonReentrant returns (uint256 requestId) {
+        return _requestClaim(_msgSender());
+    }
 
-        require(user.stakedAmount > 0, "PoWaiCore: No active stake found"); 
+    /**
+     * @dev Same as claimReward, but the minted reward is added to the caller's flexible stake.
+     * @return requestId The randomness request that will settle this claim.
+     */
+    function claimAndStake() public nonReentrant returns (uint256 requestId) {
+        requestId = _requestClaim(_msgSender());
+        _routeClaim(requestId, _msgSender(), ClaimMode.Stake, 0);
+    }
 
-        _updateActiveUsers(msg.sender);
+    /**
+     * @dev Same as claimReward, but `burnPercent` of the minted reward is burned for boost, with a
+     * BurnRecord and DAO points as boostBurn gives, and the rest is paid out.
+     * @param burnPercent Share of the minted reward to burn, 1-100.
+     * @return requestId The randomness request that will settle this claim.
+     */
+    function claimAndBurn(uint256 burnPercent) public nonReentrant returns (uint256 requestId) {
+        requestId = _requestClaim(_msgSender());
+        _routeClaim(requestId, _msgSender(), ClaimMode.Burn, burnPercent);
+    }
+
+    /**
+     * @dev Lets `operator` (an address or a contract) claim, and claim and compound, on the caller's behalf,
+     * with the claim modes in `allowedModes`. Operators never hold the rewards: they are paid out to, staked
+     * for or burned for the user.
+     * @param operator The address to approve or revoke.
+     * @param allowedModes Bitmask of the ClaimModes `operator` may use, bit `1 << mode` each; 0 revokes it.
+     */
+    function setClaimOperator(address operator, uint256 allowedModes) public {
+        require(operator != address(0), "PoWaiCore: Invalid operator address");
+        require(allowedModes >> (uint256(type(ClaimMode).max) + 1) == 0, "PoWaiCore: Invalid claim modes");
+        claimOperators[_msgSender()][operator] = allowedModes;
+        emit ClaimOperatorUpdated(_msgSender(), operator, allowedModes);
+    }
+
+    /**
+     * @dev claimReward (Payout), claimAndStake (Stake) or claimAndBurn (Burn) for `userAddress`,
+     * who must have approved the caller for `mode` with setClaimOperator.
+     * @param userAddress The user to claim for; the reward goes to them.
+     * @param mode Where the minted reward goes.
+     * @param burnPercent Share of the minted reward to burn for ClaimMode.Burn, 1-100; ignored otherwise.
+     * @return requestId The randomness request that will settle this claim.
+     */
+    function claimFor(address userAddress, ClaimMode mode, uint256 burnPercent) public nonReentrant returns (uint256 requestId) {
+        require(claimOperators[userAddress][_msgSender()] & (1 << uint256(mode)) != 0, "PoWaiCore: Not an approved claim operator");
+        requestId = _requestClaim(userAddress);
+        _routeClaim(requestId, userAddress, mode, mode == ClaimMode.Burn ? burnPercent : 0);
+    }
+
+    /**
+     * @dev Locks in the mint power of `userAddress`'s claim and requests the random word that settles it.
+     * Every claim path goes through here, so they all share the user's cooldown.
+     */
+    function _requestClaim(address userAddress) internal returns (uint256 requestId) {
+        _requireNotPaused();
+        UserData storage user = userData[userAddress];
+
+        uint256 totalUserStake = getUserTotalStakedAmount(userAddress);
+        require(totalUserStake > 0, "PoWaiCore: No active stake found"); 
+        require(address(randomnessProvider) != address(0), "PoWaiCore: Randomness provider not set");
+
+        _updateActiveUsers(userAddress);
         uint256 effectiveCooldown = getEffectiveCooldown();
-        console.log("Cooldown debug: current_ts"); console.logUint(block.timestamp); 
-        console.log("Cooldown debug: last_claim_ts"); console.logUint(user.lastClaimTimestamp); 
-        console.log("Cooldown debug: cooldown"); console.logUint(effectiveCooldown); 
-        console.log("Cooldown debug: required_ts"); console.logUint(user.lastClaimTimestamp + effectiveCooldown); 
 
         require(block.timestamp >= user.lastClaimTimestamp + effectiveCooldown, "PoWaiCore: Cooldown not yet passed");
 
         uint256 timeSinceLastClaim = block.timestamp - user.lastClaimTimestamp;
-        
-        // Adjust timeReward calculation to be more precise and always yield a non-zero reward if time has passed
-        uint256 timeReward = (timeSinceLastClaim * BASE_TIME_REWARD_PER_HOUR_AHBM) / (1 hours);
-        if (timeReward > BASE_TIME_REWARD_PER_HOUR_AHBM * MAX_WAIT_HOURS) { // Cap reward at max hours
-            timeReward = BASE_TIME_REWARD_PER_HOUR_AHBM * MAX_WAIT_HOURS;
-        }
-        if (timeSinceLastClaim > 0 && timeReward == 0) { // Ensure minimum reward if time passed but calculation results in 0
-            timeReward = 1; // Smallest possible non-zero unit (e.g., 1 Wei)
-        }
-        console.log("Reward calc: timeSinceLastClaim:"); console.logUint(timeSinceLastClaim); 
-        console.log("Reward calc: timeReward (scaled):"); console.logUint(timeReward); 
-
-
-        uint256 stakeBoostFactor = _calculateStakeBoost(user.stakedAmount);
-        uint256 userBurned = chronoFuelToken.getUserBurnedAmount(msg.sender); // In AHBM_DECIMALS (10^18)
-        console.log("Reward calc: userBurned (10^18 scaled):"); console.logUint(userBurned); 
-
-        uint256 burnFactorComponent;
-        if (userBurned > 0) {
-            // Convert userBurned from AHBM_DECIMALS (10^18) to base units
-            uint256 userBurnedBaseUnits = userBurned / AHBM_DECIMALS; 
-            console.log("Reward calc: userBurnedBaseUnits:", userBurnedBaseUnits); 
-
-            // Calculate sqrt(userBurned_base_units) scaled by PRECISION_FACTOR
-            // x = userBurnedBaseUnits * PRECISION_FACTOR^2 => sqrt(x) = sqrt(userBurnedBaseUnits) * PRECISION_FACTOR
-            uint256 userBurnedScaledForSqrt = userBurnedBaseUnits * PRECISION_FACTOR * PRECISION_FACTOR;
-            console.log("Reward calc: userBurnedScaledForSqrt (input to sqrt):"); console.logUint(userBurnedScaledForSqrt); 
-
-            uint256 sqrtValScaled = _integerSqrt(userBurnedScaledForSqrt); // Result is sqrt(userBurned_base_units) * PRECISION_FACTOR
-            console.log("Reward calc: sqrtValScaled (output from sqrt):"); console.logUint(sqrtValScaled); 
-            
-            // burnFactorComponent = (0.7 * sqrt(userBurned_base_units)) * PRECISION_FACTOR
-            // This is the correct scaling for addition with PRECISION_FACTOR
-            burnFactorComponent = (BURN_FACTOR_NUMERATOR * sqrtValScaled) / BURN_FACTOR_DENOMINATOR;
-            console.log("Reward calc: burnFactorComponent (final scaled):"); console.logUint(burnFactorComponent); 
-        } else {
-            burnFactorComponent = 0;
-        }
+        (uint256 timeReward, uint256 stakeBoostFactor, uint256 totalBurnBoostScaled, uint256 lockBoostScaled) =
+            _claimBoosts(userAddress, totalUserStake, timeSinceLastClaim);
+
+        // Scale by the cumulative halving schedule (an Anti-Halving Shield exempts this claim)
+        uint256 halvingFactor = _consumeHalvingFactor(userAddress);
+        uint256 effectiveMintPower = PoWaiRewardMath.mintPower(timeReward, stakeBoostFactor, totalBurnBoostScaled, lockBoostScaled, halvingFactor);
+
+        user.lastClaimTimestamp = block.timestamp;
+
+        requestId = randomnessProvider.requestRandomness();
+        // A replaced provider may restart its ids; never let a new claim take over a stale one
+        require(pendingClaims[requestId].user == address(0), "PoWaiCore: Request id already pending");
+        delete claimRoutings[requestId]; // Plain claims have no routing; _routeClaim sets one for the others
+        pendingClaims[requestId] = PendingClaim({
+            user: userAddress,
+            timeWaitedSeconds: timeSinceLastClaim,
+            stakedAmount: totalUserStake,
+            mintPower: effectiveMintPower,
+            cooldownUsed: effectiveCooldown,
+            halvingFactor: halvingFactor
+        });
+
+        emit RewardRequested(userAddress, requestId, effectiveMintPower);
+    }
 
-        uint256 totalBurnBoostScaled = PRECISION_FACTOR + burnFactorComponent;
-        console.log("Reward calc: totalBurnBoostScaled:", totalBurnBoostScaled); 
+    /**
+     * @dev Records where the reward of request `requestId` goes, for claims that do not simply pay out
+     * or that an operator requested, and announces it with ClaimRouted. Every mode is written, Payout included.
+     * Kept apart from _requestClaim so the optimizer does not specialize that for every claim path.
+     */
+    function _routeClaim(uint256 requestId, address userAddress, ClaimMode mode, uint256 burnPercent) internal {
+        require(mode != ClaimMode.Burn || (burnPercent > 0 && burnPercent <= 100), "PoWaiCore: Burn percent must be 1-100");
+        claimRoutings[requestId] = ClaimRouting({mode: mode, burnPercent: burnPercent});
+        emit ClaimRouted(userAddress, _msgSender(), requestId, mode, burnPercent);
+    }
 
-        uint256 baseMintPower = timeReward * stakeBoostFactor; // timeReward is 10^18 scaled
-        console.log("Reward calc: baseMintPower (time * stake, 10^18 scaled):", baseMintPower); 
+    /**
+     * @dev Previews what claimReward would lock in for `userAddress` at the current block, with the
+     * PoWaiRewardMath functions claims use, without minting, consuming a shield or requesting randomness.
+     * The cooldown counts the user as active, as claimReward would.
+     * @param userAddress The user to preview the claim for.
+     */
+    function previewClaim(address userAddress) public view returns (ClaimPreview memory preview) {
+        uint256 lastClaimTimestamp = userData[userAddress].lastClaimTimestamp;
+        uint256 totalUserStake = getUserTotalStakedAmount(userAddress);
+
+        preview.cooldown = _cooldownForActiveUsers(activeUsersCount() + (isUserActive(userAddress) ? 0 : 1));
+        preview.claimableAt = lastClaimTimestamp + preview.cooldown;
+        preview.canClaim = totalUserStake > 0 && address(randomnessProvider) != address(0) && block.timestamp >= preview.claimableAt && !paused();
+
+        preview.timeWaitedSeconds = block.timestamp - lastClaimTimestamp;
+        (preview.timeReward, preview.stakeBoost, preview.burnBoostScaled, preview.lockBoostScaled) =
+            _claimBoosts(userAddress, totalUserStake, preview.timeWaitedSeconds);
+        (preview.halvingFactor, ) = _halvingFactor(userAddress);
+        preview.mintPower = PoWaiRewardMath.mintPower(preview.timeReward, preview.stakeBoost, preview.burnBoostScaled, preview.lockBoostScaled, preview.halvingFactor);
+
+        // Multipliers are scaled by 10 and probabilities are percentages
+        uint256 weightedMultiplierSum;
+        for (uint256 i = 0; i < TIER_COUNT; i++) {
+            preview.tierRewards[i] = (preview.mintPower * tierMultipliersScaled[i]) / 10;
+            weightedMultiplierSum = weightedMultiplierSum + tierProbabilities[i] * tierMultipliersScaled[i];
+        }
+        preview.expectedReward = (preview.mintPower * weightedMultiplierSum) / 1000;
+    }
 
-        // effectiveMintPower = baseMintPower (10^18 scaled) * totalBurnBoostScaled (PRECISION_FACTOR scaled) / PRECISION_FACTOR
-        // Result is in 10^18 scaled units
-        uint256 effectiveMintPower = (baseMintPower * totalBurnBoostScaled) / PRECISION_FACTOR;
-        console.log("Reward calc: effectiveMintPower (base * burn, 10^18 scaled):", effectiveMintPower); 
+    /**
+     * @dev Randomness callback that settles a pending claim: draws the reward tier,
+     * mints the reward and applies a halving if mining crossed the threshold.
+     * The minted reward is then paid out, staked or partly burned as the claim's routing says;
+     * a deferred part is always paid out later by claimDeferredRewards.
+     * Only callable by the configured randomness provider.
+     * @param requestId The request returned by claimReward.
+     * @param randomWord The random value used to draw the reward tier.
+     */
+    function fulfillRandomness(uint256 requestId, uint256 randomWord) external {
+        require(msg.sender == address(randomnessProvider), "PoWaiCore: Only randomness provider can fulfill");
+        PendingClaim memory claim = pendingClaims[requestId];
+        require(claim.user != address(0), "PoWaiCore: Unknown or settled request");
+        delete pendingClaims[requestId];
+        ClaimRouting memory routing = claimRoutings[requestId];
+        delete claimRoutings[requestId];
 
         uint256 finalReward;
         uint256 rewardTierId;
-        (finalReward, rewardTierId) = _applyRandomRewardTier(msg.sender, effectiveMintPower);
-        console.log("Reward calc: finalReward (after random tier):", finalReward, "tierId:", rewardTierId); 
+        (finalReward, rewardTierId) = _applyRandomRewardTier(claim.user, claim.mintPower, randomWord);
 
-        chronoFuelToken._mintTokens(msg.sender, finalReward);
-        user.lastClaimTimestamp = block.timestamp;
+        // Compounded rewards are minted here first, then staked or burned for the user
+        address recipient = routing.mode == ClaimMode.Payout ? claim.user : address(this);
+        (uint256 mintedReward, uint256 deferredReward) = _mintWithinLimits(recipient, finalReward);
+        deferredRewards[claim.user] = deferredRewards[claim.user] + deferredReward;
+        totalDeferredRewards = totalDeferredRewards + deferredReward;
+
+        emit RewardClaimed(claim.user, requestId, claim.timeWaitedSeconds, claim.stakedAmount, claim.mintPower, finalReward, rewardTierId, claim.cooldownUsed, claim.halvingFactor, mintedReward, deferredReward, remainingEpochBudget(), chronoFuelToken.remainingSupply());
+
+        if (routing.mode == ClaimMode.Stake) {
+            _compoundStake(claim.user, requestId, mintedReward);
+        } else if (routing.mode == ClaimMode.Burn) {
+            _compoundBurn(claim.user, requestId, mintedReward, routing.burnPercent);
+        }
+    }
+
+    /**
+     * @dev Adds a reward already minted to this contract to `userAddress`'s flexible stake.
+     */
+    function _compoundStake(address userAddress, uint256 requestId, uint256 amount) internal {
+        if (amount == 0) {
+            return;
+        }
+        userData[userAddress].stakedAmount = userData[userAddress].stakedAmount + amount;
+        totalStakedAmount = totalStakedAmount + amount;
+        emit Staked(userAddress, amount);
+        emit RewardStaked(userAddress, requestId, amount);
+    }
+
+    /**
+     * @dev Burns `burnPercent` of a reward already minted to this contract for `userAddress`, recording it
+     * as their burn, and pays out the rest.
+     */
+    function _compoundBurn(address userAddress, uint256 requestId, uint256 amount, uint256 burnPercent) internal {
+        uint256 amountBurned = (amount * burnPercent) / 100;
+        uint256 recordIndex;
+        if (amountBurned > 0) {
+            chronoFuelToken.burnFor(userAddress, amountBurned);
+            recordIndex = _recordBurn(userAddress, amountBurned);
+        }
+        uint256 amountPaidOut = amount - amountBurned;
+        if (amountPaidOut > 0) {
+            require(chronoFuelToken.transfer(userAddress, amountPaidOut), "PoWaiCore: CFL transfer failed");
+        }
+        if (amountBurned > 0) {
+            emit RewardBurned(userAddress, requestId, amountBurned, amountPaidOut, recordIndex);
+        }
+    }
 
-        emit RewardClaimed(msg.sender, timeSinceLastClaim, user.stakedAmount, effectiveMintPower, finalReward, rewardTierId, effectiveCooldown);
+    /**
+     * @dev Mints the caller's deferred rewards as far as the current epoch budget allows; the rest stays deferred.
+     * Whatever no longer fits under the max supply is forfeited.
+     * @return mintedReward The CFL minted.
+     */
+    function claimDeferredRewards() public nonReentrant whenNotPaused returns (uint256 mintedReward) {
+        uint256 owed = deferredRewards[_msgSender()];
+        require(owed > 0, "PoWaiCore: No deferred rewards");
+        uint256 stillDeferred;
+        (mintedReward, stillDeferred) = _mintWithinLimits(_msgSender(), owed);
+        deferredRewards[_msgSender()] = stillDeferred;
+        totalDeferredRewards = totalDeferredRewards - owed + stillDeferred;
+        emit DeferredRewardsClaimed(_msgSender(), mintedReward, stillDeferred);
+    }
+
+    /**
+     * @dev Remaining CFL AdaptiveHalving allows to be mined in the current epoch; unlimited until it is linked.
+     */
+    function remainingEpochBudget() public view returns (uint256) {
+        return address(adaptiveHalving) != address(0) ? adaptiveHalving.remainingEpochBudget() : type(uint256).max;
+    }
+
+    /**
+     * @dev Mints `amount` to `to` within the emission limits and applies a halving once mining crosses the
+     * current threshold. The part above the remaining supply is dropped (pro-rated to the cap) and the part
+     * above the remaining epoch budget is returned as `deferred`, as is all of it while PoWaiCore is paused
+     * or if ChronoFuel's circuit breaker refuses the mint.
+     */
+    function _mintWithinLimits(address to, uint256 amount) internal returns (uint256 minted, uint256 deferred) {
+        uint256 supplyLeft = chronoFuelToken.remainingSupply();
+        uint256 mintable = amount < supplyLeft ? amount : supplyLeft;
+        uint256 epochLeft = remainingEpochBudget();
+        minted = mintable < epochLeft ? mintable : epochLeft;
+        deferred = mintable - minted;
+        if (minted > 0 && (pausedByPauser || !chronoFuelToken._mintTokens(to, minted))) {
+            deferred = mintable;
+            minted = 0;
+        }
+
+        // Apply a halving as soon as mining crosses the current threshold
+        if (address(adaptiveHalving) != address(0)) {
+            adaptiveHalving.checkAndApplyHalving();
+        }
     }
 
     // <<<--- แก้ไข boostBurn เพื่อใช้ระบบบันทึก BurnRecord แทน NFT
     function boostBurn(uint256 amount) public nonReentrant {
-        console.log("boostBurn called by:", msg.sender, " with amount:", amount); 
+        _boostBurn(amount);
+    }
+
+    /**
+     * @dev Same as boostBurn, with an EIP-2612 permit for the CFL instead of a prior approve.
+     * @param amount The amount of CFL to burn; the permit must cover at least this amount.
+     * @param deadline The permit deadline.
+     */
+    function boostBurnWithPermit(uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s) public {
+        _permitChronoFuel(amount, deadline, v, r, s);
+        boostBurn(amount);
+    }
+
+    /**
+     * @dev Same as boostBurn, and additionally mints a BurnCertificateNFT for the new burn record.
+     * The certificate is transferable, but the DAO points and airdrop rights of the burn stay with
+     * the burner (see BurnCertificateNFT).
+     * @param amount The amount of CFL to burn.
+     * @return tokenId The id of the minted certificate.
+     */
+    function boostBurnWithCertificate(uint256 amount) public nonReentrant returns (uint256 tokenId) {
+        require(address(burnCertificateNFT) != address(0), "PoWaiCore: Burn certificates not enabled");
+        uint256 recordIndex = _boostBurn(amount);
+        BurnRecord storage record = userBurnRecords[_msgSender()][recordIndex];
+        tokenId = burnCertificateNFT.mintCertificate(
+            _msgSender(),
+            recordIndex,
+            record.amountBurned,
+            record.mintPowerBeforeBurn,
+            record.daoPoints,
+            record.airdropRights,
+            record.timestamp
+        );
+        emit BurnCertificateMinted(_msgSender(), recordIndex, tokenId);
+    }
+
+    /**
+     * @dev Uses the caller's permit to let this contract spend `amount` CFL.
+     * A failed permit is ignored: if someone front-ran it, the allowance is already in place, and
+     * otherwise the transferFrom/burnFrom that follows reverts.
+     */
+    function _permitChronoFuel(uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s) internal {
+        try IERC20Permit(address(chronoFuelToken)).permit(_msgSender(), address(this), amount, deadline, v, r, s) {} catch {}
+    }
+
+    /**
+     * @dev Burns `amount` CFL from the caller, appends a BurnRecord and credits its DAO points.
+     * @return recordIndex The index of the new record in userBurnRecords[msg.sender].
+     */
+    function _boostBurn(uint256 amount) internal returns (uint256 recordIndex) {
+        _requireNotPaused();
         require(amount > 0, "PoWaiCore: Burn amount must be positive");
 
-        chronoFuelToken.burnFrom(msg.sender, amount); 
-        console.log("boostBurn: Amount burned (from user via burnFrom):"); console.logUint(amount); 
+        chronoFuelToken.burnFrom(_msgSender(), amount); 
+        return _recordBurn(_msgSender(), amount);
+    }
 
-        uint256 currentTotalUserBurned = chronoFuelToken.getUserBurnedAmount(msg.sender);
-        console.log("boostBurn: currentTotalUserBurned (after burn):"); console.logUint(currentTotalUserBurned); 
+    /**
+     * @dev Appends a BurnRecord for `amount` CFL that `userAddress` just burned and credits its DAO points.
+     * @return recordIndex The index of the new record in userBurnRecords[userAddress].
+     */
+    function _recordBurn(address userAddress, uint256 amount) internal returns (uint256 recordIndex) {
+        uint256 currentTotalUserBurned = chronoFuelToken.getUserBurnedAmount(userAddress);
 
         uint256 userBurnedBeforeThisBurn = currentTotalUserBurned - amount; 
-        console.log("boostBurn: userBurnedBeforeThisBurn:", userBurnedBeforeThisBurn); 
-
 
-        uint256 currentStakeBoost = _calculateStakeBoost(userData[msg.sender].stakedAmount);
-        uint256 timeRewardForCertificate = MAX_WAIT_HOURS * BASE_TIME_REWARD_PER_HOUR_AHBM;
+        uint256 currentStakeBoost = _calculateStakeBoost(getUserTotalStakedAmount(userAddress));
+        uint256 timeRewardForCertificate = maxWaitHours * BASE_TIME_REWARD_PER_HOUR_AHBM;
 
         uint256 burnFactorComponentBeforeThisBurn;
     
@@ -265,18 +884,18 @@ contract PoWaiCore is Ownable, ReentrancyGuard {
             uint256 userBurnedBeforeThisBurnBaseUnits = userBurnedBeforeThisBurn / AHBM_DECIMALS;
             uint256 userBurnedBeforeThisBurnScaledForSqrt = userBurnedBeforeThisBurnBaseUnits * PRECISION_FACTOR * PRECISION_FACTOR;
             uint256 sqrtValScaledBeforeThisBurn = _integerSqrt(userBurnedBeforeThisBurnScaledForSqrt);
-            burnFactorComponentBeforeThisBurn = (BURN_FACTOR_NUMERATOR * sqrtValScaledBeforeThisBurn) / BURN_FACTOR_DENOMINATOR;
+            burnFactorComponentBeforeThisBurn = (burnFactorNumerator * sqrtValScaledBeforeThisBurn) / BURN_FACTOR_DENOMINATOR;
         } else {
             burnFactorComponentBeforeThisBurn = 0;
         }
         uint256 totalBurnBoostScaledBeforeBurn = PRECISION_FACTOR + burnFactorComponentBeforeThisBurn;
         uint256 mintPowerBeforeBurn = (timeRewardForCertificate * currentStakeBoost * totalBurnBoostScaledBeforeBurn) / PRECISION_FACTOR;
 
-        uint256 daoPoints = (amount / AHBM_DECIMALS) * 4;
+        uint256 daoPoints = (amount / AHBM_DECIMALS) * DAO_POINTS_PER_CFL_BURNED;
         uint256 airdropRights = (amount / AHBM_DECIMALS); 
 
         // <<<--- บันทึก Burn Record ลงใน mapping โดยตรง แทนการ Mint NFT
-        userBurnRecords[msg.sender].push(BurnRecord({
+        userBurnRecords[userAddress].push(BurnRecord({
             amountBurned: amount,
             mintPowerBeforeBurn: mintPowerBeforeBurn,
             daoPoints: daoPoints,
@@ -284,8 +903,14 @@ contract PoWaiCore is Ownable, ReentrancyGuard {
             timestamp: block.timestamp
         }));
         
+        // Credit the points as checkpointed governance voting power
+        if (address(daoPointsContract) != address(0) && daoPoints > 0) {
+            daoPointsContract.issue(userAddress, daoPoints);
+        }
+
         // ไม่ต้องมี newNFTId ใน Event แล้ว เพราะไม่ใช่ NFT
-        emit BurnedForBoost(msg.sender, amount); 
+        emit BurnedForBoost(userAddress, amount); 
+        return userBurnRecords[userAddress].length - 1;
     }
 
     // <<<--- เพิ่ม view function สำหรับดึง Burn Records
@@ -298,107 +923,194 @@ contract PoWaiCore is Ownable, ReentrancyGuard {
     }
 
 
+    /**
+     * @dev Time component of the reward, capped at maxWaitHours (see PoWaiRewardMath).
+     * @return Scaled by AHBM_DECIMALS.
+     */
+    function _calculateTimeReward(uint256 timeSinceLastClaim) internal view returns (uint256) {
+        return PoWaiRewardMath.timeReward(timeSinceLastClaim, maxWaitHours);
+    }
+
+    /**
+     * @dev Burn boost with the governed burn factor (see PoWaiRewardMath).
+     * @return Scaled by PRECISION_FACTOR.
+     */
+    function _calculateBurnBoost(uint256 userBurned) internal view returns (uint256) {
+        return PoWaiRewardMath.burnBoost(userBurned, burnFactorNumerator);
+    }
+
     function _calculateStakeBoost(uint256 stakedAmount_in_AHBM_Decimals) internal pure returns (uint256) {
-        if (stakedAmount_in_AHBM_Decimals == 0) {
-            return 1;
-        }
-        uint256 stakedBaseUnits = stakedAmount_in_AHBM_Decimals / AHBM_DECIMALS;
-        if (stakedBaseUnits == 0) {
-            return 1;
+        return PoWaiRewardMath.stakeBoost(stakedAmount_in_AHBM_Decimals);
+    }
+
+    /**
+     * @dev Lock boost: 1 + the stake-weighted extra boost of the user's positions that have not
+     * unlocked yet. Flexible stake and unlocked positions count at 1.0x.
+     * @return lockBoostScaled Scaled by PRECISION_FACTOR.
+     */
+    function _calculateLockBoost(address userAddress, uint256 totalUserStake) internal view returns (uint256 lockBoostScaled) {
+        uint256[] storage openIds = openLockPositionIds[userAddress];
+        uint256 extraBoostWeight; // Sum of amount * (boostPercent - 100)
+        for (uint256 i = 0; i < openIds.length; i++) {
+            LockPosition storage position = userLockPositions[userAddress][openIds[i]];
+            if (block.timestamp < position.unlockTimestamp) {
+                extraBoostWeight = extraBoostWeight + position.amount * (position.boostPercent - 100);
+            }
         }
-        uint256 valueForLog = stakedBaseUnits + 1;
-
-        uint256 logResult = 0;
-        if (valueForLog >= 1000000000) logResult = 9;
-        else if (valueForLog >= 100000000) logResult = 8;
-        else if (valueForLog >= 10000000) logResult = 7;
-        else if (valueForLog >= 1000000) logResult = 6;
-        else if (valueForLog >= 100000) logResult = 5;
-        else if (valueForLog >= 10000) logResult = 4;
-        else if (valueForLog >= 1000) logResult = 3;
-        else if (valueForLog >= 100) logResult = 2;
-        else if (valueForLog >= 10) logResult = 1;
-        return 1 + logResult;
-    }
-
-    function _integerSqrt(uint256 x) internal pure returns (uint256 y) {
-        if (x == 0) return 0;
-        y = x;
-        uint256 z = (x / 2) + 1;
-        while (z < y) {
-            y = z;
-            z = (x / z + z) / 2;
+        lockBoostScaled = PoWaiRewardMath.lockBoost(extraBoostWeight, totalUserStake);
+    }
+
+    /**
+     * @dev Swap-and-pops a closed position out of the user's open position ids.
+     */
+    function _removeOpenLockPosition(address userAddress, uint256 positionId) internal {
+        uint256[] storage openIds = openLockPositionIds[userAddress];
+        for (uint256 i = 0; i < openIds.length; i++) {
+            if (openIds[i] == positionId) {
+                openIds[i] = openIds[openIds.length - 1];
+                openIds.pop();
+                return;
+            }
         }
-        return y;
     }
 
+    function _integerSqrt(uint256 x) internal pure returns (uint256) {
+        return PoWaiRewardMath.integerSqrt(x);
+    }
+
+    /**
+     * @dev Marks a user as active in the current hour bucket, moving them out of the bucket
+     * of their previous activity if that is still inside the window.
+     */
     function _updateActiveUsers(address userAddress) internal {
-        uint256 currentTimestamp = block.timestamp;
+        uint256 currentHour = block.timestamp / ACTIVITY_BUCKET_SECONDS;
+        _rollActivityBuckets(currentHour);
+
         uint256 lastActivity = userLastActivityTime[userAddress];
+        uint256 lastHour = lastActivity / ACTIVITY_BUCKET_SECONDS;
+        if (lastActivity != 0 && currentHour - lastHour < ACTIVITY_BUCKET_COUNT) {
+            // Still counted: the previous bucket cannot have been recycled yet
+            activityBucketCounts[lastHour % ACTIVITY_BUCKET_COUNT] -= 1;
+        } else {
+            activeUsersTotal = activeUsersTotal + 1;
+        }
+        activityBucketCounts[currentHour % ACTIVITY_BUCKET_COUNT] += 1;
+        userLastActivityTime[userAddress] = block.timestamp;
+    }
 
-        if (lastActivity == 0 || currentTimestamp - lastActivity > ACTIVITY_WINDOW) {
-            if (activeUsersIndex[userAddress] == 0) {
-                activeUsersList.push(userAddress);
-                activeUsersIndex[userAddress] = activeUsersList.length;
+    /**
+     * @dev Expires the buckets recycled between lastActivityRollHour and `currentHour`.
+     * Walks at most ACTIVITY_BUCKET_COUNT buckets, usually none or one.
+     */
+    function _rollActivityBuckets(uint256 currentHour) internal {
+        uint256 steps = currentHour - lastActivityRollHour;
+        if (steps == 0) {
+            return;
+        }
+        if (steps > ACTIVITY_BUCKET_COUNT) {
+            steps = ACTIVITY_BUCKET_COUNT;
+        }
+        uint256 total = activeUsersTotal;
+        for (uint256 hour = currentHour - steps + 1; hour <= currentHour; hour++) {
+            uint256 index = hour % ACTIVITY_BUCKET_COUNT;
+            uint256 expired = activityBucketCounts[index];
+            if (expired != 0) {
+                total = total - expired;
+                activityBucketCounts[index] = 0;
             }
-            userLastActivityTime[userAddress] = currentTimestamp;
         }
+        activeUsersTotal = total;
+        lastActivityRollHour = currentHour;
+    }
 
-        for (int256 i = int256(activeUsersList.length) - 1; i >= 0; i--) {
-            address user = activeUsersList[uint256(i)];
-            if (currentTimestamp - userLastActivityTime[user] > ACTIVITY_WINDOW) {
-                address lastUser = activeUsersList[uint256(i)];
-                activeUsersList[uint256(i)] = activeUsersList[activeUsersList.length - 1];
-                activeUsersIndex[activeUsersList[uint256(i)]] = uint256(i) + 1;
-                activeUsersIndex[user] = 0;
-                activeUsersList.pop();
-            }
+    /**
+     * @dev Number of users active within the window, accounting for buckets that have
+     * expired since the ring was last rolled forward.
+     */
+    function activeUsersCount() public view returns (uint256 count) {
+        uint256 currentHour = block.timestamp / ACTIVITY_BUCKET_SECONDS;
+        count = activeUsersTotal;
+        uint256 steps = currentHour - lastActivityRollHour;
+        if (steps > ACTIVITY_BUCKET_COUNT) {
+            steps = ACTIVITY_BUCKET_COUNT;
+        }
+        for (uint256 hour = currentHour - steps + 1; hour <= currentHour; hour++) {
+            count = count - activityBucketCounts[hour % ACTIVITY_BUCKET_COUNT];
         }
-        activeUsersCount = activeUsersList.length;
     }
 
     function getEffectiveCooldown() public view returns (uint256) {
-        uint256 cooldownReduction = COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS * activeUsersCount;
-        uint256 calculatedCooldown;
-        if (cooldownReduction >= MAX_COOLDOWN_SECONDS) {
-            calculatedCooldown = MIN_COOLDOWN_SECONDS;
-        } else {
-            calculatedCooldown = MAX_COOLDOWN_SECONDS - cooldownReduction;
+        return _cooldownForActiveUsers(activeUsersCount());
+    }
+
+    function _cooldownForActiveUsers(uint256 activeUsers) internal view returns (uint256) {
+        return PoWaiRewardMath.cooldownForActiveUsers(activeUsers, minCooldownSeconds, maxCooldownSeconds);
+    }
+
+    /**
+     * @dev Returns the halving factor (scaled by PRECISION_FACTOR) to apply to a user's claim.
+     * If a halving is in effect and the user holds an Anti-Halving Shield, the shield is consumed
+     * and the claim is exempted (factor 1.0x).
+     */
+    function _consumeHalvingFactor(address _user) internal returns (uint256 factor) {
+        bool shielded;
+        (factor, shielded) = _halvingFactor(_user);
+        if (shielded) {
+            adaptiveHalving.consumeAntiHalvingShield(_user);
         }
-        return calculatedCooldown > MIN_COOLDOWN_SECONDS ? calculatedCooldown : MIN_COOLDOWN_SECONDS;
     }
 
-    function _applyRandomRewardTier(address _user, uint256 _rawMintPower) internal returns (uint256 finalReward, uint256 rewardTierId) {
-        _nonce[_user]++;
-        uint256 seed = uint256(keccak256(abi.encodePacked(
-            block.prevrandao,
-            block.timestamp,
-            _user,
-            _nonce[_user]
-        )));
+    /**
+     * @dev The reward components of a claim by `userAddress` after `timeWaitedSeconds`, before the halving factor.
+     * claimReward and previewClaim both use it, so the preview always matches the claim.
+     */
+    function _claimBoosts(address userAddress, uint256 totalUserStake, uint256 timeWaitedSeconds)
+        internal
+        view
+        returns (uint256 timeReward, uint256 stakeBoost, uint256 burnBoostScaled, uint256 lockBoostScaled)
+    {
+        timeReward = _calculateTimeReward(timeWaitedSeconds);
+        stakeBoost = _calculateStakeBoost(totalUserStake);
+        burnBoostScaled = _calculateBurnBoost(chronoFuelToken.getUserBurnedAmount(userAddress));
+        lockBoostScaled = _calculateLockBoost(userAddress, totalUserStake);
+    }
 
-        uint256 rewardTierRoll = seed % 100;
-        uint256 chosenMultiplierScaled; // Multiplier already scaled by 10
+    /**
+     * @dev The halving factor of a claim by `_user`, and whether an Anti-Halving Shield exempts it.
+     * Does not consume the shield, so previewClaim can use it as well.
+     */
+    function _halvingFactor(address _user) internal view returns (uint256 factor, bool shielded) {
+        if (address(adaptiveHalving) == address(0)) {
+            return (PRECISION_FACTOR, false);
+        }
+        factor = adaptiveHalving.getEmissionFactor();
+        if (factor < PRECISION_FACTOR && adaptiveHalving.hasAntiHalvingShield(_user)) {
+            return (PRECISION_FACTOR, true);
+        }
+    }
 
-        if (rewardTierRoll < COMMON_PROB) {
-            chosenMultiplierScaled = COMMON_MULTIPLIER_SCALED;
+    function _applyRandomRewardTier(address _user, uint256 _rawMintPower, uint256 _randomWord) internal returns (uint256 finalReward, uint256 rewardTierId) {
+        uint256 rewardTierRoll = _randomWord % 100;
+        uint256 rareCutoff = tierProbabilities[0] + tierProbabilities[1];
+        uint256 epicCutoff = rareCutoff + tierProbabilities[2];
+
+        if (rewardTierRoll < tierProbabilities[0]) {
             rewardTierId = 0;
-        } else if (rewardTierRoll < COMMON_PROB + RARE_PROB) {
-            chosenMultiplierScaled = RARE_MULTIPLIER_SCALED;
+        } else if (rewardTierRoll < rareCutoff) {
             rewardTierId = 1;
-        } else if (rewardTierRoll < COMMON_PROB + RARE_PROB + EPIC_PROB) {
-            chosenMultiplierScaled = EPIC_MULTIPLIER_SCALED;
+        } else if (rewardTierRoll < epicCutoff) {
             rewardTierId = 2;
             if (address(adaptiveHalving) != address(0)) {
-                adaptiveHalving.grantAntiHalvingShield(_user, address(this));
+                adaptiveHalving.grantAntiHalvingShield(_user);
             }
         } else {
-            chosenMultiplierScaled = LEGENDARY_MULTIPLIER_SCALED;
             rewardTierId = 3;
-            if (address(adaptiveHalving) != address(0)) {
-                adaptiveHalving.reduceHalvingRate(3, address(this));
+            // Halving Keys past AdaptiveHalving's bound trip the circuit breaker
+            if (address(adaptiveHalving) != address(0) && !adaptiveHalving.reduceHalvingRate(3)) {
+                chronoFuelToken.pauseMinting();
             }
         }
+        uint256 chosenMultiplierScaled = tierMultipliersScaled[rewardTierId]; // Multiplier already scaled by 10
         finalReward = ( _rawMintPower * chosenMultiplierScaled) / 10; // Divide by 10 as multipliers are scaled by 10
         return (finalReward, rewardTierId);
     }
@@ -411,15 +1123,74 @@ contract PoWaiCore is Ownable, ReentrancyGuard {
         return userData[user].stakedAmount;
     }
 
+    function getUserLockedAmount(address user) public view returns (uint256) {
+        return userLockedAmount[user];
+    }
+
+    // Flexible stake plus all lock positions that have not been withdrawn
+    function getUserTotalStakedAmount(address user) public view returns (uint256) {
+        return userData[user].stakedAmount + userLockedAmount[user];
+    }
+
+    function getLockPositionCount(address user) public view returns (uint256) {
+        return userLockPositions[user].length;
+    }
+
+    function getLockPosition(address user, uint256 positionId) public view returns (LockPosition memory) {
+        return userLockPositions[user][positionId];
+    }
+
+    // All positions of a user, including withdrawn ones, indexed by positionId
+    function getLockPositions(address user) public view returns (LockPosition[] memory) {
+        return userLockPositions[user];
+    }
+
+    function getOpenLockPositionIds(address user) public view returns (uint256[] memory) {
+        return openLockPositionIds[user];
+    }
+
     function getTotalStakedAmount() public view returns (uint256) {
         return totalStakedAmount;
     }
 
     function isUserActive(address user) public view returns (bool) {
-        return userLastActivityTime[user] != 0 && (block.timestamp - userLastActivityTime[user] <= ACTIVITY_WINDOW);
+        uint256 lastActivity = userLastActivityTime[user];
+        return lastActivity != 0 && (block.timestamp / ACTIVITY_BUCKET_SECONDS - lastActivity / ACTIVITY_BUCKET_SECONDS < ACTIVITY_BUCKET_COUNT);
     }
 
     function getCurrentActiveUsersCount() public view returns (uint256) {
-        return activeUsersCount;
+        return activeUsersCount();
     }
-}
\ No newline at end of file
+
+    // --- ERC-2771 Meta-Transactions ---
+
+    /**
+     * @dev Whether `forwarder` is the trusted forwarder. Checked by ERC2771Forwarder before it relays a request.
+     */
+    function isTrustedForwarder(address forwarder) public view returns (bool) {
+        return forwarder != address(0) && forwarder == trustedForwarder;
+    }
+
+    /**
+     * @dev The signer of a forwarded request, taken from the last 20 bytes of calldata appended by the
+     * trusted forwarder; msg.sender for every other call. Mirrors OpenZeppelin's ERC2771Context with a
+     * forwarder that is linked after deployment instead of passed to the constructor.
+     */
+    function _msgSender() internal view override returns (address) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= _contextSuffixLength()) {
+            return address(bytes20(msg.data[msg.data.length - _contextSuffixLength():]));
+        }
+        return msg.sender;
+    }
+
+    function _msgData() internal view override returns (bytes calldata) {
+        if (isTrustedForwarder(msg.sender) && msg.data.length >= _contextSuffixLength()) {
+            return msg.data[:msg.data.length - _contextSuffixLength()];
+        }
+        return msg.data;
+    }
+
+    function _contextSuffixLength() internal pure override returns (uint256) {
+        return 20;
+    }
+}
@@ -0,0 +1,16 @@
+// contracts/PoWaiForwarder.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title PoWaiForwarder
+ * @dev ERC-2771 forwarder for gasless PoWai calls. A user signs an EIP-712 ForwardRequest
+ * (e.g. for claimReward or stakeWithPermit) and a relayer submits it with `execute`, paying the gas;
+ * PoWaiCore then treats the signer as the caller. Requests carry a per-signer nonce and a deadline.
+ * PoWaiCore only accepts calls from the forwarder linked with setTrustedForwarder.
+ */
+contract PoWaiForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("PoWaiForwarder") {}
+}
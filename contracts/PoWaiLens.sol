@@ -0,0 +1,157 @@
+// contracts/PoWaiLens.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./ChronoFuel.sol";
+import "./AdaptiveHalving.sol";
+import "./PoWaiCore.sol";
+
+/**
+ * @title PoWaiLens
+ * @dev Read-only aggregator for front ends. Collects a user's PoWai state, the global
+ * halving state and a page of burn records in a single call, instead of one RPC call per getter.
+ * The token and halving contracts are read from PoWaiCore on every call, so the lens never
+ * needs to be redeployed when PoWaiCore is linked.
+ */
+contract PoWaiLens {
+    PoWaiCore public immutable poWaiCore;
+
+    struct UserState {
+        uint256 stakedAmount; // Flexible stake only
+        uint256 lockedAmount; // Sum of the open lock positions
+        uint256 lastClaimTimestamp;
+        uint256 effectiveCooldown;
+        uint256 claimableAt;
+        bool isActive;
+        bool hasAntiHalvingShield;
+        uint256 cflBalance;
+        uint256 cflAllowance; // Allowance granted to PoWaiCore (needed for stake and boostBurn)
+        uint256 totalBurned;
+        uint256 burnRecordCount;
+        PoWaiCore.ClaimPreview claimPreview;
+        uint256 deferredRewards; // Owed by claims that exceeded the epoch emission budget
+    }
+
+    struct HalvingState {
+        uint256 halvingCount;
+        uint256 currentHalvingThreshold;
+        uint256 halvingEpochStartMined;
+        uint256 totalMined;
+        uint256 emissionFactor; // Scaled by PRECISION_FACTOR
+        uint256 adjustedHalvingRate;
+        uint256 halvingKeyEffectPercentage;
+        uint256 totalGlobalBurned;
+        uint256 totalSupply;
+        uint256 totalStaked;
+        uint256 activeUsers;
+        uint256 maxSupply;
+        uint256 remainingSupply;
+        uint256 epochEmissionBudget;
+        uint256 remainingEpochBudget;
+    }
+
+    /**
+     * @dev Constructor.
+     * @param _poWaiCoreAddress The address of the PoWaiCore contract to read from.
+     */
+    constructor(address _poWaiCoreAddress) {
+        require(_poWaiCoreAddress != address(0), "PoWaiLens: PoWaiCore address cannot be zero");
+        poWaiCore = PoWaiCore(_poWaiCoreAddress);
+    }
+
+    /**
+     * @dev Returns everything the dashboard shows for `user`, including a claim preview.
+     */
+    function getUserState(address user) public view returns (UserState memory state) {
+        ChronoFuel token = _token();
+
+        state.stakedAmount = poWaiCore.getUserStakedAmount(user);
+        state.lockedAmount = poWaiCore.getUserLockedAmount(user);
+        state.lastClaimTimestamp = poWaiCore.getUserLastClaimTime(user);
+        state.isActive = poWaiCore.isUserActive(user);
+        state.cflBalance = token.balanceOf(user);
+        state.cflAllowance = token.allowance(user, address(poWaiCore));
+        state.totalBurned = token.getUserBurnedAmount(user);
+        state.burnRecordCount = poWaiCore.getUserBurnRecordCount(user);
+        state.claimPreview = poWaiCore.previewClaim(user);
+        state.effectiveCooldown = state.claimPreview.cooldown;
+        state.claimableAt = state.claimPreview.claimableAt;
+        state.deferredRewards = poWaiCore.deferredRewards(user);
+
+        AdaptiveHalving halving = _halving();
+        if (address(halving) != address(0)) {
+            state.hasAntiHalvingShield = halving.hasAntiHalvingShield(user);
+        }
+    }
+
+    /**
+     * @dev Returns the global emission state. Halving fields are zero while
+     * PoWaiCore is not linked to AdaptiveHalving.
+     */
+    function getHalvingState() public view returns (HalvingState memory state) {
+        ChronoFuel token = _token();
+
+        state.totalMined = token.getTotalMinedTokens();
+        state.totalGlobalBurned = token.getTotalGlobalBurned();
+        state.totalSupply = token.totalSupply();
+        state.totalStaked = poWaiCore.getTotalStakedAmount();
+        state.activeUsers = poWaiCore.activeUsersCount();
+        state.maxSupply = token.maxSupply();
+        state.remainingSupply = token.remainingSupply();
+        state.epochEmissionBudget = token.epochEmissionBudget();
+
+        AdaptiveHalving halving = _halving();
+        if (address(halving) == address(0)) {
+            return state;
+        }
+        state.halvingCount = halving.getHalvingCount();
+        state.currentHalvingThreshold = halving.getCurrentHalvingThreshold();
+        state.halvingEpochStartMined = halving.halvingEpochStartMined();
+        state.emissionFactor = halving.getEmissionFactor();
+        state.halvingKeyEffectPercentage = halving.getCumulativeHalvingKeyEffectPercentage();
+        state.remainingEpochBudget = halving.remainingEpochBudget();
+        if (address(halving.powaiCoreContract()) != address(0)) {
+            state.adjustedHalvingRate = halving.getAdjustedHalvingRate();
+        }
+    }
+
+    /**
+     * @dev Returns up to `limit` of `user`'s burn records starting at `offset`, oldest first,
+     * together with the total number of records. An offset past the end returns an empty page.
+     */
+    function getBurnRecords(address user, uint256 offset, uint256 limit) public view returns (PoWaiCore.BurnRecord[] memory records, uint256 total) {
+        total = poWaiCore.getUserBurnRecordCount(user);
+        if (offset >= total) {
+            return (new PoWaiCore.BurnRecord[](0), total);
+        }
+        uint256 end = offset + limit;
+        if (end > total) {
+            end = total;
+        }
+        records = new PoWaiCore.BurnRecord[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            records[i - offset] = poWaiCore.getUserBurnRecord(user, i);
+        }
+    }
+
+    /**
+     * @dev Combines getUserState, getHalvingState and getBurnRecords into a single call.
+     */
+    function getDashboard(address user, uint256 burnRecordOffset, uint256 burnRecordLimit)
+        external
+        view
+        returns (UserState memory userState, HalvingState memory halvingState, PoWaiCore.BurnRecord[] memory burnRecords)
+    {
+        userState = getUserState(user);
+        halvingState = getHalvingState();
+        (burnRecords, ) = getBurnRecords(user, burnRecordOffset, burnRecordLimit);
+    }
+
+    function _token() internal view returns (ChronoFuel) {
+        return ChronoFuel(address(poWaiCore.chronoFuelToken()));
+    }
+
+    function _halving() internal view returns (AdaptiveHalving) {
+        return AdaptiveHalving(address(poWaiCore.adaptiveHalving()));
+    }
+}
@@ -0,0 +1,30 @@
+// contracts/interfaces/IRandomnessProvider.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IRandomnessProvider
+ * @dev Pluggable source of verifiable randomness (e.g. a VRF coordinator adapter).
+ * A consumer requests a random word and receives it later through
+ * IRandomnessConsumer.fulfillRandomness, called by the provider.
+ */
+interface IRandomnessProvider {
+    /**
+     * @dev Requests a random word for the calling consumer.
+     * @return requestId The identifier passed back to the consumer on fulfilment.
+     */
+    function requestRandomness() external returns (uint256 requestId);
+}
+
+/**
+ * @title IRandomnessConsumer
+ * @dev Callback implemented by contracts that request randomness from an IRandomnessProvider.
+ */
+interface IRandomnessConsumer {
+    /**
+     * @dev Delivers the random word for `requestId`. Must only accept calls from the provider.
+     * @param requestId The identifier returned by requestRandomness.
+     * @param randomWord The random value.
+     */
+    function fulfillRandomness(uint256 requestId, uint256 randomWord) external;
+}
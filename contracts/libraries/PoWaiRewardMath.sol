@@ -0,0 +1,122 @@
+// contracts/libraries/PoWaiRewardMath.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title PoWaiRewardMath
+ * @dev The PoWai reward formula, shared by PoWaiCore (which locks it in when a claim is requested)
+ * and PoWaiLens (which previews it), so a preview can never drift from what a claim pays.
+ * Governed parameters are passed in; PoWaiCore reads them from its storage, PoWaiLens from its getters.
+ */
+library PoWaiRewardMath {
+    uint256 internal constant AHBM_DECIMALS = 10**18;
+    uint256 internal constant PRECISION_FACTOR = 10**10; // 10^10 for 10 decimal precision
+    uint256 internal constant BASE_TIME_REWARD_PER_HOUR_AHBM = 1 * AHBM_DECIMALS;
+    uint256 internal constant COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS = 12;
+    uint256 internal constant BURN_FACTOR_DENOMINATOR = 10;
+
+    /**
+     * @dev Time component of the reward: 1 CFL per hour waited, capped at `maxWaitHours`.
+     * @return reward Scaled by AHBM_DECIMALS.
+     */
+    function timeReward(uint256 timeSinceLastClaim, uint256 maxWaitHours) internal pure returns (uint256 reward) {
+        // Adjust timeReward calculation to be more precise and always yield a non-zero reward if time has passed
+        reward = (timeSinceLastClaim * BASE_TIME_REWARD_PER_HOUR_AHBM) / (1 hours);
+        if (reward > BASE_TIME_REWARD_PER_HOUR_AHBM * maxWaitHours) { // Cap reward at max hours
+            reward = BASE_TIME_REWARD_PER_HOUR_AHBM * maxWaitHours;
+        }
+        if (timeSinceLastClaim > 0 && reward == 0) { // Ensure minimum reward if time passed but calculation results in 0
+            reward = 1; // Smallest possible non-zero unit (e.g., 1 Wei)
+        }
+    }
+
+    /**
+     * @dev Burn boost: 1 + burnFactor * sqrt(userBurned in whole CFL), with burnFactor
+     * `burnFactorNumerator` / BURN_FACTOR_DENOMINATOR.
+     * @return totalBurnBoostScaled Scaled by PRECISION_FACTOR.
+     */
+    function burnBoost(uint256 userBurned, uint256 burnFactorNumerator) internal pure returns (uint256 totalBurnBoostScaled) {
+        // sqrt(userBurned in whole CFL * PRECISION_FACTOR^2) = sqrt(userBurned in whole CFL) * PRECISION_FACTOR
+        uint256 sqrtValScaled = integerSqrt((userBurned / AHBM_DECIMALS) * PRECISION_FACTOR * PRECISION_FACTOR);
+        totalBurnBoostScaled = PRECISION_FACTOR + (burnFactorNumerator * sqrtValScaled) / BURN_FACTOR_DENOMINATOR;
+    }
+
+    /**
+     * @dev Stake boost: 1 + floor(log10(stake in whole CFL + 1)).
+     */
+    function stakeBoost(uint256 stakedAmount_in_AHBM_Decimals) internal pure returns (uint256) {
+        uint256 stakedBaseUnits = stakedAmount_in_AHBM_Decimals / AHBM_DECIMALS;
+        if (stakedBaseUnits == 0) {
+            return 1;
+        }
+        uint256 valueForLog = stakedBaseUnits + 1;
+
+        uint256 logResult = 0;
+        if (valueForLog >= 1000000000) logResult = 9;
+        else if (valueForLog >= 100000000) logResult = 8;
+        else if (valueForLog >= 10000000) logResult = 7;
+        else if (valueForLog >= 1000000) logResult = 6;
+        else if (valueForLog >= 100000) logResult = 5;
+        else if (valueForLog >= 10000) logResult = 4;
+        else if (valueForLog >= 1000) logResult = 3;
+        else if (valueForLog >= 100) logResult = 2;
+        else if (valueForLog >= 10) logResult = 1;
+        return 1 + logResult;
+    }
+
+    /**
+     * @dev Lock boost from the summed amount * (boostPercent - 100) of the positions that have not unlocked yet.
+     * @return lockBoostScaled Scaled by PRECISION_FACTOR.
+     */
+    function lockBoost(uint256 extraBoostWeight, uint256 totalUserStake) internal pure returns (uint256 lockBoostScaled) {
+        if (totalUserStake == 0) {
+            return PRECISION_FACTOR;
+        }
+        lockBoostScaled = PRECISION_FACTOR + (extraBoostWeight * PRECISION_FACTOR) / (totalUserStake * 100);
+    }
+
+    /**
+     * @dev Mint power of a claim before its reward tier: the time reward times every boost and the halving factor.
+     * @return power Scaled by AHBM_DECIMALS; at least 1 wei even after many halvings.
+     */
+    function mintPower(
+        uint256 timeRewardAhbm,
+        uint256 stakeBoostFactor,
+        uint256 burnBoostScaled,
+        uint256 lockBoostScaled,
+        uint256 halvingFactor
+    ) internal pure returns (uint256 power) {
+        // timeReward (10^18 scaled) * stakeBoost * burnBoost (PRECISION_FACTOR scaled) / PRECISION_FACTOR
+        power = (timeRewardAhbm * stakeBoostFactor * burnBoostScaled) / PRECISION_FACTOR;
+        power = (power * lockBoostScaled) / PRECISION_FACTOR;
+        power = (power * halvingFactor) / PRECISION_FACTOR;
+        if (power == 0) { // Keep the minimum reward of 1 Wei even after many halvings
+            power = 1;
+        }
+    }
+
+    /**
+     * @dev Claim cooldown with `activeUsers` active: maxCooldown less 12 seconds per user, floored at minCooldown.
+     */
+    function cooldownForActiveUsers(uint256 activeUsers, uint256 minCooldownSeconds, uint256 maxCooldownSeconds) internal pure returns (uint256) {
+        uint256 cooldownReduction = COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS * activeUsers;
+        uint256 calculatedCooldown;
+        if (cooldownReduction >= maxCooldownSeconds) {
+            calculatedCooldown = minCooldownSeconds;
+        } else {
+            calculatedCooldown = maxCooldownSeconds - cooldownReduction;
+        }
+        return calculatedCooldown > minCooldownSeconds ? calculatedCooldown : minCooldownSeconds;
+    }
+
+    function integerSqrt(uint256 x) internal pure returns (uint256 y) {
+        if (x == 0) return 0;
+        y = x;
+        uint256 z = (x / 2) + 1;
+        while (z < y) {
+            y = z;
+            z = (x / z + z) / 2;
+        }
+        return y;
+    }
+}
@@ -0,0 +1,17 @@
+// contracts/mocks/ChronoFuelMock.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../ChronoFuel.sol";
+
+/**
+ * @title ChronoFuelMock
+ * @dev Test-only ChronoFuel that can simulate CFL mined outside of PoWaiCore,
+ * so halving thresholds can be reached without millions of claims.
+ */
+contract ChronoFuelMock is ChronoFuel {
+    function simulateMining(address to, uint256 amount) external {
+        _mint(to, amount);
+        totalMinedTokens = totalMinedTokens + amount;
+    }
+}
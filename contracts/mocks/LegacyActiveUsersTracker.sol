@@ -0,0 +1,56 @@
+// contracts/mocks/LegacyActiveUsersTracker.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title LegacyActiveUsersTracker
+ * @dev Benchmark-only copy of the list-based active-user tracking that PoWaiCore used before
+ * the hourly bucket ring. `updateActiveUsers` walks the whole list, so its gas grows
+ * linearly with the number of users.
+ */
+contract LegacyActiveUsersTracker {
+    uint256 public constant ACTIVITY_WINDOW = 24 hours;
+
+    mapping(address => uint256) public userLastActivityTime;
+    address[] private activeUsersList;
+    mapping(address => uint256) private activeUsersIndex;
+    uint256 public activeUsersCount;
+
+    /**
+     * @dev Adds `count` synthetic users as active without walking the list,
+     * so large populations can be seeded cheaply.
+     */
+    function seedActiveUsers(uint256 count, uint256 salt) external {
+        for (uint256 i = 0; i < count; i++) {
+            address user = address(uint160(uint256(keccak256(abi.encode(salt, i)))));
+            activeUsersList.push(user);
+            activeUsersIndex[user] = activeUsersList.length;
+            userLastActivityTime[user] = block.timestamp;
+        }
+        activeUsersCount = activeUsersList.length;
+    }
+
+    function updateActiveUsers(address userAddress) external {
+        uint256 currentTimestamp = block.timestamp;
+        uint256 lastActivity = userLastActivityTime[userAddress];
+
+        if (lastActivity == 0 || currentTimestamp - lastActivity > ACTIVITY_WINDOW) {
+            if (activeUsersIndex[userAddress] == 0) {
+                activeUsersList.push(userAddress);
+                activeUsersIndex[userAddress] = activeUsersList.length;
+            }
+            userLastActivityTime[userAddress] = currentTimestamp;
+        }
+
+        for (int256 i = int256(activeUsersList.length) - 1; i >= 0; i--) {
+            address user = activeUsersList[uint256(i)];
+            if (currentTimestamp - userLastActivityTime[user] > ACTIVITY_WINDOW) {
+                activeUsersList[uint256(i)] = activeUsersList[activeUsersList.length - 1];
+                activeUsersIndex[activeUsersList[uint256(i)]] = uint256(i) + 1;
+                activeUsersIndex[user] = 0;
+                activeUsersList.pop();
+            }
+        }
+        activeUsersCount = activeUsersList.length;
+    }
+}
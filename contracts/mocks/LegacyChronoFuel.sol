@@ -0,0 +1,110 @@
+// contracts/mocks/LegacyChronoFuel.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "../proxy/PoWaiUpgradeable.sol";
+
+/**
+ * @title LegacyChronoFuel
+ * @dev Test-only copy of ChronoFuel as first deployed behind PoWaiProxy (initializer version 1), before the
+ * emission limits and the circuit breaker, so tests can upgrade a proxy with that storage to the current ChronoFuel.
+ */
+contract LegacyChronoFuel is ERC20, ERC20Permit, AccessControl, PoWaiUpgradeable {
+    // --- Roles ---
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE"); // Held by the linked PoWaiCore contract
+
+    uint256 public constant INITIAL_SUPPLY = 21_000_000 * (10 ** 18); // 21M tokens with 18 decimals
+    uint256 public totalGlobalBurned; // Total CFL burned across the entire system
+    uint256 public totalMinedTokens;  // Total CFL minted across the entire system
+
+    // Mapping to store user-specific burned amounts for Burn Booster Engine
+    mapping(address => uint256) public userBurnedAmounts;
+
+    // The address of the PoWaiCore contract, granted MINTER_ROLE when linked
+    address public powaiCoreContract;
+
+    // --- Events ---
+    event TokensBurned(address indexed burner, uint256 amount);
+    event TokensMinted(address indexed minter, uint256 amount);
+    event PoWaiCoreContractSet(address indexed _powaiCoreContract);
+
+    /// @dev The EIP-712 domain name is kept in immutables, so it also holds for the proxy.
+    constructor() ERC20("ChronoFuel", "CFL") ERC20Permit("ChronoFuel") {
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initializes the proxy: grants DEFAULT_ADMIN_ROLE to and mints the initial supply for the caller.
+     */
+    function initialize() public initializer {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _mint(msg.sender, INITIAL_SUPPLY); // Mint initial supply to the deployer
+        totalMinedTokens = INITIAL_SUPPLY;
+    }
+
+    function name() public pure override returns (string memory) {
+        return "ChronoFuel";
+    }
+
+    function symbol() public pure override returns (string memory) {
+        return "CFL";
+    }
+
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+
+    /**
+     * @dev Links the PoWaiCore contract and grants it MINTER_ROLE.
+     * Can only be set once by an admin; the role is keyed on the stored address.
+     * @param _powaiCoreContract The address of the PoWaiCore contract.
+     */
+    function setPoWaiCoreContract(address _powaiCoreContract) public onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(_powaiCoreContract != address(0), "ChronoFuel: Zero address not allowed for PoWaiCore");
+        require(powaiCoreContract == address(0) || powaiCoreContract == _powaiCoreContract, "ChronoFuel: PoWaiCore address already set or invalid update");
+        powaiCoreContract = _powaiCoreContract;
+        _grantRole(MINTER_ROLE, _powaiCoreContract);
+        emit PoWaiCoreContractSet(_powaiCoreContract);
+    }
+
+    function _mintTokens(address to, uint256 amount) external onlyRole(MINTER_ROLE) { // Changed to external for PoWaiCore to call
+        require(amount > 0, "ChronoFuel: Cannot mint zero tokens");
+        _mint(to, amount);
+        totalMinedTokens = totalMinedTokens + amount;
+        emit TokensMinted(to, amount);
+    }
+
+    function burn(uint256 amount) public {
+        _burn(msg.sender, amount);
+        totalGlobalBurned = totalGlobalBurned + amount;
+        userBurnedAmounts[msg.sender] = userBurnedAmounts[msg.sender] + amount;
+        emit TokensBurned(msg.sender, amount);
+    }
+
+    /**
+     * @dev Burns `amount` tokens from `from`, deducting from the caller's allowance.
+     * This function is intended to be called by authorized contracts (like PoWaiCore).
+     * @param from The address whose tokens will be burned.
+     * @param amount The amount of tokens to burn.
+     */
+    function burnFrom(address from, uint256 amount) public {
+        _spendAllowance(from, msg.sender, amount); // msg.sender is PoWaiCore
+        _burn(from, amount); // Burn from 'from'
+        totalGlobalBurned = totalGlobalBurned + amount;
+        userBurnedAmounts[from] = userBurnedAmounts[from] + amount; // Update user's specific burned amount
+        emit TokensBurned(from, amount);
+    }
+
+    function getTotalGlobalBurned() public view returns (uint256) {
+        return totalGlobalBurned;
+    }
+
+    function getTotalMinedTokens() public view returns (uint256) {
+        return totalMinedTokens;
+    }
+
+    function getUserBurnedAmount(address user) public view returns (uint256) {
+        return userBurnedAmounts[user];
+    }
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+// contracts/mocks/MockRandomnessCoordinator.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IRandomnessProvider.sol";
+
+/**
+ * @title MockRandomnessCoordinator
+ * @dev Local stand-in for a VRF coordinator. Requests are queued and only fulfilled
+ * when `fulfillRandomness` is called, with a random word chosen by the caller,
+ * so tests can drive every reward tier deterministically.
+ */
+contract MockRandomnessCoordinator is IRandomnessProvider {
+    uint256 public nextRequestId = 1;
+    mapping(uint256 => address) public pendingRequests; // requestId => consumer
+
+    event RandomnessRequested(uint256 indexed requestId, address indexed consumer);
+    event RandomnessFulfilled(uint256 indexed requestId, uint256 randomWord);
+
+    function requestRandomness() external returns (uint256 requestId) {
+        requestId = nextRequestId++;
+        pendingRequests[requestId] = msg.sender;
+        emit RandomnessRequested(requestId, msg.sender);
+    }
+
+    /**
+     * @dev Fulfils a pending request with the given random word.
+     * @param requestId The request to fulfil.
+     * @param randomWord The random value delivered to the consumer.
+     */
+    function fulfillRandomness(uint256 requestId, uint256 randomWord) external {
+        address consumer = pendingRequests[requestId];
+        require(consumer != address(0), "MockRandomnessCoordinator: Unknown request");
+        delete pendingRequests[requestId];
+        IRandomnessConsumer(consumer).fulfillRandomness(requestId, randomWord);
+        emit RandomnessFulfilled(requestId, randomWord);
+    }
+}
@@ -0,0 +1,43 @@
+// contracts/mocks/PoWaiCoreHarness.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../PoWaiCore.sol";
+
+/**
+ * @title PoWaiCoreHarness
+ * @dev Benchmark/test-only PoWaiCore that can mark synthetic users as active,
+ * so claim gas can be measured against large active-user populations, and that
+ * exposes the internal reward math for differential tests of the simulator.
+ */
+contract PoWaiCoreHarness is PoWaiCore {
+    function updateActiveUsers(address user) external {
+        _updateActiveUsers(user);
+    }
+
+    function seedActiveUsers(uint256 count, uint256 salt) external {
+        for (uint256 i = 0; i < count; i++) {
+            _updateActiveUsers(address(uint160(uint256(keccak256(abi.encode(salt, i))))));
+        }
+    }
+
+    function calculateTimeReward(uint256 timeSinceLastClaim) external view returns (uint256) {
+        return _calculateTimeReward(timeSinceLastClaim);
+    }
+
+    function calculateStakeBoost(uint256 stakedAmount) external pure returns (uint256) {
+        return _calculateStakeBoost(stakedAmount);
+    }
+
+    function calculateBurnBoost(uint256 userBurned) external view returns (uint256) {
+        return _calculateBurnBoost(userBurned);
+    }
+
+    function integerSqrt(uint256 x) external pure returns (uint256) {
+        return _integerSqrt(x);
+    }
+
+    function cooldownForActiveUsers(uint256 activeUsers) external view returns (uint256) {
+        return _cooldownForActiveUsers(activeUsers);
+    }
+}
@@ -0,0 +1,31 @@
+// contracts/mocks/PoWaiCoreV2Mock.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../PoWaiCore.sol";
+
+/**
+ * @title PoWaiCoreV2Mock
+ * @dev Test-only PoWaiCore upgrade that appends a state variable and sets it in a reinitializer,
+ * the way a real upgrade would add state.
+ */
+contract PoWaiCoreV2Mock is PoWaiCore {
+    uint256 public upgradeNote;
+
+    function initializeV2(uint256 note) external reinitializer(2) {
+        upgradeNote = note;
+    }
+}
+
+/**
+ * @dev A base that adds state in front of PoWaiCore's, shifting every PoWaiCore variable down one slot.
+ */
+abstract contract InsertedStorage {
+    uint256 internal insertedValue;
+}
+
+/**
+ * @title PoWaiCoreStorageClashMock
+ * @dev Test-only PoWaiCore upgrade with an incompatible storage layout; scripts/upgrades must refuse it.
+ */
+contract PoWaiCoreStorageClashMock is InsertedStorage, PoWaiCore {}
@@ -0,0 +1,35 @@
+// contracts/proxy/PoWaiProxy.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/proxy/Proxy.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/StorageSlot.sol";
+import "@openzeppelin/contracts/interfaces/IERC1967.sol";
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+bytes32 constant ERC1967_IMPLEMENTATION_SLOT = 0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+
+/**
+ * @title PoWaiProxy
+ * @dev ERC-1967 proxy that ChronoFuel, AdaptiveHalving and PoWaiCore are deployed behind.
+ * Equivalent to OpenZeppelin's ERC1967Proxy (which needs solc 0.8.22): the implementation address
+ * lives in the ERC-1967 slot, and `data` (usually the initialize call) is delegated to it on deployment.
+ * The upgrade logic is in the implementation (PoWaiUpgradeable, i.e. UUPS), not in the proxy.
+ */
+contract PoWaiProxy is Proxy, IERC1967 {
+    constructor(address implementation, bytes memory data) payable {
+        require(implementation.code.length > 0, "PoWaiProxy: Implementation is not a contract");
+        StorageSlot.getAddressSlot(ERC1967_IMPLEMENTATION_SLOT).value = implementation;
+        emit Upgraded(implementation);
+        if (data.length > 0) {
+            Address.functionDelegateCall(implementation, data);
+        } else {
+            require(msg.value == 0, "PoWaiProxy: Value sent without initialization data");
+        }
+    }
+
+    function _implementation() internal view override returns (address) {
+        return StorageSlot.getAddressSlot(ERC1967_IMPLEMENTATION_SLOT).value;
+    }
+}
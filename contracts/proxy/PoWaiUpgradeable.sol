@@ -0,0 +1,65 @@
+// contracts/proxy/PoWaiUpgradeable.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/interfaces/draft-IERC1822.sol";
+import "./PoWaiProxy.sol";
+
+/**
+ * @title PoWaiUpgradeable
+ * @dev UUPS upgrade logic for implementations behind a PoWaiProxy, equivalent to OpenZeppelin's
+ * UUPSUpgradeable (which needs solc 0.8.22). Inheriting contracts authorize upgrades in _authorizeUpgrade
+ * and replace their constructor with an initializer.
+ *
+ * upgradeToAndCall only accepts implementations that are themselves UUPS, so an upgrade can never leave
+ * the proxy without a way to upgrade again. It does not check the storage layout; scripts/upgrades does.
+ */
+abstract contract PoWaiUpgradeable is Initializable, IERC1822Proxiable, IERC1967 {
+    address private immutable __self = address(this);
+
+    modifier onlyProxy() {
+        require(
+            address(this) != __self && StorageSlot.getAddressSlot(ERC1967_IMPLEMENTATION_SLOT).value == __self,
+            "PoWaiUpgradeable: Must be called through the proxy"
+        );
+        _;
+    }
+
+    modifier notDelegated() {
+        require(address(this) == __self, "PoWaiUpgradeable: Must not be called through delegatecall");
+        _;
+    }
+
+    /**
+     * @dev ERC-1822: the storage slot this implementation expects its address in.
+     */
+    function proxiableUUID() external view notDelegated returns (bytes32) {
+        return ERC1967_IMPLEMENTATION_SLOT;
+    }
+
+    /**
+     * @dev Points the proxy at `newImplementation` and, if `data` is not empty, delegates it to the new
+     * implementation (e.g. a reinitializer). Authorized by _authorizeUpgrade.
+     */
+    function upgradeToAndCall(address newImplementation, bytes memory data) public payable onlyProxy {
+        _authorizeUpgrade(newImplementation);
+        try IERC1822Proxiable(newImplementation).proxiableUUID() returns (bytes32 slot) {
+            require(slot == ERC1967_IMPLEMENTATION_SLOT, "PoWaiUpgradeable: Unsupported proxiableUUID");
+        } catch {
+            revert("PoWaiUpgradeable: New implementation is not UUPS");
+        }
+        StorageSlot.getAddressSlot(ERC1967_IMPLEMENTATION_SLOT).value = newImplementation;
+        emit Upgraded(newImplementation);
+        if (data.length > 0) {
+            Address.functionDelegateCall(newImplementation, data);
+        } else {
+            require(msg.value == 0, "PoWaiUpgradeable: Value sent without upgrade data");
+        }
+    }
+
+    /**
+     * @dev Reverts unless the caller may upgrade to `newImplementation`.
+     */
+    function _authorizeUpgrade(address newImplementation) internal virtual;
+}
@@ -3,6 +3,8 @@
 import type { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox"; // ควรใช้ @nomicfoundation/hardhat-ethers แทน @nomicfoundation/hardhat-toolbox หรือตรวจสอบว่า toolbox รวม ethers แล้ว
 
+import "./tasks/powai";
+
 import * as dotenv from "dotenv";
 dotenv.config();
 
@@ -19,6 +21,12 @@ const config: HardhatUserConfig = {
         runs: 200,
       },
       viaIR: true,
+      // Storage layouts are compared by scripts/upgrades before a proxy is upgraded
+      outputSelection: {
+        "*": {
+          "*": ["storageLayout"],
+        },
+      },
     },
   },
   
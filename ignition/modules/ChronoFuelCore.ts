@@ -0,0 +1,136 @@
+// ignition/modules/ChronoFuelCore.ts
+// Deploys and links the ChronoFuel PoWai contracts with Hardhat Ignition.
+// Learn more about Ignition at https://hardhat.org/ignition
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { parseEther, ZeroHash } from "ethers";
+
+// AccessControl's DEFAULT_ADMIN_ROLE is bytes32(0)
+const DEFAULT_ADMIN_ROLE = ZeroHash;
+
+// Circuit breaker limits a deployment starts with, far above what honest claims mint; scripts/deploy.ts uses them too
+export const DEFAULT_MAX_MINT_PER_BLOCK = parseEther("100000"); // CFL
+export const DEFAULT_MAX_MINT_PER_HOUR = parseEther("1000000"); // CFL
+export const DEFAULT_MAX_HALVING_KEY_EFFECT_PERCENTAGE = 30n; // Halving rate stays at 20% or more
+
+/**
+ * Deploys ChronoFuel, AdaptiveHalving, PoWaiCore, BurnCertificateNFT and PoWaiForwarder, wires them together and
+ * grants DEFAULT_ADMIN_ROLE on all four contracts to the `admin` parameter.
+ * Linking grants PoWaiCore MINTER_ROLE on ChronoFuel and BurnCertificateNFT, PAUSER_ROLE on ChronoFuel and
+ * HALVING_OPERATOR_ROLE on AdaptiveHalving, and makes PoWaiForwarder the ERC-2771 forwarder PoWaiCore trusts
+ * for relayed calls. The deployer keeps its admin role until it renounces it.
+ *
+ * The circuit breakers are armed from the start: ChronoFuel's mint rate limits and AdaptiveHalving's Halving Key
+ * bound come from the `maxMintPerBlock`, `maxMintPerHour` and `maxHalvingKeyEffectPercentage` parameters, which
+ * default to the DEFAULT_* constants above.
+ *
+ * Every deployment and linking call is its own Ignition future, so a run that
+ * fails half way (e.g. a dropped transaction on monadTestnet) can simply be
+ * re-run: Ignition resumes from its journal in `ignition/deployments/<chain>`
+ * and never repeats a step that already succeeded.
+ *
+ * ChronoFuel, AdaptiveHalving and PoWaiCore are deployed as implementations behind
+ * PoWaiProxy, which calls their initialize function; the returned futures point at
+ * the proxies. Upgrade them with scripts/upgrades/upgrade.ts.
+ *
+ * PoWaiLens, the read-only aggregator used by front ends, is deployed alongside
+ * the core contracts and needs no linking.
+ *
+ * The randomness provider is wired up by ChronoFuelSystemModule (real networks)
+ * or LocalChronoFuelSystemModule (local nodes), which both build on this module.
+ */
+const ChronoFuelCoreModule = buildModule("ChronoFuelCoreModule", (m) => {
+  const admin = m.getParameter<string>("admin");
+  const maxMintPerBlock = m.getParameter("maxMintPerBlock", DEFAULT_MAX_MINT_PER_BLOCK);
+  const maxMintPerHour = m.getParameter("maxMintPerHour", DEFAULT_MAX_MINT_PER_HOUR);
+  const maxHalvingKeyEffectPercentage = m.getParameter("maxHalvingKeyEffectPercentage", DEFAULT_MAX_HALVING_KEY_EFFECT_PERCENTAGE);
+
+  // --- Deployments ---
+  const chronoFuelImplementation = m.contract("ChronoFuel", [], { id: "ChronoFuelImplementation" });
+  const chronoFuelProxy = m.contract(
+    "PoWaiProxy",
+    [chronoFuelImplementation, m.encodeFunctionCall(chronoFuelImplementation, "initialize", [])],
+    { id: "ChronoFuelProxy" }
+  );
+  const chronoFuel = m.contractAt("ChronoFuel", chronoFuelProxy);
+
+  const adaptiveHalvingImplementation = m.contract("AdaptiveHalving", [], { id: "AdaptiveHalvingImplementation" });
+  const adaptiveHalvingProxy = m.contract(
+    "PoWaiProxy",
+    [adaptiveHalvingImplementation, m.encodeFunctionCall(adaptiveHalvingImplementation, "initialize", [chronoFuel])],
+    { id: "AdaptiveHalvingProxy" }
+  );
+  const adaptiveHalving = m.contractAt("AdaptiveHalving", adaptiveHalvingProxy);
+
+  const poWaiCoreImplementation = m.contract("PoWaiCore", [], { id: "PoWaiCoreImplementation" });
+  const poWaiCoreProxy = m.contract(
+    "PoWaiProxy",
+    [poWaiCoreImplementation, m.encodeFunctionCall(poWaiCoreImplementation, "initialize", [chronoFuel])],
+    { id: "PoWaiCoreProxy" }
+  );
+  const poWaiCore = m.contractAt("PoWaiCore", poWaiCoreProxy);
+
+  const poWaiLens = m.contract("PoWaiLens", [poWaiCore]);
+  const burnCertificateNFT = m.contract("BurnCertificateNFT", []);
+  const poWaiForwarder = m.contract("PoWaiForwarder", []);
+
+  // --- Linking ---
+  const linkTokenToCore = m.call(chronoFuel, "setPoWaiCoreContract", [poWaiCore], {
+    id: "ChronoFuel_setPoWaiCoreContract",
+  });
+  const linkHalvingToCore = m.call(adaptiveHalving, "setPoWaiCoreContract", [poWaiCore], {
+    id: "AdaptiveHalving_setPoWaiCoreContract",
+  });
+  const linkCoreToHalving = m.call(poWaiCore, "setAdaptiveHalving", [adaptiveHalving], {
+    id: "PoWaiCore_setAdaptiveHalving",
+  });
+  const linkCertificatesToCore = m.call(burnCertificateNFT, "setPoWaiCoreContract", [poWaiCore], {
+    id: "BurnCertificateNFT_setPoWaiCoreContract",
+  });
+  const linkCoreToCertificates = m.call(poWaiCore, "setBurnCertificateNFT", [burnCertificateNFT], {
+    id: "PoWaiCore_setBurnCertificateNFT",
+  });
+  const linkCoreToForwarder = m.call(poWaiCore, "setTrustedForwarder", [poWaiForwarder], {
+    id: "PoWaiCore_setTrustedForwarder",
+  });
+
+  // --- Circuit breakers ---
+  const armMintRateLimits = m.call(chronoFuel, "setMintRateLimits", [maxMintPerBlock, maxMintPerHour], {
+    id: "ChronoFuel_setMintRateLimits",
+  });
+  const armHalvingKeyBound = m.call(adaptiveHalving, "setMaxHalvingKeyEffectPercentage", [maxHalvingKeyEffectPercentage], {
+    id: "AdaptiveHalving_setMaxHalvingKeyEffectPercentage",
+  });
+
+  // --- Admin hand-over (only once the system is fully linked and its breakers armed) ---
+  const links = [
+    linkTokenToCore,
+    linkHalvingToCore,
+    linkCoreToHalving,
+    linkCertificatesToCore,
+    linkCoreToCertificates,
+    linkCoreToForwarder,
+    armMintRateLimits,
+    armHalvingKeyBound,
+  ];
+  m.call(chronoFuel, "grantRole", [DEFAULT_ADMIN_ROLE, admin], {
+    id: "ChronoFuel_grantAdminRole",
+    after: links,
+  });
+  m.call(adaptiveHalving, "grantRole", [DEFAULT_ADMIN_ROLE, admin], {
+    id: "AdaptiveHalving_grantAdminRole",
+    after: links,
+  });
+  m.call(poWaiCore, "grantRole", [DEFAULT_ADMIN_ROLE, admin], {
+    id: "PoWaiCore_grantAdminRole",
+    after: links,
+  });
+  m.call(burnCertificateNFT, "grantRole", [DEFAULT_ADMIN_ROLE, admin], {
+    id: "BurnCertificateNFT_grantAdminRole",
+    after: links,
+  });
+
+  return { chronoFuel, adaptiveHalving, poWaiCore, poWaiLens, burnCertificateNFT, poWaiForwarder };
+});
+
+export default ChronoFuelCoreModule;
@@ -0,0 +1,145 @@
+// ignition/modules/ChronoFuelGovernance.ts
+// Deploys DAO-points governance for the ChronoFuel PoWai system and hands the admin roles to its timelock.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { ZeroAddress, ZeroHash, id } from "ethers";
+import ChronoFuelCoreModule from "./ChronoFuelCore";
+
+// AccessControl's DEFAULT_ADMIN_ROLE is bytes32(0); TimelockController also uses it as its admin role
+const DEFAULT_ADMIN_ROLE = ZeroHash;
+const HALVING_OPERATOR_ROLE = id("HALVING_OPERATOR_ROLE");
+const PAUSER_ROLE = id("PAUSER_ROLE");
+const PROPOSER_ROLE = id("PROPOSER_ROLE");
+const CANCELLER_ROLE = id("CANCELLER_ROLE");
+
+/**
+ * Deploys DaoPoints, a TimelockController and PoWaiGovernor on top of the core
+ * module, links DaoPoints to PoWaiCore so every boostBurn credits voting power,
+ * and makes the timelock the admin of ChronoFuel, AdaptiveHalving, PoWaiCore,
+ * BurnCertificateNFT and DaoPoints. As admin of ChronoFuel and BurnCertificateNFT
+ * it also controls who holds their MINTER_ROLE (only PoWaiCore after linking).
+ *
+ * The emergency pause is handed to the `guardian` parameter (e.g. a multisig that can react faster than the
+ * timelock, not the deployer): it gets PAUSER_ROLE on PoWaiCore and ChronoFuel. Only the timelock can unpause.
+ *
+ * The deployer renounces all of its roles on those contracts (and its temporary
+ * admin role on the timelock) once the hand-over is done, HALVING_OPERATOR_ROLE
+ * included: PoWaiCore checks for a halving after every claim, and a keeper that
+ * should apply halvings in between gets the role through a proposal. If the core
+ * module's `admin` parameter is a different account, it keeps DEFAULT_ADMIN_ROLE
+ * until it renounces it itself.
+ *
+ * Anyone may execute a proposal once its timelock delay has passed.
+ */
+const ChronoFuelGovernanceModule = buildModule("ChronoFuelGovernanceModule", (m) => {
+  const deployer = m.getAccount(0);
+  const guardian = m.getParameter<string>("guardian");
+  const { chronoFuel, adaptiveHalving, poWaiCore, poWaiLens, burnCertificateNFT, poWaiForwarder } = m.useModule(ChronoFuelCoreModule);
+
+  const timelockMinDelay = m.getParameter("timelockMinDelay", 2 * 24 * 3600); // Seconds
+  const votingDelay = m.getParameter("votingDelay", 1); // Blocks
+  const votingPeriod = m.getParameter("votingPeriod", 50_400); // Blocks
+  const proposalThreshold = m.getParameter("proposalThreshold", 0); // DAO points
+  const quorumPercent = m.getParameter("quorumPercent", 4);
+
+  // --- Deployments ---
+  const daoPoints = m.contract("DaoPoints", []);
+  const timelock = m.contract("TimelockController", [timelockMinDelay, [], [ZeroAddress], deployer]);
+  const governor = m.contract("PoWaiGovernor", [
+    daoPoints,
+    timelock,
+    votingDelay,
+    votingPeriod,
+    proposalThreshold,
+    quorumPercent,
+  ]);
+
+  // --- Linking ---
+  const linkPointsToCore = m.call(daoPoints, "setPoWaiCoreContract", [poWaiCore], {
+    id: "DaoPoints_setPoWaiCoreContract",
+  });
+  const linkCoreToPoints = m.call(poWaiCore, "setDaoPointsContract", [daoPoints], {
+    id: "PoWaiCore_setDaoPointsContract",
+  });
+  const grantProposer = m.call(timelock, "grantRole", [PROPOSER_ROLE, governor], {
+    id: "TimelockController_grantProposerRole",
+  });
+  const grantCanceller = m.call(timelock, "grantRole", [CANCELLER_ROLE, governor], {
+    id: "TimelockController_grantCancellerRole",
+  });
+
+  // --- Admin hand-over to the timelock ---
+  const handOver = [ChronoFuelCoreModule, linkPointsToCore, linkCoreToPoints];
+  const grantTokenAdmin = m.call(chronoFuel, "grantRole", [DEFAULT_ADMIN_ROLE, timelock], {
+    id: "ChronoFuel_grantTimelockAdminRole",
+    after: handOver,
+  });
+  const grantCoreAdmin = m.call(poWaiCore, "grantRole", [DEFAULT_ADMIN_ROLE, timelock], {
+    id: "PoWaiCore_grantTimelockAdminRole",
+    after: handOver,
+  });
+  const grantHalvingAdmin = m.call(adaptiveHalving, "grantRole", [DEFAULT_ADMIN_ROLE, timelock], {
+    id: "AdaptiveHalving_grantTimelockAdminRole",
+    after: handOver,
+  });
+  const grantCertificatesAdmin = m.call(burnCertificateNFT, "grantRole", [DEFAULT_ADMIN_ROLE, timelock], {
+    id: "BurnCertificateNFT_grantTimelockAdminRole",
+    after: handOver,
+  });
+  const grantPointsAdmin = m.call(daoPoints, "grantRole", [DEFAULT_ADMIN_ROLE, timelock], {
+    id: "DaoPoints_grantTimelockAdminRole",
+    after: handOver,
+  });
+
+  // --- Emergency pause to the guardian ---
+  const grantTokenPauser = m.call(chronoFuel, "grantRole", [PAUSER_ROLE, guardian], {
+    id: "ChronoFuel_grantGuardianPauserRole",
+    after: handOver,
+  });
+  const grantCorePauser = m.call(poWaiCore, "grantRole", [PAUSER_ROLE, guardian], {
+    id: "PoWaiCore_grantGuardianPauserRole",
+    after: handOver,
+  });
+
+  // --- The deployer steps down ---
+  m.call(chronoFuel, "renounceRole", [PAUSER_ROLE, deployer], {
+    id: "ChronoFuel_renounceDeployerPauserRole",
+    after: [grantTokenPauser],
+  });
+  m.call(chronoFuel, "renounceRole", [DEFAULT_ADMIN_ROLE, deployer], {
+    id: "ChronoFuel_renounceDeployerAdminRole",
+    after: [grantTokenAdmin, grantTokenPauser],
+  });
+  m.call(poWaiCore, "renounceRole", [PAUSER_ROLE, deployer], {
+    id: "PoWaiCore_renounceDeployerPauserRole",
+    after: [grantCorePauser],
+  });
+  m.call(poWaiCore, "renounceRole", [DEFAULT_ADMIN_ROLE, deployer], {
+    id: "PoWaiCore_renounceDeployerAdminRole",
+    after: [grantCoreAdmin, grantCorePauser],
+  });
+  m.call(adaptiveHalving, "renounceRole", [HALVING_OPERATOR_ROLE, deployer], {
+    id: "AdaptiveHalving_renounceDeployerOperatorRole",
+    after: [grantHalvingAdmin],
+  });
+  m.call(adaptiveHalving, "renounceRole", [DEFAULT_ADMIN_ROLE, deployer], {
+    id: "AdaptiveHalving_renounceDeployerAdminRole",
+    after: [grantHalvingAdmin],
+  });
+  m.call(burnCertificateNFT, "renounceRole", [DEFAULT_ADMIN_ROLE, deployer], {
+    id: "BurnCertificateNFT_renounceDeployerAdminRole",
+    after: [grantCertificatesAdmin],
+  });
+  m.call(daoPoints, "renounceRole", [DEFAULT_ADMIN_ROLE, deployer], {
+    id: "DaoPoints_renounceDeployerAdminRole",
+    after: [grantPointsAdmin],
+  });
+  m.call(timelock, "renounceRole", [DEFAULT_ADMIN_ROLE, deployer], {
+    id: "TimelockController_renounceDeployerAdminRole",
+    after: [grantProposer, grantCanceller],
+  });
+
+  return { chronoFuel, adaptiveHalving, poWaiCore, poWaiLens, burnCertificateNFT, poWaiForwarder, daoPoints, timelock, governor };
+});
+
+export default ChronoFuelGovernanceModule;
@@ -0,0 +1,24 @@
+// ignition/modules/ChronoFuelSystem.ts
+// Deploys the full ChronoFuel PoWai system on a network with a real randomness provider.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import ChronoFuelCoreModule from "./ChronoFuelCore";
+
+/**
+ * Deploys and links the core contracts, then points PoWaiCore at the
+ * `randomnessProvider` parameter (an IRandomnessProvider, e.g. a VRF adapter).
+ *
+ * Per-network values live in `ignition/parameters/<network>.json`.
+ */
+const ChronoFuelSystemModule = buildModule("ChronoFuelSystemModule", (m) => {
+  const { chronoFuel, adaptiveHalving, poWaiCore, poWaiLens, burnCertificateNFT, poWaiForwarder } = m.useModule(ChronoFuelCoreModule);
+  const randomnessProvider = m.getParameter<string>("randomnessProvider");
+
+  m.call(poWaiCore, "setRandomnessProvider", [randomnessProvider], {
+    id: "PoWaiCore_setRandomnessProvider",
+  });
+
+  return { chronoFuel, adaptiveHalving, poWaiCore, poWaiLens, burnCertificateNFT, poWaiForwarder };
+});
+
+export default ChronoFuelSystemModule;
@@ -0,0 +1,23 @@
+// ignition/modules/LocalChronoFuelSystem.ts
+// Deploys the full ChronoFuel PoWai system on a local node, backed by the mock randomness coordinator.
+
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import ChronoFuelCoreModule from "./ChronoFuelCore";
+
+/**
+ * Same as ChronoFuelSystemModule, but deploys a MockRandomnessCoordinator as the
+ * randomness provider. Pending claims are settled by calling
+ * `fulfillRandomness(requestId, randomWord)` on the coordinator.
+ */
+const LocalChronoFuelSystemModule = buildModule("LocalChronoFuelSystemModule", (m) => {
+  const { chronoFuel, adaptiveHalving, poWaiCore, poWaiLens, burnCertificateNFT, poWaiForwarder } = m.useModule(ChronoFuelCoreModule);
+  const randomnessCoordinator = m.contract("MockRandomnessCoordinator", []);
+
+  m.call(poWaiCore, "setRandomnessProvider", [randomnessCoordinator], {
+    id: "PoWaiCore_setRandomnessProvider",
+  });
+
+  return { chronoFuel, adaptiveHalving, poWaiCore, poWaiLens, burnCertificateNFT, poWaiForwarder, randomnessCoordinator };
+});
+
+export default LocalChronoFuelSystemModule;
@@ -0,0 +1,54 @@
+// scripts/airdrop/airdropRights.ts
+// Reads each burner's airdropRights from PoWaiCore as of a snapshot block.
+
+import { getAddress } from "ethers";
+import { PoWaiCore } from "../../typechain-types";
+import { AirdropEntitlement } from "./merkleTree";
+
+const DEFAULT_BLOCK_CHUNK = 10_000; // Stay under typical RPC log range limits
+
+/**
+ * Sums the airdropRights of every BurnRecord created up to and including `snapshotBlock`.
+ *
+ * Burners are discovered from BurnedForBoost events, and each event matches the BurnRecord
+ * appended in the same call. Burn records are append-only, so the first N records of an account
+ * with N burns before the snapshot are read at the latest block; no archive node is needed.
+ */
+export async function collectAirdropRights(
+  poWaiCore: PoWaiCore,
+  snapshotBlock: number,
+  fromBlock = 0,
+  blockChunk = DEFAULT_BLOCK_CHUNK
+): Promise<Map<string, bigint>> {
+  const burnsBeforeSnapshot = new Map<string, number>();
+  for (let start = fromBlock; start <= snapshotBlock; start += blockChunk) {
+    const end = Math.min(start + blockChunk - 1, snapshotBlock);
+    const events = await poWaiCore.queryFilter(poWaiCore.filters.BurnedForBoost(), start, end);
+    for (const event of events) {
+      const burner = getAddress(event.args.burner);
+      burnsBeforeSnapshot.set(burner, (burnsBeforeSnapshot.get(burner) ?? 0) + 1);
+    }
+  }
+
+  const rights = new Map<string, bigint>();
+  for (const [burner, burnCount] of burnsBeforeSnapshot) {
+    let total = 0n;
+    for (let index = 0; index < burnCount; index++) {
+      const record = await poWaiCore.getUserBurnRecord(burner, index);
+      total += record.airdropRights;
+    }
+    rights.set(burner, total);
+  }
+  return rights;
+}
+
+/**
+ * Converts airdropRights into token amounts at a fixed rate per right.
+ */
+export function toEntitlements(rights: Map<string, bigint>, amountPerRight: bigint): AirdropEntitlement[] {
+  return [...rights].map(([account, airdropRights]) => ({
+    account,
+    airdropRights,
+    amount: airdropRights * amountPerRight,
+  }));
+}
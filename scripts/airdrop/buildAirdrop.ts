@@ -0,0 +1,68 @@
+// scripts/airdrop/buildAirdrop.ts
+// Builds a Merkle airdrop from PoWaiCore airdropRights as of a snapshot block.
+//
+// Environment:
+//   POWAI_CORE        PoWaiCore address (required)
+//   SNAPSHOT_BLOCK    Last block whose burns count (default: latest)
+//   FROM_BLOCK        First block to scan, e.g. the PoWaiCore deployment block (default: 0)
+//   AMOUNT_PER_RIGHT  Partner token amount in wei paid per airdrop right (default: 1e18)
+//   AIRDROP_OUT_DIR   Output directory (default: airdrops/<network>/<snapshotBlock>)
+//
+// Writes merkle-tree.json (root and every layer) and proofs.json (index, amount and proof per account).
+//
+// Run with: POWAI_CORE=0x... npx hardhat run scripts/airdrop/buildAirdrop.ts --network monadTestnet
+
+import fs from "fs";
+import path from "path";
+import { ethers, network } from "hardhat";
+import { collectAirdropRights, toEntitlements } from "./airdropRights";
+import { buildAirdropTree } from "./merkleTree";
+
+async function main() {
+  const poWaiCoreAddress = process.env.POWAI_CORE;
+  if (!poWaiCoreAddress) {
+    throw new Error("POWAI_CORE must be set to the PoWaiCore address");
+  }
+  const snapshotBlock = process.env.SNAPSHOT_BLOCK
+    ? Number(process.env.SNAPSHOT_BLOCK)
+    : await ethers.provider.getBlockNumber();
+  const fromBlock = Number(process.env.FROM_BLOCK ?? 0);
+  const amountPerRight = BigInt(process.env.AMOUNT_PER_RIGHT ?? ethers.parseUnits("1", 18));
+  const outDir = process.env.AIRDROP_OUT_DIR ?? path.join("airdrops", network.name, String(snapshotBlock));
+
+  console.log(`🪂 Building airdrop from PoWaiCore ${poWaiCoreAddress} at block ${snapshotBlock}...`);
+  const poWaiCore = await ethers.getContractAt("PoWaiCore", poWaiCoreAddress);
+  const rights = await collectAirdropRights(poWaiCore, snapshotBlock, fromBlock);
+  const tree = buildAirdropTree(toEntitlements(rights, amountPerRight));
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const treePath = path.join(outDir, "merkle-tree.json");
+  const proofsPath = path.join(outDir, "proofs.json");
+  fs.writeFileSync(treePath, JSON.stringify({ merkleRoot: tree.merkleRoot, layers: tree.layers }, null, 2));
+  fs.writeFileSync(
+    proofsPath,
+    JSON.stringify(
+      {
+        merkleRoot: tree.merkleRoot,
+        network: network.name,
+        poWaiCore: poWaiCoreAddress,
+        snapshotBlock,
+        amountPerRight: amountPerRight.toString(),
+        totalAmount: tree.totalAmount.toString(),
+        claims: tree.claims,
+      },
+      null,
+      2
+    )
+  );
+
+  console.log(`✅ ${Object.keys(tree.claims).length} accounts, ${ethers.formatUnits(tree.totalAmount, 18)} tokens in total`);
+  console.log(`Merkle root:  ${tree.merkleRoot}`);
+  console.log(`Tree:         ${treePath}`);
+  console.log(`Proofs:       ${proofsPath}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,44 @@
+// scripts/airdrop/deployDistributor.ts
+// Deploys a MerkleAirdropDistributor for a proofs.json written by buildAirdrop.ts and funds it.
+//
+// Environment:
+//   AIRDROP_PROOFS  Path to proofs.json (required)
+//   AIRDROP_TOKEN   Address of the partner token being distributed (required)
+//   AIRDROP_EXPIRY  Unix timestamp after which claims close (default: 90 days from now)
+//
+// The deployer must hold the proofs file's totalAmount of AIRDROP_TOKEN; it becomes the
+// distributor admin and can sweep the remainder after expiry.
+//
+// Run with: AIRDROP_PROOFS=airdrops/... AIRDROP_TOKEN=0x... npx hardhat run scripts/airdrop/deployDistributor.ts --network monadTestnet
+
+import fs from "fs";
+import { ethers } from "hardhat";
+
+async function main() {
+  const proofsPath = process.env.AIRDROP_PROOFS;
+  const tokenAddress = process.env.AIRDROP_TOKEN;
+  if (!proofsPath || !tokenAddress) {
+    throw new Error("AIRDROP_PROOFS and AIRDROP_TOKEN must be set");
+  }
+  const { merkleRoot, totalAmount } = JSON.parse(fs.readFileSync(proofsPath, "utf8"));
+  const latestBlock = await ethers.provider.getBlock("latest");
+  const expiry = process.env.AIRDROP_EXPIRY ? BigInt(process.env.AIRDROP_EXPIRY) : BigInt(latestBlock!.timestamp + 90 * 24 * 3600);
+
+  console.log(`🪂 Deploying MerkleAirdropDistributor for root ${merkleRoot}...`);
+  const DistributorFactory = await ethers.getContractFactory("MerkleAirdropDistributor");
+  const distributor = await DistributorFactory.deploy(tokenAddress, merkleRoot, expiry);
+  await distributor.waitForDeployment();
+  const distributorAddress = await distributor.getAddress();
+  console.log(`✅ MerkleAirdropDistributor deployed to: ${distributorAddress}`);
+
+  const token = await ethers.getContractAt("@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20", tokenAddress);
+  const tx = await token.transfer(distributorAddress, BigInt(totalAmount));
+  await tx.wait();
+  console.log(`   Funded with ${totalAmount} wei of ${tokenAddress}. Tx: ${tx.hash}`);
+  console.log(`   Claims close at ${new Date(Number(expiry) * 1000).toISOString()}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,92 @@
+// scripts/airdrop/merkleTree.ts
+// Merkle tree matching MerkleAirdropDistributor: leaves are keccak256(abi.encodePacked(index, account, amount))
+// and every pair is hashed in sorted order (OpenZeppelin MerkleProof).
+
+import { concat, getAddress, keccak256, solidityPackedKeccak256 } from "ethers";
+
+export interface AirdropEntitlement {
+  account: string;
+  airdropRights: bigint;
+  amount: bigint;
+}
+
+export interface AirdropClaim {
+  index: number;
+  amount: string;
+  airdropRights: string;
+  proof: string[];
+}
+
+export interface AirdropTree {
+  merkleRoot: string;
+  totalAmount: bigint;
+  layers: string[][]; // layers[0] are the leaves, the last layer is [root]
+  claims: Record<string, AirdropClaim>; // Keyed by checksummed account
+}
+
+export function hashLeaf(index: number, account: string, amount: bigint): string {
+  return solidityPackedKeccak256(["uint256", "address", "uint256"], [index, account, amount]);
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Builds every layer of the tree. An odd node out is carried up to the next layer unchanged.
+ */
+export function buildLayers(leaves: string[]): string[][] {
+  if (leaves.length === 0) {
+    throw new Error("Cannot build a Merkle tree without leaves");
+  }
+  const layers = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const current = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    layers.push(next);
+  }
+  return layers;
+}
+
+export function getProof(layers: string[][], index: number): string[] {
+  const proof: string[] = [];
+  for (let layer = 0; layer < layers.length - 1; layer++) {
+    const sibling = index ^ 1;
+    if (sibling < layers[layer].length) {
+      proof.push(layers[layer][sibling]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+/**
+ * Assigns indexes by ascending address (so the same snapshot always yields the same root)
+ * and builds the tree and a proof for every account with a non-zero amount.
+ */
+export function buildAirdropTree(entitlements: AirdropEntitlement[]): AirdropTree {
+  const sorted = entitlements
+    .filter((entitlement) => entitlement.amount > 0n)
+    .map((entitlement) => ({ ...entitlement, account: getAddress(entitlement.account) }))
+    .sort((a, b) => (BigInt(a.account) < BigInt(b.account) ? -1 : 1));
+
+  const leaves = sorted.map((entitlement, index) => hashLeaf(index, entitlement.account, entitlement.amount));
+  const layers = buildLayers(leaves);
+
+  const claims: Record<string, AirdropClaim> = {};
+  let totalAmount = 0n;
+  sorted.forEach((entitlement, index) => {
+    claims[entitlement.account] = {
+      index,
+      amount: entitlement.amount.toString(),
+      airdropRights: entitlement.airdropRights.toString(),
+      proof: getProof(layers, index),
+    };
+    totalAmount += entitlement.amount;
+  });
+
+  return { merkleRoot: layers[layers.length - 1][0], totalAmount, layers, claims };
+}
@@ -0,0 +1,84 @@
+// scripts/benchmarks/activeUsersGas.ts
+// Gas benchmark for active-user tracking in PoWaiCore.claimReward.
+//
+// Seeds up to 10k active users into both the current hourly-bucket tracker (via PoWaiCoreHarness)
+// and the previous list-based tracker (LegacyActiveUsersTracker), then reports:
+//   - the gas of a single active-user update with each tracker, and
+//   - the gas of a real claimReward (current) next to the same claim with the legacy
+//     tracker cost swapped in (before).
+//
+// Run with: npx hardhat run scripts/benchmarks/activeUsersGas.ts
+
+import { ethers } from "hardhat";
+import { moveTime } from "../../test/fixtures";
+import { toWei } from "../sdk/units";
+import { deployProxy } from "../upgrades/proxies";
+
+const USER_CHECKPOINTS = [1, 100, 1_000, 5_000, 10_000];
+const LEGACY_SEED_CHUNK = 250; // Pushes are ~66k gas each
+const BUCKET_SEED_CHUNK = 500; // Bucket updates are ~27k gas each
+const MAX_COOLDOWN_SECONDS = 15 * 60;
+
+async function main() {
+  const [deployer, claimer] = await ethers.getSigners();
+  const blockGasLimit = (await ethers.provider.getBlock("latest"))!.gasLimit;
+
+  console.log("⛽ Benchmarking active-user tracking gas...");
+
+  const chronoFuel = await deployProxy(await ethers.getContractFactory("ChronoFuel"));
+  const poWaiCore = await deployProxy(await ethers.getContractFactory("PoWaiCoreHarness"), [await chronoFuel.getAddress()]);
+  const randomnessCoordinator = await (await ethers.getContractFactory("MockRandomnessCoordinator")).deploy();
+  const legacyTracker = await (await ethers.getContractFactory("LegacyActiveUsersTracker")).deploy();
+
+  await (await chronoFuel.setPoWaiCoreContract(await poWaiCore.getAddress())).wait();
+  await (await poWaiCore.setRandomnessProvider(await randomnessCoordinator.getAddress())).wait();
+
+  await (await chronoFuel.connect(deployer).transfer(claimer.address, toWei(100))).wait();
+  await (await chronoFuel.connect(claimer).approve(await poWaiCore.getAddress(), toWei(100))).wait();
+  await (await poWaiCore.connect(claimer).stake(toWei(100))).wait();
+
+  // Seed from different salts so the two trackers never share synthetic users
+  let seeded = 0;
+  const results = [];
+  for (const checkpoint of USER_CHECKPOINTS) {
+    const target = checkpoint - 1; // The claimer is the last user
+    while (seeded < target) {
+      const legacyChunk = Math.min(LEGACY_SEED_CHUNK, target - seeded);
+      await (await legacyTracker.seedActiveUsers(legacyChunk, seeded)).wait();
+      seeded += legacyChunk;
+    }
+    let bucketSeeded = Number(await poWaiCore.activeUsersCount()) - (await poWaiCore.isUserActive(claimer.address) ? 1 : 0);
+    while (bucketSeeded < target) {
+      const bucketChunk = Math.min(BUCKET_SEED_CHUNK, target - bucketSeeded);
+      await (await poWaiCore.seedActiveUsers(bucketChunk, bucketSeeded)).wait();
+      bucketSeeded += bucketChunk;
+    }
+
+    const legacyUpdateGas = await legacyTracker.updateActiveUsers.estimateGas(claimer.address).catch(() => undefined);
+    const bucketUpdateGas = await poWaiCore.updateActiveUsers.estimateGas(claimer.address);
+
+    await moveTime(MAX_COOLDOWN_SECONDS);
+    const receipt = await (await poWaiCore.connect(claimer).claimReward()).wait();
+    const claimGas = receipt!.gasUsed;
+    const legacyClaimGas = legacyUpdateGas === undefined ? undefined : claimGas - bucketUpdateGas + legacyUpdateGas;
+
+    const format = (gas: bigint | undefined) =>
+      gas === undefined || gas > blockGasLimit ? `> block gas limit (${blockGasLimit})` : gas.toString();
+    results.push({
+      activeUsers: checkpoint,
+      "tracker update (before)": format(legacyUpdateGas),
+      "tracker update (after)": format(bucketUpdateGas),
+      "claimReward (before)": format(legacyClaimGas),
+      "claimReward (after)": format(claimGas),
+    });
+    console.log(`   ${checkpoint} active users measured`);
+  }
+
+  console.log("\nclaimReward gas by number of active users:");
+  console.table(results);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
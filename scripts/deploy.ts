@@ -1,42 +1,46 @@
-import { ethers } from "hardhat";
-// <<<--- ลบ BurnCertificateNFT ออก
-import { ChronoFuel, PoWaiCore, AdaptiveHalving } from "../typechain-types"; // Adjust path if necessary
+import { artifacts, ethers, network } from "hardhat";
+import { ChronoFuel, PoWaiCore, AdaptiveHalving, PoWaiLens, BurnCertificateNFT, PoWaiForwarder } from "../typechain-types"; // Adjust path if necessary
+import { saveDeployment } from "../tasks/deployment";
+import {
+  DEFAULT_MAX_HALVING_KEY_EFFECT_PERCENTAGE,
+  DEFAULT_MAX_MINT_PER_BLOCK,
+  DEFAULT_MAX_MINT_PER_HOUR,
+} from "../ignition/modules/ChronoFuelCore";
+import { deployProxy, getImplementationAddress, UPGRADEABLE_CONTRACTS } from "./upgrades/proxies";
+import { readStorageLayout, recordImplementation } from "./upgrades/storageLayout";
 
 async function main() {
   console.log("🚀 Deploying ChronoFuel PoWai System Contracts...");
 
   // --- 1. Deploy ChronoFuel Token ---
+  // ChronoFuel, AdaptiveHalving and PoWaiCore sit behind upgradeable proxies; initialize replaces their constructors
   console.log("\nDeploying ChronoFuel (CFL) token...");
   const ChronoFuelFactory = await ethers.getContractFactory("ChronoFuel");
-  const chronoFuel: ChronoFuel = await ChronoFuelFactory.deploy();
-  await chronoFuel.waitForDeployment();
+  const chronoFuel: ChronoFuel = await deployProxy(ChronoFuelFactory);
   const chronoFuelAddress = await chronoFuel.getAddress();
   console.log(`✅ ChronoFuel (CFL) deployed to: ${chronoFuelAddress}`);
 
-  // <<<--- ลบการ Deploy BurnCertificateNFT ออก
   // --- 2. Deploy BurnCertificateNFT ---
-  // console.log("\nDeploying BurnCertificateNFT...");
-  // const BurnCertificateNFTFactory = await ethers.getContractFactory("BurnCertificateNFT");
-  // const burnCertificateNFT: BurnCertificateNFT = await BurnCertificateNFTFactory.deploy();
-  // await burnCertificateNFT.waitForDeployment();
-  // const burnCertificateNFTAddress = await burnCertificateNFT.getAddress();
-  // console.log(`✅ BurnCertificateNFT deployed to: ${burnCertificateNFTAddress}`);
+  console.log("\nDeploying BurnCertificateNFT...");
+  const BurnCertificateNFTFactory = await ethers.getContractFactory("BurnCertificateNFT");
+  const burnCertificateNFT: BurnCertificateNFT = await BurnCertificateNFTFactory.deploy();
+  await burnCertificateNFT.waitForDeployment();
+  const burnCertificateNFTAddress = await burnCertificateNFT.getAddress();
+  console.log(`✅ BurnCertificateNFT deployed to: ${burnCertificateNFTAddress}`);
 
   // --- 3. Deploy AdaptiveHalving ---
-  // Constructor requires ChronoFuel token address
+  // initialize requires ChronoFuel token address
   console.log("\nDeploying AdaptiveHalving...");
   const AdaptiveHalvingFactory = await ethers.getContractFactory("AdaptiveHalving");
-  const adaptiveHalving: AdaptiveHalving = await AdaptiveHalvingFactory.deploy(chronoFuelAddress);
-  await adaptiveHalving.waitForDeployment();
+  const adaptiveHalving: AdaptiveHalving = await deployProxy(AdaptiveHalvingFactory, [chronoFuelAddress]);
   const adaptiveHalvingAddress = await adaptiveHalving.getAddress();
   console.log(`✅ AdaptiveHalving deployed to: ${adaptiveHalvingAddress}`);
 
   // --- 4. Deploy PoWaiCore ---
-  // Constructor requires ChronoFuel token address
+  // initialize requires ChronoFuel token address
   console.log("\nDeploying PoWaiCore...");
   const PoWaiCoreFactory = await ethers.getContractFactory("PoWaiCore");
-  const poWaiCore: PoWaiCore = await PoWaiCoreFactory.deploy(chronoFuelAddress);
-  await poWaiCore.waitForDeployment();
+  const poWaiCore: PoWaiCore = await deployProxy(PoWaiCoreFactory, [chronoFuelAddress]);
   const poWaiCoreAddress = await poWaiCore.getAddress();
   console.log(`✅ PoWaiCore deployed to: ${poWaiCoreAddress}`);
 
@@ -48,12 +52,11 @@ async function main() {
   await tx.wait();
   console.log(`   ChronoFuel.setPoWaiCoreContract(${poWaiCoreAddress}) called. Tx: ${tx.hash}`);
 
-  // <<<--- ลบการเชื่อมโยง BurnCertificateNFT ออก
   // --- Link BurnCertificateNFT to PoWaiCore ---
-  // console.log(`Configuring BurnCertificateNFT to recognize PoWaiCore...`);
-  // tx = await burnCertificateNFT.setPoWaiCoreContract(poWaiCoreAddress);
-  // await tx.wait();
-  // console.log(`   BurnCertificateNFT.setPoWaiCoreContract(${poWaiCoreAddress}) called. Tx: ${tx.hash}`);
+  console.log(`Configuring BurnCertificateNFT to recognize PoWaiCore...`);
+  tx = await burnCertificateNFT.setPoWaiCoreContract(poWaiCoreAddress);
+  await tx.wait();
+  console.log(`   BurnCertificateNFT.setPoWaiCoreContract(${poWaiCoreAddress}) called. Tx: ${tx.hash}`);
 
   // --- Link AdaptiveHalving to PoWaiCore ---
   console.log(`Configuring AdaptiveHalving to recognize PoWaiCore...`);
@@ -61,12 +64,11 @@ async function main() {
   await tx.wait();
   console.log(`   AdaptiveHalving.setPoWaiCoreContract(${poWaiCoreAddress}) called. Tx: ${tx.hash}`);
 
-  // <<<--- ลบการเชื่อมโยง PoWaiCore ไปยัง BurnCertificateNFT ออก
   // --- Link PoWaiCore to BurnCertificateNFT ---
-  // console.log(`Configuring PoWaiCore to recognize BurnCertificateNFT...`);
-  // tx = await poWaiCore.setBurnCertificateNFT(burnCertificateNFTAddress);
-  // await tx.wait();
-  // console.log(`   PoWaiCore.setBurnCertificateNFT(${burnCertificateNFTAddress}) called. Tx: ${tx.hash}`);
+  console.log(`Configuring PoWaiCore to recognize BurnCertificateNFT...`);
+  tx = await poWaiCore.setBurnCertificateNFT(burnCertificateNFTAddress);
+  await tx.wait();
+  console.log(`   PoWaiCore.setBurnCertificateNFT(${burnCertificateNFTAddress}) called. Tx: ${tx.hash}`);
 
   // --- Link PoWaiCore to AdaptiveHalving ---
   console.log(`Configuring PoWaiCore to recognize AdaptiveHalving...`);
@@ -74,19 +76,95 @@ async function main() {
   await tx.wait();
   console.log(`   PoWaiCore.setAdaptiveHalving(${adaptiveHalvingAddress}) called. Tx: ${tx.hash}`);
 
+  // --- Link PoWaiCore to the randomness provider ---
+  // Real networks pass an IRandomnessProvider (e.g. a VRF adapter) via RANDOMNESS_PROVIDER;
+  // local networks fall back to the mock coordinator.
+  let randomnessProviderAddress = process.env.RANDOMNESS_PROVIDER;
+  if (!randomnessProviderAddress) {
+    if (network.name !== "hardhat" && network.name !== "localhost") {
+      throw new Error(`RANDOMNESS_PROVIDER must be set when deploying to ${network.name}`);
+    }
+    console.log(`Deploying MockRandomnessCoordinator for ${network.name}...`);
+    const MockRandomnessCoordinatorFactory = await ethers.getContractFactory("MockRandomnessCoordinator");
+    const randomnessCoordinator = await MockRandomnessCoordinatorFactory.deploy();
+    await randomnessCoordinator.waitForDeployment();
+    randomnessProviderAddress = await randomnessCoordinator.getAddress();
+    console.log(`✅ MockRandomnessCoordinator deployed to: ${randomnessProviderAddress}`);
+  }
+  console.log(`Configuring PoWaiCore to use the randomness provider...`);
+  tx = await poWaiCore.setRandomnessProvider(randomnessProviderAddress);
+  await tx.wait();
+  console.log(`   PoWaiCore.setRandomnessProvider(${randomnessProviderAddress}) called. Tx: ${tx.hash}`);
+
+  // --- Deploy PoWaiForwarder and trust it for relayed (gasless) calls ---
+  console.log("\nDeploying PoWaiForwarder...");
+  const PoWaiForwarderFactory = await ethers.getContractFactory("PoWaiForwarder");
+  const poWaiForwarder: PoWaiForwarder = await PoWaiForwarderFactory.deploy();
+  await poWaiForwarder.waitForDeployment();
+  const poWaiForwarderAddress = await poWaiForwarder.getAddress();
+  console.log(`✅ PoWaiForwarder deployed to: ${poWaiForwarderAddress}`);
+  tx = await poWaiCore.setTrustedForwarder(poWaiForwarderAddress);
+  await tx.wait();
+  console.log(`   PoWaiCore.setTrustedForwarder(${poWaiForwarderAddress}) called. Tx: ${tx.hash}`);
+
+  // --- Arm the circuit breakers (the same defaults as the Ignition core module) ---
+  console.log(`\nConfiguring the circuit breakers...`);
+  tx = await chronoFuel.setMintRateLimits(DEFAULT_MAX_MINT_PER_BLOCK, DEFAULT_MAX_MINT_PER_HOUR);
+  await tx.wait();
+  console.log(`   ChronoFuel.setMintRateLimits(${DEFAULT_MAX_MINT_PER_BLOCK}, ${DEFAULT_MAX_MINT_PER_HOUR}) called. Tx: ${tx.hash}`);
+  tx = await adaptiveHalving.setMaxHalvingKeyEffectPercentage(DEFAULT_MAX_HALVING_KEY_EFFECT_PERCENTAGE);
+  await tx.wait();
+  console.log(`   AdaptiveHalving.setMaxHalvingKeyEffectPercentage(${DEFAULT_MAX_HALVING_KEY_EFFECT_PERCENTAGE}) called. Tx: ${tx.hash}`);
+  // --- Deploy PoWaiLens (read-only, no linking required) ---
+  console.log("\nDeploying PoWaiLens...");
+  const PoWaiLensFactory = await ethers.getContractFactory("PoWaiLens");
+  const poWaiLens: PoWaiLens = await PoWaiLensFactory.deploy(poWaiCoreAddress);
+  await poWaiLens.waitForDeployment();
+  const poWaiLensAddress = await poWaiLens.getAddress();
+  console.log(`✅ PoWaiLens deployed to: ${poWaiLensAddress}`);
+
   console.log("\n🎉 All contracts deployed and linked successfully!");
   console.log("\nContract Addresses:");
   console.log(`ChronoFuel (CFL):       ${chronoFuelAddress}`);
   console.log(`PoWaiCore:              ${poWaiCoreAddress}`);
-  // console.log(`BurnCertificateNFT:     ${burnCertificateNFTAddress}`); // ลบบรรทัดนี้
+  console.log(`BurnCertificateNFT:     ${burnCertificateNFTAddress}`);
   console.log(`AdaptiveHalving:        ${adaptiveHalvingAddress}`);
+  console.log(`RandomnessProvider:     ${randomnessProviderAddress}`);
+  console.log(`PoWaiLens:              ${poWaiLensAddress}`);
+  console.log(`PoWaiForwarder:         ${poWaiForwarderAddress}`);
+
+  // --- Record the addresses for the powai:* Hardhat tasks ---
+  const deploymentFile = saveDeployment(network.name, {
+    ChronoFuel: chronoFuelAddress,
+    AdaptiveHalving: adaptiveHalvingAddress,
+    PoWaiCore: poWaiCoreAddress,
+    PoWaiLens: poWaiLensAddress,
+    BurnCertificateNFT: burnCertificateNFTAddress,
+    PoWaiForwarder: poWaiForwarderAddress,
+  });
+  console.log(`\nAddresses written to ${deploymentFile}`);
+
+  // --- Record the implementations' storage layouts for scripts/upgrades/upgrade.ts ---
+  const proxies: Record<(typeof UPGRADEABLE_CONTRACTS)[number], string> = {
+    ChronoFuel: chronoFuelAddress,
+    AdaptiveHalving: adaptiveHalvingAddress,
+    PoWaiCore: poWaiCoreAddress,
+  };
+  let layoutFile = "";
+  for (const contractName of UPGRADEABLE_CONTRACTS) {
+    layoutFile = recordImplementation(network.name, contractName, {
+      contractName,
+      implementation: await getImplementationAddress(ethers.provider, proxies[contractName]),
+      storage: await readStorageLayout(artifacts, contractName),
+    });
+  }
+  console.log(`Storage layouts written to ${layoutFile}`);
 
-  console.log("\n--- Important Manual Step Required ---");
-  console.log("Please remember to manually update the `onlyOwnerOrPoWaiCore` modifier");
-  console.log("in your `AdaptiveHalving.sol` contract with the deployed `PoWaiCore` address.");
-  console.log("Replace `0x...` with:  ", poWaiCoreAddress);
-  console.log("This step needs to be done directly in the contract code (and re-deployed if it's the first time),");
-  console.log("or managed through a governance system later.");
+  console.log("\n--- Roles ---");
+  console.log(`ChronoFuel.MINTER_ROLE held by PoWaiCore:                ${await chronoFuel.hasRole(await chronoFuel.MINTER_ROLE(), poWaiCoreAddress)}`);
+  console.log(`ChronoFuel.PAUSER_ROLE held by PoWaiCore:                ${await chronoFuel.hasRole(await chronoFuel.PAUSER_ROLE(), poWaiCoreAddress)}`);
+  console.log(`AdaptiveHalving.HALVING_OPERATOR_ROLE held by PoWaiCore: ${await adaptiveHalving.hasRole(await adaptiveHalving.HALVING_OPERATOR_ROLE(), poWaiCoreAddress)}`);
+  console.log(`BurnCertificateNFT.MINTER_ROLE held by PoWaiCore:        ${await burnCertificateNFT.hasRole(await burnCertificateNFT.MINTER_ROLE(), poWaiCoreAddress)}`);
 }
 
 main().catch((error) => {
@@ -0,0 +1,226 @@
+// scripts/indexer/indexer.ts
+// Follows a node and materialises PoWai events into an IndexerStore, resuming from its checkpoint and rewinding on reorgs.
+
+import { Interface, Log, Provider, Result, ZeroAddress } from "ethers";
+import { AdaptiveHalving__factory, ChronoFuel__factory, PoWaiCore__factory } from "../../typechain-types";
+import { BlockRef, IndexedContract, IndexedEvent, IndexerStore } from "./store";
+
+// Events materialised per contract; anything else emitted by these contracts is ignored
+export const INDEXED_EVENTS: Record<IndexedContract, string[]> = {
+  PoWaiCore: ["Staked", "Unstaked", "LockedStaked", "LockedUnstaked", "RewardClaimed", "DeferredRewardsClaimed", "BurnedForBoost"],
+  ChronoFuel: ["TokensMinted", "TokensBurned"],
+  AdaptiveHalving: ["HalvingTriggered", "AntiHalvingShieldGranted", "AntiHalvingShieldConsumed"],
+};
+
+const INTERFACES: Record<IndexedContract, Interface> = {
+  PoWaiCore: PoWaiCore__factory.createInterface(),
+  ChronoFuel: ChronoFuel__factory.createInterface(),
+  AdaptiveHalving: AdaptiveHalving__factory.createInterface(),
+};
+
+export interface IndexerOptions {
+  startBlock?: number; // First block to index when the store is empty (default: 0)
+  blockChunk?: number; // Blocks per getLogs request (default: 2000)
+  confirmations?: number; // Stay this many blocks behind the head (default: 0)
+  reorgDepth?: number; // Recent block hashes kept to find the common ancestor (default: 64)
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number; // Below fromBlock when there was nothing new to index
+  eventsAdded: number;
+  eventsRolledBack: number;
+}
+
+/**
+ * Indexes Staked/Unstaked/RewardClaimed/BurnedForBoost (and locked staking) from PoWaiCore,
+ * TokensMinted/TokensBurned from ChronoFuel and HalvingTriggered/AntiHalvingShield* from
+ * AdaptiveHalving, decoded with the typechain interfaces.
+ *
+ * A range is only committed once every block its events came from, its last block and the previous
+ * checkpoint are all still canonical after getLogs, so a reorg while a chunk is fetched never
+ * leaves orphaned events behind. The store remembers the hashes of recent checkpoints and event
+ * blocks; before indexing further, sync checks all of them against the node and, if any changed,
+ * rolls back to the newest block below the oldest orphaned one (or empties the store if none is left).
+ */
+export class PoWaiIndexer {
+  private readonly contractByAddress: Map<string, IndexedContract>;
+  private readonly startBlock: number;
+  private readonly blockChunk: number;
+  private readonly confirmations: number;
+  private readonly reorgDepth: number;
+
+  constructor(
+    private readonly provider: Provider,
+    readonly store: IndexerStore,
+    readonly contracts: Partial<Record<IndexedContract, string>>,
+    options: IndexerOptions = {}
+  ) {
+    this.contractByAddress = new Map(
+      Object.entries(contracts).map(([name, address]) => [address!.toLowerCase(), name as IndexedContract])
+    );
+    this.startBlock = options.startBlock ?? 0;
+    this.blockChunk = options.blockChunk ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+    this.reorgDepth = options.reorgDepth ?? 64;
+  }
+
+  /**
+   * Creates an indexer for a PoWaiCore deployment, reading the ChronoFuel and AdaptiveHalving
+   * addresses it is linked to.
+   */
+  static async forPoWaiCore(provider: Provider, store: IndexerStore, poWaiCoreAddress: string, options: IndexerOptions = {}) {
+    const poWaiCore = PoWaiCore__factory.connect(poWaiCoreAddress, provider);
+    const contracts: Partial<Record<IndexedContract, string>> = {
+      PoWaiCore: await poWaiCore.getAddress(),
+      ChronoFuel: await poWaiCore.chronoFuelToken(),
+    };
+    const adaptiveHalving = await poWaiCore.adaptiveHalving();
+    if (adaptiveHalving !== ZeroAddress) {
+      contracts.AdaptiveHalving = adaptiveHalving;
+    }
+    return new PoWaiIndexer(provider, store, contracts, options);
+  }
+
+  /**
+   * Indexes everything from the checkpoint up to the confirmed head, committing every chunk.
+   * Throws if the chain is reorganised while a chunk is fetched; the next sync rolls back and retries.
+   */
+  async sync(): Promise<SyncResult> {
+    const { chainId } = await this.provider.getNetwork();
+    this.store.bind(chainId.toString(), this.contracts);
+
+    const eventsRolledBack = await this.handleReorg();
+    const fromBlock = this.store.checkpoint ? this.store.checkpoint.number + 1 : this.startBlock;
+    const toBlock = (await this.provider.getBlockNumber()) - this.confirmations;
+
+    let eventsAdded = 0;
+    for (let start = fromBlock; start <= toBlock; start += this.blockChunk) {
+      const end = Math.min(start + this.blockChunk - 1, toBlock);
+      eventsAdded += await this.indexRange(start, end);
+    }
+    return { fromBlock, toBlock, eventsAdded, eventsRolledBack };
+  }
+
+  /**
+   * Calls sync every `pollIntervalMs` until `signal` is aborted. Errors are logged and retried on
+   * the next poll, so a flaky RPC or a reorg during a sync does not stop the indexer.
+   */
+  async follow(pollIntervalMs: number, signal?: AbortSignal, onSync?: (result: SyncResult) => void) {
+    while (!signal?.aborted) {
+      try {
+        const result = await this.sync();
+        onSync?.(result);
+      } catch (error) {
+        console.error("Indexer sync failed, retrying:", error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    const previous = this.store.checkpoint;
+    const checkpoint = await this.canonicalBlock(toBlock);
+
+    const logs = await this.provider.getLogs({
+      address: [...this.contractByAddress.keys()],
+      fromBlock,
+      toBlock,
+    });
+
+    const events: Omit<IndexedEvent, "timestamp">[] = [];
+    for (const log of logs) {
+      const decoded = this.decode(log);
+      if (decoded) {
+        events.push(decoded);
+      }
+    }
+
+    // getLogs may answer from a branch that is reorganised away before or while it returns
+    const blocks = new Map<number, BlockRef & { timestamp: number }>();
+    for (const event of events) {
+      if (!blocks.has(event.blockNumber)) {
+        const header = await this.provider.getBlock(event.blockNumber);
+        blocks.set(event.blockNumber, { number: event.blockNumber, hash: header?.hash ?? "", timestamp: header?.timestamp ?? 0 });
+      }
+      if (blocks.get(event.blockNumber)!.hash !== event.blockHash) {
+        throw new Error(`Block ${event.blockNumber} was reorganised during sync`);
+      }
+    }
+    for (const block of previous ? [previous, checkpoint] : [checkpoint]) {
+      if (!(await this.isCanonical(block))) {
+        throw new Error(`Block ${block.number} was reorganised during sync`);
+      }
+    }
+
+    const indexed = events
+      .map((event) => ({ ...event, timestamp: blocks.get(event.blockNumber)!.timestamp }))
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    const refs = [...blocks.values()].map(({ number, hash }) => ({ number, hash }));
+    this.store.commitRange(indexed, [...refs, checkpoint], checkpoint, checkpoint.number - this.reorgDepth);
+    return indexed.length;
+  }
+
+  private decode(log: Log): Omit<IndexedEvent, "timestamp"> | null {
+    const contract = this.contractByAddress.get(log.address.toLowerCase());
+    if (!contract) {
+      return null;
+    }
+    const parsed = INTERFACES[contract].parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed || !INDEXED_EVENTS[contract].includes(parsed.name)) {
+      return null;
+    }
+    return {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      contract,
+      event: parsed.name,
+      args: this.stringifyArgs(parsed.fragment.inputs.map((input) => input.name), parsed.args),
+    };
+  }
+
+  private stringifyArgs(names: string[], values: Result): Record<string, string> {
+    const args: Record<string, string> = {};
+    names.forEach((name, i) => {
+      args[name] = values[i].toString();
+    });
+    return args;
+  }
+
+  /**
+   * Rolls the store back if any remembered block (checkpoints and the blocks of recent events) is no
+   * longer on the canonical chain, to the newest remembered block below the oldest orphaned one.
+   * @return The number of events removed.
+   */
+  private async handleReorg(): Promise<number> {
+    const remembered = this.store.recentBlocks;
+    const canonical = await Promise.all(remembered.map((block) => this.isCanonical(block)));
+    const firstOrphaned = canonical.indexOf(false);
+    if (firstOrphaned === -1) {
+      return 0;
+    }
+    const orphaned = remembered[firstOrphaned];
+    if (firstOrphaned > 0) {
+      const ancestor = remembered[firstOrphaned - 1];
+      console.log(`Reorg detected at block ${orphaned.number}; rewinding to block ${ancestor.number}`);
+      return this.store.rollbackTo(ancestor);
+    }
+    console.log(`Reorg deeper than the remembered blocks at ${orphaned.number}; reindexing from block ${this.startBlock}`);
+    return this.store.rollbackTo(null);
+  }
+
+  private async canonicalBlock(blockNumber: number): Promise<BlockRef> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} is not available`);
+    }
+    return { number: block.number, hash: block.hash! };
+  }
+
+  private async isCanonical(block: BlockRef): Promise<boolean> {
+    const current = await this.provider.getBlock(block.number);
+    return current !== null && current.hash === block.hash;
+  }
+}
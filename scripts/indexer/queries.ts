@@ -0,0 +1,115 @@
+// scripts/indexer/queries.ts
+// Read-only queries over indexed PoWai events.
+
+import { getAddress } from "ethers";
+import { IndexedEvent } from "./store";
+
+export const TIER_NAMES = ["Common", "Rare", "Epic", "Legendary"];
+
+export interface TierBucket {
+  periodStart: number; // Unix timestamp of the bucket start (0 for a single all-time bucket)
+  counts: number[]; // Claims per reward tier id
+  rewards: bigint[]; // CFL paid per reward tier id, in wei
+}
+
+export interface BurnerTotal {
+  account: string;
+  totalBurned: bigint;
+  burns: number;
+}
+
+export interface HalvingEntry {
+  count: number;
+  newThreshold: bigint;
+  newRate: bigint;
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+}
+
+export interface IndexSummary {
+  events: number;
+  claims: number;
+  totalRewarded: bigint; // CFL minted by claims, including deferred rewards minted later
+  totalBurnedForBoost: bigint;
+  halvings: number;
+  firstBlock: number | null;
+  lastBlock: number | null;
+}
+
+// Event args that identify the account an event belongs to
+const ACCOUNT_ARGS = ["user", "burner", "minter"];
+
+const byName = (events: readonly IndexedEvent[], event: string) => events.filter((e) => e.event === event);
+
+/**
+ * Counts settled claims (and sums their rewards) per reward tier, bucketed by `bucketSeconds`
+ * of block time. With no bucket size, returns a single all-time bucket.
+ */
+export function tierDistribution(events: readonly IndexedEvent[], bucketSeconds?: number): TierBucket[] {
+  const buckets = new Map<number, TierBucket>();
+  for (const claim of byName(events, "RewardClaimed")) {
+    const periodStart = bucketSeconds ? claim.timestamp - (claim.timestamp % bucketSeconds) : 0;
+    let bucket = buckets.get(periodStart);
+    if (!bucket) {
+      bucket = { periodStart, counts: TIER_NAMES.map(() => 0), rewards: TIER_NAMES.map(() => 0n) };
+      buckets.set(periodStart, bucket);
+    }
+    const tier = Number(claim.args.rewardTierId);
+    bucket.counts[tier] += 1;
+    bucket.rewards[tier] += BigInt(claim.args.finalReward);
+  }
+  return [...buckets.values()].sort((a, b) => a.periodStart - b.periodStart);
+}
+
+/**
+ * Ranks accounts by the CFL they burned through boostBurn.
+ */
+export function topBurners(events: readonly IndexedEvent[], limit = 10): BurnerTotal[] {
+  const totals = new Map<string, BurnerTotal>();
+  for (const burn of byName(events, "BurnedForBoost")) {
+    const account = burn.args.burner;
+    const total = totals.get(account) ?? { account, totalBurned: 0n, burns: 0 };
+    total.totalBurned += BigInt(burn.args.amountBurned);
+    total.burns += 1;
+    totals.set(account, total);
+  }
+  return [...totals.values()]
+    .sort((a, b) => (b.totalBurned > a.totalBurned ? 1 : b.totalBurned < a.totalBurned ? -1 : a.account.localeCompare(b.account)))
+    .slice(0, limit);
+}
+
+/**
+ * Lists every halving in order.
+ */
+export function halvingHistory(events: readonly IndexedEvent[]): HalvingEntry[] {
+  return byName(events, "HalvingTriggered").map((halving) => ({
+    count: Number(halving.args.count),
+    newThreshold: BigInt(halving.args.newThreshold),
+    newRate: BigInt(halving.args.newRate),
+    blockNumber: halving.blockNumber,
+    timestamp: halving.timestamp,
+    transactionHash: halving.transactionHash,
+  }));
+}
+
+/**
+ * Returns every indexed event that belongs to `account`, oldest first.
+ */
+export function userActivity(events: readonly IndexedEvent[], account: string): IndexedEvent[] {
+  const normalised = getAddress(account);
+  return events.filter((event) => ACCOUNT_ARGS.some((arg) => event.args[arg] === normalised));
+}
+
+export function summarise(events: readonly IndexedEvent[]): IndexSummary {
+  const claims = byName(events, "RewardClaimed");
+  return {
+    events: events.length,
+    claims: claims.length,
+    totalRewarded: [...claims, ...byName(events, "DeferredRewardsClaimed")].reduce((sum, claim) => sum + BigInt(claim.args.mintedReward), 0n),
+    totalBurnedForBoost: byName(events, "BurnedForBoost").reduce((sum, burn) => sum + BigInt(burn.args.amountBurned), 0n),
+    halvings: byName(events, "HalvingTriggered").length,
+    firstBlock: events.length > 0 ? events[0].blockNumber : null,
+    lastBlock: events.length > 0 ? events[events.length - 1].blockNumber : null,
+  };
+}
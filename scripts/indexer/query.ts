@@ -0,0 +1,97 @@
+// scripts/indexer/query.ts
+// Command-line queries over an indexer store; needs no node connection.
+//
+// Usage:
+//   npx ts-node scripts/indexer/query.ts <command> [options]
+//
+// Commands:
+//   summary                   Event, claim, burn and halving totals
+//   tiers [--bucket <secs>]   Claims and rewards per reward tier, optionally bucketed by block time (e.g. 86400)
+//   top-burners [--limit <n>] Accounts ranked by CFL burned through boostBurn (default: 10)
+//   halvings                  Every halving with its new threshold and rate
+//   user <address>            Every indexed event of an account
+//
+// Options:
+//   --db <file>               Store file (default: indexer-data/hardhat.sqlite)
+//   --json                    Print JSON instead of tables
+
+import { formatUnits } from "ethers";
+import { IndexerStore } from "./store";
+import { halvingHistory, summarise, TIER_NAMES, tierDistribution, topBurners, userActivity } from "./queries";
+
+const cfl = (wei: bigint) => formatUnits(wei, 18);
+
+// JSON.stringify cannot serialise bigint values
+const toJson = (value: unknown) => JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2);
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+/**
+ * Runs one query command against the store and returns the rows it prints.
+ */
+export function runQuery(store: IndexerStore, command: string, args: string[]): unknown {
+  switch (command) {
+    case "summary":
+      return summarise(store.events);
+    case "tiers": {
+      const bucket = option(args, "--bucket");
+      return tierDistribution(store.events, bucket ? Number(bucket) : undefined).map((row) => ({
+        periodStart: row.periodStart === 0 ? "all time" : new Date(row.periodStart * 1000).toISOString(),
+        ...Object.fromEntries(TIER_NAMES.map((name, i) => [name, `${row.counts[i]} (${cfl(row.rewards[i])} CFL)`])),
+      }));
+    }
+    case "top-burners":
+      return topBurners(store.events, Number(option(args, "--limit") ?? 10)).map((row) => ({
+        account: row.account,
+        burnedCFL: cfl(row.totalBurned),
+        burns: row.burns,
+      }));
+    case "halvings":
+      return halvingHistory(store.events).map((row) => ({
+        count: row.count,
+        newThresholdCFL: cfl(row.newThreshold),
+        newRate: row.newRate.toString(),
+        block: row.blockNumber,
+        at: new Date(row.timestamp * 1000).toISOString(),
+      }));
+    case "user": {
+      const account = args[0];
+      if (!account || account.startsWith("--")) {
+        throw new Error("Usage: user <address>");
+      }
+      return userActivity(store.events, account).map((event) => ({
+        block: event.blockNumber,
+        event: event.event,
+        args: JSON.stringify(event.args),
+      }));
+    }
+    default:
+      throw new Error(`Unknown command "${command}". Use summary, tiers, top-burners, halvings or user.`);
+  }
+}
+
+function main() {
+  const [command = "summary", ...args] = process.argv.slice(2);
+  const store = IndexerStore.open(option(args, "--db") ?? "indexer-data/hardhat.sqlite");
+  const rows = runQuery(store, command, args);
+
+  if (args.includes("--json") || !Array.isArray(rows)) {
+    console.log(toJson(rows));
+  } else {
+    console.table(rows);
+  }
+  console.log(`Indexed up to block ${store.checkpoint?.number ?? "none"}`);
+  store.close();
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,62 @@
+// scripts/indexer/runIndexer.ts
+// Indexes PoWai events from a node into a local SQLite store.
+//
+// Environment:
+//   POWAI_CORE              PoWaiCore address (required); ChronoFuel and AdaptiveHalving are read from it
+//   INDEXER_DB              Store file (default: indexer-data/<network>.sqlite)
+//   INDEXER_START_BLOCK     First block to index when the store is empty, e.g. the deployment block (default: 0)
+//   INDEXER_CONFIRMATIONS   Blocks to stay behind the head (default: 0)
+//   INDEXER_BLOCK_CHUNK     Blocks per getLogs request (default: 2000)
+//   INDEXER_FOLLOW          Set to 1 to keep polling for new blocks instead of exiting after one sync
+//   INDEXER_POLL_MS         Poll interval when following (default: 5000)
+//
+// Stopping and rerunning resumes from the last committed checkpoint.
+//
+// Run with: POWAI_CORE=0x... npx hardhat run scripts/indexer/runIndexer.ts --network monadTestnet
+
+import path from "path";
+import { ethers, network } from "hardhat";
+import { PoWaiIndexer, SyncResult } from "./indexer";
+import { IndexerStore } from "./store";
+
+function logSync(result: SyncResult) {
+  if (result.eventsRolledBack > 0) {
+    console.log(`↩️  Rolled back ${result.eventsRolledBack} events after a reorg`);
+  }
+  if (result.toBlock >= result.fromBlock) {
+    console.log(`📦 Blocks ${result.fromBlock}-${result.toBlock}: ${result.eventsAdded} events`);
+  }
+}
+
+async function main() {
+  const poWaiCoreAddress = process.env.POWAI_CORE;
+  if (!poWaiCoreAddress) {
+    throw new Error("POWAI_CORE must be set to the PoWaiCore address");
+  }
+  const dbPath = process.env.INDEXER_DB ?? path.join("indexer-data", `${network.name}.sqlite`);
+
+  const store = IndexerStore.open(dbPath);
+  const indexer = await PoWaiIndexer.forPoWaiCore(ethers.provider, store, poWaiCoreAddress, {
+    startBlock: Number(process.env.INDEXER_START_BLOCK ?? 0),
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS ?? 0),
+    blockChunk: Number(process.env.INDEXER_BLOCK_CHUNK ?? 2000),
+  });
+
+  console.log(`🔎 Indexing PoWaiCore ${poWaiCoreAddress} on ${network.name} into ${dbPath}`);
+  console.log(`Resuming after block: ${store.checkpoint ? store.checkpoint.number : "none"}`);
+
+  if (process.env.INDEXER_FOLLOW === "1") {
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    await indexer.follow(Number(process.env.INDEXER_POLL_MS ?? 5000), controller.signal, logSync);
+  } else {
+    logSync(await indexer.sync());
+  }
+  console.log(`✅ ${store.eventCount} events indexed up to block ${store.checkpoint?.number ?? "none"}`);
+  store.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
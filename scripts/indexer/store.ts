@@ -0,0 +1,212 @@
+// scripts/indexer/store.ts
+// Embedded SQLite store for indexed PoWai events, with a checkpoint and recent block hashes for reorg handling.
+
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+
+export type IndexedContract = "PoWaiCore" | "ChronoFuel" | "AdaptiveHalving";
+
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  contract: IndexedContract;
+  event: string;
+  args: Record<string, string>; // uint256 values are decimal strings, addresses are checksummed
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+interface EventRow {
+  block_number: number;
+  block_hash: string;
+  timestamp: number;
+  transaction_hash: string;
+  log_index: number;
+  contract: IndexedContract;
+  event: string;
+  args: string;
+}
+
+// Stored in SQLite's user_version; bump it with a migration when the schema changes
+const STORE_VERSION = 2;
+
+const SCHEMA = `
+  CREATE TABLE meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    contract TEXT NOT NULL,
+    event TEXT NOT NULL,
+    args TEXT NOT NULL, -- JSON object
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX events_by_name ON events (event, block_number);
+  -- Checkpoints and event blocks of the last reorgDepth blocks, used to find the common ancestor after a reorg
+  CREATE TABLE recent_blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+`;
+
+/**
+ * Persists the index to a SQLite database.
+ * Every commit and rollback is one transaction, so a chunk is written in time proportional to its own
+ * events, a crash never leaves a half-written chunk behind and the indexer resumes from the last
+ * committed checkpoint.
+ */
+export class IndexerStore {
+  private constructor(
+    readonly filePath: string,
+    private readonly db: Database.Database
+  ) {}
+
+  /**
+   * Opens the store at `filePath`, creating an empty one if the file does not exist yet.
+   */
+  static open(filePath: string): IndexerStore {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const db = new Database(filePath);
+    db.pragma("journal_mode = WAL");
+
+    const version = db.pragma("user_version", { simple: true }) as number;
+    if (version === 0) {
+      db.transaction(() => {
+        db.exec(SCHEMA);
+        db.pragma(`user_version = ${STORE_VERSION}`);
+      })();
+    } else if (version !== STORE_VERSION) {
+      db.close();
+      throw new Error(`Unsupported indexer store version ${version} in ${filePath}`);
+    }
+    return new IndexerStore(filePath, db);
+  }
+
+  get checkpoint(): BlockRef | null {
+    return this.getMeta<BlockRef>("checkpoint");
+  }
+
+  /**
+   * Ascending by block number.
+   */
+  get recentBlocks(): BlockRef[] {
+    return this.db.prepare("SELECT number, hash FROM recent_blocks ORDER BY number").all() as BlockRef[];
+  }
+
+  /**
+   * Every indexed event, ascending by (blockNumber, logIndex).
+   */
+  get events(): IndexedEvent[] {
+    const rows = this.db.prepare("SELECT * FROM events ORDER BY block_number, log_index").all() as EventRow[];
+    return rows.map((row) => ({
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      timestamp: row.timestamp,
+      transactionHash: row.transaction_hash,
+      logIndex: row.log_index,
+      contract: row.contract,
+      event: row.event,
+      args: JSON.parse(row.args),
+    }));
+  }
+
+  get eventCount(): number {
+    return (this.db.prepare("SELECT COUNT(*) AS count FROM events").get() as { count: number }).count;
+  }
+
+  get chainId(): string | null {
+    return this.getMeta<string>("chainId");
+  }
+
+  get contracts(): Partial<Record<IndexedContract, string>> {
+    return this.getMeta<Partial<Record<IndexedContract, string>>>("contracts") ?? {};
+  }
+
+  /**
+   * Binds the store to a chain and contract set. Reusing a store for another deployment would
+   * silently mix histories, so a mismatch throws instead.
+   */
+  bind(chainId: string, contracts: Partial<Record<IndexedContract, string>>) {
+    if (this.chainId === null) {
+      this.db.transaction(() => {
+        this.setMeta("chainId", chainId);
+        this.setMeta("contracts", contracts);
+      })();
+      return;
+    }
+    if (this.chainId !== chainId || JSON.stringify(this.contracts) !== JSON.stringify(contracts)) {
+      throw new Error(`Indexer store ${this.filePath} belongs to another chain or deployment`);
+    }
+  }
+
+  /**
+   * Appends the events of a block range and moves the checkpoint to its last block.
+   * `blocks` must include the checkpoint block; older entries than `keepFrom` are pruned.
+   */
+  commitRange(events: IndexedEvent[], blocks: BlockRef[], checkpoint: BlockRef, keepFrom: number) {
+    const insertEvent = this.db.prepare(
+      `INSERT INTO events (block_number, log_index, block_hash, timestamp, transaction_hash, contract, event, args)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const upsertBlock = this.db.prepare("INSERT OR REPLACE INTO recent_blocks (number, hash) VALUES (?, ?)");
+    this.db.transaction(() => {
+      for (const event of events) {
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.blockHash,
+          event.timestamp,
+          event.transactionHash,
+          event.contract,
+          event.event,
+          JSON.stringify(event.args)
+        );
+      }
+      for (const block of blocks) {
+        upsertBlock.run(block.number, block.hash);
+      }
+      this.db.prepare("DELETE FROM recent_blocks WHERE number < ? AND number <> ?").run(keepFrom, checkpoint.number);
+      this.setMeta("checkpoint", checkpoint);
+    })();
+  }
+
+  /**
+   * Drops everything above `block` and makes it the new checkpoint.
+   * Pass null to drop the whole index.
+   * @return The number of events removed.
+   */
+  rollbackTo(block: BlockRef | null): number {
+    const keepUpTo = block === null ? -1 : block.number;
+    return this.db.transaction(() => {
+      const { changes } = this.db.prepare("DELETE FROM events WHERE block_number > ?").run(keepUpTo);
+      this.db.prepare("DELETE FROM recent_blocks WHERE number > ?").run(keepUpTo);
+      this.setMeta("checkpoint", block);
+      return changes;
+    })();
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private getMeta<T>(key: string): T | null {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+    return row ? (JSON.parse(row.value) as T) : null;
+  }
+
+  private setMeta(key: string, value: unknown) {
+    this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, JSON.stringify(value));
+  }
+}
@@ -0,0 +1,291 @@
+// scripts/invariants/harness.ts
+// Random action sequences for stateful invariant testing of a PoWai deployment, with shrinking of failing sequences.
+
+import { SeededRandom } from "../simulator/random";
+
+// Amounts are a percentage of what the actor has at that step (CFL balance, or flexible stake for unstake),
+// so a sequence stays meaningful when shrinking removes earlier steps. Percentages above 100 make the call revert.
+export type Action =
+  | { kind: "stake"; actor: number; percent: number }
+  | { kind: "unstake"; actor: number; percent: number }
+  | { kind: "claimReward"; actor: number; roll: number } // Settled at once with `roll` as the random word
+  | { kind: "claimAndStake"; actor: number; roll: number }
+  | { kind: "claimAndBurn"; actor: number; roll: number; percent: number } // Burns `percent` of the reward
+  | { kind: "claimDeferredRewards"; actor: number }
+  | { kind: "boostBurn"; actor: number; percent: number }
+  | { kind: "burn"; actor: number; percent: number } // ChronoFuel.burn, bypassing PoWaiCore
+  | { kind: "timeJump"; seconds: number };
+
+export type ActionKind = Action["kind"];
+
+// Relative weights of the action kinds in generated sequences
+export const ACTION_WEIGHTS: Record<ActionKind, number> = {
+  stake: 3,
+  unstake: 2,
+  claimReward: 3,
+  claimAndStake: 1,
+  claimAndBurn: 1,
+  claimDeferredRewards: 1,
+  boostBurn: 2,
+  burn: 1,
+  timeJump: 3,
+};
+
+// Time jumps, shortest first: a minute, an hour, a quarter day, a day (the longest cooldown) and three days
+export const TIME_JUMPS = [60, 3_600, 21_600, 86_400, 259_200];
+
+export interface Violation {
+  invariant: string; // Name of the broken invariant; shrinking keeps it fixed
+  message: string;
+}
+
+export interface StepOutcome {
+  action: Action;
+  revertReason?: string; // Set when the call reverted, which is allowed; invariants are still checked after it
+}
+
+export interface SequenceFailure extends Violation {
+  step: number; // Index of the action after which the invariant broke
+  trace: StepOutcome[]; // Every step up to and including `step`
+}
+
+/**
+ * The system under test. reset() must restore the exact same starting state every time, and apply()
+ * must be deterministic, so that replaying a sequence reproduces its outcome.
+ */
+export interface InvariantSystem {
+  actors: number;
+  reset(): Promise<void>;
+  apply(action: Action): Promise<string | undefined>; // Revert reason, if the call reverted
+  check(): Promise<Violation | undefined>;
+}
+
+export interface CampaignConfig {
+  seed: string;
+  runs: number;
+  steps: number; // Actions per run
+  maxShrinkRuns?: number; // Replays shrinking may spend on one failure (default: 300)
+  replay?: Action[]; // Runs only this sequence instead of generating any
+}
+
+export interface CampaignStats {
+  runs: number;
+  steps: number;
+  applied: Record<ActionKind, number>; // Actions that went through, per kind
+  reverted: Record<ActionKind, number>;
+}
+
+/**
+ * Thrown when a run breaks an invariant. Carries the shrunk sequence, which can be replayed by
+ * passing `replayJson` as INVARIANT_REPLAY.
+ */
+export class InvariantViolationError extends Error {
+  readonly replayJson: string;
+
+  constructor(readonly seed: string, readonly originalLength: number, readonly failure: SequenceFailure, readonly shrinkRuns: number) {
+    const actions = failure.trace.map((outcome) => outcome.action);
+    const replayJson = JSON.stringify(actions);
+    super(
+      `Invariant "${failure.invariant}" broken: ${failure.message}\n` +
+        `Seed ${seed}; shrunk from ${originalLength} to ${actions.length} steps in ${shrinkRuns} replays:\n` +
+        formatTrace(failure.trace) +
+        `\nReplay with INVARIANT_REPLAY='${replayJson}'`
+    );
+    this.replayJson = replayJson;
+  }
+}
+
+function emptyCounts(): Record<ActionKind, number> {
+  return Object.fromEntries(Object.keys(ACTION_WEIGHTS).map((kind) => [kind, 0])) as Record<ActionKind, number>;
+}
+
+function pickKind(rng: SeededRandom): ActionKind {
+  const total = Object.values(ACTION_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+  let pick = rng.nextInt(1, total);
+  for (const [kind, weight] of Object.entries(ACTION_WEIGHTS) as [ActionKind, number][]) {
+    pick -= weight;
+    if (pick <= 0) {
+      return kind;
+    }
+  }
+  throw new Error("unreachable");
+}
+
+// Mostly valid amounts, with roughly one in twelve asking for more than the actor has
+function pickPercent(rng: SeededRandom): number {
+  return rng.nextInt(1, 12) === 1 ? rng.nextInt(101, 150) : rng.nextInt(1, 100);
+}
+
+export function generateSequence(rng: SeededRandom, actors: number, steps: number): Action[] {
+  const actions: Action[] = [];
+  for (let i = 0; i < steps; i++) {
+    const kind = pickKind(rng);
+    const actor = rng.nextInt(0, actors - 1);
+    switch (kind) {
+      case "claimReward":
+      case "claimAndStake":
+        actions.push({ kind, actor, roll: rng.nextInt(0, 99) });
+        break;
+      case "claimAndBurn":
+        actions.push({ kind, actor, roll: rng.nextInt(0, 99), percent: pickPercent(rng) });
+        break;
+      case "claimDeferredRewards":
+        actions.push({ kind, actor });
+        break;
+      case "timeJump":
+        actions.push({ kind, seconds: TIME_JUMPS[rng.nextInt(0, TIME_JUMPS.length - 1)] });
+        break;
+      default:
+        actions.push({ kind, actor, percent: pickPercent(rng) });
+    }
+  }
+  return actions;
+}
+
+export function describeAction(action: Action): string {
+  switch (action.kind) {
+    case "timeJump":
+      return `time +${action.seconds}s`;
+    case "claimReward":
+    case "claimAndStake":
+      return `actor ${action.actor} ${action.kind} (roll ${action.roll})`;
+    case "claimAndBurn":
+      return `actor ${action.actor} claimAndBurn ${action.percent}% of reward (roll ${action.roll})`;
+    case "claimDeferredRewards":
+      return `actor ${action.actor} claimDeferredRewards`;
+    case "unstake":
+      return `actor ${action.actor} unstake ${action.percent}% of stake`;
+    default:
+      return `actor ${action.actor} ${action.kind} ${action.percent}% of balance`;
+  }
+}
+
+export function formatTrace(trace: StepOutcome[]): string {
+  return trace
+    .map((outcome, i) => `  ${i + 1}. ${describeAction(outcome.action)}${outcome.revertReason ? ` -> reverted: ${outcome.revertReason}` : ""}`)
+    .join("\n");
+}
+
+/**
+ * Replays `actions` from a fresh system, checking the invariants before the first step and after every step.
+ * Returns the first violation, or undefined if the sequence keeps every invariant.
+ */
+export async function runSequence(system: InvariantSystem, actions: Action[], stats?: CampaignStats): Promise<SequenceFailure | undefined> {
+  await system.reset();
+  const initial = await system.check();
+  if (initial) {
+    return { ...initial, step: -1, trace: [] };
+  }
+  const trace: StepOutcome[] = [];
+  for (let step = 0; step < actions.length; step++) {
+    const action = actions[step];
+    const revertReason = await system.apply(action);
+    trace.push({ action, revertReason });
+    if (stats) {
+      (revertReason === undefined ? stats.applied : stats.reverted)[action.kind] += 1;
+      stats.steps += 1;
+    }
+    const violation = await system.check();
+    if (violation) {
+      return { ...violation, step, trace };
+    }
+  }
+  return undefined;
+}
+
+// Simpler variants of an action, each strictly closer to actor 0, 100%, roll 0 or the shortest time jump
+function simplifications(action: Action): Action[] {
+  const simpler: Action[] = [];
+  if ("actor" in action && action.actor !== 0) {
+    simpler.push({ ...action, actor: 0 });
+  }
+  if ("percent" in action && action.percent !== 100) {
+    simpler.push({ ...action, percent: 100 });
+  }
+  if ("roll" in action && action.roll !== 0) {
+    simpler.push({ ...action, roll: 0 });
+  }
+  if (action.kind === "timeJump") {
+    for (const seconds of TIME_JUMPS.filter((jump) => jump < action.seconds)) {
+      simpler.push({ ...action, seconds });
+    }
+  }
+  return simpler;
+}
+
+/**
+ * Shrinks a failing sequence: drops everything after the failing step, then repeatedly removes chunks of
+ * halving size and simplifies single actions, keeping each change that still breaks the same invariant.
+ * Stops when nothing more can be removed or simplified, or after `maxRuns` replays.
+ */
+export async function shrinkSequence(
+  system: InvariantSystem,
+  failure: SequenceFailure,
+  maxRuns = 300
+): Promise<{ failure: SequenceFailure; runs: number }> {
+  let current = failure;
+  let runs = 0;
+
+  // The candidate's failure if it breaks the same invariant, else undefined
+  const attempt = async (actions: Action[]) => {
+    runs += 1;
+    const result = await runSequence(system, actions);
+    return result && result.invariant === current.invariant ? result : undefined;
+  };
+  const actionsOf = (sequence: SequenceFailure) => sequence.trace.map((outcome) => outcome.action);
+
+  let progress = true;
+  while (progress && runs < maxRuns) {
+    progress = false;
+
+    for (let size = Math.max(1, Math.floor(current.trace.length / 2)); size >= 1 && runs < maxRuns; size = Math.floor(size / 2)) {
+      let start = 0;
+      while (start + size <= current.trace.length && runs < maxRuns) {
+        const actions = actionsOf(current);
+        const smaller = await attempt([...actions.slice(0, start), ...actions.slice(start + size)]);
+        if (smaller) {
+          current = smaller;
+          progress = true;
+        } else {
+          start += size;
+        }
+      }
+    }
+
+    for (let i = 0; i < current.trace.length && runs < maxRuns; i++) {
+      for (const simpler of simplifications(current.trace[i].action)) {
+        const actions = actionsOf(current);
+        actions[i] = simpler;
+        const simplified = await attempt(actions);
+        if (simplified) {
+          current = simplified;
+          progress = true;
+          break;
+        }
+      }
+    }
+  }
+  return { failure: current, runs };
+}
+
+/**
+ * Runs `config.runs` random sequences (or the replay sequence) against the system. The sequence of run `i`
+ * is generated from the seed `${config.seed}:${i}`. Throws InvariantViolationError with the shrunk
+ * sequence on the first violation; returns what was executed otherwise.
+ */
+export async function runCampaign(system: InvariantSystem, config: CampaignConfig): Promise<CampaignStats> {
+  const stats: CampaignStats = { runs: 0, steps: 0, applied: emptyCounts(), reverted: emptyCounts() };
+  const sequences = config.replay
+    ? [config.replay]
+    : Array.from({ length: config.runs }, (_, run) => generateSequence(new SeededRandom(`${config.seed}:${run}`), system.actors, config.steps));
+
+  for (const actions of sequences) {
+    stats.runs += 1;
+    const failure = await runSequence(system, actions, stats);
+    if (failure) {
+      const shrunk = await shrinkSequence(system, failure, config.maxShrinkRuns);
+      throw new InvariantViolationError(config.seed, actions.length, shrunk.failure, shrunk.runs);
+    }
+  }
+  return stats;
+}
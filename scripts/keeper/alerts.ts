@@ -0,0 +1,77 @@
+// scripts/keeper/alerts.ts
+// Where the halving keeper reports what it did: stdout, a webhook, or both.
+
+export type AlertLevel = "info" | "warning" | "error";
+
+export interface KeeperAlert {
+  level: AlertLevel;
+  message: string;
+  details?: Record<string, string | number | boolean>;
+  timestamp: number; // Unix seconds
+}
+
+/**
+ * Receives keeper alerts. Implementations must not throw: a failing sink should never stop the
+ * keeper from applying a halving.
+ */
+export interface AlertSink {
+  send(alert: KeeperAlert): Promise<void>;
+}
+
+const ICONS: Record<AlertLevel, string> = { info: "ℹ️ ", warning: "⚠️ ", error: "❌" };
+
+export class ConsoleAlertSink implements AlertSink {
+  async send(alert: KeeperAlert) {
+    const details = alert.details ? ` ${JSON.stringify(alert.details)}` : "";
+    const line = `${ICONS[alert.level]} [${new Date(alert.timestamp * 1000).toISOString()}] ${alert.message}${details}`;
+    if (alert.level === "error") {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * POSTs each alert as JSON to `url` (e.g. a Slack or Discord incoming webhook relay).
+ * Alerts below `minLevel` are dropped so routine "submitted" notices do not page anyone.
+ */
+export class WebhookAlertSink implements AlertSink {
+  private static readonly LEVELS: AlertLevel[] = ["info", "warning", "error"];
+
+  constructor(
+    private readonly url: string,
+    private readonly minLevel: AlertLevel = "info",
+    private readonly timeoutMs = 10_000
+  ) {}
+
+  async send(alert: KeeperAlert) {
+    if (WebhookAlertSink.LEVELS.indexOf(alert.level) < WebhookAlertSink.LEVELS.indexOf(this.minLevel)) {
+      return;
+    }
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(alert),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) {
+        console.error(`Webhook alert rejected with HTTP ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Webhook alert failed:", error);
+    }
+  }
+}
+
+/**
+ * Forwards every alert to all of `sinks`.
+ */
+export class MultiAlertSink implements AlertSink {
+  constructor(private readonly sinks: AlertSink[]) {}
+
+  async send(alert: KeeperAlert) {
+    await Promise.all(this.sinks.map((sink) => sink.send(alert)));
+  }
+}
@@ -0,0 +1,328 @@
+// scripts/keeper/keeper.ts
+// Watches AdaptiveHalving and calls checkAndApplyHalving once the mined CFL crosses the current threshold.
+
+import { formatUnits, isError, Provider, Signer, TransactionReceipt, ZeroAddress } from "ethers";
+import { AdaptiveHalving, AdaptiveHalving__factory, PoWaiCore__factory } from "../../typechain-types";
+import { decodeRevertReason } from "../../tasks/revert";
+import { AlertLevel, AlertSink, ConsoleAlertSink } from "./alerts";
+
+export interface KeeperOptions {
+  dryRun?: boolean; // Report due halvings without sending anything (default: false)
+  maxFeePerGas?: bigint; // Do not send while base fee + tip is above this (default: no limit)
+  maxPriorityFeePerGas?: bigint; // Cap on the tip (default: the node's suggestion)
+  maxAttempts?: number; // Send attempts per tick before giving up until the next one (default: 3)
+  retryBackoffMs?: number; // Wait after the first failed attempt, doubled after each further one (default: 1000)
+  confirmationTimeoutMs?: number; // How long a tick waits for its transaction to be mined (default: 60000)
+  replaceAfterMs?: number; // Resend an unmined transaction with bumped fees after this long (default: 180000)
+  feeBumpPercent?: number; // Fee increase for a replacement; nodes require at least 10 (default: 15)
+  sink?: AlertSink; // Where alerts go (default: stdout)
+}
+
+export type KeeperAction = "idle" | "dry-run" | "gas-too-high" | "pending" | "applied" | "already-applied" | "failed";
+
+export interface TickResult {
+  action: KeeperAction;
+  due: boolean;
+  minedThisEpoch: bigint;
+  threshold: bigint;
+  txHash?: string;
+  halvingCount?: bigint; // Set when this tick's transaction applied a halving
+  reason?: string; // Set when the action is "failed"
+}
+
+// The keeper's in-flight halving transaction. Replacements reuse the nonce, so any of `hashes` may be the one mined.
+interface PendingHalving {
+  nonce: number;
+  hashes: string[];
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  sentAt: number;
+}
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+const latestHash = (pending: PendingHalving) => pending.hashes[pending.hashes.length - 1];
+
+type HalvingStatus = Pick<TickResult, "due" | "minedThisEpoch" | "threshold">;
+
+// Headroom over the gas estimate, as the storage checkAndApplyHalving writes may change before it is mined
+const GAS_LIMIT_MARGIN_PERCENT = 25n;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const formatGwei = (wei: bigint) => formatUnits(wei, "gwei");
+const formatCfl = (wei: bigint) => formatUnits(wei, 18);
+
+/**
+ * Keeper for AdaptiveHalving.checkAndApplyHalving.
+ *
+ * Each tick polls getHalvingStatus and, when a halving is due, sends one checkAndApplyHalving
+ * transaction from `signer` (which needs HALVING_OPERATOR_ROLE). The keeper owns its nonce: while
+ * its transaction is unmined it sends nothing new, and once the transaction is older than
+ * replaceAfterMs it is resent with the same nonce and bumped fees, so at most one of them is mined.
+ * Failed sends are retried with exponential backoff; reverts are reported and not retried.
+ *
+ * PoWaiCore also checks for a halving after every claim, so a due halving may already have been
+ * applied by the time the keeper's transaction is mined. checkAndApplyHalving is then a no-op and
+ * the tick reports "already-applied".
+ */
+export class HalvingKeeper {
+  readonly dryRun: boolean;
+  private readonly provider: Provider;
+  private readonly maxFeePerGas?: bigint;
+  private readonly maxPriorityFeePerGas?: bigint;
+  private readonly maxAttempts: number;
+  private readonly retryBackoffMs: number;
+  private readonly confirmationTimeoutMs: number;
+  private readonly replaceAfterMs: number;
+  private readonly feeBumpPercent: bigint;
+  private readonly sink: AlertSink;
+  private pending?: PendingHalving;
+
+  constructor(readonly adaptiveHalving: AdaptiveHalving, private readonly signer: Signer, options: KeeperOptions = {}) {
+    if (!signer.provider) {
+      throw new Error("The keeper signer must be connected to a provider");
+    }
+    this.provider = signer.provider;
+    this.dryRun = options.dryRun ?? false;
+    this.maxFeePerGas = options.maxFeePerGas;
+    this.maxPriorityFeePerGas = options.maxPriorityFeePerGas;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryBackoffMs = options.retryBackoffMs ?? 1000;
+    this.confirmationTimeoutMs = options.confirmationTimeoutMs ?? 60_000;
+    this.replaceAfterMs = options.replaceAfterMs ?? 180_000;
+    this.feeBumpPercent = BigInt(options.feeBumpPercent ?? 15);
+    this.sink = options.sink ?? new ConsoleAlertSink();
+  }
+
+  /**
+   * Creates a keeper for the AdaptiveHalving contract a PoWaiCore deployment is linked to.
+   */
+  static async forPoWaiCore(signer: Signer, poWaiCoreAddress: string, options: KeeperOptions = {}) {
+    const adaptiveHalvingAddress = await PoWaiCore__factory.connect(poWaiCoreAddress, signer).adaptiveHalving();
+    if (adaptiveHalvingAddress === ZeroAddress) {
+      throw new Error(`PoWaiCore ${poWaiCoreAddress} is not linked to an AdaptiveHalving contract`);
+    }
+    return new HalvingKeeper(AdaptiveHalving__factory.connect(adaptiveHalvingAddress, signer), signer, options);
+  }
+
+  /**
+   * Returns true if the keeper's account holds HALVING_OPERATOR_ROLE.
+   */
+  async hasOperatorRole(): Promise<boolean> {
+    const role = await this.adaptiveHalving.HALVING_OPERATOR_ROLE();
+    return this.adaptiveHalving.hasRole(role, await this.signer.getAddress());
+  }
+
+  /**
+   * Runs one keeper cycle: settles the in-flight transaction if it was mined, and otherwise sends
+   * (or replaces) a checkAndApplyHalving transaction if a halving is due.
+   */
+  async tick(): Promise<TickResult> {
+    if (this.pending) {
+      const receipt = await this.findPendingReceipt(this.pending);
+      if (receipt) {
+        this.pending = undefined;
+        return this.settle(receipt, await this.getStatus());
+      }
+      if (this.pending && Date.now() - this.pending.sentAt < this.replaceAfterMs) {
+        return { action: "pending", ...(await this.getStatus()), txHash: latestHash(this.pending) };
+      }
+    }
+
+    const status = await this.getStatus();
+    if (!status.due) {
+      // A stale transaction is left alone once nothing is due: mined late, it is a harmless no-op
+      return this.pending ? { action: "pending", ...status, txHash: latestHash(this.pending) } : { action: "idle", ...status };
+    }
+    if (this.dryRun) {
+      await this.alert("info", "Halving due (dry run, nothing sent)", this.describe(status));
+      return { action: "dry-run", ...status };
+    }
+
+    const fees = await this.getFees();
+    if (!fees) {
+      return { action: "gas-too-high", ...status, txHash: this.pending ? latestHash(this.pending) : undefined };
+    }
+    return this.submit(status, fees);
+  }
+
+  /**
+   * Calls tick every `pollIntervalMs` until `signal` is aborted. Errors are alerted and retried on
+   * the next poll, so a flaky RPC does not stop the keeper.
+   */
+  async run(pollIntervalMs: number, signal?: AbortSignal, onTick?: (result: TickResult) => void) {
+    while (!signal?.aborted) {
+      try {
+        onTick?.(await this.tick());
+      } catch (error) {
+        await this.alert("error", "Keeper tick failed", { error: String(error) });
+      }
+      await sleep(pollIntervalMs);
+    }
+  }
+
+  private async getStatus(): Promise<HalvingStatus> {
+    const [due, minedThisEpoch, threshold] = await this.adaptiveHalving.getHalvingStatus();
+    return { due, minedThisEpoch, threshold };
+  }
+
+  /**
+   * Returns the fees to send with, or null (after alerting) if they would exceed maxFeePerGas.
+   * Replacements pay at least feeBumpPercent more than the transaction they replace.
+   */
+  private async getFees(): Promise<Fees | null> {
+    const feeData = await this.provider.getFeeData();
+    const baseFee = (await this.provider.getBlock("latest"))?.baseFeePerGas ?? 0n;
+    let maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? 0n;
+    if (this.maxPriorityFeePerGas !== undefined && maxPriorityFeePerGas > this.maxPriorityFeePerGas) {
+      maxPriorityFeePerGas = this.maxPriorityFeePerGas;
+    }
+    let maxFeePerGas = feeData.maxFeePerGas ?? baseFee * 2n + maxPriorityFeePerGas;
+    let required = baseFee + maxPriorityFeePerGas; // The least that can be included in the next block
+
+    if (this.pending) {
+      const bump = (fee: bigint) => (fee * (100n + this.feeBumpPercent) + 99n) / 100n;
+      maxPriorityFeePerGas = maxPriorityFeePerGas > bump(this.pending.maxPriorityFeePerGas) ? maxPriorityFeePerGas : bump(this.pending.maxPriorityFeePerGas);
+      maxFeePerGas = maxFeePerGas > bump(this.pending.maxFeePerGas) ? maxFeePerGas : bump(this.pending.maxFeePerGas);
+      required = bump(this.pending.maxFeePerGas);
+    }
+
+    if (this.maxFeePerGas !== undefined) {
+      if (required > this.maxFeePerGas) {
+        await this.alert("warning", "Gas price above the keeper limit, not sending", {
+          requiredGwei: formatGwei(required),
+          limitGwei: formatGwei(this.maxFeePerGas),
+        });
+        return null;
+      }
+      if (maxFeePerGas > this.maxFeePerGas) {
+        maxFeePerGas = this.maxFeePerGas;
+      }
+    }
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+      maxPriorityFeePerGas = maxFeePerGas;
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas };
+  }
+
+  /**
+   * Sends checkAndApplyHalving, retrying failed sends with exponential backoff, and waits up to
+   * confirmationTimeoutMs for it to be mined.
+   */
+  private async submit(status: HalvingStatus, fees: Fees): Promise<TickResult> {
+    const from = await this.signer.getAddress();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // Estimating first surfaces a revert (e.g. a missing role) without spending gas
+        const gasEstimate = await this.adaptiveHalving.checkAndApplyHalving.estimateGas();
+        let gasLimit = (gasEstimate * (100n + GAS_LIMIT_MARGIN_PERCENT)) / 100n;
+        if (this.pending && this.pending.gasLimit > gasLimit) {
+          // The estimate for a replacement may see the no-op path if the node applies pending transactions first
+          gasLimit = this.pending.gasLimit;
+        }
+        const nonce = this.pending?.nonce ?? (await this.provider.getTransactionCount(from, "pending"));
+        const tx = await this.adaptiveHalving.checkAndApplyHalving({ nonce, gasLimit, ...fees });
+
+        const replacing = this.pending !== undefined;
+        this.pending = {
+          nonce,
+          hashes: [...(this.pending?.hashes ?? []), tx.hash],
+          gasLimit,
+          ...fees,
+          sentAt: Date.now(),
+        };
+        await this.alert("info", replacing ? "Replaced stuck halving transaction" : "Submitted halving transaction", {
+          ...this.describe(status),
+          txHash: tx.hash,
+          nonce,
+          maxFeeGwei: formatGwei(fees.maxFeePerGas),
+        });
+
+        const receipt = await tx.wait(1, this.confirmationTimeoutMs);
+        this.pending = undefined;
+        return this.settle(receipt!, status);
+      } catch (error) {
+        if (isError(error, "TIMEOUT") && this.pending) {
+          return { action: "pending", ...status, txHash: latestHash(this.pending) };
+        }
+        if (isError(error, "NONCE_EXPIRED") && this.pending) {
+          // The nonce was used by one of our earlier transactions; the next tick finds its receipt
+          return { action: "pending", ...status, txHash: latestHash(this.pending) };
+        }
+        const reason = decodeRevertReason(error, [this.adaptiveHalving.interface]);
+        if (reason !== null) {
+          await this.alert("error", "checkAndApplyHalving reverted", { reason, from });
+          return { action: "failed", ...status, reason };
+        }
+        if (attempt >= this.maxAttempts) {
+          await this.alert("error", `Halving transaction failed after ${attempt} attempts`, { error: String(error) });
+          return { action: "failed", ...status, reason: String(error) };
+        }
+        const backoff = this.retryBackoffMs * 2 ** (attempt - 1);
+        await this.alert("warning", `Sending the halving transaction failed, retrying in ${backoff}ms`, {
+          attempt,
+          error: String(error),
+        });
+        await sleep(backoff);
+      }
+    }
+  }
+
+  /**
+   * Looks for a receipt of any transaction sent for the pending nonce. If the nonce was used by a
+   * transaction the keeper did not send, the pending record is dropped.
+   */
+  private async findPendingReceipt(pending: PendingHalving): Promise<TransactionReceipt | null> {
+    for (const hash of pending.hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    const minedNonce = await this.provider.getTransactionCount(await this.signer.getAddress(), "latest");
+    if (minedNonce > pending.nonce) {
+      this.pending = undefined;
+      await this.alert("warning", "Keeper nonce was used by another transaction; the halving transaction was dropped", {
+        nonce: pending.nonce,
+      });
+    }
+    return null;
+  }
+
+  private async settle(receipt: TransactionReceipt, status: HalvingStatus): Promise<TickResult> {
+    if (receipt.status !== 1) {
+      await this.alert("error", "Halving transaction reverted on-chain", { txHash: receipt.hash });
+      return { action: "failed", ...status, txHash: receipt.hash, reason: "reverted" };
+    }
+    const adaptiveHalvingAddress = (await this.adaptiveHalving.getAddress()).toLowerCase();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== adaptiveHalvingAddress) {
+        continue;
+      }
+      const parsed = this.adaptiveHalving.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed?.name === "HalvingTriggered") {
+        const { newThreshold, newRate, count } = parsed.args;
+        await this.alert("info", `Halving #${count} applied`, {
+          txHash: receipt.hash,
+          newRatePercent: Number(newRate),
+          thresholdCFL: formatCfl(newThreshold),
+        });
+        return { action: "applied", ...status, txHash: receipt.hash, halvingCount: count };
+      }
+    }
+    await this.alert("info", "Halving was already applied before the keeper transaction was mined", { txHash: receipt.hash });
+    return { action: "already-applied", ...status, txHash: receipt.hash };
+  }
+
+  private describe(status: HalvingStatus) {
+    return { minedThisEpochCFL: formatCfl(status.minedThisEpoch), thresholdCFL: formatCfl(status.threshold) };
+  }
+
+  private async alert(level: AlertLevel, message: string, details?: Record<string, string | number | boolean>) {
+    await this.sink.send({ level, message, details, timestamp: Math.floor(Date.now() / 1000) });
+  }
+}
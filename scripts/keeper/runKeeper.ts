@@ -0,0 +1,74 @@
+// scripts/keeper/runKeeper.ts
+// Runs the halving keeper: applies AdaptiveHalving.checkAndApplyHalving as soon as a halving is due.
+//
+// Environment:
+//   POWAI_CORE                    PoWaiCore address (required); the AdaptiveHalving it is linked to is kept
+//   KEEPER_DRY_RUN                Set to 1 to only report due halvings
+//   KEEPER_MAX_FEE_GWEI           Do not send while base fee + tip is above this (default: no limit)
+//   KEEPER_MAX_PRIORITY_FEE_GWEI  Cap on the tip (default: the node's suggestion)
+//   KEEPER_MAX_ATTEMPTS           Send attempts per poll (default: 3)
+//   KEEPER_RETRY_BACKOFF_MS       Backoff after the first failed attempt, doubled each retry (default: 1000)
+//   KEEPER_REPLACE_AFTER_MS       Resend an unmined transaction with bumped fees after this long (default: 180000)
+//   KEEPER_POLL_MS                Poll interval (default: 60000)
+//   KEEPER_WEBHOOK_URL            Also POST alerts as JSON to this URL
+//   KEEPER_WEBHOOK_MIN_LEVEL      info, warning or error (default: warning)
+//   KEEPER_ONCE                   Set to 1 to run a single check and exit
+//
+// The first configured account sends the transactions and needs HALVING_OPERATOR_ROLE on AdaptiveHalving.
+//
+// Run with: POWAI_CORE=0x... npx hardhat run scripts/keeper/runKeeper.ts --network monadTestnet
+
+import { ethers, network } from "hardhat";
+import { AlertLevel, AlertSink, ConsoleAlertSink, MultiAlertSink, WebhookAlertSink } from "./alerts";
+import { HalvingKeeper, TickResult } from "./keeper";
+
+const optionalGwei = (value?: string) => (value ? ethers.parseUnits(value, "gwei") : undefined);
+const optionalNumber = (value?: string) => (value ? Number(value) : undefined);
+
+function logTick(result: TickResult) {
+  const progress = `${ethers.formatUnits(result.minedThisEpoch, 18)} / ${ethers.formatUnits(result.threshold, 18)} CFL`;
+  console.log(`⏱️  ${result.action} (mined this epoch: ${progress})`);
+}
+
+async function main() {
+  const poWaiCoreAddress = process.env.POWAI_CORE;
+  if (!poWaiCoreAddress) {
+    throw new Error("POWAI_CORE must be set to the PoWaiCore address");
+  }
+  const [keeperAccount] = await ethers.getSigners();
+
+  const sinks: AlertSink[] = [new ConsoleAlertSink()];
+  if (process.env.KEEPER_WEBHOOK_URL) {
+    const minLevel = (process.env.KEEPER_WEBHOOK_MIN_LEVEL ?? "warning") as AlertLevel;
+    sinks.push(new WebhookAlertSink(process.env.KEEPER_WEBHOOK_URL, minLevel));
+  }
+
+  const keeper = await HalvingKeeper.forPoWaiCore(keeperAccount, poWaiCoreAddress, {
+    dryRun: process.env.KEEPER_DRY_RUN === "1",
+    maxFeePerGas: optionalGwei(process.env.KEEPER_MAX_FEE_GWEI),
+    maxPriorityFeePerGas: optionalGwei(process.env.KEEPER_MAX_PRIORITY_FEE_GWEI),
+    maxAttempts: optionalNumber(process.env.KEEPER_MAX_ATTEMPTS),
+    retryBackoffMs: optionalNumber(process.env.KEEPER_RETRY_BACKOFF_MS),
+    replaceAfterMs: optionalNumber(process.env.KEEPER_REPLACE_AFTER_MS),
+    sink: new MultiAlertSink(sinks),
+  });
+
+  console.log(`🪓 Halving keeper for AdaptiveHalving ${await keeper.adaptiveHalving.getAddress()} on ${network.name}`);
+  console.log(`Keeper account: ${keeperAccount.address}${keeper.dryRun ? " (dry run)" : ""}`);
+  if (!keeper.dryRun && !(await keeper.hasOperatorRole())) {
+    throw new Error(`${keeperAccount.address} does not hold HALVING_OPERATOR_ROLE on AdaptiveHalving`);
+  }
+
+  if (process.env.KEEPER_ONCE === "1") {
+    logTick(await keeper.tick());
+    return;
+  }
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  await keeper.run(Number(process.env.KEEPER_POLL_MS ?? 60_000), controller.signal, logTick);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
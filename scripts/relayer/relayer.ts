@@ -0,0 +1,182 @@
+// scripts/relayer/relayer.ts
+// Pays the gas for users' signed PoWai calls by submitting them through the trusted ERC-2771 forwarder.
+
+import http from "http";
+import { concat, Signer, TransactionReceipt, ZeroAddress } from "ethers";
+import { PoWaiCore, PoWaiCore__factory, PoWaiForwarder, PoWaiForwarder__factory } from "../../typechain-types";
+import { decodeRevertReason } from "../../tasks/revert";
+import { ForwardRequest, forwardRequestFromJson } from "./signing";
+
+// The user-facing PoWaiCore functions the relayer pays for by default; admin functions are never relayed
+export const RELAYABLE_FUNCTIONS = [
+  "claimReward",
+  "claimAndStake",
+  "claimAndBurn",
+  "claimFor",
+  "setClaimOperator",
+  "claimDeferredRewards",
+  "stake",
+  "stakeWithPermit",
+  "unstake",
+  "stakeLocked",
+  "unstakeLocked",
+  "boostBurn",
+  "boostBurnWithPermit",
+  "boostBurnWithCertificate",
+];
+
+export interface RelayerOptions {
+  allowedFunctions?: string[]; // PoWaiCore functions to relay (default: RELAYABLE_FUNCTIONS)
+  maxGasPerRequest?: bigint; // Reject requests asking to forward more gas than this (default: 1,000,000)
+  confirmationTimeoutMs?: number; // How long relay waits for the transaction to be mined (default: 60000)
+}
+
+export interface RelayResult {
+  txHash: string;
+  from: string;
+  functionName: string;
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Thrown when a request is refused before anything is sent, e.g. a bad signature, a function that is
+ * not relayed or a call that would revert. The message is safe to return to the user.
+ */
+export class RelayRejectedError extends Error {}
+
+// Headroom over the estimate for execute itself, as forwarded calls may touch more storage once mined
+const GAS_LIMIT_MARGIN_PERCENT = 25n;
+
+/**
+ * Relayer for PoWaiCore meta-transactions.
+ *
+ * Users sign a ForwardRequest (see signForwardRequest) and hand it to `relay`, which checks that it
+ * targets PoWaiCore, calls an allowed function, is signed and unexpired, and would not revert, before
+ * submitting it with PoWaiForwarder.execute from `signer`. Only the relayer's account needs native gas.
+ */
+export class PoWaiRelayer {
+  private readonly allowedFunctions: Set<string>;
+  private readonly maxGasPerRequest: bigint;
+  private readonly confirmationTimeoutMs: number;
+
+  constructor(
+    readonly forwarder: PoWaiForwarder,
+    readonly poWaiCore: PoWaiCore,
+    private readonly signer: Signer,
+    options: RelayerOptions = {}
+  ) {
+    if (!signer.provider) {
+      throw new Error("The relayer signer must be connected to a provider");
+    }
+    this.allowedFunctions = new Set(options.allowedFunctions ?? RELAYABLE_FUNCTIONS);
+    this.maxGasPerRequest = options.maxGasPerRequest ?? 1_000_000n;
+    this.confirmationTimeoutMs = options.confirmationTimeoutMs ?? 60_000;
+  }
+
+  /**
+   * Creates a relayer for the forwarder a PoWaiCore deployment trusts.
+   */
+  static async forPoWaiCore(signer: Signer, poWaiCoreAddress: string, options: RelayerOptions = {}) {
+    const poWaiCore = PoWaiCore__factory.connect(poWaiCoreAddress, signer);
+    const forwarderAddress = await poWaiCore.trustedForwarder();
+    if (forwarderAddress === ZeroAddress) {
+      throw new Error(`PoWaiCore ${poWaiCoreAddress} has no trusted forwarder`);
+    }
+    return new PoWaiRelayer(PoWaiForwarder__factory.connect(forwarderAddress, signer), poWaiCore, signer, options);
+  }
+
+  /**
+   * Validates `request` and submits it, resolving once the transaction is mined.
+   * Throws RelayRejectedError if the request is refused; nothing is sent in that case.
+   */
+  async relay(request: ForwardRequest): Promise<RelayResult> {
+    const functionName = await this.validate(request);
+    const gasEstimate = await this.forwarder.execute.estimateGas(request);
+    const tx = await this.forwarder.execute(request, {
+      gasLimit: (gasEstimate * (100n + GAS_LIMIT_MARGIN_PERCENT)) / 100n,
+    });
+    const receipt = await tx.wait(1, this.confirmationTimeoutMs);
+    return { txHash: tx.hash, from: request.from, functionName, receipt: receipt! };
+  }
+
+  /**
+   * Runs every check `relay` makes and returns the name of the PoWaiCore function the request calls.
+   */
+  async validate(request: ForwardRequest): Promise<string> {
+    const poWaiCoreAddress = await this.poWaiCore.getAddress();
+    if (request.to.toLowerCase() !== poWaiCoreAddress.toLowerCase()) {
+      throw new RelayRejectedError(`Only calls to PoWaiCore ${poWaiCoreAddress} are relayed`);
+    }
+    if (request.value !== 0n) {
+      throw new RelayRejectedError("Requests carrying native value are not relayed");
+    }
+    const call = this.poWaiCore.interface.parseTransaction({ data: request.data });
+    if (!call || !this.allowedFunctions.has(call.name)) {
+      throw new RelayRejectedError(`Function ${call?.name ?? request.data.slice(0, 10)} is not relayed`);
+    }
+    if (request.gas > this.maxGasPerRequest) {
+      throw new RelayRejectedError(`Requested gas ${request.gas} is above the limit of ${this.maxGasPerRequest}`);
+    }
+    const latest = await this.signer.provider!.getBlock("latest");
+    if (request.deadline <= BigInt(latest!.timestamp)) {
+      throw new RelayRejectedError("Request has expired");
+    }
+    if (!(await this.forwarder.verify(request))) {
+      throw new RelayRejectedError("Invalid signature or nonce already used");
+    }
+
+    // The forwarder only reports that the call failed, so simulate it directly to get the reason
+    try {
+      await this.signer.provider!.call({
+        from: await this.forwarder.getAddress(),
+        to: request.to,
+        data: concat([request.data, request.from]),
+        gasLimit: request.gas,
+      });
+    } catch (error) {
+      const reason = decodeRevertReason(error, [this.poWaiCore.interface]);
+      throw new RelayRejectedError(`${call.name} would revert: ${reason ?? "unknown reason"}`);
+    }
+    return call.name;
+  }
+}
+
+/**
+ * HTTP front end for a relayer: POST /relay with the JSON form of a forward request
+ * (see forwardRequestToJson) answers {"txHash", "functionName"} once mined, or {"error"} with
+ * status 400 when the request is refused.
+ */
+export function createRelayServer(relayer: PoWaiRelayer): http.Server {
+  return http.createServer((req, res) => {
+    const respond = (status: number, body: object) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+    if (req.method !== "POST" || req.url !== "/relay") {
+      respond(404, { error: "Not found" });
+      return;
+    }
+
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", async () => {
+      let request: ForwardRequest;
+      try {
+        request = forwardRequestFromJson(JSON.parse(body));
+      } catch (error) {
+        respond(400, { error: `Malformed request: ${(error as Error).message}` });
+        return;
+      }
+      try {
+        const result = await relayer.relay(request);
+        respond(200, { txHash: result.txHash, functionName: result.functionName });
+      } catch (error) {
+        if (error instanceof RelayRejectedError) {
+          respond(400, { error: error.message });
+        } else {
+          respond(500, { error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    });
+  });
+}
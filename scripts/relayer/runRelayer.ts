@@ -0,0 +1,44 @@
+// scripts/relayer/runRelayer.ts
+// Runs the meta-transaction relayer: an HTTP endpoint that submits users' signed PoWaiCore calls and pays their gas.
+//
+// Environment:
+//   POWAI_CORE            PoWaiCore address (required); requests go through its trusted forwarder
+//   RELAYER_PORT          Port to listen on (default: 8546)
+//   RELAYER_MAX_GAS       Largest gas a request may ask to forward (default: 1000000)
+//   RELAYER_FUNCTIONS     Comma-separated PoWaiCore functions to relay (default: RELAYABLE_FUNCTIONS)
+//
+// The first configured account sends the transactions and needs native gas. Clients POST the JSON form of a
+// request signed with signForwardRequest (scripts/relayer/signing.ts) to /relay.
+//
+// Run with: POWAI_CORE=0x... npx hardhat run scripts/relayer/runRelayer.ts --network localhost
+
+import { ethers, network } from "hardhat";
+import { createRelayServer, PoWaiRelayer } from "./relayer";
+
+async function main() {
+  const poWaiCoreAddress = process.env.POWAI_CORE;
+  if (!poWaiCoreAddress) {
+    throw new Error("POWAI_CORE must be set to the PoWaiCore address");
+  }
+  const [relayerAccount] = await ethers.getSigners();
+
+  const relayer = await PoWaiRelayer.forPoWaiCore(relayerAccount, poWaiCoreAddress, {
+    maxGasPerRequest: process.env.RELAYER_MAX_GAS ? BigInt(process.env.RELAYER_MAX_GAS) : undefined,
+    allowedFunctions: process.env.RELAYER_FUNCTIONS?.split(",").map((name) => name.trim()),
+  });
+  const port = Number(process.env.RELAYER_PORT ?? 8546);
+  const server = createRelayServer(relayer);
+
+  console.log(`📨 Relayer for PoWaiForwarder ${await relayer.forwarder.getAddress()} on ${network.name}`);
+  console.log(`Relayer account: ${relayerAccount.address}`);
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  console.log(`Listening on http://localhost:${port}/relay`);
+
+  await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,143 @@
+// scripts/relayer/signing.ts
+// User-side signatures for gasless PoWai calls: EIP-2612 CFL permits and ERC-2771 forward requests.
+
+import { concat, Signature, Signer } from "ethers";
+import { ChronoFuel, PoWaiForwarder } from "../../typechain-types";
+
+// Field order of PoWaiForwarder's ForwardRequestData, with the signature over the EIP-712 ForwardRequest
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  value: bigint;
+  gas: bigint;
+  deadline: bigint;
+  data: string;
+  signature: string;
+}
+
+export interface ForwardCall {
+  to: string;
+  data: string;
+  gas?: bigint; // Gas forwarded to the call (default: estimated, plus GAS_MARGIN_PERCENT)
+  deadline?: bigint; // Unix seconds (default: now + DEFAULT_VALIDITY_SECONDS)
+}
+
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const DEFAULT_VALIDITY_SECONDS = 3600n;
+const GAS_MARGIN_PERCENT = 25n;
+
+async function domainOf(contract: ChronoFuel | PoWaiForwarder) {
+  const [, name, version, chainId, verifyingContract] = await contract.eip712Domain();
+  return { name, version, chainId, verifyingContract };
+}
+
+async function defaultDeadline(signer: Signer) {
+  const block = await signer.provider!.getBlock("latest");
+  return BigInt(block!.timestamp) + DEFAULT_VALIDITY_SECONDS;
+}
+
+/**
+ * Signs an EIP-2612 permit letting `spender` (usually PoWaiCore) spend `value` CFL of the signer,
+ * for stakeWithPermit or boostBurnWithPermit.
+ */
+export async function signPermit(
+  signer: Signer,
+  chronoFuel: ChronoFuel,
+  spender: string,
+  value: bigint,
+  deadline?: bigint
+): Promise<PermitSignature> {
+  const owner = await signer.getAddress();
+  const permitDeadline = deadline ?? (await defaultDeadline(signer));
+  const message = { owner, spender, value, nonce: await chronoFuel.nonces(owner), deadline: permitDeadline };
+  const { v, r, s } = Signature.from(await signer.signTypedData(await domainOf(chronoFuel), PERMIT_TYPES, message));
+  return { deadline: permitDeadline, v, r, s };
+}
+
+/**
+ * Signs a forward request for `call`, to be submitted by a relayer through `forwarder`.
+ * The signer only needs a provider to read its forwarder nonce; it does not need any native gas.
+ */
+export async function signForwardRequest(signer: Signer, forwarder: PoWaiForwarder, call: ForwardCall): Promise<ForwardRequest> {
+  const from = await signer.getAddress();
+  let gas = call.gas;
+  if (gas === undefined) {
+    // The target sees the call exactly as the forwarder makes it: from the forwarder, with the signer appended
+    const estimate = await signer.provider!.estimateGas({ from: await forwarder.getAddress(), to: call.to, data: concat([call.data, from]) });
+    gas = (estimate * (100n + GAS_MARGIN_PERCENT)) / 100n;
+  }
+  const request = {
+    from,
+    to: call.to,
+    value: 0n,
+    gas,
+    deadline: call.deadline ?? (await defaultDeadline(signer)),
+    data: call.data,
+  };
+  const message = { ...request, nonce: await forwarder.nonces(from) };
+  const signature = await signer.signTypedData(await domainOf(forwarder), FORWARD_REQUEST_TYPES, message);
+  return { ...request, signature };
+}
+
+/**
+ * JSON form of a forward request, with the integers as decimal strings (see the relay server).
+ */
+export function forwardRequestToJson(request: ForwardRequest): Record<string, string> {
+  return {
+    from: request.from,
+    to: request.to,
+    value: request.value.toString(),
+    gas: request.gas.toString(),
+    deadline: request.deadline.toString(),
+    data: request.data,
+    signature: request.signature,
+  };
+}
+
+/**
+ * Parses the JSON form of a forward request; throws if a field is missing.
+ */
+export function forwardRequestFromJson(json: any): ForwardRequest {
+  const fields = ["from", "to", "value", "gas", "deadline", "data", "signature"];
+  const missing = fields.filter((field) => typeof json?.[field] !== "string");
+  if (missing.length > 0) {
+    throw new Error(`Forward request is missing ${missing.join(", ")}`);
+  }
+  return {
+    from: json.from,
+    to: json.to,
+    value: BigInt(json.value),
+    gas: BigInt(json.gas),
+    deadline: BigInt(json.deadline),
+    data: json.data,
+    signature: json.signature,
+  };
+}
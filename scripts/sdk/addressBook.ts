@@ -0,0 +1,46 @@
+// scripts/sdk/addressBook.ts
+// Address books: the PoWai deployment of each network, keyed by network name or chain id.
+
+import fs from "fs";
+import path from "path";
+import type { PoWaiDeployment } from "../../tasks/deployment";
+
+export type { PoWaiDeployment };
+export type PoWaiAddressBook = Record<string, PoWaiDeployment>;
+
+const REQUIRED_CONTRACTS = ["ChronoFuel", "AdaptiveHalving", "PoWaiCore"] as const;
+
+/**
+ * Reads every deployments/<network>.json that scripts/deploy.ts wrote into one address book keyed by
+ * network name. The storage layout files next to them are skipped.
+ */
+export function loadAddressBook(dir = "deployments"): PoWaiAddressBook {
+  const book: PoWaiAddressBook = {};
+  if (!fs.existsSync(dir)) {
+    return book;
+  }
+  for (const file of fs.readdirSync(dir)) {
+    if (file.endsWith(".json") && !file.endsWith(".layouts.json")) {
+      book[path.basename(file, ".json")] = JSON.parse(fs.readFileSync(path.join(dir, file), "utf8"));
+    }
+  }
+  return book;
+}
+
+/**
+ * Returns the deployment recorded for the first of `keys` (network names or chain ids) the book has.
+ */
+export function resolveDeployment(book: PoWaiAddressBook, keys: (string | number | bigint)[]): PoWaiDeployment {
+  for (const key of keys.map(String)) {
+    const deployment = book[key];
+    if (!deployment) {
+      continue;
+    }
+    const missing = REQUIRED_CONTRACTS.filter((name) => !deployment[name]);
+    if (missing.length > 0) {
+      throw new Error(`The address book entry for ${key} is missing ${missing.join(", ")}`);
+    }
+    return deployment;
+  }
+  throw new Error(`No PoWai deployment for ${keys.join(" or ")} in the address book (known: ${Object.keys(book).join(", ") || "none"})`);
+}
@@ -0,0 +1,438 @@
+// scripts/sdk/client.ts
+// PoWaiClient: one PoWai deployment behind typed calls that take and return CFL amounts and throw PoWaiErrors.
+
+import { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, Interface, Signer } from "ethers";
+import {
+  AdaptiveHalving,
+  AdaptiveHalving__factory,
+  ChronoFuel,
+  ChronoFuel__factory,
+  PoWaiCore,
+  PoWaiCore__factory,
+} from "../../typechain-types";
+import type { RewardClaimedEvent } from "../../typechain-types/contracts/PoWaiCore.sol/PoWaiCore";
+import type { TypedEventLog } from "../../typechain-types/common";
+import { PoWaiAddressBook, PoWaiDeployment, resolveDeployment } from "./addressBook";
+import { POWAI_INTERFACES, toPoWaiError } from "./errors";
+import { findEvent, findEvents, Subscription, watchEvents, WatchOptions } from "./events";
+import { CLAIM_MODES, ClaimMode, claimModesMask, REWARD_TIERS, RewardTier, RewardTierTerms, rewardTierName } from "./tiers";
+import { asCfl, CFL } from "./units";
+
+export interface ClaimOptions {
+  mode?: ClaimMode; // Pay the reward out, stake it or burn part of it (default: "payout")
+  burnPercent?: number; // Share of the reward to burn in "burn" mode, 1-100
+  for?: string; // Claim for this user, who approved the signer with setClaimOperator
+}
+
+export interface WaitOptions {
+  timeoutMs?: number; // How long to wait for the randomness provider (default: 300000)
+  pollingIntervalMs?: number; // Default: 4000
+}
+
+export interface ClaimAndSettleOptions extends ClaimOptions, WaitOptions {
+  // Settles the request right after it is made, e.g. (id) => coordinator.fulfillRandomness(id, TIER_ROLLS.Epic) on local networks
+  settle?: (requestId: bigint) => Promise<unknown>;
+}
+
+export interface ClaimRequest {
+  requestId: bigint;
+  user: string;
+  mintPower: CFL; // Locked in at request time, before the reward tier
+  blockNumber: number;
+  logIndex: number; // Of the RewardRequested log
+  txHash: string;
+}
+
+// A RewardClaimed event
+export interface SettledClaim {
+  requestId: bigint;
+  user: string;
+  tier: RewardTier;
+  reward: CFL; // Mint power times the tier multiplier
+  minted: CFL;
+  deferred: CFL; // Above the epoch emission budget; claimDeferredRewards mints it later
+  mintPower: CFL;
+  stakedAmount: CFL; // Stake the mint power was computed with
+  cooldownUsed: number; // Seconds
+  timeWaitedSeconds: number;
+  halvingFactor: bigint; // Scaled by PRECISION_FACTOR
+  remainingEpochBudget: CFL; // After this claim
+  remainingSupply: CFL; // Below the max supply, after this claim
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface ClaimResult extends SettledClaim {
+  staked?: CFL; // "stake" mode
+  burned?: CFL; // "burn" mode, with what was paid out and the burn record it created
+  paidOut?: CFL;
+  burnRecordIndex?: bigint;
+}
+
+export interface ClaimPreview {
+  canClaim: boolean;
+  claimableAt: number; // Unix seconds
+  cooldown: number; // Seconds
+  timeWaitedSeconds: number;
+  mintPower: CFL;
+  tierRewards: Record<RewardTier, CFL>;
+  expectedReward: CFL; // Probability-weighted over the tiers
+}
+
+export interface UserStatus {
+  balance: CFL;
+  staked: CFL; // Flexible stake
+  locked: CFL; // In open lock positions
+  deferredRewards: CFL;
+  totalBurned: CFL;
+  burnRecordCount: bigint;
+  lastClaimTimestamp: number; // 0 before the first claim
+  hasAntiHalvingShield: boolean;
+}
+
+export interface StakeResult {
+  amount: CFL;
+  positionId?: bigint; // Locked stakes only
+  unlockTimestamp?: number;
+  txHash: string;
+}
+
+export interface UnstakeLockedResult {
+  positionId: bigint;
+  returned: CFL;
+  penaltyBurned: CFL;
+  txHash: string;
+}
+
+export interface BurnResult {
+  amount: CFL;
+  burnRecordIndex: bigint;
+  certificateId?: bigint; // With { certificate: true }
+  txHash: string;
+}
+
+export interface DeferredClaimResult {
+  minted: CFL;
+  stillDeferred: CFL;
+  txHash: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function toSettledClaim(event: TypedEventLog<RewardClaimedEvent.Event>): SettledClaim {
+  const args = event.args;
+  return {
+    requestId: args.requestId,
+    user: args.user,
+    tier: rewardTierName(args.rewardTierId),
+    reward: asCfl(args.finalReward),
+    minted: asCfl(args.mintedReward),
+    deferred: asCfl(args.deferredReward),
+    mintPower: asCfl(args.baseMintPower),
+    stakedAmount: asCfl(args.stakedAmount),
+    cooldownUsed: Number(args.cooldownUsed),
+    timeWaitedSeconds: Number(args.timeWaitedSeconds),
+    halvingFactor: args.halvingFactor,
+    remainingEpochBudget: asCfl(args.remainingEpochBudget),
+    remainingSupply: asCfl(args.remainingSupply),
+    blockNumber: event.blockNumber,
+    txHash: event.transactionHash,
+  };
+}
+
+/**
+ * Client for one PoWai deployment. Writes are sent from `runner` (a Signer) and wait for their receipt;
+ * reverts are thrown as PoWaiError subclasses (see errors.ts). Reads default to the signer's address.
+ * The typechain contracts stay available as chronoFuel, adaptiveHalving and poWaiCore for anything
+ * the client does not wrap.
+ *
+ * Claims settle in two steps: claim requests a random word, and the reward is minted when the
+ * randomness provider calls back. claim() waits for that callback and returns the settled reward.
+ */
+export class PoWaiClient {
+  readonly chronoFuel: ChronoFuel;
+  readonly adaptiveHalving: AdaptiveHalving;
+  readonly poWaiCore: PoWaiCore;
+  readonly interfaces: Interface[] = POWAI_INTERFACES;
+
+  constructor(readonly runner: ContractRunner, readonly deployment: PoWaiDeployment) {
+    this.chronoFuel = ChronoFuel__factory.connect(deployment.ChronoFuel, runner);
+    this.adaptiveHalving = AdaptiveHalving__factory.connect(deployment.AdaptiveHalving, runner);
+    this.poWaiCore = PoWaiCore__factory.connect(deployment.PoWaiCore, runner);
+  }
+
+  /**
+   * Connects to the deployment `book` records for `network`, or else for the runner's network name
+   * or chain id (e.g. "monadTestnet" or "10143").
+   */
+  static async fromAddressBook(runner: ContractRunner, book: PoWaiAddressBook, network?: string): Promise<PoWaiClient> {
+    if (!runner.provider) {
+      throw new Error("PoWaiClient needs a runner connected to a provider");
+    }
+    const { name, chainId } = await runner.provider.getNetwork();
+    return new PoWaiClient(runner, resolveDeployment(book, network !== undefined ? [network] : [name, chainId]));
+  }
+
+  /**
+   * The same deployment with another signer or provider.
+   */
+  connect(runner: ContractRunner): PoWaiClient {
+    return new PoWaiClient(runner, this.deployment);
+  }
+
+  async signerAddress(): Promise<string> {
+    const signer = this.runner as Signer;
+    if (typeof signer.getAddress !== "function") {
+      throw new Error("PoWaiClient is connected without a signer");
+    }
+    return signer.getAddress();
+  }
+
+  /**
+   * Sends a transaction and waits for it, turning reverts into PoWaiErrors.
+   */
+  private async send(sendTx: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    try {
+      const tx = await sendTx();
+      return (await tx.wait())!;
+    } catch (error) {
+      throw toPoWaiError(error, this.interfaces);
+    }
+  }
+
+  // --- Reads ---
+
+  async balanceOf(user?: string): Promise<CFL> {
+    return asCfl(await this.chronoFuel.balanceOf(user ?? (await this.signerAddress())));
+  }
+
+  async status(user?: string): Promise<UserStatus> {
+    const address = user ?? (await this.signerAddress());
+    return {
+      balance: asCfl(await this.chronoFuel.balanceOf(address)),
+      staked: asCfl(await this.poWaiCore.getUserStakedAmount(address)),
+      locked: asCfl(await this.poWaiCore.getUserLockedAmount(address)),
+      deferredRewards: asCfl(await this.poWaiCore.deferredRewards(address)),
+      totalBurned: asCfl(await this.chronoFuel.getUserBurnedAmount(address)),
+      burnRecordCount: await this.poWaiCore.getUserBurnRecordCount(address),
+      lastClaimTimestamp: Number(await this.poWaiCore.getUserLastClaimTime(address)),
+      hasAntiHalvingShield: await this.adaptiveHalving.hasAntiHalvingShield(address),
+    };
+  }
+
+  async previewClaim(user?: string): Promise<ClaimPreview> {
+    const preview = await this.poWaiCore.previewClaim(user ?? (await this.signerAddress()));
+    return {
+      canClaim: preview.canClaim,
+      claimableAt: Number(preview.claimableAt),
+      cooldown: Number(preview.cooldown),
+      timeWaitedSeconds: Number(preview.timeWaitedSeconds),
+      mintPower: asCfl(preview.mintPower),
+      tierRewards: Object.fromEntries(REWARD_TIERS.map((tier, i) => [tier, asCfl(preview.tierRewards[i])])) as Record<RewardTier, CFL>,
+      expectedReward: asCfl(preview.expectedReward),
+    };
+  }
+
+  /**
+   * The reward tiers currently configured on PoWaiCore.
+   */
+  async rewardTiers(): Promise<Record<RewardTier, RewardTierTerms>> {
+    const tiers = {} as Record<RewardTier, RewardTierTerms>;
+    for (const [i, tier] of REWARD_TIERS.entries()) {
+      tiers[tier] = {
+        probability: Number(await this.poWaiCore.tierProbabilities(i)),
+        multiplier: Number(await this.poWaiCore.tierMultipliersScaled(i)) / 10,
+      };
+    }
+    return tiers;
+  }
+
+  // --- Staking ---
+
+  async approve(amount: CFL): Promise<string> {
+    const receipt = await this.send(async () => this.chronoFuel.approve(await this.poWaiCore.getAddress(), amount));
+    return receipt.hash;
+  }
+
+  /**
+   * Stakes `amount`, in a position locked for LOCK_TIERS[lockTier] if given. With `approve`, first
+   * approves PoWaiCore for the amount when the allowance falls short.
+   */
+  async stake(amount: CFL, options: { lockTier?: number; approve?: boolean } = {}): Promise<StakeResult> {
+    if (options.approve) {
+      await this.ensureAllowance(amount);
+    }
+    if (options.lockTier === undefined) {
+      const receipt = await this.send(() => this.poWaiCore.stake(amount));
+      return { amount, txHash: receipt.hash };
+    }
+    const receipt = await this.send(() => this.poWaiCore.stakeLocked(amount, options.lockTier!));
+    const locked = findEvent(receipt, this.poWaiCore, "LockedStaked").args;
+    return { amount, positionId: locked.positionId, unlockTimestamp: Number(locked.unlockTimestamp), txHash: receipt.hash };
+  }
+
+  async unstake(amount: CFL): Promise<string> {
+    const receipt = await this.send(() => this.poWaiCore.unstake(amount));
+    return receipt.hash;
+  }
+
+  /**
+   * Closes a lock position; before it unlocks, part of it is burned as a penalty.
+   */
+  async unstakeLocked(positionId: bigint | number): Promise<UnstakeLockedResult> {
+    const receipt = await this.send(() => this.poWaiCore.unstakeLocked(positionId));
+    const unlocked = findEvent(receipt, this.poWaiCore, "LockedUnstaked").args;
+    return {
+      positionId: unlocked.positionId,
+      returned: asCfl(unlocked.amountReturned),
+      penaltyBurned: asCfl(unlocked.penaltyBurned),
+      txHash: receipt.hash,
+    };
+  }
+
+  // --- Claims ---
+
+  /**
+   * Requests a reward, locking in the current mint power. The randomness provider settles it later;
+   * see waitForClaim.
+   */
+  async requestClaim(options: ClaimOptions = {}): Promise<ClaimRequest> {
+    const mode = options.mode ?? "payout";
+    const burnPercent = mode === "burn" ? options.burnPercent ?? 0 : 0;
+    const receipt = await this.send(() => {
+      if (options.for !== undefined) {
+        return this.poWaiCore.claimFor(options.for, CLAIM_MODES[mode], burnPercent);
+      }
+      if (mode === "stake") {
+        return this.poWaiCore.claimAndStake();
+      }
+      return mode === "burn" ? this.poWaiCore.claimAndBurn(burnPercent) : this.poWaiCore.claimReward();
+    });
+    const requested = findEvent(receipt, this.poWaiCore, "RewardRequested").args;
+    const requestedTopic = this.poWaiCore.interface.getEvent("RewardRequested").topicHash;
+    return {
+      requestId: requested.requestId,
+      user: requested.user,
+      mintPower: asCfl(requested.mintPower),
+      blockNumber: receipt.blockNumber,
+      logIndex: receipt.logs.find((log) => log.topics[0] === requestedTopic)!.index,
+      txHash: receipt.hash,
+    };
+  }
+
+  /**
+   * Waits until the randomness provider has settled `request` and returns the reward.
+   * The settlement is the first RewardClaimed of the request's user and id after the request; the log
+   * position rules out an earlier claim whose id a replaced randomness provider handed out again.
+   */
+  async waitForClaim(request: ClaimRequest, options: WaitOptions = {}): Promise<ClaimResult> {
+    const timeoutMs = options.timeoutMs ?? 300_000;
+    const deadline = Date.now() + timeoutMs;
+    const filter = this.poWaiCore.filters.RewardClaimed(request.user, request.requestId);
+    for (;;) {
+      const events = await this.poWaiCore.queryFilter(filter, request.blockNumber);
+      const settled = events.find((event) => event.blockNumber > request.blockNumber || event.index > request.logIndex);
+      if (settled) {
+        return this.claimResult(toSettledClaim(settled));
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Claim request #${request.requestId} was not settled within ${timeoutMs} ms`);
+      }
+      await sleep(options.pollingIntervalMs ?? 4_000);
+    }
+  }
+
+  /**
+   * Requests a reward and waits for it to settle, e.g. claim() → { tier: "Epic", reward, cooldownUsed, ... }.
+   */
+  async claim(options: ClaimAndSettleOptions = {}): Promise<ClaimResult> {
+    const request = await this.requestClaim(options);
+    if (options.settle) {
+      try {
+        const settlement = await options.settle(request.requestId);
+        await (settlement as Partial<ContractTransactionResponse> | undefined)?.wait?.();
+      } catch (error) {
+        throw toPoWaiError(error, this.interfaces);
+      }
+    }
+    return this.waitForClaim(request, options);
+  }
+
+  // Adds what the settlement staked or burned for claimAndStake/claimAndBurn
+  private async claimResult(settled: SettledClaim): Promise<ClaimResult> {
+    const result: ClaimResult = { ...settled };
+    const receipt = await this.poWaiCore.runner!.provider!.getTransactionReceipt(settled.txHash);
+    const forRequest = <T extends { args: { requestId: bigint } }>(events: T[]) => events.find((event) => event.args.requestId === settled.requestId);
+
+    const staked = forRequest(findEvents(receipt!, this.poWaiCore, "RewardStaked"));
+    if (staked) {
+      result.staked = asCfl(staked.args.amount);
+    }
+    const burned = forRequest(findEvents(receipt!, this.poWaiCore, "RewardBurned"));
+    if (burned) {
+      result.burned = asCfl(burned.args.amountBurned);
+      result.paidOut = asCfl(burned.args.amountPaidOut);
+      result.burnRecordIndex = burned.args.burnRecordIndex;
+    }
+    return result;
+  }
+
+  /**
+   * Mints rewards deferred by the epoch emission budget, as far as the current budget allows.
+   */
+  async claimDeferredRewards(): Promise<DeferredClaimResult> {
+    const receipt = await this.send(() => this.poWaiCore.claimDeferredRewards());
+    const claimed = findEvent(receipt, this.poWaiCore, "DeferredRewardsClaimed").args;
+    return { minted: asCfl(claimed.mintedReward), stillDeferred: asCfl(claimed.stillDeferred), txHash: receipt.hash };
+  }
+
+  /**
+   * Lets `operator` claim for the signer with `modes` (all of them by default); an empty list revokes it.
+   */
+  async setClaimOperator(operator: string, modes: readonly ClaimMode[] = ["payout", "stake", "burn"]): Promise<string> {
+    const receipt = await this.send(() => this.poWaiCore.setClaimOperator(operator, claimModesMask(modes)));
+    return receipt.hash;
+  }
+
+  // --- Burning ---
+
+  /**
+   * Burns `amount` for a permanent burn boost and a burn record, with a BurnCertificateNFT if
+   * `certificate` is set. With `approve`, first approves PoWaiCore when the allowance falls short.
+   */
+  async boostBurn(amount: CFL, options: { certificate?: boolean; approve?: boolean } = {}): Promise<BurnResult> {
+    if (options.approve) {
+      await this.ensureAllowance(amount);
+    }
+    const user = await this.signerAddress();
+    const receipt = await this.send(() =>
+      options.certificate ? this.poWaiCore.boostBurnWithCertificate(amount) : this.poWaiCore.boostBurn(amount)
+    );
+    const burnRecordCount = await this.poWaiCore.getUserBurnRecordCount(user, { blockTag: receipt.blockNumber });
+    const result: BurnResult = { amount, burnRecordIndex: burnRecordCount - 1n, txHash: receipt.hash };
+    if (options.certificate) {
+      result.certificateId = findEvent(receipt, this.poWaiCore, "BurnCertificateMinted").args.tokenId;
+    }
+    return result;
+  }
+
+  private async ensureAllowance(amount: CFL) {
+    const spender = await this.poWaiCore.getAddress();
+    if ((await this.chronoFuel.allowance(await this.signerAddress(), spender)) < amount) {
+      await this.approve(amount);
+    }
+  }
+
+  // --- Events ---
+
+  /**
+   * Calls `listener` with every claim settled from now on, or only `options.user`'s. Stop the
+   * subscription when done; see watchEvents for the other options.
+   */
+  async watchClaims(listener: (claim: SettledClaim) => void | Promise<void>, options: WatchOptions & { user?: string } = {}): Promise<Subscription> {
+    return watchEvents(this.poWaiCore, "RewardClaimed", (event) => listener(toSettledClaim(event)), {
+      ...options,
+      filterArgs: options.user !== undefined ? [options.user] : options.filterArgs,
+    });
+  }
+}
@@ -0,0 +1,126 @@
+// scripts/sdk/errors.ts
+// Typed errors for reverts of the PoWai contracts, so callers can catch e.g. CooldownNotPassedError instead of matching strings.
+
+import { Interface, Result } from "ethers";
+import { AdaptiveHalving__factory, ChronoFuel__factory, PoWaiCore__factory } from "../../typechain-types";
+import { decodeRevertReason } from "../../tasks/revert";
+import { asCfl, CFL } from "./units";
+
+// Interfaces whose custom errors toPoWaiError decodes by default
+export const POWAI_INTERFACES: Interface[] = [
+  PoWaiCore__factory.createInterface(),
+  ChronoFuel__factory.createInterface(),
+  AdaptiveHalving__factory.createInterface(),
+];
+
+/**
+ * A reverted call. `reason` is the revert string, e.g. "PoWaiCore: Cooldown not yet passed", or the
+ * decoded custom error, e.g. "ERC20InsufficientBalance(0x..., 0, 5)". `cause` is the error ethers threw.
+ * Reverts without a more specific class below are thrown as a plain PoWaiError.
+ */
+export class PoWaiError extends Error {
+  constructor(readonly reason: string, readonly cause?: unknown) {
+    super(reason);
+    this.name = new.target.name;
+  }
+}
+
+// --- Revert strings ---
+
+export class CooldownNotPassedError extends PoWaiError {}
+export class NoActiveStakeError extends PoWaiError {}
+export class InsufficientStakeError extends PoWaiError {}
+export class InvalidAmountError extends PoWaiError {} // Zero amounts, burn percents outside 1-100
+export class LockPositionError extends PoWaiError {} // Unknown, withdrawn or too many lock positions, invalid lock tiers
+export class NotClaimOperatorError extends PoWaiError {}
+export class NoDeferredRewardsError extends PoWaiError {}
+export class RandomnessProviderNotSetError extends PoWaiError {}
+export class UnknownRequestError extends PoWaiError {} // Settling a request that does not exist or was already settled
+export class MaxSupplyExceededError extends PoWaiError {}
+export class PausedError extends PoWaiError {} // PoWaiCore is paused, or ChronoFuel's circuit breaker has halted minting
+
+// --- Custom errors ---
+
+/**
+ * The caller lacks a role (OpenZeppelin's AccessControlUnauthorizedAccount), or is not the randomness provider.
+ */
+export class UnauthorizedError extends PoWaiError {
+  constructor(reason: string, cause?: unknown, readonly account?: string, readonly role?: string) {
+    super(reason, cause);
+  }
+}
+
+export class InsufficientBalanceError extends PoWaiError {
+  constructor(reason: string, cause: unknown, readonly account: string, readonly balance: CFL, readonly needed: CFL) {
+    super(reason, cause);
+  }
+}
+
+export class InsufficientAllowanceError extends PoWaiError {
+  constructor(reason: string, cause: unknown, readonly spender: string, readonly allowance: CFL, readonly needed: CFL) {
+    super(reason, cause);
+  }
+}
+
+const REVERT_STRINGS: Record<string, new (reason: string, cause?: unknown) => PoWaiError> = {
+  "PoWaiCore: Cooldown not yet passed": CooldownNotPassedError,
+  "PoWaiCore: No active stake found": NoActiveStakeError,
+  "PoWaiCore: Insufficient staked amount": InsufficientStakeError,
+  "PoWaiCore: Stake amount must be positive": InvalidAmountError,
+  "PoWaiCore: Unstake amount must be positive": InvalidAmountError,
+  "PoWaiCore: Burn amount must be positive": InvalidAmountError,
+  "PoWaiCore: Burn percent must be 1-100": InvalidAmountError,
+  "PoWaiCore: Unknown lock position": LockPositionError,
+  "PoWaiCore: Lock position already withdrawn": LockPositionError,
+  "PoWaiCore: Too many open lock positions": LockPositionError,
+  "PoWaiCore: Invalid lock tier": LockPositionError,
+  "PoWaiCore: Not an approved claim operator": NotClaimOperatorError,
+  "PoWaiCore: No deferred rewards": NoDeferredRewardsError,
+  "PoWaiCore: Randomness provider not set": RandomnessProviderNotSetError,
+  "PoWaiCore: Unknown or settled request": UnknownRequestError,
+  "PoWaiCore: Only randomness provider can fulfill": UnauthorizedError,
+  "PoWaiCore: Paused": PausedError,
+  "ChronoFuel: Max supply exceeded": MaxSupplyExceededError,
+};
+
+const CUSTOM_ERRORS: Record<string, (reason: string, args: Result, cause: unknown) => PoWaiError> = {
+  AccessControlUnauthorizedAccount: (reason, [account, role], cause) => new UnauthorizedError(reason, cause, account, role),
+  ERC20InsufficientBalance: (reason, [account, balance, needed], cause) =>
+    new InsufficientBalanceError(reason, cause, account, asCfl(balance), asCfl(needed)),
+  ERC20InsufficientAllowance: (reason, [spender, allowance, needed], cause) =>
+    new InsufficientAllowanceError(reason, cause, spender, asCfl(allowance), asCfl(needed)),
+};
+
+function fromReason(reason: string, cause: unknown): PoWaiError {
+  const ErrorClass = REVERT_STRINGS[reason] ?? PoWaiError;
+  return new ErrorClass(reason, cause);
+}
+
+/**
+ * Maps an error thrown by ethers or the Hardhat node to the matching PoWaiError subclass, decoding
+ * custom errors with `interfaces`. Errors that are not reverts (network failures, bad arguments, ...)
+ * are returned unchanged.
+ */
+export function toPoWaiError(error: unknown, interfaces: Interface[] = POWAI_INTERFACES): unknown {
+  if (error instanceof PoWaiError) {
+    return error;
+  }
+  const cause = error as any;
+  const data = typeof cause?.data === "string" ? cause.data : cause?.data?.data ?? cause?.info?.error?.data;
+  if (typeof data === "string" && data.length >= 10) {
+    for (const iface of interfaces) {
+      const parsed = iface.parseError(data);
+      if (!parsed) {
+        continue;
+      }
+      if (parsed.name === "Error") {
+        return fromReason(String(parsed.args[0]), error);
+      }
+      const reason = `${parsed.name}(${parsed.args.join(", ")})`;
+      return CUSTOM_ERRORS[parsed.name]?.(reason, parsed.args, error) ?? new PoWaiError(reason, error);
+    }
+  }
+
+  const reason = decodeRevertReason(error, interfaces);
+  return reason === null ? error : fromReason(reason, error);
+}
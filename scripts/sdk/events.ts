@@ -0,0 +1,132 @@
+// scripts/sdk/events.ts
+// Typed access to the events of the PoWai contracts: decoding them from receipts and following them as they are emitted.
+
+import type { BaseContract, Log } from "ethers";
+import type { TypedContractEvent, TypedEventLog, TypedLogDescription } from "../../typechain-types/common";
+
+// Event names of a typechain contract, e.g. "RewardClaimed" for PoWaiCore
+export type EventName<C extends BaseContract> = keyof C["filters"] & string;
+export type EventOf<C extends BaseContract, K extends EventName<C>> = C["filters"][K] extends TypedContractEvent
+  ? C["filters"][K]
+  : TypedContractEvent;
+
+// What findEvent needs of a receipt; ContractTransactionReceipt and TransactionReceipt both qualify
+export interface ReceiptLike {
+  hash: string;
+  logs: readonly Log[];
+}
+
+/**
+ * Decodes every `eventName` log in `receipt` that `contract`'s interface recognises, in log order.
+ * Logs of other contracts are skipped.
+ */
+export function findEvents<C extends BaseContract, K extends EventName<C>>(
+  receipt: ReceiptLike,
+  contract: C,
+  eventName: K
+): TypedLogDescription<EventOf<C, K>>[] {
+  const events: TypedLogDescription<EventOf<C, K>>[] = [];
+  for (const log of receipt.logs) {
+    try {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed && (parsed.name === eventName || parsed.signature === eventName)) {
+        events.push(parsed as TypedLogDescription<EventOf<C, K>>);
+      }
+    } catch (e) {
+      // Logs of other contracts
+    }
+  }
+  return events;
+}
+
+/**
+ * Returns the first `eventName` log in `receipt`, and throws if there is none.
+ */
+export function findEvent<C extends BaseContract, K extends EventName<C>>(
+  receipt: ReceiptLike | null,
+  contract: C,
+  eventName: K
+): TypedLogDescription<EventOf<C, K>> {
+  if (!receipt) {
+    throw new Error(`No receipt to find ${eventName} in`);
+  }
+  const [event] = findEvents(receipt, contract, eventName);
+  if (!event) {
+    throw new Error(`No ${eventName} event in tx ${receipt.hash}`);
+  }
+  return event;
+}
+
+/**
+ * The typed arguments of the first `eventName` log in `receipt`, e.g. getEventArgs(receipt, poWaiCore, "RewardRequested").requestId.
+ */
+export function getEventArgs<C extends BaseContract, K extends EventName<C>>(receipt: ReceiptLike | null, contract: C, eventName: K) {
+  return findEvent(receipt, contract, eventName).args;
+}
+
+export interface WatchOptions {
+  filterArgs?: unknown[]; // Indexed arguments to match, e.g. [userAddress] for RewardClaimed (default: any)
+  fromBlock?: number; // First block to report (default: the block after the current one)
+  pollingIntervalMs?: number; // Default: 4000
+  onError?: (error: unknown) => void; // Failed polls and listener errors (default: console.error)
+}
+
+export interface Subscription {
+  stop(): void;
+}
+
+/**
+ * Calls `listener` with every `eventName` log `contract` emits from `options.fromBlock` on, in order,
+ * until stopped. Polls getLogs over the blocks mined since the previous poll rather than relying on
+ * eth_newFilter, so it behaves the same on HTTP, WebSocket and Hardhat's in-process network, and
+ * events mined while a listener is busy are not missed. The subscription keeps Node running until stop().
+ */
+export async function watchEvents<C extends BaseContract, K extends EventName<C>>(
+  contract: C,
+  eventName: K,
+  listener: (event: TypedEventLog<EventOf<C, K>>) => void | Promise<void>,
+  options: WatchOptions = {}
+): Promise<Subscription> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error(`Cannot watch ${eventName}: the contract is not connected to a provider`);
+  }
+  const filter = (contract.filters[eventName] as TypedContractEvent)(...(options.filterArgs ?? []));
+  const onError = options.onError ?? console.error;
+  let nextBlock = options.fromBlock ?? (await provider.getBlockNumber()) + 1;
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const poll = async () => {
+    try {
+      const latest = await provider.getBlockNumber();
+      if (latest >= nextBlock) {
+        const logs = await contract.queryFilter(filter, nextBlock, latest);
+        nextBlock = latest + 1;
+        for (const log of logs) {
+          if (stopped) {
+            break;
+          }
+          try {
+            await listener(log as TypedEventLog<EventOf<C, K>>);
+          } catch (error) {
+            onError(error);
+          }
+        }
+      }
+    } catch (error) {
+      onError(error);
+    }
+    if (!stopped) {
+      timer = setTimeout(poll, options.pollingIntervalMs ?? 4_000);
+    }
+  };
+  timer = setTimeout(poll, 0);
+
+  return {
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+}
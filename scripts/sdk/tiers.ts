@@ -0,0 +1,53 @@
+// scripts/sdk/tiers.ts
+// Reward tiers, lock tiers and claim modes of PoWaiCore, by name instead of by index.
+
+export const REWARD_TIERS = ["Common", "Rare", "Epic", "Legendary"] as const;
+export type RewardTier = (typeof REWARD_TIERS)[number];
+
+export interface RewardTierTerms {
+  probability: number; // Percent of rolls landing on the tier
+  multiplier: number; // Applied to the mint power, e.g. 3.5 for 3.5x
+}
+
+// PoWaiCore's tiers as initialized; governance can change them with setRewardTiers (PoWaiClient.rewardTiers reads the live ones)
+export const DEFAULT_REWARD_TIERS: Record<RewardTier, RewardTierTerms> = {
+  Common: { probability: 70, multiplier: 1 },
+  Rare: { probability: 22, multiplier: 1.8 },
+  Epic: { probability: 7, multiplier: 3.5 },
+  Legendary: { probability: 1, multiplier: 8 },
+};
+
+// A random word landing on each default tier (the roll is randomWord % 100), for settling claims through MockRandomnessCoordinator
+export const TIER_ROLLS: Record<RewardTier, bigint> = {
+  Common: 0n,
+  Rare: 70n,
+  Epic: 92n,
+  Legendary: 99n,
+};
+
+export function rewardTierName(tierId: bigint | number): RewardTier {
+  const tier = REWARD_TIERS[Number(tierId)];
+  if (tier === undefined) {
+    throw new Error(`Unknown reward tier ${tierId}`);
+  }
+  return tier;
+}
+
+// PoWaiCore.getLockTerms, indexed by lock tier id
+export const LOCK_TIERS = [
+  { label: "30 days", durationSeconds: 30 * 86_400, boostPercent: 110 },
+  { label: "90 days", durationSeconds: 90 * 86_400, boostPercent: 125 },
+  { label: "180 days", durationSeconds: 180 * 86_400, boostPercent: 150 },
+  { label: "365 days", durationSeconds: 365 * 86_400, boostPercent: 200 },
+] as const;
+
+// PoWaiCore.ClaimMode
+export const CLAIM_MODES = { payout: 0, stake: 1, burn: 2 } as const;
+export type ClaimMode = keyof typeof CLAIM_MODES;
+
+/**
+ * The PoWaiCore.setClaimOperator bitmask that allows `modes`, bit `1 << mode` each. No modes revokes the operator.
+ */
+export function claimModesMask(modes: readonly ClaimMode[]): bigint {
+  return modes.reduce((mask, mode) => mask | (1n << BigInt(CLAIM_MODES[mode])), 0n);
+}
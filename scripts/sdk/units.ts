@@ -0,0 +1,42 @@
+// scripts/sdk/units.ts
+// CFL amounts: wei bigints tagged with their unit, so a raw bigint is not mistaken for an amount of CFL.
+
+import { formatUnits, parseUnits } from "ethers";
+
+export const CFL_DECIMALS = 18;
+
+/**
+ * An amount of CFL in wei (10^-18 CFL). It is a plain bigint at runtime, so it works with ethers and
+ * chai as is, but a bigint only becomes CFL through toWei or asCfl.
+ */
+export type CFL = bigint & { readonly __unit: "CFL" };
+
+/**
+ * Parses a decimal amount of CFL, e.g. toWei(100) or toWei("12.5"). Throws on malformed amounts
+ * and on more than 18 decimals.
+ */
+export function toWei(amount: number | string): CFL {
+  return parseUnits(amount.toString(), CFL_DECIMALS) as CFL;
+}
+
+/**
+ * Tags a wei amount read from a contract or an event as CFL.
+ */
+export function asCfl(wei: bigint): CFL {
+  return wei as CFL;
+}
+
+/**
+ * Converts wei to a number of CFL. Precision is lost beyond about 15 significant digits,
+ * so use it for display and approximate comparisons only.
+ */
+export function fromWei(wei: bigint): number {
+  return parseFloat(formatUnits(wei, CFL_DECIMALS));
+}
+
+/**
+ * Formats wei as e.g. "12.5 CFL", without losing precision.
+ */
+export function formatCfl(wei: bigint): string {
+  return `${formatUnits(wei, CFL_DECIMALS)} CFL`;
+}
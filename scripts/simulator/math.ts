@@ -0,0 +1,220 @@
+// scripts/simulator/math.ts
+// Bigint ports of the PoWaiCore and AdaptiveHalving reward and halving math. Every function
+// rounds exactly like its Solidity counterpart, named in its comment.
+
+export const AHBM_DECIMALS = 10n ** 18n;
+export const PRECISION_FACTOR = 10n ** 10n;
+export const HOUR = 3600n;
+export const TIER_COUNT = 4;
+
+/**
+ * Constants and governed parameters of the contracts. DEFAULT_PARAMS mirrors the deployed values;
+ * scenarios override fields to project the effect of a change before making it on-chain.
+ */
+export interface ModelParams {
+  // PoWaiCore constants
+  baseTimeRewardPerHour: bigint; // BASE_TIME_REWARD_PER_HOUR_AHBM
+  cooldownDecreasePerActiveUserSeconds: bigint; // COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS
+  burnFactorDenominator: bigint; // BURN_FACTOR_DENOMINATOR
+  earlyExitPenaltyMaxPercent: bigint; // EARLY_EXIT_PENALTY_MAX_PERCENT
+  // PoWaiCore governed parameters
+  maxWaitHours: bigint;
+  minCooldownSeconds: bigint;
+  maxCooldownSeconds: bigint;
+  burnFactorNumerator: bigint;
+  tierProbabilities: bigint[]; // Percentages, summing to 100
+  tierMultipliersScaled: bigint[]; // Scaled by 10
+  // AdaptiveHalving constants
+  initialHalvingThreshold: bigint; // INITIAL_HALVING_THRESHOLD
+  globalBurnThresholdFactor: bigint; // GLOBAL_BURN_THRESHOLD_FACTOR
+  baseHalvingRatePercent: bigint; // BASE_HALVING_RATE_PERCENT
+  stakingRatioCoefficientScaled: bigint; // STAKING_RATIO_COEFFICIENT_SCALED
+  maxHalvingRatePercent: bigint; // MAX_HALVING_RATE_PERCENT
+  halvingKeyReductionPercent: bigint; // Passed to reduceHalvingRate on a Legendary claim
+  // ChronoFuel
+  initialSupply: bigint; // INITIAL_SUPPLY
+  maxSupply: bigint; // maxSupply (DEFAULT_MAX_SUPPLY)
+  epochEmissionBudget: bigint; // epochEmissionBudget (DEFAULT_EPOCH_EMISSION_BUDGET)
+}
+
+export const DEFAULT_PARAMS: ModelParams = {
+  baseTimeRewardPerHour: AHBM_DECIMALS,
+  cooldownDecreasePerActiveUserSeconds: 12n,
+  burnFactorDenominator: 10n,
+  earlyExitPenaltyMaxPercent: 25n,
+  maxWaitHours: 24n,
+  minCooldownSeconds: 60n,
+  maxCooldownSeconds: 15n * 60n,
+  burnFactorNumerator: 7n,
+  tierProbabilities: [70n, 22n, 7n, 1n],
+  tierMultipliersScaled: [10n, 18n, 35n, 80n],
+  initialHalvingThreshold: 21_000_000n * AHBM_DECIMALS,
+  globalBurnThresholdFactor: 2_100_000_000n * AHBM_DECIMALS,
+  baseHalvingRatePercent: 50n,
+  stakingRatioCoefficientScaled: PRECISION_FACTOR / 10n,
+  maxHalvingRatePercent: 80n,
+  halvingKeyReductionPercent: 3n,
+  initialSupply: 21_000_000n * AHBM_DECIMALS,
+  maxSupply: 210_000_000n * AHBM_DECIMALS,
+  epochEmissionBudget: 42_000_000n * AHBM_DECIMALS,
+};
+
+// Lock tiers of PoWaiCore.getLockTerms: duration in seconds and boost (100 = 1.0x)
+export const LOCK_TERMS: { duration: bigint; boostPercent: bigint }[] = [
+  { duration: 30n * 86400n, boostPercent: 110n },
+  { duration: 90n * 86400n, boostPercent: 125n },
+  { duration: 180n * 86400n, boostPercent: 150n },
+  { duration: 365n * 86400n, boostPercent: 200n },
+];
+
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+// PoWaiCore._integerSqrt (Babylonian method, floor of the square root)
+export function integerSqrt(x: bigint): bigint {
+  if (x === 0n) return 0n;
+  let y = x;
+  let z = x / 2n + 1n;
+  while (z < y) {
+    y = z;
+    z = (x / z + z) / 2n;
+  }
+  return y;
+}
+
+// PoWaiCore._calculateTimeReward: 1 CFL per hour waited, capped at maxWaitHours, at least 1 wei
+export function calculateTimeReward(timeSinceLastClaim: bigint, params: ModelParams = DEFAULT_PARAMS): bigint {
+  let timeReward = (timeSinceLastClaim * params.baseTimeRewardPerHour) / HOUR;
+  timeReward = min(timeReward, params.baseTimeRewardPerHour * params.maxWaitHours);
+  if (timeSinceLastClaim > 0n && timeReward === 0n) {
+    timeReward = 1n;
+  }
+  return timeReward;
+}
+
+// PoWaiCore._calculateStakeBoost: 1 + floor(log10(whole CFL staked + 1)), at most 10
+export function calculateStakeBoost(stakedAmount: bigint): bigint {
+  const stakedBaseUnits = stakedAmount / AHBM_DECIMALS;
+  if (stakedBaseUnits === 0n) {
+    return 1n;
+  }
+  const valueForLog = stakedBaseUnits + 1n;
+  for (let exponent = 9n; exponent >= 1n; exponent--) {
+    if (valueForLog >= 10n ** exponent) {
+      return 1n + exponent;
+    }
+  }
+  return 1n;
+}
+
+// PoWaiCore._calculateBurnBoost: 1 + burnFactor * sqrt(whole CFL burned), scaled by PRECISION_FACTOR
+export function calculateBurnBoost(userBurned: bigint, params: ModelParams = DEFAULT_PARAMS): bigint {
+  if (userBurned === 0n) {
+    return PRECISION_FACTOR;
+  }
+  const userBurnedBaseUnits = userBurned / AHBM_DECIMALS;
+  const sqrtValScaled = integerSqrt(userBurnedBaseUnits * PRECISION_FACTOR * PRECISION_FACTOR);
+  return PRECISION_FACTOR + (params.burnFactorNumerator * sqrtValScaled) / params.burnFactorDenominator;
+}
+
+export interface LockPositionState {
+  amount: bigint;
+  lockTierId: number;
+  boostPercent: bigint;
+  startTimestamp: bigint;
+  unlockTimestamp: bigint;
+  withdrawn: boolean;
+}
+
+// PoWaiCore._calculateLockBoost over the user's open positions, scaled by PRECISION_FACTOR
+export function calculateLockBoost(openPositions: LockPositionState[], totalUserStake: bigint, now: bigint): bigint {
+  if (totalUserStake === 0n) {
+    return PRECISION_FACTOR;
+  }
+  let extraBoostWeight = 0n;
+  for (const position of openPositions) {
+    if (now < position.unlockTimestamp) {
+      extraBoostWeight += position.amount * (position.boostPercent - 100n);
+    }
+  }
+  return PRECISION_FACTOR + (extraBoostWeight * PRECISION_FACTOR) / (totalUserStake * 100n);
+}
+
+// PoWaiCore.previewUnstakeLocked: the early-exit penalty, pro-rated by the lock time remaining
+export function calculateEarlyExitPenalty(position: LockPositionState, now: bigint, params: ModelParams = DEFAULT_PARAMS): bigint {
+  if (position.withdrawn || now >= position.unlockTimestamp) {
+    return 0n;
+  }
+  const remaining = position.unlockTimestamp - now;
+  const lockDuration = position.unlockTimestamp - position.startTimestamp;
+  return (position.amount * params.earlyExitPenaltyMaxPercent * remaining) / (100n * lockDuration);
+}
+
+// PoWaiCore._cooldownForActiveUsers: maxCooldown - 12s per active user, floored at minCooldown
+export function cooldownForActiveUsers(activeUsers: bigint, params: ModelParams = DEFAULT_PARAMS): bigint {
+  const cooldownReduction = params.cooldownDecreasePerActiveUserSeconds * activeUsers;
+  const calculatedCooldown =
+    cooldownReduction >= params.maxCooldownSeconds ? params.minCooldownSeconds : params.maxCooldownSeconds - cooldownReduction;
+  return max(calculatedCooldown, params.minCooldownSeconds);
+}
+
+// PoWaiCore._applyHalvingFactor: scales by the emission factor, keeping at least 1 wei
+export function applyHalvingFactor(mintPower: bigint, halvingFactor: bigint): bigint {
+  const scaledMintPower = (mintPower * halvingFactor) / PRECISION_FACTOR;
+  return scaledMintPower === 0n ? 1n : scaledMintPower;
+}
+
+/**
+ * The mint power claimReward locks in, before the reward tier (10^18 scaled).
+ * Multiplications happen in the same order as on-chain so intermediate truncation matches.
+ */
+export function calculateMintPower(
+  timeReward: bigint,
+  stakeBoost: bigint,
+  burnBoostScaled: bigint,
+  lockBoostScaled: bigint,
+  halvingFactor: bigint
+): bigint {
+  let effectiveMintPower = (timeReward * stakeBoost * burnBoostScaled) / PRECISION_FACTOR;
+  effectiveMintPower = (effectiveMintPower * lockBoostScaled) / PRECISION_FACTOR;
+  return applyHalvingFactor(effectiveMintPower, halvingFactor);
+}
+
+// PoWaiCore._applyRandomRewardTier, without the AdaptiveHalving side effects
+export function drawRewardTier(
+  mintPower: bigint,
+  randomWord: bigint,
+  params: ModelParams = DEFAULT_PARAMS
+): { rewardTierId: number; finalReward: bigint } {
+  const roll = randomWord % 100n;
+  let cutoff = 0n;
+  let rewardTierId = TIER_COUNT - 1;
+  for (let tier = 0; tier < TIER_COUNT - 1; tier++) {
+    cutoff += params.tierProbabilities[tier];
+    if (roll < cutoff) {
+      rewardTierId = tier;
+      break;
+    }
+  }
+  return { rewardTierId, finalReward: (mintPower * params.tierMultipliersScaled[rewardTierId]) / 10n };
+}
+
+// AdaptiveHalving._calculateNextThreshold: 21M * (1 + globalBurned / 2.1B)
+export function calculateNextThreshold(globalBurned: bigint, params: ModelParams = DEFAULT_PARAMS): bigint {
+  const burnFactorScaled = (globalBurned * PRECISION_FACTOR) / params.globalBurnThresholdFactor;
+  return (params.initialHalvingThreshold * (PRECISION_FACTOR + burnFactorScaled)) / PRECISION_FACTOR;
+}
+
+// AdaptiveHalving.getAdjustedHalvingRate: 50% * (1 + 0.1 * staking ratio) - Halving Key effect, capped at 80%
+export function calculateAdjustedHalvingRate(
+  totalStaked: bigint,
+  totalSupply: bigint,
+  halvingKeyEffectPercentage: bigint,
+  params: ModelParams = DEFAULT_PARAMS
+): bigint {
+  const stakingRatioScaled = totalSupply > 0n ? (totalStaked * PRECISION_FACTOR) / totalSupply : 0n;
+  const stakingImpactScaled = (stakingRatioScaled * params.stakingRatioCoefficientScaled) / PRECISION_FACTOR;
+  let newRate = (params.baseHalvingRatePercent * (PRECISION_FACTOR + stakingImpactScaled)) / PRECISION_FACTOR;
+  newRate = newRate >= halvingKeyEffectPercentage ? newRate - halvingKeyEffectPercentage : 0n;
+  return min(newRate, params.maxHalvingRatePercent);
+}
@@ -0,0 +1,408 @@
+// scripts/simulator/model.ts
+// In-memory model of ChronoFuel, PoWaiCore and AdaptiveHalving state, driven by the same calls as the contracts.
+
+import {
+  calculateAdjustedHalvingRate,
+  calculateBurnBoost,
+  calculateEarlyExitPenalty,
+  calculateLockBoost,
+  calculateMintPower,
+  calculateNextThreshold,
+  calculateStakeBoost,
+  calculateTimeReward,
+  cooldownForActiveUsers,
+  DEFAULT_PARAMS,
+  drawRewardTier,
+  LockPositionState,
+  LOCK_TERMS,
+  ModelParams,
+  PRECISION_FACTOR,
+} from "./math";
+
+const ACTIVITY_BUCKET_SECONDS = 3600n;
+const ACTIVITY_BUCKET_COUNT = 24n;
+const MAX_OPEN_LOCK_POSITIONS = 10;
+
+// The account holding ChronoFuel's initial supply (the deployer on-chain)
+export const TREASURY = "treasury";
+
+export interface ModelUser {
+  lastClaimTimestamp: bigint;
+  stakedAmount: bigint;
+  lockedAmount: bigint;
+  lockPositions: LockPositionState[];
+  openLockPositionIds: number[];
+  lastActivityTime: bigint;
+  hasAntiHalvingShield: boolean;
+}
+
+// What a claim locked in and paid out; field names follow RewardRequested and RewardClaimed
+export interface ClaimResult {
+  timeWaitedSeconds: bigint;
+  stakedAmount: bigint;
+  mintPower: bigint;
+  finalReward: bigint;
+  rewardTierId: number;
+  cooldownUsed: bigint;
+  halvingFactor: bigint;
+  mintedReward: bigint;
+  deferredReward: bigint;
+  halvingTriggered: boolean;
+}
+
+/**
+ * Thrown where the contracts would revert, with the same reason string.
+ */
+export class ModelRevertError extends Error {}
+
+function check(condition: boolean, reason: string): asserts condition {
+  if (!condition) {
+    throw new ModelRevertError(reason);
+  }
+}
+
+/**
+ * Mirrors a linked ChronoFuel + PoWaiCore + AdaptiveHalving deployment with an instant randomness
+ * provider: claim requests and settles in one step. Timestamps are passed in by the caller and
+ * must not decrease, as block timestamps do not.
+ *
+ * Balances are keyed by any string; the initial supply starts with TREASURY.
+ */
+export class PoWaiModel {
+  // ChronoFuel
+  readonly balances = new Map<string, bigint>();
+  readonly userBurnedAmounts = new Map<string, bigint>();
+  totalSupply: bigint;
+  totalMinedTokens: bigint;
+  totalGlobalBurned = 0n;
+
+  // PoWaiCore
+  readonly users = new Map<string, ModelUser>();
+  readonly deferredRewards = new Map<string, bigint>();
+  totalStakedAmount = 0n;
+  private readonly activityBucketCounts: bigint[] = new Array(Number(ACTIVITY_BUCKET_COUNT)).fill(0n);
+  private activeUsersTotal = 0n;
+  private lastActivityRollHour = 0n;
+
+  // AdaptiveHalving
+  halvingCount = 0n;
+  currentHalvingThreshold: bigint;
+  halvingEpochStartMined: bigint;
+  emissionFactorScaled = PRECISION_FACTOR;
+  halvingKeyEffectPercentage = 0n;
+
+  constructor(readonly params: ModelParams = DEFAULT_PARAMS) {
+    this.totalSupply = params.initialSupply;
+    this.totalMinedTokens = params.initialSupply;
+    this.balances.set(TREASURY, params.initialSupply);
+    this.currentHalvingThreshold = params.initialHalvingThreshold;
+    this.halvingEpochStartMined = this.totalMinedTokens;
+  }
+
+  balanceOf(account: string): bigint {
+    return this.balances.get(account) ?? 0n;
+  }
+
+  user(account: string): ModelUser {
+    let user = this.users.get(account);
+    if (!user) {
+      user = {
+        lastClaimTimestamp: 0n,
+        stakedAmount: 0n,
+        lockedAmount: 0n,
+        lockPositions: [],
+        openLockPositionIds: [],
+        lastActivityTime: 0n,
+        hasAntiHalvingShield: false,
+      };
+      this.users.set(account, user);
+    }
+    return user;
+  }
+
+  // --- ChronoFuel ---
+
+  transfer(from: string, to: string, amount: bigint) {
+    check(this.balanceOf(from) >= amount, "ERC20InsufficientBalance");
+    this.balances.set(from, this.balanceOf(from) - amount);
+    this.balances.set(to, this.balanceOf(to) + amount);
+  }
+
+  // ChronoFuel.burn / burnFrom
+  burn(from: string, amount: bigint) {
+    check(this.balanceOf(from) >= amount, "ERC20InsufficientBalance");
+    this.balances.set(from, this.balanceOf(from) - amount);
+    this.totalSupply -= amount;
+    this.totalGlobalBurned += amount;
+    this.userBurnedAmounts.set(from, (this.userBurnedAmounts.get(from) ?? 0n) + amount);
+  }
+
+  // ChronoFuel.remainingSupply
+  remainingSupply(): bigint {
+    return this.params.maxSupply > this.totalMinedTokens ? this.params.maxSupply - this.totalMinedTokens : 0n;
+  }
+
+  // ChronoFuel._mintTokens (after PoWaiCore has checked the limits), or ChronoFuelMock.simulateMining for CFL
+  // mined outside PoWaiCore, which ignores them
+  mint(to: string, amount: bigint) {
+    this.balances.set(to, this.balanceOf(to) + amount);
+    this.totalSupply += amount;
+    this.totalMinedTokens += amount;
+  }
+
+  // --- PoWaiCore ---
+
+  stake(account: string, amount: bigint) {
+    check(amount > 0n, "PoWaiCore: Stake amount must be positive");
+    this.transfer(account, "PoWaiCore", amount);
+    this.user(account).stakedAmount += amount;
+    this.totalStakedAmount += amount;
+  }
+
+  unstake(account: string, amount: bigint) {
+    check(amount > 0n, "PoWaiCore: Unstake amount must be positive");
+    const user = this.user(account);
+    check(user.stakedAmount >= amount, "PoWaiCore: Insufficient staked amount");
+    user.stakedAmount -= amount;
+    this.totalStakedAmount -= amount;
+    this.transfer("PoWaiCore", account, amount);
+  }
+
+  stakeLocked(account: string, amount: bigint, lockTierId: number, now: bigint): number {
+    check(amount > 0n, "PoWaiCore: Stake amount must be positive");
+    const user = this.user(account);
+    check(user.openLockPositionIds.length < MAX_OPEN_LOCK_POSITIONS, "PoWaiCore: Too many open lock positions");
+    const terms = LOCK_TERMS[lockTierId];
+    check(terms !== undefined, "PoWaiCore: Invalid lock tier");
+    this.transfer(account, "PoWaiCore", amount);
+
+    const positionId = user.lockPositions.length;
+    user.lockPositions.push({
+      amount,
+      lockTierId,
+      boostPercent: terms.boostPercent,
+      startTimestamp: now,
+      unlockTimestamp: now + terms.duration,
+      withdrawn: false,
+    });
+    user.openLockPositionIds.push(positionId);
+    user.lockedAmount += amount;
+    this.totalStakedAmount += amount;
+    return positionId;
+  }
+
+  /**
+   * Closes a lock position, burning the early-exit penalty from the staked CFL.
+   * @return The CFL returned and the penalty burned.
+   */
+  unstakeLocked(account: string, positionId: number, now: bigint): { amountReturned: bigint; penalty: bigint } {
+    const user = this.user(account);
+    check(positionId < user.lockPositions.length, "PoWaiCore: Unknown lock position");
+    const position = user.lockPositions[positionId];
+    check(!position.withdrawn, "PoWaiCore: Lock position already withdrawn");
+
+    const penalty = calculateEarlyExitPenalty(position, now, this.params);
+    const amountReturned = position.amount - penalty;
+    position.withdrawn = true;
+    // Swap-and-pop, as _removeOpenLockPosition does
+    const index = user.openLockPositionIds.indexOf(positionId);
+    user.openLockPositionIds[index] = user.openLockPositionIds[user.openLockPositionIds.length - 1];
+    user.openLockPositionIds.pop();
+    user.lockedAmount -= position.amount;
+    this.totalStakedAmount -= position.amount;
+
+    if (penalty > 0n) {
+      this.burn("PoWaiCore", penalty);
+    }
+    this.transfer("PoWaiCore", account, amountReturned);
+    return { amountReturned, penalty };
+  }
+
+  boostBurn(account: string, amount: bigint) {
+    check(amount > 0n, "PoWaiCore: Burn amount must be positive");
+    this.burn(account, amount);
+  }
+
+  getUserTotalStakedAmount(account: string): bigint {
+    const user = this.users.get(account);
+    return user ? user.stakedAmount + user.lockedAmount : 0n;
+  }
+
+  // PoWaiCore.activeUsersCount
+  activeUsersCount(now: bigint): bigint {
+    const currentHour = now / ACTIVITY_BUCKET_SECONDS;
+    let count = this.activeUsersTotal;
+    let steps = currentHour - this.lastActivityRollHour;
+    if (steps > ACTIVITY_BUCKET_COUNT) {
+      steps = ACTIVITY_BUCKET_COUNT;
+    }
+    for (let hour = currentHour - steps + 1n; hour <= currentHour; hour++) {
+      count -= this.activityBucketCounts[Number(hour % ACTIVITY_BUCKET_COUNT)];
+    }
+    return count;
+  }
+
+  isUserActive(account: string, now: bigint): boolean {
+    const lastActivity = this.users.get(account)?.lastActivityTime ?? 0n;
+    return lastActivity !== 0n && now / ACTIVITY_BUCKET_SECONDS - lastActivity / ACTIVITY_BUCKET_SECONDS < ACTIVITY_BUCKET_COUNT;
+  }
+
+  getEffectiveCooldown(now: bigint): bigint {
+    return cooldownForActiveUsers(this.activeUsersCount(now), this.params);
+  }
+
+  /**
+   * claimReward followed immediately by fulfillRandomness(requestId, randomWord).
+   */
+  claim(account: string, now: bigint, randomWord: bigint): ClaimResult {
+    const user = this.user(account);
+    const totalUserStake = this.getUserTotalStakedAmount(account);
+    check(totalUserStake > 0n, "PoWaiCore: No active stake found");
+
+    // The cooldown claimReward checks, after counting the claimer as active (see PoWaiLens.previewClaim)
+    const activeUsers = this.activeUsersCount(now) + (this.isUserActive(account, now) ? 0n : 1n);
+    const cooldownUsed = cooldownForActiveUsers(activeUsers, this.params);
+    check(now >= user.lastClaimTimestamp + cooldownUsed, "PoWaiCore: Cooldown not yet passed");
+    this.updateActiveUsers(account, now);
+
+    const timeWaitedSeconds = now - user.lastClaimTimestamp;
+    const openPositions = user.openLockPositionIds.map((id) => user.lockPositions[id]);
+    const halvingFactor = this.consumeHalvingFactor(user);
+    const mintPower = calculateMintPower(
+      calculateTimeReward(timeWaitedSeconds, this.params),
+      calculateStakeBoost(totalUserStake),
+      calculateBurnBoost(this.userBurnedAmounts.get(account) ?? 0n, this.params),
+      calculateLockBoost(openPositions, totalUserStake, now),
+      halvingFactor
+    );
+    user.lastClaimTimestamp = now;
+
+    // fulfillRandomness
+    const { rewardTierId, finalReward } = drawRewardTier(mintPower, randomWord, this.params);
+    if (rewardTierId === 2) {
+      user.hasAntiHalvingShield = true;
+    } else if (rewardTierId === 3) {
+      this.halvingKeyEffectPercentage += this.params.halvingKeyReductionPercent;
+    }
+    const { minted: mintedReward, deferred: deferredReward, halvingTriggered } = this.mintWithinLimits(account, finalReward);
+    this.deferredRewards.set(account, (this.deferredRewards.get(account) ?? 0n) + deferredReward);
+
+    return {
+      timeWaitedSeconds,
+      stakedAmount: totalUserStake,
+      mintPower,
+      finalReward,
+      rewardTierId,
+      cooldownUsed,
+      halvingFactor,
+      mintedReward,
+      deferredReward,
+      halvingTriggered,
+    };
+  }
+
+  /**
+   * PoWaiCore.claimDeferredRewards.
+   * @return The CFL minted and what stays deferred.
+   */
+  claimDeferredRewards(account: string): { minted: bigint; deferred: bigint } {
+    const owed = this.deferredRewards.get(account) ?? 0n;
+    check(owed > 0n, "PoWaiCore: No deferred rewards");
+    const { minted, deferred } = this.mintWithinLimits(account, owed);
+    this.deferredRewards.set(account, deferred);
+    return { minted, deferred };
+  }
+
+  // PoWaiCore._mintWithinLimits: drops what is above the remaining supply and defers what is above the epoch budget
+  private mintWithinLimits(account: string, amount: bigint): { minted: bigint; deferred: bigint; halvingTriggered: boolean } {
+    const supplyLeft = this.remainingSupply();
+    const mintable = amount < supplyLeft ? amount : supplyLeft;
+    const epochLeft = this.remainingEpochBudget();
+    const minted = mintable < epochLeft ? mintable : epochLeft;
+    if (minted > 0n) {
+      this.mint(account, minted);
+    }
+    return { minted, deferred: mintable - minted, halvingTriggered: this.checkAndApplyHalving() };
+  }
+
+  private consumeHalvingFactor(user: ModelUser): bigint {
+    if (this.emissionFactorScaled < PRECISION_FACTOR && user.hasAntiHalvingShield) {
+      user.hasAntiHalvingShield = false;
+      return PRECISION_FACTOR;
+    }
+    return this.emissionFactorScaled;
+  }
+
+  // PoWaiCore._updateActiveUsers
+  private updateActiveUsers(account: string, now: bigint) {
+    const currentHour = now / ACTIVITY_BUCKET_SECONDS;
+    this.rollActivityBuckets(currentHour);
+
+    const user = this.user(account);
+    const lastHour = user.lastActivityTime / ACTIVITY_BUCKET_SECONDS;
+    if (user.lastActivityTime !== 0n && currentHour - lastHour < ACTIVITY_BUCKET_COUNT) {
+      this.activityBucketCounts[Number(lastHour % ACTIVITY_BUCKET_COUNT)] -= 1n;
+    } else {
+      this.activeUsersTotal += 1n;
+    }
+    this.activityBucketCounts[Number(currentHour % ACTIVITY_BUCKET_COUNT)] += 1n;
+    user.lastActivityTime = now;
+  }
+
+  // PoWaiCore._rollActivityBuckets
+  private rollActivityBuckets(currentHour: bigint) {
+    let steps = currentHour - this.lastActivityRollHour;
+    if (steps === 0n) {
+      return;
+    }
+    if (steps > ACTIVITY_BUCKET_COUNT) {
+      steps = ACTIVITY_BUCKET_COUNT;
+    }
+    for (let hour = currentHour - steps + 1n; hour <= currentHour; hour++) {
+      const index = Number(hour % ACTIVITY_BUCKET_COUNT);
+      this.activeUsersTotal -= this.activityBucketCounts[index];
+      this.activityBucketCounts[index] = 0n;
+    }
+    this.lastActivityRollHour = currentHour;
+  }
+
+  // --- AdaptiveHalving ---
+
+  getAdjustedHalvingRate(): bigint {
+    return calculateAdjustedHalvingRate(this.totalStakedAmount, this.totalSupply, this.halvingKeyEffectPercentage, this.params);
+  }
+
+  // AdaptiveHalving._epochLength: the halving threshold, capped by the epoch emission budget
+  private epochLength(threshold: bigint): bigint {
+    return this.params.epochEmissionBudget < threshold ? this.params.epochEmissionBudget : threshold;
+  }
+
+  // AdaptiveHalving.remainingEpochBudget
+  remainingEpochBudget(): bigint {
+    const minedThisEpoch = this.totalMinedTokens - this.halvingEpochStartMined;
+    return this.params.epochEmissionBudget > minedThisEpoch ? this.params.epochEmissionBudget - minedThisEpoch : 0n;
+  }
+
+  getHalvingStatus(): { due: boolean; minedThisEpoch: bigint; threshold: bigint } {
+    const threshold = this.epochLength(calculateNextThreshold(this.totalGlobalBurned, this.params));
+    const minedThisEpoch = this.totalMinedTokens - this.halvingEpochStartMined;
+    return { due: minedThisEpoch >= threshold, minedThisEpoch, threshold };
+  }
+
+  /**
+   * AdaptiveHalving.checkAndApplyHalving.
+   * @return True if a halving was applied.
+   */
+  checkAndApplyHalving(): boolean {
+    this.currentHalvingThreshold = calculateNextThreshold(this.totalGlobalBurned, this.params);
+    const epochLength = this.epochLength(this.currentHalvingThreshold);
+    if (this.totalMinedTokens - this.halvingEpochStartMined < epochLength) {
+      return false;
+    }
+    this.halvingCount += 1n;
+    this.halvingEpochStartMined += epochLength;
+    const currentRate = this.getAdjustedHalvingRate();
+    this.emissionFactorScaled = (this.emissionFactorScaled * (100n - currentRate)) / 100n;
+    return true;
+  }
+}
@@ -0,0 +1,48 @@
+// scripts/simulator/random.ts
+// Seeded pseudo-random numbers, so a simulation run is reproducible from its seed.
+
+const MASK_64 = (1n << 64n) - 1n;
+
+/**
+ * SplitMix64 generator. Not for anything security-relevant; it only has to be fast, well spread
+ * and identical across runs with the same seed.
+ */
+export class SeededRandom {
+  private state: bigint;
+
+  constructor(seed: number | string | bigint) {
+    let state = 0n;
+    for (const char of String(seed)) {
+      state = (state * 131n + BigInt(char.charCodeAt(0))) & MASK_64;
+    }
+    this.state = state;
+  }
+
+  next64(): bigint {
+    this.state = (this.state + 0x9e3779b97f4a7c15n) & MASK_64;
+    let z = this.state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    return z ^ (z >> 31n);
+  }
+
+  // A uint256, as a VRF random word would be
+  nextWord(): bigint {
+    return (this.next64() << 192n) | (this.next64() << 128n) | (this.next64() << 64n) | this.next64();
+  }
+
+  // Uniform in [0, 1)
+  nextFloat(): number {
+    return Number(this.next64() >> 11n) / 2 ** 53;
+  }
+
+  // Uniform integer in [min, max]
+  nextInt(min: number, max: number): number {
+    return min + Math.floor(this.nextFloat() * (max - min + 1));
+  }
+
+  // Uniform bigint in [0, bound)
+  nextBigInt(bound: bigint): bigint {
+    return this.nextWord() % bound;
+  }
+}
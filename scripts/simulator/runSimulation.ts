@@ -0,0 +1,91 @@
+// scripts/simulator/runSimulation.ts
+// Projects supply, burn and halving timing for a scenario and writes one CSV row per snapshot; needs no node.
+//
+// Usage:
+//   npx ts-node scripts/simulator/runSimulation.ts [options]
+//
+// Options:
+//   --scenario <file>   Scenario JSON, see SimulationConfig (default: scripts/simulator/scenarios/baseline.json)
+//   --months <n>        Override the scenario length in 30-day months
+//   --seed <seed>       Override the scenario seed
+//   --scale <factor>    Multiply every population's user count, e.g. 0.1 for a quick run
+//   --set <key>=<value> Override a model parameter, e.g. --set maxWaitHours=12 (repeatable)
+//   --out <file>        Write the CSV to a file instead of stdout
+
+import fs from "fs";
+import path from "path";
+import { formatUnits } from "ethers";
+import { simulate, SimulationConfig, SnapshotRow, toCsv } from "./simulate";
+
+const DEFAULT_SCENARIO = path.join(__dirname, "scenarios", "baseline.json");
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+/**
+ * Reads the scenario named by `--scenario` and applies the command-line overrides.
+ */
+export function loadScenario(args: string[]): SimulationConfig {
+  const config: SimulationConfig = JSON.parse(fs.readFileSync(option(args, "--scenario") ?? DEFAULT_SCENARIO, "utf8"));
+  const months = option(args, "--months");
+  if (months !== undefined) {
+    config.months = Number(months);
+  }
+  const seed = option(args, "--seed");
+  if (seed !== undefined) {
+    config.seed = seed;
+  }
+  const scale = option(args, "--scale");
+  if (scale !== undefined) {
+    config.populations = config.populations.map((population) => ({
+      ...population,
+      users: Math.max(1, Math.round(population.users * Number(scale))),
+    }));
+  }
+  args.forEach((arg, i) => {
+    if (arg !== "--set") {
+      return;
+    }
+    const [key, value] = (args[i + 1] ?? "").split("=");
+    if (!key || value === undefined) {
+      throw new Error(`Expected --set <key>=<value>, got "${args[i + 1]}"`);
+    }
+    config.params = { ...config.params, [key]: value.includes(",") ? value.split(",") : value };
+  });
+  return config;
+}
+
+function summary(rows: SnapshotRow[]): string {
+  const last = rows[rows.length - 1];
+  const halvingDays = rows.filter((row, i) => row.halvingCount > (i > 0 ? rows[i - 1].halvingCount : 0n)).map((row) => row.day);
+  return [
+    `Simulated ${last.day} days`,
+    `Minted by PoWai: ${formatUnits(last.powaiMinted, 18)} CFL, burned: ${formatUnits(last.totalBurned, 18)} CFL`,
+    `Halvings: ${last.halvingCount}${halvingDays.length ? ` (days ${halvingDays.join(", ")})` : ""}`,
+  ].join("\n");
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const rows = simulate(loadScenario(args));
+  const csv = toCsv(rows);
+  const out = option(args, "--out");
+  if (out) {
+    fs.writeFileSync(out, csv);
+    console.log(`${rows.length} rows written to ${out}`);
+  } else {
+    process.stdout.write(csv);
+  }
+  console.error(summary(rows));
+}
+
+if (require.main === module) {
+  try {
+    main();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
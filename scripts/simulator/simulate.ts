@@ -0,0 +1,338 @@
+// scripts/simulator/simulate.ts
+// Runs user populations against a PoWaiModel over simulated months and records supply, burn and halving snapshots.
+
+import { formatUnits, parseUnits } from "ethers";
+import { DEFAULT_PARAMS, ModelParams, TIER_COUNT } from "./math";
+import { ModelRevertError, PoWaiModel, TREASURY } from "./model";
+import { SeededRandom } from "./random";
+
+const DAY_SECONDS = 86_400;
+const MONTH_DAYS = 30;
+
+export interface PopulationConfig {
+  name: string;
+  users: number;
+  balance: string; // CFL each user receives from the treasury on joining
+  stake?: string; // CFL staked flexibly on joining
+  lock?: { amount: string; tier: number; relock?: boolean }; // Locked on joining; relocked at unlock unless relock is false
+  claimIntervalHours: number; // Mean time between claims
+  claimJitter?: number; // Fraction of the interval randomly added or removed per claim (default: 0.25)
+  burnPercent?: number; // Share of each reward burned with boostBurn (default: 0)
+  compoundPercent?: number; // Share of each reward added to the flexible stake (default: 0)
+  joinDay?: number; // Day the population arrives, spread over its first claim interval (default: 0)
+}
+
+export interface SimulationConfig {
+  months: number; // 30-day months
+  seed?: string | number;
+  startTimestamp?: number; // Unix seconds (default: 2025-01-01)
+  snapshotHours?: number; // Hours between CSV rows (default: 24)
+  params?: Partial<Record<keyof ModelParams, string | number | (string | number)[]>>; // Integer overrides of DEFAULT_PARAMS
+  populations: PopulationConfig[];
+}
+
+export interface SnapshotRow {
+  day: number;
+  timestamp: number;
+  totalSupply: bigint;
+  powaiMinted: bigint; // CFL minted by claims (and any other mining) since the initial supply
+  remainingSupply: bigint; // CFL left under the max supply
+  totalBurned: bigint;
+  totalStaked: bigint;
+  halvingCount: bigint;
+  emissionFactorScaled: bigint; // Scaled by PRECISION_FACTOR
+  nextHalvingRatePercent: bigint;
+  halvingThreshold: bigint;
+  minedThisEpoch: bigint;
+  activeUsers: bigint;
+  effectiveCooldown: bigint;
+  // Totals over the period since the previous row
+  claims: number;
+  rewardsMinted: bigint;
+  burnedForBoost: bigint;
+  tierCounts: number[];
+}
+
+interface SimUser {
+  account: string;
+  population: PopulationConfig;
+  burnBasisPoints: bigint;
+  compoundBasisPoints: bigint;
+}
+
+interface PeriodTotals {
+  claims: number;
+  rewardsMinted: bigint;
+  burnedForBoost: bigint;
+  tierCounts: number[];
+}
+
+/**
+ * Builds ModelParams from DEFAULT_PARAMS and integer overrides (numbers or decimal strings).
+ */
+export function resolveParams(overrides: SimulationConfig["params"] = {}): ModelParams {
+  const params: ModelParams = { ...DEFAULT_PARAMS };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in DEFAULT_PARAMS)) {
+      throw new Error(`Unknown model parameter "${key}"`);
+    }
+    (params as any)[key] = Array.isArray(value) ? value.map((v) => BigInt(v)) : BigInt(value!);
+  }
+  return params;
+}
+
+const basisPoints = (percent = 0) => BigInt(Math.round(percent * 100));
+
+/**
+ * Simulates the populations and returns one SnapshotRow per snapshot interval.
+ * The same config and seed always produce the same rows.
+ */
+export function simulate(config: SimulationConfig): SnapshotRow[] {
+  const model = new PoWaiModel(resolveParams(config.params));
+  const random = new SeededRandom(config.seed ?? 1);
+  const start = config.startTimestamp ?? Date.UTC(2025, 0, 1) / 1000;
+  const end = start + config.months * MONTH_DAYS * DAY_SECONDS;
+  const snapshotSeconds = (config.snapshotHours ?? 24) * 3600;
+
+  const users: SimUser[] = [];
+  const queue = new EventQueue();
+  for (const population of config.populations) {
+    for (let i = 0; i < population.users; i++) {
+      const joinAt = start + (population.joinDay ?? 0) * DAY_SECONDS + random.nextFloat() * population.claimIntervalHours * 3600;
+      queue.push(Math.floor(joinAt), users.length);
+      users.push({
+        account: `${population.name}-${i}`,
+        population,
+        burnBasisPoints: basisPoints(population.burnPercent),
+        compoundBasisPoints: basisPoints(population.compoundPercent),
+      });
+    }
+  }
+
+  const joined = new Set<number>();
+  const rows: SnapshotRow[] = [];
+  let period = emptyPeriod();
+  let nextSnapshot = start + snapshotSeconds;
+  const takeSnapshots = (until: number) => {
+    while (nextSnapshot <= until) {
+      rows.push(snapshot(model, nextSnapshot, start, period));
+      period = emptyPeriod();
+      nextSnapshot += snapshotSeconds;
+    }
+  };
+
+  while (queue.size > 0 && queue.peekTime() <= end) {
+    const { time, userIndex } = queue.pop();
+    takeSnapshots(time);
+    const user = users[userIndex];
+    const now = BigInt(time);
+
+    if (!joined.has(userIndex)) {
+      joined.add(userIndex);
+      join(model, user, now);
+      queue.push(time + nextInterval(random, user.population), userIndex);
+      continue;
+    }
+
+    relockExpiredPositions(model, user, now);
+    try {
+      const result = model.claim(user.account, now, random.nextWord());
+      period.claims++;
+      period.tierCounts[result.rewardTierId]++;
+      let received = result.mintedReward;
+      // Rewards deferred by an exhausted epoch budget are collected as soon as the next epoch has room
+      if ((model.deferredRewards.get(user.account) ?? 0n) > 0n && model.remainingEpochBudget() > 0n) {
+        received += model.claimDeferredRewards(user.account).minted;
+      }
+      period.rewardsMinted += received;
+
+      const burn = (received * user.burnBasisPoints) / 10_000n;
+      if (burn > 0n) {
+        model.boostBurn(user.account, burn);
+        period.burnedForBoost += burn;
+      }
+      const compound = (received * user.compoundBasisPoints) / 10_000n;
+      if (compound > 0n) {
+        model.stake(user.account, compound);
+      }
+      queue.push(time + nextInterval(random, user.population), userIndex);
+    } catch (error) {
+      if (!(error instanceof ModelRevertError) || error.message !== "PoWaiCore: Cooldown not yet passed") {
+        throw error;
+      }
+      // Busy network: retry once the cooldown has passed
+      const retryAt = model.user(user.account).lastClaimTimestamp + model.getEffectiveCooldown(now);
+      queue.push(Math.max(Number(retryAt), time + 1), userIndex);
+    }
+  }
+  takeSnapshots(end);
+  return rows;
+}
+
+function join(model: PoWaiModel, user: SimUser, now: bigint) {
+  const { population } = user;
+  const balance = parseUnits(population.balance, 18);
+  if (model.balanceOf(TREASURY) < balance) {
+    throw new Error(`The treasury cannot fund ${user.account}: the populations need more than the initial supply`);
+  }
+  model.transfer(TREASURY, user.account, balance);
+  if (population.stake) {
+    model.stake(user.account, parseUnits(population.stake, 18));
+  }
+  if (population.lock) {
+    model.stakeLocked(user.account, parseUnits(population.lock.amount, 18), population.lock.tier, now);
+  }
+}
+
+function relockExpiredPositions(model: PoWaiModel, user: SimUser, now: bigint) {
+  const state = model.user(user.account);
+  for (const positionId of [...state.openLockPositionIds]) {
+    const position = state.lockPositions[positionId];
+    if (now < position.unlockTimestamp) {
+      continue;
+    }
+    model.unstakeLocked(user.account, positionId, now);
+    if (user.population.lock?.relock !== false) {
+      model.stakeLocked(user.account, position.amount, position.lockTierId, now);
+    }
+  }
+}
+
+function nextInterval(random: SeededRandom, population: PopulationConfig): number {
+  const jitter = population.claimJitter ?? 0.25;
+  const seconds = population.claimIntervalHours * 3600 * (1 + jitter * (2 * random.nextFloat() - 1));
+  return Math.max(1, Math.round(seconds));
+}
+
+function emptyPeriod(): PeriodTotals {
+  return { claims: 0, rewardsMinted: 0n, burnedForBoost: 0n, tierCounts: new Array(TIER_COUNT).fill(0) };
+}
+
+function snapshot(model: PoWaiModel, timestamp: number, start: number, period: PeriodTotals): SnapshotRow {
+  const now = BigInt(timestamp);
+  const status = model.getHalvingStatus();
+  return {
+    day: (timestamp - start) / DAY_SECONDS,
+    timestamp,
+    totalSupply: model.totalSupply,
+    powaiMinted: model.totalMinedTokens - model.params.initialSupply,
+    remainingSupply: model.remainingSupply(),
+    totalBurned: model.totalGlobalBurned,
+    totalStaked: model.totalStakedAmount,
+    halvingCount: model.halvingCount,
+    emissionFactorScaled: model.emissionFactorScaled,
+    nextHalvingRatePercent: model.getAdjustedHalvingRate(),
+    halvingThreshold: status.threshold,
+    minedThisEpoch: status.minedThisEpoch,
+    activeUsers: model.activeUsersCount(now),
+    effectiveCooldown: model.getEffectiveCooldown(now),
+    ...period,
+  };
+}
+
+const CSV_COLUMNS = [
+  "day",
+  "timestamp",
+  "total_supply_cfl",
+  "powai_minted_cfl",
+  "remaining_supply_cfl",
+  "total_burned_cfl",
+  "total_staked_cfl",
+  "halving_count",
+  "emission_factor",
+  "next_halving_rate_percent",
+  "halving_threshold_cfl",
+  "mined_this_epoch_cfl",
+  "active_users",
+  "effective_cooldown_seconds",
+  "claims",
+  "rewards_minted_cfl",
+  "burned_for_boost_cfl",
+  "common_claims",
+  "rare_claims",
+  "epic_claims",
+  "legendary_claims",
+];
+
+/**
+ * Formats rows as CSV with CFL amounts in whole tokens (18 decimals).
+ */
+export function toCsv(rows: SnapshotRow[]): string {
+  const cfl = (wei: bigint) => formatUnits(wei, 18);
+  const lines = rows.map((row) =>
+    [
+      row.day,
+      row.timestamp,
+      cfl(row.totalSupply),
+      cfl(row.powaiMinted),
+      cfl(row.remainingSupply),
+      cfl(row.totalBurned),
+      cfl(row.totalStaked),
+      row.halvingCount,
+      formatUnits(row.emissionFactorScaled, 10),
+      row.nextHalvingRatePercent,
+      cfl(row.halvingThreshold),
+      cfl(row.minedThisEpoch),
+      row.activeUsers,
+      row.effectiveCooldown,
+      row.claims,
+      cfl(row.rewardsMinted),
+      cfl(row.burnedForBoost),
+      ...row.tierCounts,
+    ].join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...lines].join("\n") + "\n";
+}
+
+/**
+ * Min-heap of user actions ordered by time, then by insertion, so equal times stay deterministic.
+ */
+class EventQueue {
+  private readonly heap: { time: number; order: number; userIndex: number }[] = [];
+  private inserted = 0;
+
+  get size() {
+    return this.heap.length;
+  }
+
+  peekTime(): number {
+    return this.heap[0].time;
+  }
+
+  push(time: number, userIndex: number) {
+    this.heap.push({ time, order: this.inserted++, userIndex });
+    let i = this.heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(i, parent)) break;
+      [this.heap[i], this.heap[parent]] = [this.heap[parent], this.heap[i]];
+      i = parent;
+    }
+  }
+
+  pop(): { time: number; userIndex: number } {
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.heap.length && this.before(left, smallest)) smallest = left;
+        if (right < this.heap.length && this.before(right, smallest)) smallest = right;
+        if (smallest === i) break;
+        [this.heap[i], this.heap[smallest]] = [this.heap[smallest], this.heap[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private before(a: number, b: number) {
+    const x = this.heap[a];
+    const y = this.heap[b];
+    return x.time < y.time || (x.time === y.time && x.order < y.order);
+  }
+}
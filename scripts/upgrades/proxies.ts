@@ -0,0 +1,125 @@
+// scripts/upgrades/proxies.ts
+// Deploys ChronoFuel, AdaptiveHalving and PoWaiCore behind PoWaiProxy and upgrades them once their storage layouts check out.
+
+import { ContractFactory, dataSlice, getAddress, Provider, Signer } from "ethers";
+import { PoWaiProxy__factory, PoWaiUpgradeable__factory } from "../../typechain-types";
+import { compareStorageLayouts, StorageEntry } from "./storageLayout";
+
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1), as in PoWaiProxy.sol
+export const IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+// OpenZeppelin Initializable's ERC-7201 slot; its lowest 8 bytes hold the initialized version
+export const INITIALIZABLE_SLOT = "0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00";
+
+// The upgradeable contracts, by the name they have in deployments/<network>.json
+export const UPGRADEABLE_CONTRACTS = ["ChronoFuel", "AdaptiveHalving", "PoWaiCore"] as const;
+
+export interface Reinitializer {
+  version: bigint; // The initializer version it sets
+  call: string; // Function signature, e.g. "initializeV2(address)"
+  args: string[]; // What each argument is, in order
+}
+
+/**
+ * Reinitializers the current sources need on proxies initialized at an older version. E.g. ChronoFuel proxies
+ * deployed before the emission limits (version 1) need initializeV2(pauser).
+ */
+export const REINITIALIZERS: Partial<Record<(typeof UPGRADEABLE_CONTRACTS)[number], Reinitializer>> = {
+  ChronoFuel: { version: 2n, call: "initializeV2(address)", args: ["the account to grant PAUSER_ROLE, e.g. the guardian multisig"] },
+};
+
+/**
+ * Thrown when the new implementation's storage layout is incompatible with the running one;
+ * `problems` lists every slot that would be misread after the upgrade.
+ */
+export class StorageLayoutError extends Error {
+  constructor(readonly contractName: string, readonly problems: string[]) {
+    super(`${contractName} has an incompatible storage layout:\n  - ${problems.join("\n  - ")}`);
+  }
+}
+
+type Deployed<F extends ContractFactory> = Awaited<ReturnType<F["deploy"]>>;
+
+/**
+ * Deploys the implementation built by `factory` and a PoWaiProxy in front of it that calls
+ * `initialize(...initArgs)`, and returns the contract attached to the proxy address.
+ * The factory's signer pays for both deployments and is the caller of initialize.
+ */
+export async function deployProxy<F extends ContractFactory>(factory: F, initArgs: unknown[] = []): Promise<Deployed<F>> {
+  const implementation = await factory.deploy();
+  await implementation.waitForDeployment();
+
+  const initData = factory.interface.encodeFunctionData("initialize", initArgs);
+  const proxy = await new PoWaiProxy__factory(factory.runner as Signer).deploy(await implementation.getAddress(), initData);
+  await proxy.waitForDeployment();
+  return factory.attach(await proxy.getAddress()) as Deployed<F>;
+}
+
+/**
+ * Reads the implementation address from a proxy's ERC-1967 slot.
+ */
+export async function getImplementationAddress(provider: Provider, proxyAddress: string): Promise<string> {
+  return getAddress(dataSlice(await provider.getStorage(proxyAddress, IMPLEMENTATION_SLOT), 12));
+}
+
+/**
+ * Reads the initializer version from a proxy's Initializable storage: the version its initialize or last
+ * reinitializer(n) set.
+ */
+export async function getInitializedVersion(provider: Provider, proxyAddress: string): Promise<bigint> {
+  return BigInt(dataSlice(await provider.getStorage(proxyAddress, INITIALIZABLE_SLOT), 24));
+}
+
+/**
+ * The reinitializer an upgrade of `contractName`'s proxy to the current sources must call, if the proxy has
+ * not run it yet.
+ */
+export async function pendingReinitializer(
+  provider: Provider,
+  contractName: (typeof UPGRADEABLE_CONTRACTS)[number],
+  proxyAddress: string
+): Promise<Reinitializer | undefined> {
+  const reinitializer = REINITIALIZERS[contractName];
+  if (reinitializer && (await getInitializedVersion(provider, proxyAddress)) < reinitializer.version) {
+    return reinitializer;
+  }
+  return undefined;
+}
+
+export interface UpgradeRequest {
+  contractName: string; // For messages, e.g. "PoWaiCore"
+  proxyAddress: string;
+  factory: ContractFactory; // Builds the new implementation; its signer needs DEFAULT_ADMIN_ROLE on the proxy
+  previousLayout: StorageEntry[]; // Layout of the implementation the proxy runs now
+  nextLayout: StorageEntry[]; // Layout of the new implementation
+  callData?: string; // Delegated to the new implementation during the upgrade, e.g. a reinitializer
+}
+
+export interface UpgradeResult {
+  implementation: string;
+  txHash: string;
+}
+
+/**
+ * Checks that the new implementation keeps every existing storage slot and can itself be upgraded,
+ * then deploys it and points the proxy at it with upgradeToAndCall.
+ * Throws StorageLayoutError before anything is sent if the layouts are incompatible.
+ */
+export async function upgradeProxy(request: UpgradeRequest): Promise<UpgradeResult> {
+  const problems = compareStorageLayouts(request.previousLayout, request.nextLayout);
+  if (problems.length > 0) {
+    throw new StorageLayoutError(request.contractName, problems);
+  }
+  if (!request.factory.interface.getFunction("upgradeToAndCall")) {
+    throw new Error(`The new ${request.contractName} implementation is not upgradeable, so the proxy could never be upgraded again`);
+  }
+
+  const implementation = await request.factory.deploy();
+  await implementation.waitForDeployment();
+  const implementationAddress = await implementation.getAddress();
+
+  const proxy = PoWaiUpgradeable__factory.connect(request.proxyAddress, request.factory.runner as Signer);
+  const tx = await proxy.upgradeToAndCall(implementationAddress, request.callData ?? "0x");
+  await tx.wait();
+  return { implementation: implementationAddress, txHash: tx.hash };
+}
@@ -0,0 +1,116 @@
+// scripts/upgrades/storageLayout.ts
+// Reads compiler storage layouts, compares them for upgrade safety and records the layout each proxy runs.
+
+import fs from "fs";
+import path from "path";
+import type { Artifacts } from "hardhat/types";
+
+// One state variable: where it lives and a description of its type that is stable across compilations
+export interface StorageEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+// The implementation a proxy runs and its layout, as recorded by scripts/deploy.ts and scripts/upgrades/upgrade.ts
+export interface RecordedImplementation {
+  contractName: string;
+  implementation: string;
+  storage: StorageEntry[];
+}
+
+export type LayoutManifest = Record<string, RecordedImplementation>;
+
+interface SolcType {
+  label: string;
+  encoding: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: { label: string; slot: string; offset: number; type: string }[];
+}
+
+/**
+ * Spells out a solc type id without its AST ids, which change whenever the sources do.
+ * Struct members are expanded, so adding, removing or reordering a member changes the description.
+ * Contract and interface types are stored as addresses and described as such.
+ */
+function describeType(types: Record<string, SolcType>, typeId: string): string {
+  const type = types[typeId];
+  if (type.members) {
+    const members = type.members.map((member) => `${member.slot}+${member.offset} ${describeType(types, member.type)} ${member.label}`);
+    return `${type.label} { ${members.join("; ")} }`;
+  }
+  if (type.encoding === "mapping") {
+    return `mapping(${describeType(types, type.key!)} => ${describeType(types, type.value!)})`;
+  }
+  if (type.base) {
+    const length = type.encoding === "dynamic_array" ? "" : type.label.slice(type.label.lastIndexOf("[") + 1, -1);
+    return `${describeType(types, type.base)}[${length}]`;
+  }
+  return type.label.startsWith("contract ") ? "address" : type.label;
+}
+
+/**
+ * Returns the storage layout of a compiled contract. Needs the storageLayout compiler output,
+ * which hardhat.config.ts enables for every contract.
+ */
+export async function readStorageLayout(artifacts: Artifacts, contractName: string): Promise<StorageEntry[]> {
+  const artifact = await artifacts.readArtifact(contractName);
+  const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+  const layout = (buildInfo?.output.contracts[artifact.sourceName][artifact.contractName] as any)?.storageLayout;
+  if (!layout) {
+    throw new Error(`No storage layout for ${contractName}; enable the storageLayout output in hardhat.config.ts and recompile`);
+  }
+  return layout.storage.map((variable: any) => ({
+    label: variable.label,
+    slot: variable.slot,
+    offset: variable.offset,
+    type: describeType(layout.types, variable.type),
+  }));
+}
+
+/**
+ * Lists the ways `next` would misread the storage written under `previous`. Every variable of `previous`
+ * must keep its name, type, slot and offset; `next` may only add variables after them. An empty list
+ * means the upgrade is safe as far as storage goes.
+ */
+export function compareStorageLayouts(previous: StorageEntry[], next: StorageEntry[]): string[] {
+  const problems: string[] = [];
+  previous.forEach((before, i) => {
+    const after = next[i];
+    if (!after) {
+      problems.push(`${before.label} (slot ${before.slot}) was removed`);
+    } else if (after.label !== before.label) {
+      problems.push(`slot ${before.slot} held ${before.label} but now holds ${after.label} (variable inserted, removed or renamed)`);
+    } else if (after.type !== before.type) {
+      problems.push(`${before.label} changed type from ${before.type} to ${after.type}`);
+    } else if (after.slot !== before.slot || after.offset !== before.offset) {
+      problems.push(`${before.label} moved from slot ${before.slot}+${before.offset} to slot ${after.slot}+${after.offset}`);
+    }
+  });
+  return problems;
+}
+
+export function layoutManifestPath(networkName: string): string {
+  return path.join("deployments", `${networkName}.layouts.json`);
+}
+
+export function loadLayoutManifest(networkName: string): LayoutManifest {
+  const filePath = layoutManifestPath(networkName);
+  return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, "utf8")) : {};
+}
+
+/**
+ * Records the implementation and layout a proxy (keyed by its deployments/<network>.json name) now runs.
+ */
+export function recordImplementation(networkName: string, proxyName: string, recorded: RecordedImplementation) {
+  const manifest = loadLayoutManifest(networkName);
+  manifest[proxyName] = recorded;
+  const filePath = layoutManifestPath(networkName);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(manifest, null, 2) + "\n");
+  return filePath;
+}
@@ -0,0 +1,95 @@
+// scripts/upgrades/upgrade.ts
+// Upgrades the ChronoFuel, AdaptiveHalving or PoWaiCore proxy to the current sources, after checking the storage layout.
+//
+// Environment:
+//   UPGRADE_PROXY          ChronoFuel, AdaptiveHalving or PoWaiCore: the proxy to upgrade (required)
+//   UPGRADE_TO             Contract to deploy as the new implementation (default: same as UPGRADE_PROXY)
+//   UPGRADE_REFERENCE      Contract whose compiled layout the running implementation has; only needed when
+//                          deployments/<network>.layouts.json has no record for the proxy (e.g. Ignition deployments)
+//   UPGRADE_CALL           Function of the new implementation to call during the upgrade, e.g. initializeV2(address)
+//                          (default: the reinitializer in REINITIALIZERS the proxy has not run yet, if any)
+//   UPGRADE_CALL_ARGS      JSON array of the call's arguments, e.g. '["0x..."]' (default: none)
+//   UPGRADE_VALIDATE_ONLY  Set to 1 to only check the storage layout
+//
+// The first configured account sends the upgrade and needs DEFAULT_ADMIN_ROLE on the proxy. Once governance
+// has taken over, the timelock holds that role: run with UPGRADE_VALIDATE_ONLY=1 and propose upgradeToAndCall instead.
+//
+// Run with: UPGRADE_PROXY=PoWaiCore npx hardhat run scripts/upgrades/upgrade.ts --network monadTestnet
+
+import hre, { artifacts, ethers, network } from "hardhat";
+import { loadDeployment } from "../../tasks/deployment";
+import { getImplementationAddress, pendingReinitializer, StorageLayoutError, upgradeProxy, UPGRADEABLE_CONTRACTS } from "./proxies";
+import { compareStorageLayouts, layoutManifestPath, loadLayoutManifest, readStorageLayout, recordImplementation } from "./storageLayout";
+
+async function main() {
+  const proxyName = process.env.UPGRADE_PROXY as (typeof UPGRADEABLE_CONTRACTS)[number];
+  if (!UPGRADEABLE_CONTRACTS.includes(proxyName)) {
+    throw new Error(`UPGRADE_PROXY must be one of ${UPGRADEABLE_CONTRACTS.join(", ")}`);
+  }
+  const nextContract = process.env.UPGRADE_TO ?? proxyName;
+  const deployment = await loadDeployment(hre);
+  const proxyAddress = deployment[proxyName];
+  const currentImplementation = await getImplementationAddress(ethers.provider, proxyAddress);
+
+  console.log(`⬆️  Upgrading ${proxyName} proxy ${proxyAddress} on ${network.name} to ${nextContract}`);
+  console.log(`Current implementation: ${currentImplementation}`);
+
+  // The layout the proxy's storage was written with
+  const recorded = loadLayoutManifest(network.name)[proxyName];
+  let previousLayout;
+  if (process.env.UPGRADE_REFERENCE) {
+    previousLayout = await readStorageLayout(artifacts, process.env.UPGRADE_REFERENCE);
+    console.log(`Previous layout: compiled ${process.env.UPGRADE_REFERENCE}`);
+  } else if (recorded && recorded.implementation.toLowerCase() === currentImplementation.toLowerCase()) {
+    previousLayout = recorded.storage;
+    console.log(`Previous layout: ${recorded.contractName}, recorded in ${layoutManifestPath(network.name)}`);
+  } else {
+    throw new Error(
+      recorded
+        ? `${layoutManifestPath(network.name)} records implementation ${recorded.implementation}, but the proxy runs ${currentImplementation}; set UPGRADE_REFERENCE`
+        : `No layout recorded for ${proxyName} in ${layoutManifestPath(network.name)}; set UPGRADE_REFERENCE to the contract the proxy runs`
+    );
+  }
+
+  const nextLayout = await readStorageLayout(artifacts, nextContract);
+  const problems = compareStorageLayouts(previousLayout, nextLayout);
+  if (problems.length > 0) {
+    throw new StorageLayoutError(nextContract, problems);
+  }
+  console.log(`✅ Storage layout is compatible (${previousLayout.length} variables kept, ${nextLayout.length - previousLayout.length} added)`);
+  if (process.env.UPGRADE_VALIDATE_ONLY === "1") {
+    return;
+  }
+
+  const factory = await ethers.getContractFactory(nextContract);
+  const reinitializer = process.env.UPGRADE_CALL ? undefined : await pendingReinitializer(ethers.provider, proxyName, proxyAddress);
+  const upgradeCall = process.env.UPGRADE_CALL || reinitializer?.call;
+  const callArgs: unknown[] = process.env.UPGRADE_CALL_ARGS ? JSON.parse(process.env.UPGRADE_CALL_ARGS) : [];
+  let callData;
+  if (upgradeCall) {
+    const fragment = factory.interface.getFunction(upgradeCall);
+    if (!fragment) {
+      throw new Error(`${nextContract} has no function ${upgradeCall}`);
+    }
+    if (fragment.inputs.length !== callArgs.length) {
+      const expected = reinitializer ? ` (${reinitializer.args.join("; ")})` : "";
+      throw new Error(`${upgradeCall} takes ${fragment.inputs.length} argument(s)${expected}: set UPGRADE_CALL_ARGS`);
+    }
+    console.log(`Calling ${upgradeCall} with ${JSON.stringify(callArgs)} during the upgrade`);
+    callData = factory.interface.encodeFunctionData(fragment, callArgs);
+  }
+  const result = await upgradeProxy({ contractName: nextContract, proxyAddress, factory, previousLayout, nextLayout, callData });
+  console.log(`✅ ${proxyName} now runs ${nextContract} at ${result.implementation}. Tx: ${result.txHash}`);
+
+  const manifestFile = recordImplementation(network.name, proxyName, {
+    contractName: nextContract,
+    implementation: result.implementation,
+    storage: nextLayout,
+  });
+  console.log(`Layout recorded in ${manifestFile}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
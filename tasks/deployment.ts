@@ -0,0 +1,67 @@
+// tasks/deployment.ts
+// Per-network deployment files: deployments/<network>.json, with Hardhat Ignition's deployed_addresses.json as a fallback.
+
+import fs from "fs";
+import path from "path";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export interface PoWaiDeployment {
+  ChronoFuel: string;
+  AdaptiveHalving: string;
+  PoWaiCore: string;
+  PoWaiLens?: string;
+  BurnCertificateNFT?: string;
+  PoWaiForwarder?: string;
+}
+
+const REQUIRED_CONTRACTS = ["ChronoFuel", "AdaptiveHalving", "PoWaiCore"] as const;
+const OPTIONAL_CONTRACTS = ["PoWaiLens", "BurnCertificateNFT", "PoWaiForwarder"] as const;
+
+export function deploymentPath(networkName: string): string {
+  return path.join("deployments", `${networkName}.json`);
+}
+
+/**
+ * Writes the addresses of a deployment to deployments/<network>.json.
+ */
+export function saveDeployment(networkName: string, deployment: PoWaiDeployment) {
+  const filePath = deploymentPath(networkName);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(deployment, null, 2) + "\n");
+  return filePath;
+}
+
+/**
+ * Reads the PoWai addresses for the current network, from `file` if given, else from
+ * deployments/<network>.json, else from the ChronoFuelCoreModule entries Ignition recorded for the chain.
+ */
+export async function loadDeployment(hre: HardhatRuntimeEnvironment, file?: string): Promise<PoWaiDeployment> {
+  const candidates = file ? [file] : [deploymentPath(hre.network.name)];
+  if (!file) {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    candidates.push(path.join("ignition", "deployments", `chain-${chainId}`, "deployed_addresses.json"));
+  }
+
+  for (const candidate of candidates) {
+    if (!fs.existsSync(candidate)) {
+      continue;
+    }
+    const raw = JSON.parse(fs.readFileSync(candidate, "utf8")) as Record<string, string>;
+    const lookup = (name: string) => raw[name] ?? raw[`ChronoFuelCoreModule#${name}`];
+
+    const missing = REQUIRED_CONTRACTS.filter((name) => !lookup(name));
+    if (missing.length > 0) {
+      throw new HardhatPluginError("powai", `${candidate} is missing ${missing.join(", ")}`);
+    }
+    const deployment = Object.fromEntries(
+      [...REQUIRED_CONTRACTS, ...OPTIONAL_CONTRACTS].filter((name) => lookup(name)).map((name) => [name, lookup(name)])
+    );
+    return deployment as unknown as PoWaiDeployment;
+  }
+  throw new HardhatPluginError(
+    "powai",
+    `No PoWai deployment found for network "${hre.network.name}" (looked in ${candidates.join(", ")}). ` +
+      "Run scripts/deploy.ts or pass --deployment <file>."
+  );
+}
@@ -0,0 +1,428 @@
+// tasks/powai.ts
+// Hardhat tasks for operating the ChronoFuel PoWai system: npx hardhat powai:<task> --network <network>
+
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ContractTransactionResponse, Interface, Signer } from "ethers";
+import { findEvent } from "../scripts/sdk/events";
+import { CLAIM_MODES, ClaimMode, claimModesMask, LOCK_TIERS, rewardTierName } from "../scripts/sdk/tiers";
+import { CFL, formatCfl, toWei } from "../scripts/sdk/units";
+import { loadDeployment } from "./deployment";
+import { decodeRevertReason } from "./revert";
+
+const PLUGIN_NAME = "powai";
+
+interface CommonArgs {
+  deployment?: string;
+  account: number;
+}
+
+async function connect(hre: HardhatRuntimeEnvironment, args: CommonArgs) {
+  const deployment = await loadDeployment(hre, args.deployment);
+  const signers = await hre.ethers.getSigners();
+  const signer: Signer | undefined = signers[args.account];
+  if (!signer) {
+    throw new HardhatPluginError(PLUGIN_NAME, `No signer at index ${args.account} on ${hre.network.name}`);
+  }
+  const chronoFuel = await hre.ethers.getContractAt("ChronoFuel", deployment.ChronoFuel, signer);
+  const adaptiveHalving = await hre.ethers.getContractAt("AdaptiveHalving", deployment.AdaptiveHalving, signer);
+  const poWaiCore = await hre.ethers.getContractAt("PoWaiCore", deployment.PoWaiCore, signer);
+  const interfaces: Interface[] = [poWaiCore.interface, chronoFuel.interface, adaptiveHalving.interface];
+  return { deployment, signer, chronoFuel, adaptiveHalving, poWaiCore, interfaces };
+}
+
+function parseCfl(amount: string): CFL {
+  try {
+    return toWei(amount);
+  } catch (e) {
+    throw new HardhatPluginError(PLUGIN_NAME, `Invalid CFL amount "${amount}"`);
+  }
+}
+
+function formatDuration(seconds: bigint): string {
+  const total = Number(seconds);
+  const parts: [number, string][] = [
+    [Math.floor(total / 3600), "h"],
+    [Math.floor((total % 3600) / 60), "m"],
+    [total % 60, "s"],
+  ];
+  return parts
+    .filter(([value], i) => value > 0 || i === parts.length - 1)
+    .map(([value, unit]) => `${value}${unit}`)
+    .join(" ");
+}
+
+/**
+ * Sends a transaction and waits for it, turning reverts into "<label> reverted: <reason>" errors.
+ */
+async function send(label: string, interfaces: Interface[], sendTx: () => Promise<ContractTransactionResponse>) {
+  try {
+    const tx = await sendTx();
+    const receipt = await tx.wait();
+    console.log(`✅ ${label} (tx ${tx.hash})`);
+    return receipt!;
+  } catch (error) {
+    const reason = decodeRevertReason(error, interfaces);
+    if (reason !== null) {
+      throw new HardhatPluginError(PLUGIN_NAME, `${label} reverted: ${reason}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Registers a task that takes the shared --deployment and --account options.
+ */
+function powaiTask(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam("deployment", "Deployment file (default: deployments/<network>.json, then Ignition's addresses)")
+    .addOptionalParam("account", "Index of the signer to send from", 0, types.int);
+}
+
+// --- User tasks ---
+
+powaiTask("powai:stake", "Stakes CFL, optionally in a time-locked position")
+  .addParam("amount", "Amount of CFL, e.g. 100 or 12.5")
+  .addOptionalParam("lock", "Lock tier: 0 = 30 days, 1 = 90 days, 2 = 180 days, 3 = 365 days", undefined, types.int)
+  .setAction(async (args: CommonArgs & { amount: string; lock?: number }, hre) => {
+    const { signer, chronoFuel, poWaiCore, interfaces } = await connect(hre, args);
+    const amount = parseCfl(args.amount);
+    const owner = await signer.getAddress();
+    const spender = await poWaiCore.getAddress();
+
+    if ((await chronoFuel.allowance(owner, spender)) < amount) {
+      await send(`Approved ${formatCfl(amount)} for PoWaiCore`, interfaces, () => chronoFuel.approve(spender, amount));
+    }
+    if (args.lock === undefined) {
+      await send(`Staked ${formatCfl(amount)}`, interfaces, () => poWaiCore.stake(amount));
+    } else {
+      const receipt = await send(`Locked ${formatCfl(amount)} for ${LOCK_TIERS[args.lock]?.label ?? `tier ${args.lock}`}`, interfaces, () =>
+        poWaiCore.stakeLocked(amount, args.lock!)
+      );
+      const event = findEvent(receipt, poWaiCore, "LockedStaked");
+      console.log(`   Position #${event.args.positionId} unlocks at ${new Date(Number(event.args.unlockTimestamp) * 1000).toISOString()}`);
+    }
+    console.log(`   Total staked: ${formatCfl(await poWaiCore.getUserTotalStakedAmount(owner))}`);
+  });
+
+powaiTask("powai:unstake", "Unstakes flexible CFL, or closes a locked position")
+  .addOptionalParam("amount", "Amount of flexible CFL to unstake")
+  .addOptionalParam("position", "Locked position id to close (early exits burn a penalty)", undefined, types.int)
+  .setAction(async (args: CommonArgs & { amount?: string; position?: number }, hre) => {
+    const { signer, poWaiCore, interfaces } = await connect(hre, args);
+    if ((args.amount === undefined) === (args.position === undefined)) {
+      throw new HardhatPluginError(PLUGIN_NAME, "Pass exactly one of --amount or --position");
+    }
+    const owner = await signer.getAddress();
+
+    if (args.amount !== undefined) {
+      const amount = parseCfl(args.amount);
+      await send(`Unstaked ${formatCfl(amount)}`, interfaces, () => poWaiCore.unstake(amount));
+    } else {
+      const receipt = await send(`Closed position #${args.position}`, interfaces, () => poWaiCore.unstakeLocked(args.position!));
+      const event = findEvent(receipt, poWaiCore, "LockedUnstaked");
+      console.log(`   Returned ${formatCfl(event.args.amountReturned)}, burned ${formatCfl(event.args.penaltyBurned)} penalty`);
+    }
+    console.log(`   Total staked: ${formatCfl(await poWaiCore.getUserTotalStakedAmount(owner))}`);
+  });
+
+powaiTask("powai:claim", "Claims the PoWai reward; the randomness provider settles it")
+  .addFlag("stake", "Add the reward to the stake (claimAndStake)")
+  .addOptionalParam("burnPercent", "Burn this share of the reward for boost, 1-100 (claimAndBurn)", undefined, types.int)
+  .addOptionalParam("for", "Claim for this address, which approved the account with powai:claim-operator")
+  .addOptionalParam("settle", "On hardhat/localhost, settle right away through MockRandomnessCoordinator with this random word", undefined, types.bigint)
+  .setAction(async (args: CommonArgs & { stake: boolean; burnPercent?: number; for?: string; settle?: bigint }, hre) => {
+    const { signer, chronoFuel, poWaiCore, interfaces } = await connect(hre, args);
+    if (args.stake && args.burnPercent !== undefined) {
+      throw new HardhatPluginError(PLUGIN_NAME, "Pass at most one of --stake or --burn-percent");
+    }
+    const mode = args.stake ? CLAIM_MODES.stake : args.burnPercent !== undefined ? CLAIM_MODES.burn : CLAIM_MODES.payout;
+    const burnPercent = args.burnPercent ?? 0;
+    const owner = args.for ? hre.ethers.getAddress(args.for) : await signer.getAddress();
+    const preview = await poWaiCore.previewClaim(owner);
+    console.log(`Locking in ${formatCfl(preview.mintPower)} of mint power (expected reward ${formatCfl(preview.expectedReward)})`);
+
+    const receipt = await send("Reward requested", interfaces, () => {
+      if (args.for) {
+        return poWaiCore.claimFor(owner, mode, burnPercent);
+      }
+      if (mode === CLAIM_MODES.stake) {
+        return poWaiCore.claimAndStake();
+      }
+      return mode === CLAIM_MODES.burn ? poWaiCore.claimAndBurn(burnPercent) : poWaiCore.claimReward();
+    });
+    const requestId: bigint = findEvent(receipt, poWaiCore, "RewardRequested").args.requestId;
+    console.log(`   Request #${requestId} is waiting for randomness`);
+
+    if (args.settle === undefined) {
+      return { requestId };
+    }
+    if (hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
+      throw new HardhatPluginError(PLUGIN_NAME, "--settle only works with MockRandomnessCoordinator on hardhat or localhost");
+    }
+    const coordinator = await hre.ethers.getContractAt("MockRandomnessCoordinator", await poWaiCore.randomnessProvider(), signer);
+    const settled = await send(`Request #${requestId} settled`, [...interfaces, coordinator.interface], () =>
+      coordinator.fulfillRandomness(requestId, args.settle!)
+    );
+    const claimed = findEvent(settled, poWaiCore, "RewardClaimed");
+    console.log(`   ${rewardTierName(claimed.args.rewardTierId)} tier: minted ${formatCfl(claimed.args.mintedReward)}`);
+    if (claimed.args.mintedReward < claimed.args.finalReward) {
+      console.log(`   Emission limits: ${formatCfl(claimed.args.deferredReward)} of ${formatCfl(claimed.args.finalReward)} deferred to the next epoch`);
+    }
+    if (mode === CLAIM_MODES.stake && claimed.args.mintedReward > 0n) {
+      console.log(`   Staked ${formatCfl(findEvent(settled, poWaiCore, "RewardStaked").args.amount)}`);
+    } else if (mode === CLAIM_MODES.burn && claimed.args.mintedReward > 0n) {
+      const burned = findEvent(settled, poWaiCore, "RewardBurned");
+      console.log(`   Burned ${formatCfl(burned.args.amountBurned)} (burn record #${burned.args.burnRecordIndex}), paid out ${formatCfl(burned.args.amountPaidOut)}`);
+    }
+    console.log(`   Balance: ${formatCfl(await chronoFuel.balanceOf(owner))}`);
+    return {
+      requestId,
+      finalReward: claimed.args.finalReward,
+      mintedReward: claimed.args.mintedReward,
+      rewardTierId: Number(claimed.args.rewardTierId),
+    };
+  });
+
+powaiTask("powai:claim-operator", "Lets an address or contract claim and compound for the account (powai:claim --for)")
+  .addPositionalParam("operator", "Address to approve")
+  .addOptionalParam("modes", "Comma-separated claim modes the operator may use: payout, stake, burn", "payout,stake,burn")
+  .addFlag("revoke", "Revoke the approval instead")
+  .setAction(async (args: CommonArgs & { operator: string; modes: string; revoke: boolean }, hre) => {
+    const { poWaiCore, interfaces } = await connect(hre, args);
+    const operator = hre.ethers.getAddress(args.operator);
+    const modes = args.revoke ? [] : args.modes.split(",").map((mode) => mode.trim());
+    for (const mode of modes) {
+      if (!(mode in CLAIM_MODES)) {
+        throw new HardhatPluginError(PLUGIN_NAME, `Unknown claim mode "${mode}"; use payout, stake or burn`);
+      }
+    }
+    await send(
+      args.revoke ? `Revoked claim operator ${operator}` : `Approved claim operator ${operator} for ${modes.join(", ")}`,
+      interfaces,
+      () => poWaiCore.setClaimOperator(operator, claimModesMask(modes as ClaimMode[]))
+    );
+  });
+
+powaiTask("powai:burn-boost", "Burns CFL for a permanent burn boost, DAO points and airdrop rights")
+  .addParam("amount", "Amount of CFL to burn")
+  .addFlag("certificate", "Also mint a BurnCertificateNFT for the burn")
+  .setAction(async (args: CommonArgs & { amount: string; certificate: boolean }, hre) => {
+    const { signer, chronoFuel, poWaiCore, interfaces } = await connect(hre, args);
+    const amount = parseCfl(args.amount);
+    const owner = await signer.getAddress();
+    const spender = await poWaiCore.getAddress();
+
+    if ((await chronoFuel.allowance(owner, spender)) < amount) {
+      await send(`Approved ${formatCfl(amount)} for PoWaiCore`, interfaces, () => chronoFuel.approve(spender, amount));
+    }
+    if (args.certificate) {
+      await send(`Burned ${formatCfl(amount)} with a certificate`, interfaces, () => poWaiCore.boostBurnWithCertificate(amount));
+    } else {
+      await send(`Burned ${formatCfl(amount)}`, interfaces, () => poWaiCore.boostBurn(amount));
+    }
+    const count = await poWaiCore.getUserBurnRecordCount(owner);
+    const record = await poWaiCore.getUserBurnRecord(owner, count - 1n);
+    console.log(`   Burn record #${count - 1n}: ${record.daoPoints} DAO points, ${record.airdropRights} airdrop rights`);
+    console.log(`   Total burned: ${formatCfl(await chronoFuel.getUserBurnedAmount(owner))}`);
+  });
+
+powaiTask("powai:status", "Shows the stake, claim cooldown, shield and burn records of an address")
+  .addPositionalParam("address", "Address to inspect")
+  .setAction(async (args: CommonArgs & { address: string }, hre) => {
+    const { chronoFuel, adaptiveHalving, poWaiCore } = await connect(hre, args);
+    const user = hre.ethers.getAddress(args.address);
+    const now = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+
+    const preview = await poWaiCore.previewClaim(user);
+    const lastClaim = await poWaiCore.getUserLastClaimTime(user);
+    const cooldownRemaining = preview.claimableAt > now ? preview.claimableAt - now : 0n;
+    const positions = await poWaiCore.getLockPositions(user);
+    const burnRecordCount = await poWaiCore.getUserBurnRecordCount(user);
+    const burnRecords = [];
+    for (let i = 0n; i < burnRecordCount; i++) {
+      burnRecords.push(await poWaiCore.getUserBurnRecord(user, i));
+    }
+    const status = {
+      address: user,
+      balance: await chronoFuel.balanceOf(user),
+      stakedAmount: await poWaiCore.getUserStakedAmount(user),
+      lockedAmount: await poWaiCore.getUserLockedAmount(user),
+      lastClaimTimestamp: lastClaim,
+      cooldownRemaining,
+      canClaim: preview.canClaim,
+      hasAntiHalvingShield: await adaptiveHalving.hasAntiHalvingShield(user),
+      totalBurned: await chronoFuel.getUserBurnedAmount(user),
+      deferredRewards: await poWaiCore.deferredRewards(user),
+      burnRecordCount,
+    };
+
+    console.log(`PoWai status of ${user} on ${hre.network.name}`);
+    console.log(`  CFL balance:         ${formatCfl(status.balance)}`);
+    console.log(`  Flexible stake:      ${formatCfl(status.stakedAmount)}`);
+    console.log(`  Locked stake:        ${formatCfl(status.lockedAmount)}`);
+    console.log(`  Last claim:          ${lastClaim === 0n ? "never" : new Date(Number(lastClaim) * 1000).toISOString()}`);
+    console.log(`  Cooldown:            ${cooldownRemaining === 0n ? "ready" : `${formatDuration(cooldownRemaining)} remaining`} (cooldown ${formatDuration(preview.cooldown)})`);
+    console.log(`  Claim now:           ${preview.canClaim ? `yes, expected ${formatCfl(preview.expectedReward)}` : "no"}`);
+    console.log(`  Anti-halving shield: ${status.hasAntiHalvingShield ? "yes" : "no"}`);
+    console.log(`  Total burned:        ${formatCfl(status.totalBurned)}`);
+    if (status.deferredRewards > 0n) {
+      console.log(`  Deferred rewards:    ${formatCfl(status.deferredRewards)} (epoch emission budget spent; claimDeferredRewards mints them)`);
+    }
+
+    const openPositions = positions.map((position, id) => ({ id, position })).filter(({ position }) => !position.withdrawn);
+    if (openPositions.length > 0) {
+      console.table(
+        openPositions.map(({ id, position }) => ({
+          position: id,
+          amount: formatCfl(position.amount),
+          lock: LOCK_TIERS[Number(position.lockTierId)].label,
+          boost: `${Number(position.boostPercent) / 100}x`,
+          unlocks: new Date(Number(position.unlockTimestamp) * 1000).toISOString(),
+        }))
+      );
+    }
+    if (burnRecords.length > 0) {
+      console.table(
+        burnRecords.map((record, index) => ({
+          record: index,
+          burned: formatCfl(record.amountBurned),
+          daoPoints: record.daoPoints.toString(),
+          airdropRights: record.airdropRights.toString(),
+          at: new Date(Number(record.timestamp) * 1000).toISOString(),
+        }))
+      );
+    }
+    return status;
+  });
+
+// --- Operator tasks ---
+
+powaiTask("powai:halving-check", "Shows progress towards the next halving, and applies it with --apply")
+  .addFlag("apply", "Call checkAndApplyHalving if the threshold has been crossed (needs HALVING_OPERATOR_ROLE)")
+  .setAction(async (args: CommonArgs & { apply: boolean }, hre) => {
+    const { signer, adaptiveHalving, interfaces } = await connect(hre, args);
+
+    const [due, minedThisEpoch, threshold] = await adaptiveHalving.getHalvingStatus();
+    const precision = await adaptiveHalving.PRECISION_FACTOR();
+    const halvingCount = await adaptiveHalving.getHalvingCount();
+
+    console.log(`Halvings so far:     ${halvingCount}`);
+    console.log(`Mined this epoch:    ${formatCfl(minedThisEpoch)} of ${formatCfl(threshold)} (${(Number((minedThisEpoch * 10000n) / threshold) / 100).toFixed(2)}%)`);
+    console.log(`Emission factor:     ${(Number(((await adaptiveHalving.getEmissionFactor()) * 10000n) / precision) / 10000).toFixed(4)}x`);
+    if ((await adaptiveHalving.powaiCoreContract()) !== hre.ethers.ZeroAddress) {
+      console.log(`Next halving rate:   ${await adaptiveHalving.getAdjustedHalvingRate()}%`);
+    }
+    console.log(`Halving due:         ${due ? "yes" : "no"}`);
+
+    let applied = false;
+    if (args.apply && due) {
+      const operator = await signer.getAddress();
+      if (!(await adaptiveHalving.hasRole(await adaptiveHalving.HALVING_OPERATOR_ROLE(), operator))) {
+        throw new HardhatPluginError(PLUGIN_NAME, `${operator} does not hold HALVING_OPERATOR_ROLE on AdaptiveHalving`);
+      }
+      await send("checkAndApplyHalving", interfaces, () => adaptiveHalving.checkAndApplyHalving());
+      applied = (await adaptiveHalving.getHalvingCount()) > halvingCount;
+    }
+    return { halvingCount, minedThisEpoch, threshold, due, applied };
+  });
+
+powaiTask("powai:link", "Verifies the wiring between the PoWai contracts, and repairs missing links with --fix")
+  .addFlag("fix", "Send the missing setPoWaiCoreContract/setAdaptiveHalving/setBurnCertificateNFT/setTrustedForwarder calls (needs DEFAULT_ADMIN_ROLE)")
+  .setAction(async (args: CommonArgs & { fix: boolean }, hre) => {
+    const { deployment, signer, chronoFuel, adaptiveHalving, poWaiCore, interfaces } = await connect(hre, args);
+    const certificate = deployment.BurnCertificateNFT
+      ? await hre.ethers.getContractAt("BurnCertificateNFT", deployment.BurnCertificateNFT, signer)
+      : undefined;
+    const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    const core = deployment.PoWaiCore;
+
+    // Each link: what it should point to, what it points to now, and how to set it
+    const links: { name: string; expected: string; actual: () => Promise<string>; fix: () => Promise<ContractTransactionResponse> }[] = [
+      {
+        name: "ChronoFuel.powaiCoreContract",
+        expected: core,
+        actual: () => chronoFuel.powaiCoreContract(),
+        fix: () => chronoFuel.setPoWaiCoreContract(core),
+      },
+      {
+        name: "AdaptiveHalving.powaiCoreContract",
+        expected: core,
+        actual: () => adaptiveHalving.powaiCoreContract(),
+        fix: () => adaptiveHalving.setPoWaiCoreContract(core),
+      },
+      {
+        name: "PoWaiCore.chronoFuelToken",
+        expected: deployment.ChronoFuel,
+        actual: () => poWaiCore.chronoFuelToken(),
+        fix: () => poWaiCore.setChronoFuelToken(deployment.ChronoFuel),
+      },
+      {
+        name: "PoWaiCore.adaptiveHalving",
+        expected: deployment.AdaptiveHalving,
+        actual: () => poWaiCore.adaptiveHalving(),
+        fix: () => poWaiCore.setAdaptiveHalving(deployment.AdaptiveHalving),
+      },
+    ];
+    if (certificate) {
+      links.push(
+        {
+          name: "BurnCertificateNFT.powaiCoreContract",
+          expected: core,
+          actual: () => certificate.powaiCoreContract(),
+          fix: () => certificate.setPoWaiCoreContract(core),
+        },
+        {
+          name: "PoWaiCore.burnCertificateNFT",
+          expected: deployment.BurnCertificateNFT!,
+          actual: () => poWaiCore.burnCertificateNFT(),
+          fix: () => poWaiCore.setBurnCertificateNFT(deployment.BurnCertificateNFT!),
+        }
+      );
+    }
+
+    if (deployment.PoWaiForwarder) {
+      links.push({
+        name: "PoWaiCore.trustedForwarder",
+        expected: deployment.PoWaiForwarder,
+        actual: () => poWaiCore.trustedForwarder(),
+        fix: () => poWaiCore.setTrustedForwarder(deployment.PoWaiForwarder!),
+      });
+    }
+
+    const report: Record<string, "ok" | "missing" | "mismatch" | "fixed"> = {};
+    for (const link of links) {
+      const actual = await link.actual();
+      if (same(actual, link.expected)) {
+        report[link.name] = "ok";
+      } else if (actual !== hre.ethers.ZeroAddress) {
+        // The setters are one-shot, so a link to another contract cannot be repaired
+        report[link.name] = "mismatch";
+      } else if (args.fix) {
+        await send(`Linked ${link.name} to ${link.expected}`, interfaces, link.fix);
+        report[link.name] = "fixed";
+      } else {
+        report[link.name] = "missing";
+      }
+    }
+
+    // Linking grants these roles; report them so a half-applied deployment is visible
+    const roles: Record<string, boolean> = {
+      "ChronoFuel.MINTER_ROLE(PoWaiCore)": await chronoFuel.hasRole(await chronoFuel.MINTER_ROLE(), core),
+      "ChronoFuel.PAUSER_ROLE(PoWaiCore)": await chronoFuel.hasRole(await chronoFuel.PAUSER_ROLE(), core),
+      "AdaptiveHalving.HALVING_OPERATOR_ROLE(PoWaiCore)": await adaptiveHalving.hasRole(await adaptiveHalving.HALVING_OPERATOR_ROLE(), core),
+    };
+    if (certificate) {
+      roles["BurnCertificateNFT.MINTER_ROLE(PoWaiCore)"] = await certificate.hasRole(await certificate.MINTER_ROLE(), core);
+    }
+
+    console.table(Object.entries(report).map(([link, state]) => ({ link, state })));
+    console.table(Object.entries(roles).map(([role, held]) => ({ role, held })));
+
+    const broken = Object.entries(report).filter(([, state]) => state === "missing" || state === "mismatch");
+    if (broken.length > 0) {
+      console.log(`⚠️  ${broken.length} link(s) need attention${args.fix ? "" : "; rerun with --fix to set the missing ones"}`);
+    }
+    return { links: report, roles };
+  });
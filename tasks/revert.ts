@@ -0,0 +1,39 @@
+// tasks/revert.ts
+// Turns failed calls into readable revert reasons such as "PoWaiCore: Cooldown not yet passed".
+
+import { Interface } from "ethers";
+
+/**
+ * Extracts the revert reason from an error thrown by ethers or the Hardhat node.
+ * Custom errors (e.g. OpenZeppelin's AccessControlUnauthorizedAccount) are decoded with
+ * `interfaces`. Returns null when the error is not a revert.
+ */
+export function decodeRevertReason(error: any, interfaces: Interface[] = []): string | null {
+  if (typeof error?.reason === "string" && error.reason.length > 0) {
+    return error.reason;
+  }
+  if (error?.revert?.name) {
+    return `${error.revert.name}(${error.revert.args.join(", ")})`;
+  }
+
+  const data = typeof error?.data === "string" ? error.data : error?.data?.data;
+  if (typeof data === "string" && data.length >= 10) {
+    for (const iface of interfaces) {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        return parsed.name === "Error" ? String(parsed.args[0]) : `${parsed.name}(${parsed.args.join(", ")})`;
+      }
+    }
+  }
+
+  const message: string = error?.message ?? "";
+  const reasonString = message.match(/reverted with reason string '(.*)'/);
+  if (reasonString) {
+    return reasonString[1];
+  }
+  const customError = message.match(/reverted with custom error '(.*)'/);
+  if (customError) {
+    return customError[1];
+  }
+  return null;
+}
@@ -0,0 +1,125 @@
+// test/AccessControl.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuel, PoWaiCore, AdaptiveHalving } from "../typechain-types";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, poWaiFixture } from "./fixtures";
+
+describe("Access control", function () {
+  let chronoFuel: ChronoFuel;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+
+  let owner: SignerWithAddress;
+  let attacker: SignerWithAddress;
+
+  before(async function () {
+    [owner, attacker] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore } = await loadFixture(poWaiFixture));
+  });
+
+  describe("Role assignment", function () {
+    it("Should grant MINTER_ROLE on ChronoFuel to the stored PoWaiCore only", async function () {
+      const minterRole = await chronoFuel.MINTER_ROLE();
+      expect(await chronoFuel.hasRole(minterRole, await poWaiCore.getAddress())).to.equal(true);
+      expect(await chronoFuel.hasRole(minterRole, owner.address)).to.equal(false);
+    });
+
+    it("Should grant HALVING_OPERATOR_ROLE on AdaptiveHalving to the stored PoWaiCore", async function () {
+      const operatorRole = await adaptiveHalving.HALVING_OPERATOR_ROLE();
+      expect(await adaptiveHalving.hasRole(operatorRole, await poWaiCore.getAddress())).to.equal(true);
+      expect(await adaptiveHalving.hasRole(operatorRole, attacker.address)).to.equal(false);
+    });
+
+    it("Should not let the admin relink PoWaiCore to another address", async function () {
+      await expect(chronoFuel.setPoWaiCoreContract(attacker.address))
+        .to.be.revertedWith("ChronoFuel: PoWaiCore address already set or invalid update");
+      await expect(adaptiveHalving.setPoWaiCoreContract(attacker.address))
+        .to.be.revertedWith("AdaptiveHalving: PoWaiCore address already set or invalid update");
+    });
+  });
+
+  describe("ChronoFuel", function () {
+    it("Should reject setPoWaiCoreContract from a non-admin", async function () {
+      await expect(chronoFuel.connect(attacker).setPoWaiCoreContract(attacker.address))
+        .to.be.revertedWithCustomError(chronoFuel, "AccessControlUnauthorizedAccount")
+        .withArgs(attacker.address, await chronoFuel.DEFAULT_ADMIN_ROLE());
+    });
+
+    it("Should reject _mintTokens from anyone but the minter, including the admin", async function () {
+      const minterRole = await chronoFuel.MINTER_ROLE();
+      await expect(chronoFuel.connect(attacker)._mintTokens(attacker.address, toWei(1)))
+        .to.be.revertedWithCustomError(chronoFuel, "AccessControlUnauthorizedAccount")
+        .withArgs(attacker.address, minterRole);
+      await expect(chronoFuel.connect(owner)._mintTokens(owner.address, toWei(1)))
+        .to.be.revertedWithCustomError(chronoFuel, "AccessControlUnauthorizedAccount")
+        .withArgs(owner.address, minterRole);
+    });
+
+    it("Should reject granting MINTER_ROLE from a non-admin", async function () {
+      await expect(chronoFuel.connect(attacker).grantRole(await chronoFuel.MINTER_ROLE(), attacker.address))
+        .to.be.revertedWithCustomError(chronoFuel, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("AdaptiveHalving", function () {
+    it("Should reject setChronoFuelToken from a non-admin", async function () {
+      await expect(adaptiveHalving.connect(attacker).setChronoFuelToken(await chronoFuel.getAddress()))
+        .to.be.revertedWithCustomError(adaptiveHalving, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should reject setPoWaiCoreContract from a non-admin", async function () {
+      await expect(adaptiveHalving.connect(attacker).setPoWaiCoreContract(attacker.address))
+        .to.be.revertedWithCustomError(adaptiveHalving, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should reject checkAndApplyHalving from a non-operator", async function () {
+      await expect(adaptiveHalving.connect(attacker).checkAndApplyHalving())
+        .to.be.revertedWithCustomError(adaptiveHalving, "AccessControlUnauthorizedAccount")
+        .withArgs(attacker.address, await adaptiveHalving.HALVING_OPERATOR_ROLE());
+    });
+
+    it("Should reject grantAntiHalvingShield from a non-operator", async function () {
+      await expect(adaptiveHalving.connect(attacker).grantAntiHalvingShield(attacker.address))
+        .to.be.revertedWithCustomError(adaptiveHalving, "AccessControlUnauthorizedAccount");
+      expect(await adaptiveHalving.hasAntiHalvingShield(attacker.address)).to.equal(false);
+    });
+
+    it("Should reject consumeAntiHalvingShield from a non-operator", async function () {
+      await adaptiveHalving.connect(owner).grantAntiHalvingShield(owner.address);
+      await expect(adaptiveHalving.connect(attacker).consumeAntiHalvingShield(owner.address))
+        .to.be.revertedWithCustomError(adaptiveHalving, "AccessControlUnauthorizedAccount");
+      expect(await adaptiveHalving.hasAntiHalvingShield(owner.address)).to.equal(true);
+    });
+
+    it("Should reject reduceHalvingRate from a non-operator", async function () {
+      await expect(adaptiveHalving.connect(attacker).reduceHalvingRate(100))
+        .to.be.revertedWithCustomError(adaptiveHalving, "AccessControlUnauthorizedAccount");
+      expect(await adaptiveHalving.halvingKeyEffectPercentage()).to.equal(0);
+    });
+
+    it("Should allow an operator granted by the admin", async function () {
+      await adaptiveHalving.grantRole(await adaptiveHalving.HALVING_OPERATOR_ROLE(), attacker.address);
+      await expect(adaptiveHalving.connect(attacker).reduceHalvingRate(3))
+        .to.emit(adaptiveHalving, "HalvingRateReducedByNFT")
+        .withArgs(3, 3);
+    });
+  });
+
+  describe("PoWaiCore", function () {
+    it("Should reject setChronoFuelToken from a non-admin", async function () {
+      await expect(poWaiCore.connect(attacker).setChronoFuelToken(await chronoFuel.getAddress()))
+        .to.be.revertedWithCustomError(poWaiCore, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should reject setAdaptiveHalving from a non-admin", async function () {
+      await expect(poWaiCore.connect(attacker).setAdaptiveHalving(attacker.address))
+        .to.be.revertedWithCustomError(poWaiCore, "AccessControlUnauthorizedAccount");
+    });
+  });
+});
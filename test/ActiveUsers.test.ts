@@ -0,0 +1,112 @@
+// test/ActiveUsers.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuel, PoWaiCore, MockRandomnessCoordinator } from "../typechain-types";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiFixture } from "./fixtures";
+
+describe("Active user tracking", function () {
+  let chronoFuel: ChronoFuel;
+  let poWaiCore: PoWaiCore;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+
+  let users: SignerWithAddress[];
+
+  const ONE_HOUR_SECONDS = 3600;
+  const MAX_COOLDOWN_SECONDS = 900;
+  const COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS = 12;
+
+  before(async function () {
+    users = (await ethers.getSigners()).slice(1, 5);
+  });
+
+  beforeEach(async function () {
+    ({ chronoFuel, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiFixture));
+
+    for (const user of users) {
+      await chronoFuel.transfer(user.address, toWei(100));
+      await chronoFuel.connect(user).approve(await poWaiCore.getAddress(), toWei(100));
+      await poWaiCore.connect(user).stake(toWei(100));
+    }
+  });
+
+  async function expectCountMatchesIsUserActive() {
+    let active = 0;
+    for (const user of users) {
+      if (await poWaiCore.isUserActive(user.address)) active++;
+    }
+    expect(await poWaiCore.activeUsersCount()).to.equal(active);
+  }
+
+  it("Should count a user once however often they claim within the window", async function () {
+    await poWaiCore.connect(users[0]).claimReward();
+    await moveTime(2 * ONE_HOUR_SECONDS);
+    await poWaiCore.connect(users[0]).claimReward();
+
+    expect(await poWaiCore.activeUsersCount()).to.equal(1);
+    expect(await poWaiCore.getCurrentActiveUsersCount()).to.equal(1);
+  });
+
+  it("Should shorten the cooldown for every distinct active user", async function () {
+    for (const user of users) {
+      await poWaiCore.connect(user).claimReward();
+    }
+
+    expect(await poWaiCore.activeUsersCount()).to.equal(users.length);
+    expect(await poWaiCore.getEffectiveCooldown())
+      .to.equal(MAX_COOLDOWN_SECONDS - COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS * users.length);
+  });
+
+  it("Should expire users once their activity leaves the 24h window", async function () {
+    await poWaiCore.connect(users[0]).claimReward();
+    await poWaiCore.connect(users[1]).claimReward();
+
+    await moveTime(23 * ONE_HOUR_SECONDS - 60);
+    expect(await poWaiCore.activeUsersCount()).to.equal(2);
+
+    await moveTime(25 * ONE_HOUR_SECONDS);
+    expect(await poWaiCore.activeUsersCount()).to.equal(0);
+    expect(await poWaiCore.isUserActive(users[0].address)).to.equal(false);
+    expect(await poWaiCore.getEffectiveCooldown()).to.equal(MAX_COOLDOWN_SECONDS);
+  });
+
+  it("Should keep a user active while they keep claiming", async function () {
+    await poWaiCore.connect(users[0]).claimReward();
+    await moveTime(20 * ONE_HOUR_SECONDS);
+    await poWaiCore.connect(users[0]).claimReward();
+    await moveTime(10 * ONE_HOUR_SECONDS);
+
+    expect(await poWaiCore.isUserActive(users[0].address)).to.equal(true);
+    expect(await poWaiCore.activeUsersCount()).to.equal(1);
+  });
+
+  it("Should count a returning user again after they expired", async function () {
+    await poWaiCore.connect(users[0]).claimReward();
+    await moveTime(48 * ONE_HOUR_SECONDS);
+    await poWaiCore.connect(users[1]).claimReward();
+    expect(await poWaiCore.activeUsersCount()).to.equal(1);
+
+    await poWaiCore.connect(users[0]).claimReward();
+    expect(await poWaiCore.activeUsersCount()).to.equal(2);
+  });
+
+  it("Should keep activeUsersCount consistent with isUserActive over time", async function () {
+    const schedule = [
+      { user: 0, wait: 0 },
+      { user: 1, wait: 5 },
+      { user: 0, wait: 10 },
+      { user: 2, wait: 12 },
+      { user: 3, wait: 30 },
+      { user: 1, wait: 3 },
+    ];
+    for (const step of schedule) {
+      await moveTime(step.wait * ONE_HOUR_SECONDS);
+      await poWaiCore.connect(users[step.user]).claimReward();
+      await expectCountMatchesIsUserActive();
+      await moveTime(ONE_HOUR_SECONDS / 2);
+      await expectCountMatchesIsUserActive();
+    }
+  });
+});
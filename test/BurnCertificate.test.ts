@@ -0,0 +1,134 @@
+// test/BurnCertificate.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuel, PoWaiCore, DaoPoints, BurnCertificateNFT } from "../typechain-types";
+import { collectAirdropRights } from "../scripts/airdrop/airdropRights";
+import { deployProxy } from "../scripts/upgrades/proxies";
+import { getEventArgs } from "../scripts/sdk/events";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, poWaiFixture } from "./fixtures";
+
+// Helper function to decode a base64 data URI
+const decodeDataUri = (uri: string, mimeType: string) => {
+  const prefix = `data:${mimeType};base64,`;
+  expect(uri.startsWith(prefix)).to.equal(true);
+  return Buffer.from(uri.slice(prefix.length), "base64").toString("utf8");
+};
+
+describe("Burn certificates", function () {
+  let chronoFuel: ChronoFuel;
+  let poWaiCore: PoWaiCore;
+  let daoPoints: DaoPoints;
+  let burnCertificateNFT: BurnCertificateNFT;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  before(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    ({ chronoFuel, poWaiCore } = await loadFixture(poWaiFixture));
+
+    const DaoPointsFactory = await ethers.getContractFactory("DaoPoints");
+    daoPoints = await DaoPointsFactory.deploy();
+    await daoPoints.waitForDeployment();
+    await daoPoints.setPoWaiCoreContract(await poWaiCore.getAddress());
+    await poWaiCore.setDaoPointsContract(await daoPoints.getAddress());
+
+    const BurnCertificateNFTFactory = await ethers.getContractFactory("BurnCertificateNFT");
+    burnCertificateNFT = await BurnCertificateNFTFactory.deploy();
+    await burnCertificateNFT.waitForDeployment();
+    await burnCertificateNFT.setPoWaiCoreContract(await poWaiCore.getAddress());
+    await poWaiCore.setBurnCertificateNFT(await burnCertificateNFT.getAddress());
+
+    await chronoFuel.connect(owner).transfer(user1.address, toWei(1000));
+    await chronoFuel.connect(user1).approve(await poWaiCore.getAddress(), toWei(1000));
+  });
+
+  it("Should mint a certificate that mirrors the new burn record", async function () {
+    await poWaiCore.connect(user1).boostBurn(toWei(10)); // Record 0 has no certificate
+
+    const tx = await poWaiCore.connect(user1).boostBurnWithCertificate(toWei(12.5));
+    const receipt = await tx.wait();
+    await expect(tx).to.emit(poWaiCore, "BurnedForBoost").withArgs(user1.address, toWei(12.5));
+    const { tokenId, burnRecordIndex } = await getEventArgs(receipt, poWaiCore, "BurnCertificateMinted");
+
+    expect(tokenId).to.equal(1);
+    expect(burnRecordIndex).to.equal(1);
+    expect(await burnCertificateNFT.ownerOf(tokenId)).to.equal(user1.address);
+
+    const record = await poWaiCore.getUserBurnRecord(user1.address, 1);
+    const certificate = await burnCertificateNFT.getCertificate(tokenId);
+    expect(certificate.burner).to.equal(user1.address);
+    expect(certificate.amountBurned).to.equal(record.amountBurned);
+    expect(certificate.mintPowerBeforeBurn).to.equal(record.mintPowerBeforeBurn);
+    expect(certificate.daoPoints).to.equal(record.daoPoints);
+    expect(certificate.airdropRights).to.equal(record.airdropRights);
+    expect(certificate.timestamp).to.equal(record.timestamp);
+  });
+
+  it("Should keep plain boostBurn certificate-free", async function () {
+    await poWaiCore.connect(user1).boostBurn(toWei(10));
+
+    expect(await poWaiCore.getUserBurnRecordCount(user1.address)).to.equal(1);
+    expect(await burnCertificateNFT.balanceOf(user1.address)).to.equal(0);
+  });
+
+  it("Should reject boostBurnWithCertificate while certificates are not enabled", async function () {
+    const PoWaiCoreFactory = await ethers.getContractFactory("PoWaiCore");
+    const coreWithoutCertificates = await deployProxy(PoWaiCoreFactory, [await chronoFuel.getAddress()]);
+
+    await expect(coreWithoutCertificates.connect(user1).boostBurnWithCertificate(toWei(1)))
+      .to.be.revertedWith("PoWaiCore: Burn certificates not enabled");
+  });
+
+  it("Should render on-chain JSON metadata with an SVG image", async function () {
+    await poWaiCore.connect(user1).boostBurnWithCertificate(toWei(12.5));
+
+    const metadata = JSON.parse(decodeDataUri(await burnCertificateNFT.tokenURI(1), "application/json"));
+    expect(metadata.name).to.equal("ChronoFuel Burn Certificate #1");
+    expect(metadata.description).to.contain("burned 12.50 CFL");
+
+    const attributes = Object.fromEntries(metadata.attributes.map((a: any) => [a.trait_type, a.value]));
+    expect(attributes["Amount Burned (CFL)"]).to.equal("12.50");
+    expect(attributes["DAO Points"]).to.equal(48); // 12 whole CFL * 4
+    expect(attributes["Airdrop Rights"]).to.equal(12);
+    expect(attributes["Original Burner"]).to.equal(user1.address.toLowerCase());
+
+    const svg = decodeDataUri(metadata.image, "image/svg+xml");
+    expect(svg.startsWith("<svg")).to.equal(true);
+    expect(svg).to.contain("12.50 CFL");
+  });
+
+  it("Should keep DAO points and airdrop rights with the burner after a transfer", async function () {
+    await poWaiCore.connect(user1).boostBurnWithCertificate(toWei(10));
+    await burnCertificateNFT.connect(user1).transferFrom(user1.address, user2.address, 1);
+
+    expect(await burnCertificateNFT.ownerOf(1)).to.equal(user2.address);
+    expect((await burnCertificateNFT.getCertificate(1)).burner).to.equal(user1.address);
+
+    expect(await daoPoints.getVotes(user1.address)).to.equal(40);
+    expect(await daoPoints.getVotes(user2.address)).to.equal(0);
+
+    const rights = await collectAirdropRights(poWaiCore, await ethers.provider.getBlockNumber());
+    expect(rights.get(user1.address)).to.equal(10);
+    expect(rights.has(user2.address)).to.equal(false);
+  });
+
+  it("Should only let PoWaiCore mint certificates", async function () {
+    await expect(burnCertificateNFT.connect(user1).mintCertificate(user1.address, 0, toWei(1000), 0, 4000, 1000, 0))
+      .to.be.revertedWithCustomError(burnCertificateNFT, "AccessControlUnauthorizedAccount")
+      .withArgs(user1.address, await burnCertificateNFT.MINTER_ROLE());
+  });
+
+  it("Should reject metadata queries for unminted certificates", async function () {
+    await expect(burnCertificateNFT.tokenURI(1))
+      .to.be.revertedWithCustomError(burnCertificateNFT, "ERC721NonexistentToken")
+      .withArgs(1);
+  });
+});
@@ -0,0 +1,161 @@
+// test/ChronoFuelSystemModule.test.ts
+
+import { expect } from "chai";
+import { ethers, ignition } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { parseEther } from "ethers";
+import {
+  DEFAULT_MAX_HALVING_KEY_EFFECT_PERCENTAGE,
+  DEFAULT_MAX_MINT_PER_BLOCK,
+  DEFAULT_MAX_MINT_PER_HOUR,
+} from "../ignition/modules/ChronoFuelCore";
+import ChronoFuelSystemModule from "../ignition/modules/ChronoFuelSystem";
+import LocalChronoFuelSystemModule from "../ignition/modules/LocalChronoFuelSystem";
+import ChronoFuelGovernanceModule from "../ignition/modules/ChronoFuelGovernance";
+
+describe("ChronoFuelSystemModule (Ignition)", function () {
+  let deployer: SignerWithAddress;
+  let multisig: SignerWithAddress;
+  let vrfAdapter: SignerWithAddress;
+  let guardian: SignerWithAddress;
+
+  before(async function () {
+    [deployer, multisig, vrfAdapter, guardian] = await ethers.getSigners();
+  });
+
+  it("Should deploy and fully link ChronoFuel, AdaptiveHalving and PoWaiCore", async function () {
+    const { chronoFuel, adaptiveHalving, poWaiCore, poWaiLens, burnCertificateNFT, poWaiForwarder } = await ignition.deploy(LocalChronoFuelSystemModule, {
+      parameters: { ChronoFuelCoreModule: { admin: deployer.address } },
+    });
+
+    const chronoFuelAddress = await chronoFuel.getAddress();
+    const adaptiveHalvingAddress = await adaptiveHalving.getAddress();
+    const poWaiCoreAddress = await poWaiCore.getAddress();
+
+    expect(await chronoFuel.powaiCoreContract()).to.equal(poWaiCoreAddress);
+    expect(await adaptiveHalving.powaiCoreContract()).to.equal(poWaiCoreAddress);
+    expect(await adaptiveHalving.chronoFuelToken()).to.equal(chronoFuelAddress);
+    expect(await poWaiCore.adaptiveHalving()).to.equal(adaptiveHalvingAddress);
+    expect(await poWaiCore.chronoFuelToken()).to.equal(chronoFuelAddress);
+    expect(await poWaiLens.poWaiCore()).to.equal(poWaiCoreAddress);
+    expect(await poWaiCore.burnCertificateNFT()).to.equal(await burnCertificateNFT.getAddress());
+    expect(await burnCertificateNFT.powaiCoreContract()).to.equal(poWaiCoreAddress);
+    expect(await poWaiCore.trustedForwarder()).to.equal(await poWaiForwarder.getAddress());
+  });
+
+  it("Should grant the admin role on every contract to the configured admin", async function () {
+    const { chronoFuel, adaptiveHalving, poWaiCore } = await ignition.deploy(LocalChronoFuelSystemModule, {
+      parameters: { ChronoFuelCoreModule: { admin: multisig.address } },
+    });
+
+    const adminRole = await chronoFuel.DEFAULT_ADMIN_ROLE();
+    expect(await chronoFuel.hasRole(adminRole, multisig.address)).to.equal(true);
+    expect(await adaptiveHalving.hasRole(adminRole, multisig.address)).to.equal(true);
+    expect(await poWaiCore.hasRole(adminRole, multisig.address)).to.equal(true);
+  });
+
+  it("Should grant PoWaiCore the minter and halving operator roles", async function () {
+    const { chronoFuel, adaptiveHalving, poWaiCore } = await ignition.deploy(LocalChronoFuelSystemModule, {
+      parameters: { ChronoFuelCoreModule: { admin: deployer.address } },
+    });
+    const poWaiCoreAddress = await poWaiCore.getAddress();
+
+    expect(await chronoFuel.hasRole(await chronoFuel.MINTER_ROLE(), poWaiCoreAddress)).to.equal(true);
+    expect(await adaptiveHalving.hasRole(await adaptiveHalving.HALVING_OPERATOR_ROLE(), poWaiCoreAddress)).to.equal(true);
+  });
+
+  it("Should arm the circuit breakers with the default limits", async function () {
+    const { chronoFuel, adaptiveHalving } = await ignition.deploy(LocalChronoFuelSystemModule, {
+      parameters: { ChronoFuelCoreModule: { admin: deployer.address } },
+    });
+
+    expect(await chronoFuel.maxMintPerBlock()).to.equal(DEFAULT_MAX_MINT_PER_BLOCK);
+    expect(await chronoFuel.maxMintPerHour()).to.equal(DEFAULT_MAX_MINT_PER_HOUR);
+    expect(await adaptiveHalving.maxHalvingKeyEffectPercentage()).to.equal(DEFAULT_MAX_HALVING_KEY_EFFECT_PERCENTAGE);
+  });
+
+  it("Should arm the circuit breakers with the configured limits", async function () {
+    const { chronoFuel, adaptiveHalving } = await ignition.deploy(LocalChronoFuelSystemModule, {
+      parameters: {
+        ChronoFuelCoreModule: {
+          admin: deployer.address,
+          maxMintPerBlock: parseEther("500"),
+          maxMintPerHour: parseEther("5000"),
+          maxHalvingKeyEffectPercentage: 12n,
+        },
+      },
+    });
+
+    expect(await chronoFuel.maxMintPerBlock()).to.equal(parseEther("500"));
+    expect(await chronoFuel.maxMintPerHour()).to.equal(parseEther("5000"));
+    expect(await adaptiveHalving.maxHalvingKeyEffectPercentage()).to.equal(12);
+  });
+
+  it("Should wire the mock randomness coordinator on local networks", async function () {
+    const { poWaiCore, randomnessCoordinator } = await ignition.deploy(LocalChronoFuelSystemModule, {
+      parameters: { ChronoFuelCoreModule: { admin: deployer.address } },
+    });
+
+    expect(await poWaiCore.randomnessProvider()).to.equal(await randomnessCoordinator.getAddress());
+  });
+
+  it("Should wire the configured randomness provider on real networks", async function () {
+    const { poWaiCore } = await ignition.deploy(ChronoFuelSystemModule, {
+      parameters: {
+        ChronoFuelCoreModule: { admin: deployer.address },
+        ChronoFuelSystemModule: { randomnessProvider: vrfAdapter.address },
+      },
+    });
+
+    expect(await poWaiCore.randomnessProvider()).to.equal(vrfAdapter.address);
+  });
+
+  it("Should hand every contract over to the governance timelock", async function () {
+    const { chronoFuel, adaptiveHalving, poWaiCore, burnCertificateNFT, daoPoints, timelock, governor } = await ignition.deploy(
+      ChronoFuelGovernanceModule,
+      {
+        parameters: {
+          ChronoFuelCoreModule: { admin: deployer.address },
+          ChronoFuelGovernanceModule: { guardian: guardian.address },
+        },
+      }
+    );
+    const adminRole = await poWaiCore.DEFAULT_ADMIN_ROLE();
+    const timelockAddress = await timelock.getAddress();
+
+    expect(await poWaiCore.daoPointsContract()).to.equal(await daoPoints.getAddress());
+    expect(await daoPoints.powaiCoreContract()).to.equal(await poWaiCore.getAddress());
+    expect(await governor.timelock()).to.equal(timelockAddress);
+    expect(await timelock.hasRole(await timelock.PROPOSER_ROLE(), await governor.getAddress())).to.equal(true);
+
+    for (const contract of [chronoFuel, adaptiveHalving, poWaiCore, burnCertificateNFT, daoPoints]) {
+      expect(await contract.hasRole(adminRole, timelockAddress)).to.equal(true);
+      expect(await contract.hasRole(adminRole, deployer.address)).to.equal(false);
+    }
+    expect(await adaptiveHalving.hasRole(await adaptiveHalving.HALVING_OPERATOR_ROLE(), deployer.address)).to.equal(false);
+    expect(await timelock.hasRole(adminRole, deployer.address)).to.equal(false);
+  });
+
+  it("Should hand the emergency pause to the guardian and leave the deployer no roles", async function () {
+    const { chronoFuel, poWaiCore } = await ignition.deploy(ChronoFuelGovernanceModule, {
+      parameters: {
+        ChronoFuelCoreModule: { admin: deployer.address },
+        ChronoFuelGovernanceModule: { guardian: guardian.address },
+      },
+    });
+    const pauserRole = await poWaiCore.PAUSER_ROLE();
+
+    for (const contract of [chronoFuel, poWaiCore]) {
+      expect(await contract.hasRole(pauserRole, guardian.address)).to.equal(true);
+      expect(await contract.hasRole(pauserRole, deployer.address)).to.equal(false);
+    }
+    expect(await chronoFuel.hasRole(await chronoFuel.MINTER_ROLE(), deployer.address)).to.equal(false);
+    expect(await chronoFuel.hasRole(await chronoFuel.MINTER_ROLE(), await poWaiCore.getAddress())).to.equal(true);
+
+    // The guardian can pause at once, but only governance can resume
+    const guardedCore = await ethers.getContractAt("PoWaiCore", await poWaiCore.getAddress(), guardian);
+    await guardedCore.pause();
+    await expect(guardedCore.unpause()).to.be.revertedWithCustomError(poWaiCore, "AccessControlUnauthorizedAccount");
+    await expect(poWaiCore.unpause()).to.be.revertedWithCustomError(poWaiCore, "AccessControlUnauthorizedAccount");
+  });
+});
@@ -0,0 +1,284 @@
+// test/CircuitBreaker.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuelMock, PoWaiCore, AdaptiveHalving, MockRandomnessCoordinator } from "../typechain-types";
+import { findEvent, findEvents, getEventArgs } from "../scripts/sdk/events";
+import { TIER_ROLLS } from "../scripts/sdk/tiers";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiMockFixture } from "./fixtures";
+
+// Mines the next block a minute into the next clock hour, so the blocks that follow share an hour
+async function moveToNextHour() {
+  const { timestamp } = (await ethers.provider.getBlock("latest"))!;
+  await ethers.provider.send("evm_setNextBlockTimestamp", [(Math.floor(timestamp / 3600) + 1) * 3600 + 60]);
+  await ethers.provider.send("evm_mine");
+}
+
+describe("Emergency pause and circuit breakers", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let user3: SignerWithAddress;
+  let guardian: SignerWithAddress;
+
+  const STAKE = toWei(100);
+  const INITIAL_SUPPLY = toWei(21_000_000);
+  // A first claim with 100-999 CFL staked waits the full 24 hours: 24 CFL * 3x stake boost
+  const FULL_DAY_REWARD = toWei(72);
+  const LEGENDARY_REWARD = FULL_DAY_REWARD * 8n;
+
+  before(async function () {
+    [owner, user1, user2, user3, guardian] = await ethers.getSigners();
+  });
+
+  // Sends a claim for `user` and returns its request id
+  async function requestClaim(user: SignerWithAddress) {
+    const receipt = await (await poWaiCore.connect(user).claimReward()).wait();
+    return getEventArgs(receipt, poWaiCore, "RewardRequested").requestId;
+  }
+
+  async function settle(requestId: bigint, roll = TIER_ROLLS.Common) {
+    return (await randomnessCoordinator.fulfillRandomness(requestId, roll)).wait();
+  }
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiMockFixture));
+
+    for (const user of [user1, user2, user3]) {
+      await chronoFuel.connect(owner).transfer(user.address, toWei(1000));
+      await chronoFuel.connect(user).approve(await poWaiCore.getAddress(), toWei(1000));
+      await poWaiCore.connect(user).stake(STAKE);
+    }
+  });
+
+  describe("Emergency pause", function () {
+    it("Should halt staking, claiming and burning but keep unstaking open", async function () {
+      await poWaiCore.connect(user1).stakeLocked(STAKE, 0);
+      await expect(poWaiCore.pause()).to.emit(poWaiCore, "Paused").withArgs(owner.address);
+      expect(await poWaiCore.paused()).to.be.true;
+
+      await expect(poWaiCore.connect(user1).stake(STAKE)).to.be.revertedWith("PoWaiCore: Paused");
+      await expect(poWaiCore.connect(user1).stakeLocked(STAKE, 1)).to.be.revertedWith("PoWaiCore: Paused");
+      await expect(poWaiCore.connect(user1).claimReward()).to.be.revertedWith("PoWaiCore: Paused");
+      await expect(poWaiCore.connect(user1).claimAndStake()).to.be.revertedWith("PoWaiCore: Paused");
+      await expect(poWaiCore.connect(user1).claimAndBurn(50)).to.be.revertedWith("PoWaiCore: Paused");
+      await expect(poWaiCore.connect(user1).boostBurn(toWei(10))).to.be.revertedWith("PoWaiCore: Paused");
+      await expect(poWaiCore.connect(user1).claimDeferredRewards()).to.be.revertedWith("PoWaiCore: Paused");
+      expect((await poWaiCore.previewClaim(user1.address)).canClaim).to.be.false;
+
+      // Users can always exit
+      await poWaiCore.connect(user1).unstake(STAKE);
+      await poWaiCore.connect(user1).unstakeLocked(0);
+      expect(await poWaiCore.getUserTotalStakedAmount(user1.address)).to.equal(0);
+
+      await expect(poWaiCore.unpause()).to.emit(poWaiCore, "Unpaused").withArgs(owner.address);
+      await poWaiCore.connect(user2).stake(STAKE);
+      expect((await poWaiCore.previewClaim(user2.address)).canClaim).to.be.true;
+    });
+
+    it("Should let pausers pause and only the admin resume", async function () {
+      const PAUSER_ROLE = await poWaiCore.PAUSER_ROLE();
+      await expect(poWaiCore.connect(guardian).pause())
+        .to.be.revertedWithCustomError(poWaiCore, "AccessControlUnauthorizedAccount")
+        .withArgs(guardian.address, PAUSER_ROLE);
+      await expect(chronoFuel.connect(guardian).pauseMinting())
+        .to.be.revertedWithCustomError(chronoFuel, "AccessControlUnauthorizedAccount")
+        .withArgs(guardian.address, PAUSER_ROLE);
+
+      await poWaiCore.grantRole(PAUSER_ROLE, guardian.address);
+      await chronoFuel.grantRole(PAUSER_ROLE, guardian.address);
+      await poWaiCore.connect(guardian).pause();
+      await expect(chronoFuel.connect(guardian).pauseMinting()).to.emit(chronoFuel, "MintingPaused").withArgs(guardian.address);
+
+      // A guardian cannot undo a pause
+      await expect(poWaiCore.connect(guardian).unpause())
+        .to.be.revertedWithCustomError(poWaiCore, "AccessControlUnauthorizedAccount")
+        .withArgs(guardian.address, ethers.ZeroHash);
+      await expect(chronoFuel.connect(guardian).unpauseMinting())
+        .to.be.revertedWithCustomError(chronoFuel, "AccessControlUnauthorizedAccount")
+        .withArgs(guardian.address, ethers.ZeroHash);
+      await expect(chronoFuel.connect(guardian).setMintRateLimits(1, 1))
+        .to.be.revertedWithCustomError(chronoFuel, "AccessControlUnauthorizedAccount")
+        .withArgs(guardian.address, ethers.ZeroHash);
+
+      await poWaiCore.unpause();
+      await expect(chronoFuel.unpauseMinting()).to.emit(chronoFuel, "MintingUnpaused").withArgs(owner.address);
+      await expect(chronoFuel.unpauseMinting()).to.be.revertedWith("ChronoFuel: Minting not paused");
+      expect(await poWaiCore.paused()).to.be.false;
+    });
+
+    it("Should grant PoWaiCore PAUSER_ROLE on ChronoFuel when linked", async function () {
+      expect(await chronoFuel.hasRole(await chronoFuel.PAUSER_ROLE(), await poWaiCore.getAddress())).to.be.true;
+    });
+
+    it("Should settle claims requested before the pause without minting until resumed", async function () {
+      const requestId = await requestClaim(user1);
+      await poWaiCore.pause();
+
+      const settled = await settle(requestId, TIER_ROLLS.Legendary);
+      const claimed = getEventArgs(settled, poWaiCore, "RewardClaimed");
+      expect([claimed.mintedReward, claimed.deferredReward]).to.deep.equal([0n, LEGENDARY_REWARD]);
+      expect(findEvents(settled!, chronoFuel, "TokensMinted")).to.have.lengthOf(0);
+      expect(await chronoFuel.getTotalMinedTokens()).to.equal(INITIAL_SUPPLY);
+      expect(await poWaiCore.deferredRewards(user1.address)).to.equal(LEGENDARY_REWARD);
+
+      await poWaiCore.unpause();
+      await poWaiCore.connect(user1).claimDeferredRewards();
+      expect(await chronoFuel.getTotalMinedTokens()).to.equal(INITIAL_SUPPLY + LEGENDARY_REWARD);
+    });
+
+    it("Should not stake or burn compounded claims settled while paused", async function () {
+      const staking = getEventArgs(await (await poWaiCore.connect(user1).claimAndStake()).wait(), poWaiCore, "RewardRequested").requestId;
+      const burning = getEventArgs(await (await poWaiCore.connect(user2).claimAndBurn(50)).wait(), poWaiCore, "RewardRequested").requestId;
+      await poWaiCore.pause();
+
+      await settle(staking);
+      await settle(burning);
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(STAKE);
+      expect(await chronoFuel.getUserBurnedAmount(user2.address)).to.equal(0);
+      expect(await poWaiCore.deferredRewards(user1.address)).to.equal(FULL_DAY_REWARD);
+      expect(await poWaiCore.deferredRewards(user2.address)).to.equal(FULL_DAY_REWARD);
+    });
+
+    it("Should defer claims settled while minting is paused and halt PoWaiCore with it", async function () {
+      const requestId = await requestClaim(user1);
+      await chronoFuel.pauseMinting();
+      expect(await poWaiCore.paused()).to.be.true;
+      await expect(poWaiCore.connect(user2).claimReward()).to.be.revertedWith("PoWaiCore: Paused");
+
+      const claimed = getEventArgs(await settle(requestId), poWaiCore, "RewardClaimed");
+      expect([claimed.mintedReward, claimed.deferredReward]).to.deep.equal([0n, FULL_DAY_REWARD]);
+      expect(await chronoFuel.getTotalMinedTokens()).to.equal(INITIAL_SUPPLY);
+      expect(await poWaiCore.deferredRewards(user1.address)).to.equal(FULL_DAY_REWARD);
+      await expect(poWaiCore.connect(user1).claimDeferredRewards()).to.be.revertedWith("PoWaiCore: Paused");
+
+      await chronoFuel.unpauseMinting();
+      await poWaiCore.connect(user1).claimDeferredRewards();
+      expect(await poWaiCore.deferredRewards(user1.address)).to.equal(0);
+      expect(await chronoFuel.getTotalMinedTokens()).to.equal(INITIAL_SUPPLY + FULL_DAY_REWARD);
+    });
+
+    it("Should make _mintTokens mint nothing and return false while minting is paused", async function () {
+      await chronoFuel.grantRole(await chronoFuel.MINTER_ROLE(), owner.address);
+      await chronoFuel.pauseMinting();
+
+      expect(await chronoFuel._mintTokens.staticCall(owner.address, toWei(1))).to.be.false;
+      await expect(chronoFuel._mintTokens(owner.address, toWei(1))).to.not.emit(chronoFuel, "TokensMinted");
+      expect(await chronoFuel.getTotalMinedTokens()).to.equal(INITIAL_SUPPLY);
+    });
+  });
+
+  describe("Mint rate limits", function () {
+    it("Should trip the circuit breaker when a burst of settlements in one block exceeds maxMintPerBlock", async function () {
+      await expect(chronoFuel.setMintRateLimits(toWei(150), 0)).to.emit(chronoFuel, "MintRateLimitsUpdated").withArgs(toWei(150), 0);
+      const requestIds = [await requestClaim(user1), await requestClaim(user2), await requestClaim(user3)];
+
+      // Settle all three claims in the same block, with fixed gas limits as nothing is mined to estimate against
+      await ethers.provider.send("evm_setAutomine", [false]);
+      const settlements = [];
+      try {
+        for (const requestId of requestIds) {
+          settlements.push(await randomnessCoordinator.fulfillRandomness(requestId, TIER_ROLLS.Common, { gasLimit: 1_000_000 }));
+        }
+        await ethers.provider.send("evm_mine");
+      } finally {
+        await ethers.provider.send("evm_setAutomine", [true]);
+      }
+      const receipts = await Promise.all(settlements.map((tx) => tx.wait()));
+      expect(new Set(receipts.map((receipt) => receipt!.blockNumber)).size).to.equal(1);
+
+      const minted = receipts.map((receipt) => getEventArgs(receipt, poWaiCore, "RewardClaimed").mintedReward);
+      expect(minted).to.deep.equal([FULL_DAY_REWARD, FULL_DAY_REWARD, 0n]);
+      expect(getEventArgs(receipts[2], poWaiCore, "RewardClaimed").deferredReward).to.equal(FULL_DAY_REWARD);
+      const tripped = getEventArgs(receipts[2], chronoFuel, "CircuitBreakerTripped");
+      expect([tripped.reason, tripped.attempted, tripped.limit]).to.deep.equal([
+        "Mint per block limit exceeded",
+        FULL_DAY_REWARD * 3n,
+        toWei(150),
+      ]);
+      expect(getEventArgs(receipts[2], chronoFuel, "MintingPaused").account).to.equal(await poWaiCore.getAddress());
+
+      // Minting stays halted, and so does PoWaiCore, until the admin resumes it
+      expect(await chronoFuel.mintingPaused()).to.be.true;
+      expect(await chronoFuel.mintedInBlock()).to.equal(FULL_DAY_REWARD * 2n);
+      expect(await chronoFuel.getTotalMinedTokens()).to.equal(INITIAL_SUPPLY + FULL_DAY_REWARD * 2n);
+      await moveTime(3600);
+      await expect(poWaiCore.connect(user1).claimReward()).to.be.revertedWith("PoWaiCore: Paused");
+
+      await chronoFuel.unpauseMinting();
+      await poWaiCore.connect(user3).claimDeferredRewards();
+      expect(await chronoFuel.getTotalMinedTokens()).to.equal(INITIAL_SUPPLY + FULL_DAY_REWARD * 3n);
+    });
+
+    it("Should trip the circuit breaker when exploited randomness mints more than maxMintPerHour", async function () {
+      await chronoFuel.setMintRateLimits(0, toWei(1000));
+      await moveToNextHour();
+
+      // Every draw comes out Legendary
+      const first = await settle(await requestClaim(user1), TIER_ROLLS.Legendary);
+      expect(getEventArgs(first, poWaiCore, "RewardClaimed").mintedReward).to.equal(LEGENDARY_REWARD);
+      const second = await settle(await requestClaim(user2), TIER_ROLLS.Legendary);
+      const claimed = getEventArgs(second, poWaiCore, "RewardClaimed");
+      expect([claimed.mintedReward, claimed.deferredReward]).to.deep.equal([0n, LEGENDARY_REWARD]);
+      const tripped = getEventArgs(second, chronoFuel, "CircuitBreakerTripped");
+      expect([tripped.reason, tripped.attempted, tripped.limit]).to.deep.equal([
+        "Mint per hour limit exceeded",
+        LEGENDARY_REWARD * 2n,
+        toWei(1000),
+      ]);
+      await expect(poWaiCore.connect(user3).claimReward()).to.be.revertedWith("PoWaiCore: Paused");
+
+      // The count starts over in the next hour
+      await chronoFuel.unpauseMinting();
+      await expect(poWaiCore.connect(user2).claimDeferredRewards()).to.not.emit(chronoFuel, "TokensMinted");
+      expect(await chronoFuel.mintingPaused()).to.be.true;
+      await chronoFuel.unpauseMinting();
+      await moveToNextHour();
+      await poWaiCore.connect(user2).claimDeferredRewards();
+      expect(await chronoFuel.mintedInHour()).to.equal(LEGENDARY_REWARD);
+      expect(await poWaiCore.deferredRewards(user2.address)).to.equal(0);
+    });
+
+    it("Should not count mints while no limit is set", async function () {
+      await settle(await requestClaim(user1));
+      expect(await chronoFuel.mintedInBlock()).to.equal(0);
+      expect(await chronoFuel.mintedInHour()).to.equal(0);
+    });
+  });
+
+  describe("Halving key bound", function () {
+    it("Should stop stacking Halving Keys and trip the circuit breaker past the bound", async function () {
+      await expect(adaptiveHalving.setMaxHalvingKeyEffectPercentage(6))
+        .to.emit(adaptiveHalving, "MaxHalvingKeyEffectPercentageUpdated")
+        .withArgs(6);
+      await settle(await requestClaim(user1), TIER_ROLLS.Legendary);
+      await settle(await requestClaim(user2), TIER_ROLLS.Legendary);
+      expect(await adaptiveHalving.halvingKeyEffectPercentage()).to.equal(6);
+
+      const settled = await settle(await requestClaim(user3), TIER_ROLLS.Legendary);
+      const exceeded = getEventArgs(settled, adaptiveHalving, "HalvingKeyBoundExceeded");
+      expect([exceeded.attemptedEffectPercentage, exceeded.maxHalvingKeyEffectPercentage]).to.deep.equal([9n, 6n]);
+      expect(findEvent(settled, chronoFuel, "MintingPaused").args.account).to.equal(await poWaiCore.getAddress());
+      expect(await adaptiveHalving.halvingKeyEffectPercentage()).to.equal(6);
+      expect(await chronoFuel.mintingPaused()).to.be.true;
+      expect(getEventArgs(settled, poWaiCore, "RewardClaimed").deferredReward).to.equal(LEGENDARY_REWARD);
+    });
+
+    it("Should not set the bound below the current effect", async function () {
+      await settle(await requestClaim(user1), TIER_ROLLS.Legendary);
+      await expect(adaptiveHalving.setMaxHalvingKeyEffectPercentage(2)).to.be.revertedWith(
+        "AdaptiveHalving: Bound below current halving key effect"
+      );
+      await adaptiveHalving.setMaxHalvingKeyEffectPercentage(3);
+      await adaptiveHalving.setMaxHalvingKeyEffectPercentage(0); // No bound
+      expect(await adaptiveHalving.maxHalvingKeyEffectPercentage()).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,313 @@
+// test/Compounding.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuelMock, PoWaiCore, AdaptiveHalving, MockRandomnessCoordinator } from "../typechain-types";
+import { findEvents, getEventArgs } from "../scripts/sdk/events";
+import { TIER_ROLLS } from "../scripts/sdk/tiers";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiMockFixture } from "./fixtures";
+
+describe("Compounding and delegated claims", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let operator: SignerWithAddress;
+
+  const ONE_DAY_SECONDS = 24 * 3600;
+  const STAKE = toWei(100);
+  // A claim after a full day with 100-999 CFL staked: 24 CFL * 3x stake boost
+  const FULL_DAY_REWARD = toWei(72);
+
+  // ClaimMode
+  const PAYOUT = 0;
+  const STAKE_MODE = 1;
+  const BURN_MODE = 2;
+  // setClaimOperator bitmasks
+  const modes = (...claimModes: number[]) => claimModes.reduce((mask, mode) => mask | (1 << mode), 0);
+  const ALL_MODES = modes(PAYOUT, STAKE_MODE, BURN_MODE);
+
+  before(async function () {
+    [owner, user1, operator] = await ethers.getSigners();
+  });
+
+  // Sends a claim after a full day and settles it on the Common tier; returns both receipts
+  async function claimFullDay(request: () => Promise<any>) {
+    await moveTime(ONE_DAY_SECONDS);
+    const requested = await (await request()).wait();
+    const { requestId } = await getEventArgs(requested, poWaiCore, "RewardRequested");
+    const settled = await (await randomnessCoordinator.fulfillRandomness(requestId, TIER_ROLLS.Common)).wait();
+    return { requestId, requested, settled };
+  }
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiMockFixture));
+
+    await chronoFuel.connect(owner).transfer(user1.address, toWei(1000));
+    await chronoFuel.connect(user1).approve(await poWaiCore.getAddress(), STAKE);
+    await poWaiCore.connect(user1).stake(STAKE);
+  });
+
+  describe("claimAndStake", function () {
+    it("Should stake the minted reward instead of paying it out", async function () {
+      const balanceBefore = await chronoFuel.balanceOf(user1.address);
+      const { requestId, requested, settled } = await claimFullDay(() => poWaiCore.connect(user1).claimAndStake());
+
+      const routed = await getEventArgs(requested, poWaiCore, "ClaimRouted");
+      expect([routed.user, routed.caller, routed.requestId, routed.mode, routed.burnPercent]).to.deep.equal([
+        user1.address,
+        user1.address,
+        requestId,
+        BigInt(STAKE_MODE),
+        0n,
+      ]);
+      expect((await getEventArgs(settled, poWaiCore, "RewardClaimed")).mintedReward).to.equal(FULL_DAY_REWARD);
+      const staked = await getEventArgs(settled, poWaiCore, "RewardStaked");
+      expect([staked.user, staked.requestId, staked.amount]).to.deep.equal([user1.address, requestId, FULL_DAY_REWARD]);
+      expect((await getEventArgs(settled, poWaiCore, "Staked")).amount).to.equal(FULL_DAY_REWARD);
+
+      expect(await chronoFuel.balanceOf(user1.address)).to.equal(balanceBefore);
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(STAKE + FULL_DAY_REWARD);
+      expect(await poWaiCore.totalStakedAmount()).to.equal(STAKE + FULL_DAY_REWARD);
+      expect(await chronoFuel.balanceOf(await poWaiCore.getAddress())).to.equal(STAKE + FULL_DAY_REWARD);
+      expect((await poWaiCore.claimRoutings(requestId)).mode).to.equal(PAYOUT); // Cleared once settled
+
+      // The compounded stake can be unstaked like any other
+      await poWaiCore.connect(user1).unstake(STAKE + FULL_DAY_REWARD);
+      expect(await chronoFuel.balanceOf(user1.address)).to.equal(balanceBefore + STAKE + FULL_DAY_REWARD);
+    });
+
+    it("Should only stake the minted part of a claim the epoch budget defers", async function () {
+      await chronoFuel.setEpochEmissionBudget(toWei(50));
+      const { settled } = await claimFullDay(() => poWaiCore.connect(user1).claimAndStake());
+
+      expect((await getEventArgs(settled, poWaiCore, "RewardStaked")).amount).to.equal(toWei(50));
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(STAKE + toWei(50));
+      expect(await poWaiCore.deferredRewards(user1.address)).to.equal(toWei(22));
+
+      // The deferred part is paid out, not staked
+      const balanceBefore = await chronoFuel.balanceOf(user1.address);
+      await poWaiCore.connect(user1).claimDeferredRewards();
+      expect(await chronoFuel.balanceOf(user1.address)).to.equal(balanceBefore + toWei(22));
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(STAKE + toWei(50));
+    });
+  });
+
+  describe("claimAndBurn", function () {
+    it("Should burn the given share of the reward with a burn record and pay out the rest", async function () {
+      const balanceBefore = await chronoFuel.balanceOf(user1.address);
+      const { requestId, settled } = await claimFullDay(() => poWaiCore.connect(user1).claimAndBurn(25));
+
+      const burned = await getEventArgs(settled, poWaiCore, "RewardBurned");
+      expect([burned.user, burned.requestId, burned.amountBurned, burned.amountPaidOut, burned.burnRecordIndex]).to.deep.equal([
+        user1.address,
+        requestId,
+        toWei(18),
+        toWei(54),
+        0n,
+      ]);
+      expect((await getEventArgs(settled, poWaiCore, "BurnedForBoost")).amountBurned).to.equal(toWei(18));
+
+      expect(await chronoFuel.balanceOf(user1.address)).to.equal(balanceBefore + toWei(54));
+      expect(await chronoFuel.balanceOf(await poWaiCore.getAddress())).to.equal(STAKE);
+      expect(await chronoFuel.getUserBurnedAmount(user1.address)).to.equal(toWei(18));
+      expect(await chronoFuel.totalGlobalBurned()).to.equal(toWei(18));
+      expect(await chronoFuel.totalSupply()).to.equal((await chronoFuel.totalMinedTokens()) - toWei(18));
+
+      const record = await poWaiCore.getUserBurnRecord(user1.address, 0);
+      expect(record.amountBurned).to.equal(toWei(18));
+      expect(record.daoPoints).to.equal(18n * 4n);
+      expect(record.airdropRights).to.equal(18n);
+    });
+
+    it("Should burn the whole reward at 100% and boost the next claim", async function () {
+      const balanceBefore = await chronoFuel.balanceOf(user1.address);
+      await claimFullDay(() => poWaiCore.connect(user1).claimAndBurn(100));
+      expect(await chronoFuel.balanceOf(user1.address)).to.equal(balanceBefore);
+      expect(await chronoFuel.getUserBurnedAmount(user1.address)).to.equal(FULL_DAY_REWARD);
+
+      const { settled } = await claimFullDay(() => poWaiCore.connect(user1).claimReward());
+      expect((await getEventArgs(settled, poWaiCore, "RewardClaimed")).finalReward).to.be.greaterThan(FULL_DAY_REWARD);
+    });
+
+    it("Should reject a burn share outside 1-100%", async function () {
+      await moveTime(ONE_DAY_SECONDS);
+      await expect(poWaiCore.connect(user1).claimAndBurn(0)).to.be.revertedWith("PoWaiCore: Burn percent must be 1-100");
+      await expect(poWaiCore.connect(user1).claimAndBurn(101)).to.be.revertedWith("PoWaiCore: Burn percent must be 1-100");
+    });
+  });
+
+  describe("Cooldown", function () {
+    it("Should share the cooldown between plain, compounding and operator claims", async function () {
+      await poWaiCore.connect(user1).setClaimOperator(operator.address, ALL_MODES);
+      await claimFullDay(() => poWaiCore.connect(user1).claimReward());
+
+      await expect(poWaiCore.connect(user1).claimAndStake()).to.be.revertedWith("PoWaiCore: Cooldown not yet passed");
+      await expect(poWaiCore.connect(user1).claimAndBurn(50)).to.be.revertedWith("PoWaiCore: Cooldown not yet passed");
+      await expect(poWaiCore.connect(operator).claimFor(user1.address, STAKE_MODE, 0)).to.be.revertedWith(
+        "PoWaiCore: Cooldown not yet passed"
+      );
+
+      await claimFullDay(() => poWaiCore.connect(operator).claimFor(user1.address, STAKE_MODE, 0));
+      await expect(poWaiCore.connect(user1).claimReward()).to.be.revertedWith("PoWaiCore: Cooldown not yet passed");
+    });
+
+    it("Should not emit ClaimRouted for a plain claim", async function () {
+      await moveTime(ONE_DAY_SECONDS);
+      await expect(poWaiCore.connect(user1).claimReward()).to.not.emit(poWaiCore, "ClaimRouted");
+    });
+  });
+
+  describe("Claim operators", function () {
+    it("Should let a user approve and revoke claim operators", async function () {
+      await expect(poWaiCore.connect(user1).setClaimOperator(operator.address, ALL_MODES))
+        .to.emit(poWaiCore, "ClaimOperatorUpdated")
+        .withArgs(user1.address, operator.address, ALL_MODES);
+      expect(await poWaiCore.claimOperators(user1.address, operator.address)).to.equal(ALL_MODES);
+
+      await expect(poWaiCore.connect(user1).setClaimOperator(operator.address, 0))
+        .to.emit(poWaiCore, "ClaimOperatorUpdated")
+        .withArgs(user1.address, operator.address, 0);
+      expect(await poWaiCore.claimOperators(user1.address, operator.address)).to.equal(0);
+
+      await expect(poWaiCore.connect(user1).setClaimOperator(ethers.ZeroAddress, ALL_MODES)).to.be.revertedWith(
+        "PoWaiCore: Invalid operator address"
+      );
+      await expect(poWaiCore.connect(user1).setClaimOperator(operator.address, ALL_MODES + 1)).to.be.revertedWith(
+        "PoWaiCore: Invalid claim modes"
+      );
+    });
+
+    it("Should only let approved operators claim for a user", async function () {
+      await moveTime(ONE_DAY_SECONDS);
+      await expect(poWaiCore.connect(operator).claimFor(user1.address, PAYOUT, 0)).to.be.revertedWith(
+        "PoWaiCore: Not an approved claim operator"
+      );
+
+      await poWaiCore.connect(user1).setClaimOperator(operator.address, ALL_MODES);
+      await poWaiCore.connect(user1).setClaimOperator(operator.address, 0);
+      await expect(poWaiCore.connect(operator).claimFor(user1.address, PAYOUT, 0)).to.be.revertedWith(
+        "PoWaiCore: Not an approved claim operator"
+      );
+      // Approval is per user: user1 approving nobody does not let user1 claim for the operator either
+      await expect(poWaiCore.connect(user1).claimFor(operator.address, PAYOUT, 0)).to.be.revertedWith(
+        "PoWaiCore: Not an approved claim operator"
+      );
+    });
+
+    it("Should only let an operator claim with the modes the user approved", async function () {
+      await poWaiCore.connect(user1).setClaimOperator(operator.address, modes(STAKE_MODE));
+      await moveTime(ONE_DAY_SECONDS);
+      await expect(poWaiCore.connect(operator).claimFor(user1.address, PAYOUT, 0)).to.be.revertedWith(
+        "PoWaiCore: Not an approved claim operator"
+      );
+      await expect(poWaiCore.connect(operator).claimFor(user1.address, BURN_MODE, 100)).to.be.revertedWith(
+        "PoWaiCore: Not an approved claim operator"
+      );
+
+      await claimFullDay(() => poWaiCore.connect(operator).claimFor(user1.address, STAKE_MODE, 0));
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(STAKE + FULL_DAY_REWARD);
+    });
+
+    it("Should pay out an operator's plain claim to the user", async function () {
+      await poWaiCore.connect(user1).setClaimOperator(operator.address, ALL_MODES);
+      const userBalance = await chronoFuel.balanceOf(user1.address);
+      const operatorBalance = await chronoFuel.balanceOf(operator.address);
+
+      const { requestId, requested } = await claimFullDay(() => poWaiCore.connect(operator).claimFor(user1.address, PAYOUT, 0));
+      const routed = await getEventArgs(requested, poWaiCore, "ClaimRouted");
+      expect([routed.user, routed.caller, routed.requestId, routed.mode]).to.deep.equal([user1.address, operator.address, requestId, BigInt(PAYOUT)]);
+
+      expect(await chronoFuel.balanceOf(user1.address)).to.equal(userBalance + FULL_DAY_REWARD);
+      expect(await chronoFuel.balanceOf(operator.address)).to.equal(operatorBalance);
+      expect(await poWaiCore.getUserLastClaimTime(operator.address)).to.equal(0);
+    });
+
+    it("Should let an operator compound for the user without ever holding the reward", async function () {
+      await poWaiCore.connect(user1).setClaimOperator(operator.address, ALL_MODES);
+      const operatorBalance = await chronoFuel.balanceOf(operator.address);
+
+      await claimFullDay(() => poWaiCore.connect(operator).claimFor(user1.address, STAKE_MODE, 0));
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(STAKE + FULL_DAY_REWARD);
+
+      const { settled } = await claimFullDay(() => poWaiCore.connect(operator).claimFor(user1.address, BURN_MODE, 50));
+      const burned = await getEventArgs(settled, poWaiCore, "RewardBurned");
+      expect(burned.user).to.equal(user1.address);
+      expect(await chronoFuel.getUserBurnedAmount(user1.address)).to.equal(burned.amountBurned);
+      expect(await poWaiCore.getUserBurnRecordCount(user1.address)).to.equal(1);
+
+      expect(await chronoFuel.balanceOf(operator.address)).to.equal(operatorBalance);
+      expect(await poWaiCore.getUserStakedAmount(operator.address)).to.equal(0);
+      expect(await chronoFuel.getUserBurnedAmount(operator.address)).to.equal(0);
+    });
+
+    it("Should ignore the burn share for operator claims that do not burn", async function () {
+      await poWaiCore.connect(user1).setClaimOperator(operator.address, ALL_MODES);
+      const { requested } = await claimFullDay(() => poWaiCore.connect(operator).claimFor(user1.address, STAKE_MODE, 500));
+      expect((await getEventArgs(requested, poWaiCore, "ClaimRouted")).burnPercent).to.equal(0);
+    });
+  });
+
+  describe("Replacing the randomness provider", function () {
+    // Leaves a claimAndStake pending on the current coordinator and switches to a fresh one, whose ids restart at 1
+    async function switchProviderWithPendingClaim() {
+      await moveTime(ONE_DAY_SECONDS);
+      const requested = await (await poWaiCore.connect(user1).claimAndStake()).wait();
+      const { requestId } = await getEventArgs(requested, poWaiCore, "RewardRequested");
+
+      randomnessCoordinator = await (await ethers.getContractFactory("MockRandomnessCoordinator")).deploy();
+      await randomnessCoordinator.waitForDeployment();
+      await poWaiCore.setRandomnessProvider(await randomnessCoordinator.getAddress());
+      return requestId;
+    }
+
+    it("Should not let a reused request id take over a pending claim", async function () {
+      const staleRequestId = await switchProviderWithPendingClaim();
+      expect(staleRequestId).to.equal(await randomnessCoordinator.nextRequestId());
+
+      await moveTime(ONE_DAY_SECONDS);
+      await expect(poWaiCore.connect(user1).claimReward()).to.be.revertedWith("PoWaiCore: Request id already pending");
+      expect((await poWaiCore.pendingClaims(staleRequestId)).user).to.equal(user1.address);
+    });
+
+    it("Should settle a reused request id with its own routing once the stale claim is discarded", async function () {
+      const staleRequestId = await switchProviderWithPendingClaim();
+      await expect(poWaiCore.discardPendingClaim(staleRequestId))
+        .to.emit(poWaiCore, "PendingClaimDiscarded")
+        .withArgs(user1.address, staleRequestId);
+      expect((await poWaiCore.pendingClaims(staleRequestId)).user).to.equal(ethers.ZeroAddress);
+      expect((await poWaiCore.claimRoutings(staleRequestId)).mode).to.equal(PAYOUT);
+
+      // The plain claim reuses the id and is paid out, not staked as the discarded claimAndStake would have been
+      const balanceBefore = await chronoFuel.balanceOf(user1.address);
+      const { requestId, settled } = await claimFullDay(() => poWaiCore.connect(user1).claimReward());
+      expect(requestId).to.equal(staleRequestId);
+      expect(findEvents(settled!, poWaiCore, "RewardStaked")).to.have.lengthOf(0);
+      expect(await chronoFuel.balanceOf(user1.address)).to.equal(balanceBefore + FULL_DAY_REWARD);
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(STAKE);
+    });
+
+    it("Should only let an admin discard a pending claim", async function () {
+      const staleRequestId = await switchProviderWithPendingClaim();
+      await expect(poWaiCore.connect(user1).discardPendingClaim(staleRequestId)).to.be.revertedWithCustomError(
+        poWaiCore,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(poWaiCore.discardPendingClaim(staleRequestId + 1n)).to.be.revertedWith("PoWaiCore: Unknown or settled request");
+    });
+  });
+
+  describe("ChronoFuel.burnFor", function () {
+    it("Should only let the minter burn its own CFL on a user's behalf", async function () {
+      await expect(chronoFuel.connect(user1).burnFor(user1.address, toWei(1))).to.be.revertedWithCustomError(
+        chronoFuel,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+});
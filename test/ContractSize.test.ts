@@ -0,0 +1,44 @@
+// test/ContractSize.test.ts
+
+import { expect } from "chai";
+import { artifacts } from "hardhat";
+
+// EIP-170: mainnet (and Monad) refuse to deploy runtime bytecode larger than this
+const MAX_RUNTIME_SIZE_BYTES = 24576;
+// PoWaiCore grows with every feature; keep room for the next one instead of finding out at deploy time.
+// previewClaim stays on PoWaiCore, so what is left is small: move views to PoWaiLens before adding more
+const POWAI_CORE_HEADROOM_BYTES = 256;
+
+const DEPLOYED_CONTRACTS = [
+  "ChronoFuel",
+  "AdaptiveHalving",
+  "PoWaiCore",
+  "PoWaiLens",
+  "DaoPoints",
+  "PoWaiGovernor",
+  "PoWaiForwarder",
+  "BurnCertificateNFT",
+  "MerkleAirdropDistributor",
+  "PoWaiProxy",
+];
+
+async function runtimeSize(contractName: string): Promise<number> {
+  const artifact = await artifacts.readArtifact(contractName);
+  return (artifact.deployedBytecode.length - 2) / 2;
+}
+
+describe("Contract sizes", function () {
+  for (const contractName of DEPLOYED_CONTRACTS) {
+    it(`Should keep ${contractName} under the EIP-170 limit`, async function () {
+      expect(await runtimeSize(contractName)).to.be.at.most(MAX_RUNTIME_SIZE_BYTES);
+    });
+  }
+
+  it(`Should keep ${POWAI_CORE_HEADROOM_BYTES} bytes of headroom in PoWaiCore`, async function () {
+    expect(await runtimeSize("PoWaiCore")).to.be.at.most(MAX_RUNTIME_SIZE_BYTES - POWAI_CORE_HEADROOM_BYTES);
+  });
+
+  it("Should keep the PoWaiCore test harness deployable", async function () {
+    expect(await runtimeSize("PoWaiCoreHarness")).to.be.at.most(MAX_RUNTIME_SIZE_BYTES);
+  });
+});
@@ -0,0 +1,205 @@
+// test/EmissionLimits.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuelMock, PoWaiCore, AdaptiveHalving, MockRandomnessCoordinator } from "../typechain-types";
+import { PoWaiClient } from "../scripts/sdk/client";
+import { TIER_ROLLS } from "../scripts/sdk/tiers";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiMockFixture } from "./fixtures";
+
+describe("Emission limits", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+  let client: PoWaiClient;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  const ONE_DAY_SECONDS = 24 * 3600;
+  const INITIAL_SUPPLY = toWei(21_000_000);
+  // A claim after a full day with 100-999 CFL staked: 24 CFL * 3x stake boost
+  const FULL_DAY_REWARD = toWei(72);
+
+  before(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+  });
+
+  // Claims for `user` after a full day, settles on the Common tier and returns the settled claim
+  async function claimFullDay(user: SignerWithAddress) {
+    await moveTime(ONE_DAY_SECONDS);
+    return client.connect(user).claim({ settle: (requestId) => randomnessCoordinator.fulfillRandomness(requestId, TIER_ROLLS.Common) });
+  }
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiMockFixture));
+    client = new PoWaiClient(owner, {
+      ChronoFuel: await chronoFuel.getAddress(),
+      AdaptiveHalving: await adaptiveHalving.getAddress(),
+      PoWaiCore: await poWaiCore.getAddress(),
+    });
+
+    for (const user of [user1, user2]) {
+      await chronoFuel.connect(owner).transfer(user.address, toWei(1000));
+      await chronoFuel.connect(user).approve(await poWaiCore.getAddress(), toWei(1000));
+      await poWaiCore.connect(user).stake(toWei(100));
+    }
+  });
+
+  describe("Configuration", function () {
+    it("Should start with the default limits and expose what is left of them", async function () {
+      expect(await chronoFuel.maxSupply()).to.equal(toWei(210_000_000));
+      expect(await chronoFuel.epochEmissionBudget()).to.equal(toWei(42_000_000));
+      expect(await chronoFuel.remainingSupply()).to.equal(toWei(210_000_000) - INITIAL_SUPPLY);
+      expect(await adaptiveHalving.remainingEpochBudget()).to.equal(toWei(42_000_000));
+      expect(await poWaiCore.remainingEpochBudget()).to.equal(toWei(42_000_000));
+
+      await chronoFuel.simulateMining(owner.address, toWei(1_000_000));
+      expect(await chronoFuel.remainingSupply()).to.equal(toWei(210_000_000 - 22_000_000));
+      expect(await adaptiveHalving.remainingEpochBudget()).to.equal(toWei(41_000_000));
+    });
+
+    it("Should only let the admin lower the max supply, never raise it or go below the mined supply", async function () {
+      await expect(chronoFuel.connect(user1).setMaxSupply(toWei(100_000_000))).to.be.revertedWithCustomError(
+        chronoFuel,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(chronoFuel.setMaxSupply(toWei(210_000_001))).to.be.revertedWith("ChronoFuel: Max supply can only be lowered");
+      await expect(chronoFuel.setMaxSupply(INITIAL_SUPPLY - 1n)).to.be.revertedWith("ChronoFuel: Max supply below mined supply");
+
+      await expect(chronoFuel.setMaxSupply(toWei(100_000_000))).to.emit(chronoFuel, "MaxSupplyUpdated").withArgs(toWei(100_000_000));
+      await expect(chronoFuel.setMaxSupply(toWei(100_000_001))).to.be.revertedWith("ChronoFuel: Max supply can only be lowered");
+    });
+
+    it("Should let the admin set a positive epoch emission budget", async function () {
+      await expect(chronoFuel.connect(user1).setEpochEmissionBudget(toWei(1))).to.be.revertedWithCustomError(
+        chronoFuel,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(chronoFuel.setEpochEmissionBudget(0)).to.be.revertedWith("ChronoFuel: Epoch emission budget must be positive");
+      await expect(chronoFuel.setEpochEmissionBudget(toWei(50_000_000)))
+        .to.emit(chronoFuel, "EpochEmissionBudgetUpdated")
+        .withArgs(toWei(50_000_000));
+      expect(await adaptiveHalving.remainingEpochBudget()).to.equal(toWei(50_000_000));
+    });
+
+    it("Should not let any minter mint past the max supply", async function () {
+      await chronoFuel.grantRole(await chronoFuel.MINTER_ROLE(), owner.address);
+      await chronoFuel.setMaxSupply(INITIAL_SUPPLY + toWei(10));
+      await expect(chronoFuel._mintTokens(owner.address, toWei(11))).to.be.revertedWith("ChronoFuel: Max supply exceeded");
+      await chronoFuel._mintTokens(owner.address, toWei(10));
+      expect(await chronoFuel.remainingSupply()).to.equal(0);
+    });
+  });
+
+  describe("Max supply", function () {
+    it("Should mint claims up to the cap, pro-rate the claim that reaches it and keep claims working after", async function () {
+      const cap = INITIAL_SUPPLY + toWei(200);
+      await chronoFuel.setMaxSupply(cap);
+
+      // 72 + 72 fit; the third claim only gets the 56 CFL left
+      expect((await claimFullDay(user1)).minted).to.equal(FULL_DAY_REWARD);
+      expect((await claimFullDay(user2)).minted).to.equal(FULL_DAY_REWARD);
+      const capped = await claimFullDay(user1);
+      expect(capped.reward).to.equal(FULL_DAY_REWARD);
+      expect(capped.minted).to.equal(toWei(56));
+      expect(capped.deferred).to.equal(0);
+      expect(capped.remainingSupply).to.equal(0);
+      expect(await chronoFuel.getTotalMinedTokens()).to.equal(cap);
+
+      // At the cap claims still settle, they just mint nothing
+      const balanceBefore = await chronoFuel.balanceOf(user2.address);
+      const afterCap = await claimFullDay(user2);
+      expect(afterCap.reward).to.equal(FULL_DAY_REWARD);
+      expect(afterCap.minted).to.equal(0);
+      expect(afterCap.deferred).to.equal(0);
+      expect(await chronoFuel.balanceOf(user2.address)).to.equal(balanceBefore);
+      expect(await chronoFuel.getTotalMinedTokens()).to.equal(cap);
+      expect(await chronoFuel.totalSupply()).to.equal(cap);
+    });
+
+    it("Should keep the cap after burns: burned CFL is not mined again", async function () {
+      await chronoFuel.setMaxSupply(INITIAL_SUPPLY + toWei(72));
+      await claimFullDay(user1);
+      expect(await chronoFuel.remainingSupply()).to.equal(0);
+
+      await poWaiCore.connect(user1).boostBurn(toWei(50));
+      expect(await chronoFuel.remainingSupply()).to.equal(0);
+      expect((await claimFullDay(user2)).minted).to.equal(0);
+    });
+  });
+
+  describe("Epoch emission budget", function () {
+    it("Should defer the part of a claim above the epoch budget and end the epoch", async function () {
+      await chronoFuel.setEpochEmissionBudget(toWei(100));
+
+      const first = await claimFullDay(user1);
+      expect(first.minted).to.equal(FULL_DAY_REWARD);
+      expect(first.remainingEpochBudget).to.equal(toWei(28));
+
+      const second = await claimFullDay(user2);
+      expect(second.reward).to.equal(FULL_DAY_REWARD);
+      expect(second.minted).to.equal(toWei(28));
+      expect(second.deferred).to.equal(toWei(44));
+      expect(await poWaiCore.deferredRewards(user2.address)).to.equal(toWei(44));
+      expect(await poWaiCore.totalDeferredRewards()).to.equal(toWei(44));
+
+      // Spending the budget ended the epoch, so the next epoch starts with a full budget
+      expect(await adaptiveHalving.getHalvingCount()).to.equal(1);
+      expect(second.remainingEpochBudget).to.equal(toWei(100));
+      const [due, minedThisEpoch, threshold] = await adaptiveHalving.getHalvingStatus();
+      expect([due, minedThisEpoch, threshold]).to.deep.equal([false, 0n, toWei(100)]);
+    });
+
+    it("Should mint deferred rewards from the next epoch's budget", async function () {
+      await chronoFuel.setEpochEmissionBudget(toWei(100));
+      await claimFullDay(user1);
+      await claimFullDay(user2); // 44 CFL deferred
+
+      const balanceBefore = await chronoFuel.balanceOf(user2.address);
+      await expect(poWaiCore.connect(user2).claimDeferredRewards())
+        .to.emit(poWaiCore, "DeferredRewardsClaimed")
+        .withArgs(user2.address, toWei(44), 0);
+      expect(await chronoFuel.balanceOf(user2.address)).to.equal(balanceBefore + toWei(44));
+      expect(await poWaiCore.deferredRewards(user2.address)).to.equal(0);
+      expect(await poWaiCore.totalDeferredRewards()).to.equal(0);
+      expect(await adaptiveHalving.remainingEpochBudget()).to.equal(toWei(56));
+
+      await expect(poWaiCore.connect(user2).claimDeferredRewards()).to.be.revertedWith("PoWaiCore: No deferred rewards");
+    });
+
+    it("Should keep deferring what the current epoch cannot mint", async function () {
+      await chronoFuel.setEpochEmissionBudget(toWei(100));
+      await claimFullDay(user1);
+      await claimFullDay(user2); // 44 CFL deferred, new epoch
+      // CFL mined outside PoWaiCore leaves 30 CFL in this epoch
+      await chronoFuel.simulateMining(owner.address, toWei(70));
+
+      await expect(poWaiCore.connect(user2).claimDeferredRewards())
+        .to.emit(poWaiCore, "DeferredRewardsClaimed")
+        .withArgs(user2.address, toWei(30), toWei(14));
+      expect(await poWaiCore.deferredRewards(user2.address)).to.equal(toWei(14));
+      expect(await adaptiveHalving.getHalvingCount()).to.equal(2);
+
+      await poWaiCore.connect(user2).claimDeferredRewards();
+      expect(await poWaiCore.deferredRewards(user2.address)).to.equal(0);
+    });
+
+    it("Should forfeit deferred rewards that no longer fit under the max supply", async function () {
+      await chronoFuel.setEpochEmissionBudget(toWei(100));
+      await claimFullDay(user1);
+      await claimFullDay(user2); // 44 CFL deferred
+      await chronoFuel.setMaxSupply((await chronoFuel.getTotalMinedTokens()) + toWei(10));
+
+      await expect(poWaiCore.connect(user2).claimDeferredRewards())
+        .to.emit(poWaiCore, "DeferredRewardsClaimed")
+        .withArgs(user2.address, toWei(10), 0);
+      expect(await poWaiCore.totalDeferredRewards()).to.equal(0);
+      expect(await chronoFuel.remainingSupply()).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+// test/Governance.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ChronoFuel,
+  PoWaiCore,
+  AdaptiveHalving,
+  MockRandomnessCoordinator,
+  DaoPoints,
+  PoWaiGovernor,
+  TimelockController,
+} from "../typechain-types";
+import { getEventArgs } from "../scripts/sdk/events";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiFixture } from "./fixtures";
+
+// Helper function to mine blocks (voting delay and period are measured in blocks)
+async function mineBlocks(count: number) {
+  await ethers.provider.send("hardhat_mine", [ethers.toQuantity(count)]);
+}
+
+describe("DAO points governance", function () {
+  let chronoFuel: ChronoFuel;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+  let daoPoints: DaoPoints;
+  let timelock: TimelockController;
+  let governor: PoWaiGovernor;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let keeper: SignerWithAddress;
+
+  const DEFAULT_ADMIN_ROLE = ethers.ZeroHash;
+  const VOTING_DELAY = 1; // Blocks
+  const VOTING_PERIOD = 20; // Blocks
+  const TIMELOCK_MIN_DELAY = 3600; // Seconds
+  const QUORUM_PERCENT = 4;
+  const VOTE_FOR = 1;
+
+  // ProposalState enum values from IGovernor
+  const ProposalState = { Pending: 0n, Active: 1n, Defeated: 3n, Succeeded: 4n, Queued: 5n, Executed: 7n };
+
+  before(async function () {
+    [owner, user1, user2, keeper] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiFixture));
+
+    const DaoPointsFactory = await ethers.getContractFactory("DaoPoints");
+    daoPoints = await DaoPointsFactory.deploy();
+    await daoPoints.waitForDeployment();
+    await daoPoints.setPoWaiCoreContract(await poWaiCore.getAddress());
+    await poWaiCore.setDaoPointsContract(await daoPoints.getAddress());
+
+    const TimelockFactory = await ethers.getContractFactory("TimelockController");
+    timelock = await TimelockFactory.deploy(TIMELOCK_MIN_DELAY, [], [ethers.ZeroAddress], owner.address);
+    await timelock.waitForDeployment();
+
+    const GovernorFactory = await ethers.getContractFactory("PoWaiGovernor");
+    governor = await GovernorFactory.deploy(
+      await daoPoints.getAddress(),
+      await timelock.getAddress(),
+      VOTING_DELAY,
+      VOTING_PERIOD,
+      0,
+      QUORUM_PERCENT
+    );
+    await governor.waitForDeployment();
+    await timelock.grantRole(await timelock.PROPOSER_ROLE(), await governor.getAddress());
+    await timelock.grantRole(await timelock.CANCELLER_ROLE(), await governor.getAddress());
+    await timelock.renounceRole(DEFAULT_ADMIN_ROLE, owner.address);
+
+    for (const user of [user1, user2]) {
+      await chronoFuel.connect(owner).transfer(user.address, toWei(2000));
+      await chronoFuel.connect(user).approve(await poWaiCore.getAddress(), toWei(2000));
+    }
+  });
+
+  // Makes the timelock the only admin of PoWaiCore and AdaptiveHalving
+  async function handOverToTimelock() {
+    const timelockAddress = await timelock.getAddress();
+    await poWaiCore.grantRole(DEFAULT_ADMIN_ROLE, timelockAddress);
+    await adaptiveHalving.grantRole(DEFAULT_ADMIN_ROLE, timelockAddress);
+    await poWaiCore.renounceRole(DEFAULT_ADMIN_ROLE, owner.address);
+    await adaptiveHalving.renounceRole(await adaptiveHalving.HALVING_OPERATOR_ROLE(), owner.address);
+    await adaptiveHalving.renounceRole(DEFAULT_ADMIN_ROLE, owner.address);
+  }
+
+  // Creates a proposal from user1 and returns its id
+  async function propose(targets: string[], calldatas: string[], description: string) {
+    const values = targets.map(() => 0n);
+    const tx = await governor.connect(user1).propose(targets, values, calldatas, description);
+    const { proposalId } = await getEventArgs(await tx.wait(), governor, "ProposalCreated");
+    return proposalId as bigint;
+  }
+
+  // Runs a proposal through propose -> vote (user1 for) -> queue -> execute
+  async function proposeAndExecute(targets: string[], calldatas: string[], description: string) {
+    const values = targets.map(() => 0n);
+    const descriptionHash = ethers.id(description);
+    const proposalId = await propose(targets, calldatas, description);
+
+    await mineBlocks(VOTING_DELAY + 1);
+    await governor.connect(user1).castVote(proposalId, VOTE_FOR);
+    await mineBlocks(VOTING_PERIOD);
+    expect(await governor.state(proposalId)).to.equal(ProposalState.Succeeded);
+
+    await governor.queue(targets, values, calldatas, descriptionHash);
+    expect(await governor.state(proposalId)).to.equal(ProposalState.Queued);
+    await moveTime(TIMELOCK_MIN_DELAY);
+
+    const tx = await governor.execute(targets, values, calldatas, descriptionHash);
+    expect(await governor.state(proposalId)).to.equal(ProposalState.Executed);
+    return tx;
+  }
+
+  describe("DaoPoints", function () {
+    it("Should credit 4 points per CFL burned as self-delegated voting power", async function () {
+      await poWaiCore.connect(user1).boostBurn(toWei(100));
+
+      expect(await daoPoints.pointsOf(user1.address)).to.equal(400);
+      expect(await daoPoints.delegates(user1.address)).to.equal(user1.address);
+      expect(await daoPoints.getVotes(user1.address)).to.equal(400);
+      expect(await daoPoints.totalPoints()).to.equal(400);
+
+      const record = await poWaiCore.getUserBurnRecord(user1.address, 0);
+      expect(record.daoPoints).to.equal(400);
+    });
+
+    it("Should checkpoint voting power by block", async function () {
+      await poWaiCore.connect(user1).boostBurn(toWei(10));
+      const firstBlock = await ethers.provider.getBlockNumber();
+      await poWaiCore.connect(user1).boostBurn(toWei(15));
+      await mineBlocks(1);
+
+      expect(await daoPoints.getPastVotes(user1.address, firstBlock - 1)).to.equal(0);
+      expect(await daoPoints.getPastVotes(user1.address, firstBlock)).to.equal(40);
+      expect(await daoPoints.getVotes(user1.address)).to.equal(100);
+      expect(await daoPoints.getPastTotalSupply(firstBlock)).to.equal(40);
+    });
+
+    it("Should let holders delegate their points", async function () {
+      await poWaiCore.connect(user1).boostBurn(toWei(10));
+      await daoPoints.connect(user1).delegate(user2.address);
+
+      expect(await daoPoints.getVotes(user1.address)).to.equal(0);
+      expect(await daoPoints.getVotes(user2.address)).to.equal(40);
+      expect(await daoPoints.pointsOf(user1.address)).to.equal(40);
+    });
+
+    it("Should only let PoWaiCore issue points", async function () {
+      await expect(daoPoints.connect(owner).issue(owner.address, 1000))
+        .to.be.revertedWithCustomError(daoPoints, "AccessControlUnauthorizedAccount")
+        .withArgs(owner.address, await daoPoints.POINTS_ISSUER_ROLE());
+    });
+  });
+
+  describe("Governed parameters", function () {
+    it("Should let the admin tune the reward tiers", async function () {
+      await expect(poWaiCore.setRewardTiers([50, 30, 15, 5], [10, 20, 40, 100]))
+        .to.emit(poWaiCore, "RewardTiersUpdated");
+      expect(await poWaiCore.tierProbabilities(0)).to.equal(50);
+      expect(await poWaiCore.tierMultipliersScaled(3)).to.equal(100);
+    });
+
+    it("Should reject reward tiers whose probabilities do not sum to 100", async function () {
+      await expect(poWaiCore.setRewardTiers([50, 30, 15, 4], [10, 18, 35, 80]))
+        .to.be.revertedWith("PoWaiCore: Tier probabilities must sum to 100");
+      await expect(poWaiCore.setRewardTiers([70, 22, 7, 1], [10, 0, 35, 80]))
+        .to.be.revertedWith("PoWaiCore: Invalid tier multiplier");
+    });
+
+    it("Should apply new cooldown bounds to the effective cooldown", async function () {
+      await poWaiCore.setCooldownBounds(30, 600);
+      expect(await poWaiCore.getEffectiveCooldown()).to.equal(600);
+
+      await expect(poWaiCore.setCooldownBounds(600, 30))
+        .to.be.revertedWith("PoWaiCore: Invalid cooldown bounds");
+    });
+
+    it("Should apply a new max wait and burn factor to claim previews", async function () {
+      await poWaiCore.connect(user1).stake(toWei(100));
+      await poWaiCore.connect(user1).boostBurn(toWei(100));
+      await poWaiCore.setMaxWaitHours(48);
+      await poWaiCore.setBurnFactorNumerator(10); // 1.0 * sqrt(100) => 11x burn boost
+
+      const preview = await poWaiCore.previewClaim(user1.address);
+      expect(preview.timeReward).to.equal(toWei(48));
+      expect(preview.burnBoostScaled).to.equal(11n * 10n ** 10n);
+
+      await expect(poWaiCore.setMaxWaitHours(0)).to.be.revertedWith("PoWaiCore: Invalid max wait hours");
+      await expect(poWaiCore.setBurnFactorNumerator(51)).to.be.revertedWith("PoWaiCore: Burn factor too high");
+    });
+
+    it("Should reject parameter changes from a non-admin", async function () {
+      await expect(poWaiCore.connect(user1).setMaxWaitHours(48))
+        .to.be.revertedWithCustomError(poWaiCore, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, DEFAULT_ADMIN_ROLE);
+    });
+  });
+
+  describe("Proposal lifecycle", function () {
+    beforeEach(async function () {
+      await poWaiCore.connect(user1).boostBurn(toWei(100)); // 400 points
+      await poWaiCore.connect(user2).boostBurn(toWei(10)); // 40 points
+      await handOverToTimelock();
+    });
+
+    it("Should hand the admin roles over to the timelock", async function () {
+      const timelockAddress = await timelock.getAddress();
+      expect(await poWaiCore.hasRole(DEFAULT_ADMIN_ROLE, timelockAddress)).to.equal(true);
+      expect(await adaptiveHalving.hasRole(DEFAULT_ADMIN_ROLE, timelockAddress)).to.equal(true);
+      expect(await poWaiCore.hasRole(DEFAULT_ADMIN_ROLE, owner.address)).to.equal(false);
+      expect(await adaptiveHalving.hasRole(DEFAULT_ADMIN_ROLE, owner.address)).to.equal(false);
+
+      await expect(poWaiCore.connect(owner).setMaxWaitHours(48))
+        .to.be.revertedWithCustomError(poWaiCore, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should tune governed parameters through propose, vote, queue and execute", async function () {
+      const target = await poWaiCore.getAddress();
+      const calldatas = [
+        poWaiCore.interface.encodeFunctionData("setRewardTiers", [[60, 25, 12, 3], [10, 20, 40, 100]]),
+        poWaiCore.interface.encodeFunctionData("setMaxWaitHours", [48]),
+        poWaiCore.interface.encodeFunctionData("setCooldownBounds", [30, 600]),
+        poWaiCore.interface.encodeFunctionData("setBurnFactorNumerator", [5]),
+      ];
+
+      const tx = await proposeAndExecute([target, target, target, target], calldatas, "PIP-1: Retune PoWai rewards");
+      await expect(tx).to.emit(poWaiCore, "RewardTiersUpdated");
+
+      expect(await poWaiCore.tierProbabilities(0)).to.equal(60);
+      expect(await poWaiCore.tierMultipliersScaled(3)).to.equal(100);
+      expect(await poWaiCore.maxWaitHours()).to.equal(48);
+      expect(await poWaiCore.minCooldownSeconds()).to.equal(30);
+      expect(await poWaiCore.maxCooldownSeconds()).to.equal(600);
+      expect(await poWaiCore.burnFactorNumerator()).to.equal(5);
+    });
+
+    it("Should pay claims with the reward tiers set by governance", async function () {
+      const calldata = poWaiCore.interface.encodeFunctionData("setRewardTiers", [[60, 25, 12, 3], [10, 20, 40, 100]]);
+      await proposeAndExecute([await poWaiCore.getAddress()], [calldata], "PIP-2: New reward tiers");
+
+      await poWaiCore.connect(user1).stake(toWei(100));
+      await moveTime(24 * 3600);
+      const requestTx = await poWaiCore.connect(user1).claimReward();
+      const { requestId, mintPower } = await getEventArgs(await requestTx.wait(), poWaiCore, "RewardRequested");
+
+      // A roll of 60 is Rare under the new 60/25/12/3 split (it was Common under 70/22/7/1)
+      const receipt = await (await randomnessCoordinator.fulfillRandomness(requestId, 60n)).wait();
+      const args = await getEventArgs(receipt, poWaiCore, "RewardClaimed");
+      expect(args.rewardTierId).to.equal(1);
+      expect(args.finalReward).to.equal(mintPower * 2n);
+    });
+
+    it("Should manage AdaptiveHalving roles through governance", async function () {
+      const operatorRole = await adaptiveHalving.HALVING_OPERATOR_ROLE();
+      const calldata = adaptiveHalving.interface.encodeFunctionData("grantRole", [operatorRole, keeper.address]);
+      await proposeAndExecute([await adaptiveHalving.getAddress()], [calldata], "PIP-3: Add a halving keeper");
+
+      expect(await adaptiveHalving.hasRole(operatorRole, keeper.address)).to.equal(true);
+    });
+
+    it("Should count votes at the proposal snapshot, ignoring points earned afterwards", async function () {
+      const calldata = poWaiCore.interface.encodeFunctionData("setMaxWaitHours", [48]);
+      const proposalId = await propose([await poWaiCore.getAddress()], [calldata], "PIP-4: Longer max wait");
+      await mineBlocks(VOTING_DELAY + 1);
+
+      await poWaiCore.connect(user2).boostBurn(toWei(1000)); // +4000 points after the snapshot
+      await governor.connect(user2).castVote(proposalId, VOTE_FOR);
+
+      const { forVotes } = await governor.proposalVotes(proposalId);
+      expect(forVotes).to.equal(40);
+    });
+
+    it("Should not queue a proposal that missed quorum", async function () {
+      const targets = [await poWaiCore.getAddress()];
+      const calldatas = [poWaiCore.interface.encodeFunctionData("setMaxWaitHours", [48])];
+      const description = "PIP-5: Nobody votes";
+      const proposalId = await propose(targets, calldatas, description);
+
+      await mineBlocks(VOTING_DELAY + VOTING_PERIOD + 1);
+      expect(await governor.state(proposalId)).to.equal(ProposalState.Defeated);
+      await expect(governor.queue(targets, [0n], calldatas, ethers.id(description)))
+        .to.be.revertedWithCustomError(governor, "GovernorUnexpectedProposalState");
+    });
+
+    it("Should not let anyone bypass the timelock delay", async function () {
+      const targets = [await poWaiCore.getAddress()];
+      const calldatas = [poWaiCore.interface.encodeFunctionData("setMaxWaitHours", [48])];
+      const description = "PIP-6: Too early";
+      const proposalId = await propose(targets, calldatas, description);
+
+      await mineBlocks(VOTING_DELAY + 1);
+      await governor.connect(user1).castVote(proposalId, VOTE_FOR);
+      await mineBlocks(VOTING_PERIOD);
+      await governor.queue(targets, [0n], calldatas, ethers.id(description));
+
+      await expect(governor.execute(targets, [0n], calldatas, ethers.id(description)))
+        .to.be.revertedWithCustomError(timelock, "TimelockUnexpectedOperationState");
+    });
+  });
+});
@@ -0,0 +1,155 @@
+// test/Halving.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuelMock, PoWaiCore, AdaptiveHalving, MockRandomnessCoordinator } from "../typechain-types";
+import { getEventArgs } from "../scripts/sdk/events";
+import { TIER_ROLLS } from "../scripts/sdk/tiers";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiMockFixture } from "./fixtures";
+
+describe("Halving emissions", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+
+  const PRECISION_FACTOR = 10n ** 10n;
+  const HALVING_THRESHOLD = toWei(21_000_000);
+  const ONE_DAY_SECONDS = 24 * 3600;
+  // 24h of waiting with a 100 CFL stake: 24 CFL * 3x stake boost
+  const FULL_DAY_MINT_POWER = toWei(72);
+
+  before(async function () {
+    [owner, user1] = await ethers.getSigners();
+  });
+
+  // Requests a reward for user1 and returns the transaction plus its randomness request id
+  async function requestClaim() {
+    const tx = await poWaiCore.connect(user1).claimReward();
+    const { requestId } = await getEventArgs(await tx.wait(), poWaiCore, "RewardRequested");
+    return { tx, requestId };
+  }
+
+  // Claims for user1 and settles the claim on the Common tier
+  async function claimAndFulfill() {
+    const { requestId } = await requestClaim();
+    return randomnessCoordinator.fulfillRandomness(requestId, TIER_ROLLS.Common);
+  }
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiMockFixture));
+
+    await chronoFuel.connect(owner).transfer(user1.address, toWei(1000));
+    await chronoFuel.connect(user1).approve(await poWaiCore.getAddress(), toWei(1000));
+    await poWaiCore.connect(user1).stake(toWei(100));
+    await claimAndFulfill(); // Sets lastClaimTimestamp
+  });
+
+  it("Should not count the initial supply towards the first halving", async function () {
+    expect(await adaptiveHalving.halvingEpochStartMined()).to.equal(toWei(21_000_000));
+    expect(await adaptiveHalving.halvingCount()).to.equal(0);
+    expect(await adaptiveHalving.getEmissionFactor()).to.equal(PRECISION_FACTOR);
+  });
+
+  it("Should pay unscaled rewards and report a 1.0x factor before any halving", async function () {
+    await moveTime(ONE_DAY_SECONDS);
+    const receipt = await (await claimAndFulfill()).wait();
+    const args = await getEventArgs(receipt!, poWaiCore, "RewardClaimed");
+
+    expect(args.halvingFactor).to.equal(PRECISION_FACTOR);
+    expect(args.baseMintPower).to.be.closeTo(FULL_DAY_MINT_POWER, toWei(0.01));
+  });
+
+  it("Should trigger the halving when a claim settles after mining crosses the threshold", async function () {
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+
+    await moveTime(ONE_DAY_SECONDS);
+    await expect(claimAndFulfill())
+      .to.emit(adaptiveHalving, "HalvingTriggered");
+
+    expect(await adaptiveHalving.halvingCount()).to.equal(1);
+    expect(await adaptiveHalving.getEmissionFactor()).to.equal(PRECISION_FACTOR / 2n); // 50% halving rate
+  });
+
+  it("Should report in getHalvingStatus whether checkAndApplyHalving would halve", async function () {
+    const [due, minedThisEpoch, threshold] = await adaptiveHalving.getHalvingStatus();
+    expect(due).to.equal(false);
+    expect(threshold).to.equal(HALVING_THRESHOLD);
+
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD - minedThisEpoch);
+    expect((await adaptiveHalving.getHalvingStatus()).due).to.equal(true);
+
+    await adaptiveHalving.connect(owner).checkAndApplyHalving();
+    const after = await adaptiveHalving.getHalvingStatus();
+    expect(after.due).to.equal(false);
+    expect(after.minedThisEpoch).to.equal(0);
+  });
+
+  it("Should only halve once per crossed threshold", async function () {
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    await moveTime(ONE_DAY_SECONDS);
+    await claimAndFulfill();
+
+    await moveTime(ONE_DAY_SECONDS);
+    await expect(claimAndFulfill())
+      .to.not.emit(adaptiveHalving, "HalvingTriggered");
+    expect(await adaptiveHalving.halvingCount()).to.equal(1);
+  });
+
+  it("Should scale the mint power of later claims by the halving factor", async function () {
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    await adaptiveHalving.connect(owner).checkAndApplyHalving();
+
+    await moveTime(ONE_DAY_SECONDS);
+    const receipt = await (await claimAndFulfill()).wait();
+    const args = await getEventArgs(receipt!, poWaiCore, "RewardClaimed");
+
+    expect(args.halvingFactor).to.equal(PRECISION_FACTOR / 2n);
+    expect(args.baseMintPower).to.be.closeTo(FULL_DAY_MINT_POWER / 2n, toWei(0.01));
+  });
+
+  it("Should compound the emission factor over successive halvings", async function () {
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    await adaptiveHalving.connect(owner).checkAndApplyHalving();
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    await adaptiveHalving.connect(owner).checkAndApplyHalving();
+
+    expect(await adaptiveHalving.halvingCount()).to.equal(2);
+    expect(await adaptiveHalving.getEmissionFactor()).to.equal(PRECISION_FACTOR / 4n);
+  });
+
+  it("Should exempt one claim for a shield holder and consume the shield", async function () {
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    await adaptiveHalving.connect(owner).checkAndApplyHalving();
+    await adaptiveHalving.connect(owner).grantAntiHalvingShield(user1.address);
+
+    await moveTime(ONE_DAY_SECONDS);
+    const { tx, requestId } = await requestClaim();
+    await expect(tx).to.emit(adaptiveHalving, "AntiHalvingShieldConsumed").withArgs(user1.address);
+    const fulfillReceipt = await (await randomnessCoordinator.fulfillRandomness(requestId, TIER_ROLLS.Common)).wait();
+    const args = await getEventArgs(fulfillReceipt, poWaiCore, "RewardClaimed");
+
+    expect(args.halvingFactor).to.equal(PRECISION_FACTOR);
+    expect(args.baseMintPower).to.be.closeTo(FULL_DAY_MINT_POWER, toWei(0.01));
+    expect(await adaptiveHalving.hasAntiHalvingShield(user1.address)).to.equal(false);
+
+    // The shield is gone, so the next claim is halved again
+    await moveTime(ONE_DAY_SECONDS);
+    const nextArgs = await getEventArgs(await (await claimAndFulfill()).wait(), poWaiCore, "RewardClaimed");
+    expect(nextArgs.halvingFactor).to.equal(PRECISION_FACTOR / 2n);
+  });
+
+  it("Should keep the shield while no halving is in effect", async function () {
+    await adaptiveHalving.connect(owner).grantAntiHalvingShield(user1.address);
+
+    await moveTime(ONE_DAY_SECONDS);
+    await expect(claimAndFulfill())
+      .to.not.emit(adaptiveHalving, "AntiHalvingShieldConsumed");
+    expect(await adaptiveHalving.hasAntiHalvingShield(user1.address)).to.equal(true);
+  });
+});
@@ -0,0 +1,272 @@
+// test/Indexer.test.ts
+
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "hardhat";
+import { Filter } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuelMock, PoWaiCore, AdaptiveHalving, MockRandomnessCoordinator } from "../typechain-types";
+import { PoWaiIndexer } from "../scripts/indexer/indexer";
+import { IndexerStore } from "../scripts/indexer/store";
+import { halvingHistory, summarise, tierDistribution, topBurners, userActivity } from "../scripts/indexer/queries";
+import { runQuery } from "../scripts/indexer/query";
+import { deployProxy } from "../scripts/upgrades/proxies";
+import { getEventArgs } from "../scripts/sdk/events";
+import { TIER_ROLLS } from "../scripts/sdk/tiers";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiMockFixture } from "./fixtures";
+
+describe("PoWai event indexer", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  let dbDir: string;
+  let dbPath: string;
+  let startBlock: number;
+
+  const HALVING_THRESHOLD = toWei(21_000_000);
+  const ONE_DAY_SECONDS = 24 * 3600;
+
+  before(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+  });
+
+  // Claims for `user` and settles the claim with `roll`
+  async function claimAndFulfill(user: SignerWithAddress, roll: bigint) {
+    const tx = await poWaiCore.connect(user).claimReward();
+    const { requestId } = await getEventArgs(await tx.wait(), poWaiCore, "RewardRequested");
+    await randomnessCoordinator.fulfillRandomness(requestId, roll);
+  }
+
+  async function newIndexer(options: { blockChunk?: number } = {}) {
+    return PoWaiIndexer.forPoWaiCore(ethers.provider, IndexerStore.open(dbPath), await poWaiCore.getAddress(), {
+      startBlock,
+      ...options,
+    });
+  }
+
+  // The system fixture, plus the block it was deployed from, where the indexer starts
+  async function indexedSystemFixture() {
+    const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+    return { startBlock, ...(await poWaiMockFixture()) };
+  }
+
+  beforeEach(async function () {
+    dbDir = fs.mkdtempSync(path.join(os.tmpdir(), "powai-indexer-"));
+    dbPath = path.join(dbDir, "index.sqlite");
+
+    ({ startBlock, chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(indexedSystemFixture));
+
+    for (const user of [user1, user2]) {
+      await chronoFuel.connect(owner).transfer(user.address, toWei(1000));
+      await chronoFuel.connect(user).approve(await poWaiCore.getAddress(), toWei(1000));
+    }
+  });
+
+  afterEach(function () {
+    fs.rmSync(dbDir, { recursive: true, force: true });
+  });
+
+  it("Should materialise every tracked event type", async function () {
+    await poWaiCore.connect(user1).stake(toWei(100));
+    await poWaiCore.connect(user1).boostBurn(toWei(10));
+    await claimAndFulfill(user1, TIER_ROLLS.Common);
+    await adaptiveHalving.connect(owner).grantAntiHalvingShield(user1.address);
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    await moveTime(ONE_DAY_SECONDS);
+    await claimAndFulfill(user1, TIER_ROLLS.Common); // Consumes no shield yet, and settles the halving
+    await moveTime(ONE_DAY_SECONDS);
+    await claimAndFulfill(user1, TIER_ROLLS.Common); // Consumes the shield
+    await poWaiCore.connect(user1).unstake(toWei(40));
+
+    const indexer = await newIndexer({ blockChunk: 4 }); // Tiny chunks exercise paging
+    const result = await indexer.sync();
+    expect(result.eventsAdded).to.equal(indexer.store.events.length);
+
+    const names = new Set(indexer.store.events.map((event) => event.event));
+    for (const name of [
+      "Staked",
+      "Unstaked",
+      "RewardClaimed",
+      "BurnedForBoost",
+      "TokensMinted",
+      "TokensBurned",
+      "HalvingTriggered",
+      "AntiHalvingShieldGranted",
+      "AntiHalvingShieldConsumed",
+    ]) {
+      expect(names.has(name), name).to.equal(true);
+    }
+
+    const staked = indexer.store.events.find((event) => event.event === "Staked")!;
+    expect(staked.contract).to.equal("PoWaiCore");
+    expect(staked.args).to.deep.equal({ user: user1.address, amount: toWei(100).toString() });
+    expect(staked.timestamp).to.be.greaterThan(0);
+
+    const positions = indexer.store.events.map((event) => [event.blockNumber, event.logIndex]);
+    expect(positions).to.deep.equal([...positions].sort((a, b) => a[0] - b[0] || a[1] - b[1]));
+    expect(indexer.store.checkpoint!.number).to.equal(await ethers.provider.getBlockNumber());
+  });
+
+  it("Should resume from the saved checkpoint without duplicating events", async function () {
+    await poWaiCore.connect(user1).stake(toWei(100));
+    const first = await (await newIndexer()).sync();
+    const checkpoint = IndexerStore.open(dbPath).checkpoint!;
+
+    await poWaiCore.connect(user1).boostBurn(toWei(10));
+    const resumed = await newIndexer(); // Fresh instance reading the file, as after a restart
+    const second = await resumed.sync();
+
+    expect(second.fromBlock).to.equal(checkpoint.number + 1);
+    expect(second.eventsAdded).to.equal(2); // TokensBurned and BurnedForBoost
+    expect(resumed.store.events.length).to.equal(first.eventsAdded + 2);
+    const ids = resumed.store.events.map((event) => `${event.transactionHash}:${event.logIndex}`);
+    expect(new Set(ids).size).to.equal(ids.length);
+
+    expect((await resumed.sync()).eventsAdded).to.equal(0);
+  });
+
+  it("Should roll back events from reorganised blocks", async function () {
+    await poWaiCore.connect(user1).stake(toWei(100));
+    const indexer = await newIndexer();
+    await indexer.sync();
+
+    const snapshotId = await ethers.provider.send("evm_snapshot", []);
+    await poWaiCore.connect(user1).boostBurn(toWei(10));
+    await poWaiCore.connect(user1).boostBurn(toWei(20));
+    await indexer.sync();
+    expect(topBurners(indexer.store.events)[0].account).to.equal(user1.address);
+
+    // Replace the indexed blocks with a longer competing branch
+    await ethers.provider.send("evm_revert", [snapshotId]);
+    await poWaiCore.connect(user2).boostBurn(toWei(5));
+    await ethers.provider.send("hardhat_mine", ["0x3"]);
+
+    const result = await indexer.sync();
+    expect(result.eventsRolledBack).to.equal(4);
+    expect(result.eventsAdded).to.equal(2);
+
+    const burners = topBurners(indexer.store.events);
+    expect(burners.map((burner) => burner.account)).to.deep.equal([user2.address]);
+    expect(indexer.store.checkpoint!.hash).to.equal((await ethers.provider.getBlock("latest"))!.hash);
+
+    // The rollback is persisted, so a restart sees the same history
+    expect(IndexerStore.open(dbPath).events.length).to.equal(indexer.store.events.length);
+  });
+
+  it("Should not commit events from blocks reorganised while a chunk is fetched", async function () {
+    await poWaiCore.connect(user1).stake(toWei(100));
+    const indexer = await newIndexer();
+    await indexer.sync();
+    const indexedEvents = indexer.store.eventCount;
+
+    const snapshotId = await ethers.provider.send("evm_snapshot", []);
+    await poWaiCore.connect(user1).boostBurn(toWei(10));
+
+    // getLogs answers from the branch with user1's burn, which is replaced before the chunk is committed
+    const racingProvider = Object.create(ethers.provider, {
+      getLogs: {
+        value: async (filter: Filter) => {
+          const logs = await ethers.provider.getLogs(filter);
+          await ethers.provider.send("evm_revert", [snapshotId]);
+          await poWaiCore.connect(user2).boostBurn(toWei(5));
+          return logs;
+        },
+      },
+    });
+    const racingIndexer = new PoWaiIndexer(racingProvider, indexer.store, indexer.contracts, { startBlock });
+    await expect(racingIndexer.sync()).to.be.rejectedWith("reorganised during sync");
+    expect(indexer.store.eventCount).to.equal(indexedEvents);
+
+    const result = await indexer.sync();
+    expect(result.eventsRolledBack).to.equal(0);
+    expect(result.eventsAdded).to.equal(2);
+    expect(topBurners(indexer.store.events).map((burner) => burner.account)).to.deep.equal([user2.address]);
+  });
+
+  it("Should roll back an orphaned event block even if the checkpoint is still canonical", async function () {
+    await poWaiCore.connect(user1).stake(toWei(100));
+    await poWaiCore.connect(user1).boostBurn(toWei(10));
+    const indexer = await newIndexer();
+    await indexer.sync();
+    const indexedEvents = indexer.store.events;
+
+    // As if the burn had been committed from a branch that lost, under a checkpoint that won
+    const burn = indexedEvents.find((event) => event.event === "BurnedForBoost")!;
+    const orphanedHash = ethers.ZeroHash;
+    indexer.store.commitRange(
+      [{ ...burn, blockHash: orphanedHash, logIndex: burn.logIndex + 100 }],
+      [{ number: burn.blockNumber, hash: orphanedHash }],
+      indexer.store.checkpoint!,
+      0
+    );
+
+    const result = await indexer.sync();
+    expect(result.eventsRolledBack).to.equal(3);
+    expect(result.eventsAdded).to.equal(2);
+    expect(indexer.store.events).to.deep.equal(indexedEvents);
+  });
+
+  it("Should answer tier, burner, halving and user queries", async function () {
+    await poWaiCore.connect(user1).stake(toWei(100));
+    await poWaiCore.connect(user2).stake(toWei(100));
+    await poWaiCore.connect(user1).boostBurn(toWei(10));
+    await poWaiCore.connect(user2).boostBurn(toWei(25));
+    await poWaiCore.connect(user1).boostBurn(toWei(5));
+    await claimAndFulfill(user1, TIER_ROLLS.Common);
+    await claimAndFulfill(user2, TIER_ROLLS.Legendary);
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    await moveTime(ONE_DAY_SECONDS);
+    await claimAndFulfill(user1, TIER_ROLLS.Common);
+
+    const indexer = await newIndexer();
+    await indexer.sync();
+    const events = indexer.store.events;
+
+    const [allTime] = tierDistribution(events);
+    expect(allTime.counts).to.deep.equal([2, 0, 0, 1]);
+    const daily = tierDistribution(events, ONE_DAY_SECONDS);
+    expect(daily.reduce((sum, bucket) => sum + bucket.counts[0], 0)).to.equal(2);
+
+    const burners = topBurners(events);
+    expect(burners.map((burner) => [burner.account, burner.totalBurned, burner.burns])).to.deep.equal([
+      [user2.address, toWei(25), 1],
+      [user1.address, toWei(15), 2],
+    ]);
+    expect(topBurners(events, 1).length).to.equal(1);
+
+    const halvings = halvingHistory(events);
+    expect(halvings.length).to.equal(1);
+    expect(halvings[0].count).to.equal(1);
+    expect(halvings[0].newThreshold).to.equal(await adaptiveHalving.getCurrentHalvingThreshold());
+
+    const user2Events = userActivity(events, user2.address.toLowerCase()).map((event) => event.event);
+    expect(user2Events).to.include.members(["Staked", "BurnedForBoost", "RewardClaimed", "TokensMinted"]);
+    expect(user2Events).to.not.include("Unstaked");
+
+    const summary = summarise(events);
+    expect(summary.claims).to.equal(3);
+    expect(summary.totalBurnedForBoost).to.equal(toWei(40));
+
+    const rows = runQuery(IndexerStore.open(dbPath), "top-burners", ["--limit", "1"]) as any[];
+    expect(rows).to.deep.equal([{ account: user2.address, burnedCFL: "25.0", burns: 1 }]);
+  });
+
+  it("Should refuse a store that belongs to another deployment", async function () {
+    await (await newIndexer()).sync();
+
+    const PoWaiCoreFactory = await ethers.getContractFactory("PoWaiCore");
+    const otherCore = await deployProxy(PoWaiCoreFactory, [await chronoFuel.getAddress()]);
+    const otherIndexer = await PoWaiIndexer.forPoWaiCore(ethers.provider, IndexerStore.open(dbPath), await otherCore.getAddress());
+
+    await expect(otherIndexer.sync()).to.be.rejectedWith("belongs to another chain or deployment");
+  });
+});
@@ -0,0 +1,311 @@
+// test/Invariants.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuel, PoWaiCore, AdaptiveHalving, MockRandomnessCoordinator } from "../typechain-types";
+import {
+  Action,
+  ActionKind,
+  InvariantSystem,
+  InvariantViolationError,
+  runCampaign,
+  runSequence,
+  shrinkSequence,
+  Violation,
+} from "../scripts/invariants/harness";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, poWaiFixture } from "./fixtures";
+
+const formatCfl = (amount: bigint) => `${ethers.formatUnits(amount, 18)} CFL`;
+
+// Campaign size; raise INVARIANT_RUNS/INVARIANT_STEPS for a longer soak, or set INVARIANT_REPLAY to a reported sequence
+const SEED = process.env.INVARIANT_SEED ?? "powai-invariants";
+const RUNS = Number(process.env.INVARIANT_RUNS ?? 3);
+const STEPS = Number(process.env.INVARIANT_STEPS ?? 50);
+const REPLAY: Action[] | undefined = process.env.INVARIANT_REPLAY ? JSON.parse(process.env.INVARIANT_REPLAY) : undefined;
+
+describe("Accounting invariants", function () {
+  this.timeout(600_000);
+
+  let chronoFuel: ChronoFuel;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+
+  let owner: SignerWithAddress;
+  let actors: SignerWithAddress[];
+
+  const INITIAL_SUPPLY = toWei(21_000_000);
+  const ACTOR_FUNDS = toWei(10_000);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    actors = signers.slice(1, 5);
+  });
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiFixture));
+
+    for (const actor of actors) {
+      await chronoFuel.connect(owner).transfer(actor.address, ACTOR_FUNDS);
+      await chronoFuel.connect(actor).approve(await poWaiCore.getAddress(), ethers.MaxUint256);
+    }
+  });
+
+  // The revert reason of a failed call; anything other than a revert is a harness bug and is rethrown
+  function revertReason(error: any): string {
+    if (!/revert/i.test(error?.message ?? "")) {
+      throw error;
+    }
+    return error.reason ?? error.shortMessage ?? error.message;
+  }
+
+  /**
+   * Drives the deployment from beforeEach. Every run starts from a snapshot taken on an hour boundary
+   * and each transaction gets the next second, so replays see the same timestamps and activity buckets.
+   */
+  async function createSystem(): Promise<InvariantSystem> {
+    const latest = await ethers.provider.getBlock("latest");
+    const startTimestamp = (Math.floor(latest!.timestamp / 3600) + 1) * 3600;
+    await ethers.provider.send("evm_mine", [startTimestamp]);
+    let snapshotId: string = await ethers.provider.send("evm_snapshot", []);
+
+    let now = startTimestamp;
+    // CFL each actor burned with ChronoFuel.burn, which leaves no burn record in PoWaiCore
+    let plainBurned: bigint[] = [];
+
+    async function send<T>(call: () => Promise<T>): Promise<T> {
+      now += 1;
+      await ethers.provider.send("evm_setNextBlockTimestamp", [now]);
+      return call();
+    }
+
+    const percentOf = (amount: bigint, percent: number) => (amount * BigInt(percent)) / 100n;
+
+    return {
+      actors: actors.length,
+
+      async reset() {
+        await ethers.provider.send("evm_revert", [snapshotId]);
+        snapshotId = await ethers.provider.send("evm_snapshot", []);
+        now = startTimestamp;
+        plainBurned = actors.map(() => 0n);
+      },
+
+      async apply(action: Action) {
+        if (action.kind === "timeJump") {
+          now += action.seconds;
+          await ethers.provider.send("evm_mine", [now]);
+          return undefined;
+        }
+        const actor = actors[action.actor];
+        try {
+          switch (action.kind) {
+            case "stake": {
+              const amount = percentOf(await chronoFuel.balanceOf(actor.address), action.percent);
+              await send(() => poWaiCore.connect(actor).stake(amount));
+              break;
+            }
+            case "unstake": {
+              const amount = percentOf((await poWaiCore.userData(actor.address)).stakedAmount, action.percent);
+              await send(() => poWaiCore.connect(actor).unstake(amount));
+              break;
+            }
+            case "claimReward":
+            case "claimAndStake":
+            case "claimAndBurn": {
+              const claim = () => {
+                const core = poWaiCore.connect(actor);
+                if (action.kind === "claimAndStake") {
+                  return core.claimAndStake();
+                }
+                return action.kind === "claimAndBurn" ? core.claimAndBurn(action.percent) : core.claimReward();
+              };
+              const receipt = await (await send(claim)).wait();
+              const event = receipt!.logs.map((log) => poWaiCore.interface.parseLog(log)).find((parsed) => parsed?.name === "RewardRequested");
+              await send(() => randomnessCoordinator.fulfillRandomness(event!.args.requestId, action.roll));
+              break;
+            }
+            case "claimDeferredRewards":
+              await send(() => poWaiCore.connect(actor).claimDeferredRewards());
+              break;
+            case "boostBurn": {
+              const amount = percentOf(await chronoFuel.balanceOf(actor.address), action.percent);
+              await send(() => poWaiCore.connect(actor).boostBurn(amount));
+              break;
+            }
+            case "burn": {
+              const amount = percentOf(await chronoFuel.balanceOf(actor.address), action.percent);
+              await send(() => chronoFuel.connect(actor).burn(amount));
+              plainBurned[action.actor] += amount;
+              break;
+            }
+          }
+          return undefined;
+        } catch (error) {
+          return revertReason(error);
+        }
+      },
+
+      async check(): Promise<Violation | undefined> {
+        const at = { blockTag: await ethers.provider.getBlockNumber() };
+
+        let stakedSum = 0n;
+        let burnedSum = 0n;
+        let deferredSum = 0n;
+        let activeCount = 0n;
+        for (let i = 0; i < actors.length; i++) {
+          const user = actors[i].address;
+          stakedSum += (await poWaiCore.userData(user, at)).stakedAmount + (await poWaiCore.userLockedAmount(user, at));
+          deferredSum += await poWaiCore.deferredRewards(user, at);
+          if (await poWaiCore.isUserActive(user, at)) {
+            activeCount += 1n;
+          }
+
+          const userBurned = await chronoFuel.userBurnedAmounts(user, at);
+          burnedSum += userBurned;
+          let recordSum = 0n;
+          const recordCount = await poWaiCore.getUserBurnRecordCount(user, at);
+          for (let index = 0n; index < recordCount; index++) {
+            recordSum += (await poWaiCore.getUserBurnRecord(user, index, at)).amountBurned;
+          }
+          if (recordSum + plainBurned[i] !== userBurned) {
+            return {
+              invariant: "burn records",
+              message: `actor ${i}: burn records sum to ${formatCfl(recordSum)} and ChronoFuel.burn to ${formatCfl(plainBurned[i])}, but userBurnedAmounts is ${formatCfl(userBurned)}`,
+            };
+          }
+        }
+
+        const totalStaked = await poWaiCore.totalStakedAmount(at);
+        if (totalStaked !== stakedSum) {
+          return { invariant: "stake accounting", message: `totalStakedAmount is ${formatCfl(totalStaked)} but user stakes sum to ${formatCfl(stakedSum)}` };
+        }
+        const coreBalance = await chronoFuel.balanceOf(await poWaiCore.getAddress(), at);
+        if (coreBalance < totalStaked) {
+          return { invariant: "stake backing", message: `PoWaiCore holds ${formatCfl(coreBalance)} for ${formatCfl(totalStaked)} staked` };
+        }
+
+        const [mined, burned, supply, maxSupply] = [
+          await chronoFuel.totalMinedTokens(at),
+          await chronoFuel.totalGlobalBurned(at),
+          await chronoFuel.totalSupply(at),
+          await chronoFuel.maxSupply(at),
+        ];
+        if (mined - burned !== supply) {
+          return { invariant: "supply accounting", message: `totalMinedTokens ${formatCfl(mined)} - totalGlobalBurned ${formatCfl(burned)} != totalSupply ${formatCfl(supply)}` };
+        }
+        if (mined > maxSupply) {
+          return { invariant: "max supply", message: `totalMinedTokens ${formatCfl(mined)} is above maxSupply ${formatCfl(maxSupply)}` };
+        }
+        if (burnedSum !== burned) {
+          return { invariant: "burn totals", message: `userBurnedAmounts sum to ${formatCfl(burnedSum)} but totalGlobalBurned is ${formatCfl(burned)}` };
+        }
+
+        const activeUsers = await poWaiCore.activeUsersCount(at);
+        if (activeUsers !== activeCount) {
+          return { invariant: "active users", message: `activeUsersCount is ${activeUsers} but ${activeCount} actors are active` };
+        }
+
+        const totalDeferred = await poWaiCore.totalDeferredRewards(at);
+        if (totalDeferred !== deferredSum) {
+          return { invariant: "deferred rewards", message: `totalDeferredRewards is ${formatCfl(totalDeferred)} but deferred rewards sum to ${formatCfl(deferredSum)}` };
+        }
+        return undefined;
+      },
+    };
+  }
+
+  // Fails with the shrunk reproduction in the message if any run breaks an invariant
+  async function runAndReport(system: InvariantSystem) {
+    const stats = await runCampaign(system, { seed: SEED, runs: RUNS, steps: STEPS, replay: REPLAY });
+    expect(stats.steps).to.be.greaterThan(0);
+    return stats;
+  }
+
+  function expectExercised(stats: Awaited<ReturnType<typeof runAndReport>>, kinds: ActionKind[]) {
+    if (REPLAY) {
+      return; // A replayed sequence exercises whatever it contains
+    }
+    for (const kind of kinds) {
+      expect(stats.applied[kind], `no ${kind} went through`).to.be.greaterThan(0);
+    }
+  }
+
+  it("Should keep the accounting invariants over random stake, claim and burn sequences", async function () {
+    const stats = await runAndReport(await createSystem());
+    expectExercised(stats, ["stake", "unstake", "claimReward", "claimAndStake", "claimAndBurn", "boostBurn", "burn", "timeJump"]);
+  });
+
+  it("Should keep the accounting invariants when claims hit the epoch budget and the max supply", async function () {
+    // Epochs of 150 CFL and 1,500 CFL left to mine: claims get deferred, halve the rate and reach the cap
+    await chronoFuel.setEpochEmissionBudget(toWei(150));
+    await chronoFuel.setMaxSupply(INITIAL_SUPPLY + toWei(1_500));
+
+    const stats = await runAndReport(await createSystem());
+    expectExercised(stats, ["stake", "unstake", "claimReward", "claimAndStake", "claimAndBurn", "claimDeferredRewards", "boostBurn", "burn", "timeJump"]);
+  });
+
+  describe("Shrinking", function () {
+    // The real invariants plus one every burn breaks, so failures are easy to provoke
+    async function createSystemWithNoBurnInvariant(): Promise<InvariantSystem> {
+      const system = await createSystem();
+      return {
+        ...system,
+        async check() {
+          const violation = await system.check();
+          if (violation) {
+            return violation;
+          }
+          const burned = await chronoFuel.totalGlobalBurned();
+          return burned > 0n ? { invariant: "nothing burned", message: `${formatCfl(burned)} burned` } : undefined;
+        },
+      };
+    }
+
+    it("Should shrink a failing sequence to a minimal reproduction", async function () {
+      const system = await createSystemWithNoBurnInvariant();
+      const actions: Action[] = [
+        { kind: "stake", actor: 2, percent: 40 },
+        { kind: "timeJump", seconds: 86_400 },
+        { kind: "claimReward", actor: 2, roll: 97 },
+        { kind: "unstake", actor: 2, percent: 150 },
+        { kind: "boostBurn", actor: 3, percent: 25 },
+        { kind: "stake", actor: 4, percent: 10 },
+        { kind: "burn", actor: 5, percent: 60 },
+      ];
+
+      const failure = await runSequence(system, actions);
+      expect(failure!.invariant).to.equal("nothing burned");
+      expect(failure!.step).to.equal(4);
+      expect(failure!.trace[3].revertReason).to.include("Insufficient staked amount");
+
+      const shrunk = await shrinkSequence(system, failure!);
+      expect(shrunk.failure.invariant).to.equal("nothing burned");
+      expect(shrunk.failure.trace.map((outcome) => outcome.action)).to.deep.equal([{ kind: "boostBurn", actor: 0, percent: 100 }]);
+    });
+
+    it("Should report the shrunk sequence in a form that replays the failure", async function () {
+      const system = await createSystemWithNoBurnInvariant();
+
+      let error: InvariantViolationError | undefined;
+      try {
+        await runCampaign(system, { seed: "shrink-report", runs: 1, steps: 30 });
+      } catch (caught) {
+        error = caught as InvariantViolationError;
+      }
+      expect(error).to.be.instanceOf(InvariantViolationError);
+      expect(error!.failure.invariant).to.equal("nothing burned");
+      expect(error!.failure.trace).to.have.length(1);
+      expect(error!.failure.trace[0].action.kind).to.be.oneOf(["boostBurn", "burn"]);
+      expect(error!.message).to.include("Seed shrink-report; shrunk from 30 to 1 steps");
+      expect(error!.message).to.include(`INVARIANT_REPLAY='${error!.replayJson}'`);
+
+      // Replaying the reported sequence fails the same way
+      await expect(runCampaign(system, { seed: "shrink-report", runs: 1, steps: 30, replay: JSON.parse(error!.replayJson) }))
+        .to.be.rejectedWith(InvariantViolationError, 'Invariant "nothing burned" broken');
+    });
+  });
+});
@@ -0,0 +1,210 @@
+// test/Keeper.test.ts
+
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuelMock, PoWaiCore, AdaptiveHalving } from "../typechain-types";
+import { HalvingKeeper, KeeperOptions } from "../scripts/keeper/keeper";
+import { AlertSink, KeeperAlert, WebhookAlertSink } from "../scripts/keeper/alerts";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, poWaiMockFixture } from "./fixtures";
+
+// Collects alerts so tests can assert on them
+class RecordingSink implements AlertSink {
+  readonly alerts: KeeperAlert[] = [];
+  async send(alert: KeeperAlert) {
+    this.alerts.push(alert);
+  }
+}
+
+describe("Halving keeper", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+
+  let owner: SignerWithAddress;
+  let keeperAccount: SignerWithAddress;
+  let otherOperator: SignerWithAddress;
+  let sink: RecordingSink;
+
+  const HALVING_THRESHOLD = toWei(21_000_000);
+
+  before(async function () {
+    [owner, keeperAccount, otherOperator] = await ethers.getSigners();
+  });
+
+  async function newKeeper(options: KeeperOptions = {}, signer: SignerWithAddress = keeperAccount) {
+    return HalvingKeeper.forPoWaiCore(signer, await poWaiCore.getAddress(), { sink, retryBackoffMs: 10, ...options });
+  }
+
+  async function halvingEvents() {
+    return adaptiveHalving.queryFilter(adaptiveHalving.filters.HalvingTriggered());
+  }
+
+  beforeEach(async function () {
+    sink = new RecordingSink();
+
+    ({ chronoFuel, adaptiveHalving, poWaiCore } = await loadFixture(poWaiMockFixture));
+
+    const operatorRole = await adaptiveHalving.HALVING_OPERATOR_ROLE();
+    await adaptiveHalving.grantRole(operatorRole, keeperAccount.address);
+  });
+
+  afterEach(async function () {
+    await ethers.provider.send("evm_setAutomine", [true]);
+  });
+
+  it("Should stay idle and send nothing below the threshold", async function () {
+    const keeper = await newKeeper();
+    const nonce = await ethers.provider.getTransactionCount(keeperAccount.address);
+
+    const result = await keeper.tick();
+    expect(result.action).to.equal("idle");
+    expect(result.threshold).to.equal(HALVING_THRESHOLD);
+    expect(await ethers.provider.getTransactionCount(keeperAccount.address)).to.equal(nonce);
+    expect(sink.alerts).to.deep.equal([]);
+  });
+
+  it("Should apply exactly one halving once mining crosses the threshold", async function () {
+    const keeper = await newKeeper();
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD + toWei(1));
+
+    const result = await keeper.tick();
+    expect(result.action).to.equal("applied");
+    expect(result.halvingCount).to.equal(1);
+
+    expect((await keeper.tick()).action).to.equal("idle");
+    expect((await keeper.tick()).action).to.equal("idle");
+    expect((await halvingEvents()).length).to.equal(1);
+    expect(sink.alerts.map((alert) => alert.message)).to.deep.equal(["Submitted halving transaction", "Halving #1 applied"]);
+  });
+
+  it("Should only report a due halving in dry-run mode", async function () {
+    const keeper = await newKeeper({ dryRun: true });
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+
+    expect((await keeper.tick()).action).to.equal("dry-run");
+    expect(await adaptiveHalving.getHalvingCount()).to.equal(0);
+    expect(sink.alerts[0].message).to.equal("Halving due (dry run, nothing sent)");
+  });
+
+  it("Should hold off while the gas price is above the limit", async function () {
+    const keeper = await newKeeper({ maxFeePerGas: ethers.parseUnits("50", "gwei") });
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    await ethers.provider.send("hardhat_setNextBlockBaseFeePerGas", [ethers.toQuantity(ethers.parseUnits("100", "gwei"))]);
+    await ethers.provider.send("evm_mine");
+
+    expect((await keeper.tick()).action).to.equal("gas-too-high");
+    expect(await adaptiveHalving.getHalvingCount()).to.equal(0);
+    expect(sink.alerts[0].level).to.equal("warning");
+    expect(sink.alerts[0].details!.limitGwei).to.equal("50.0");
+  });
+
+  it("Should retry a failed send with backoff", async function () {
+    // Fails the first transaction it is asked to send, as a dropped RPC connection would
+    let failures = 1;
+    const flakySigner = new Proxy(keeperAccount, {
+      get(target, property) {
+        if (property === "sendTransaction" && failures > 0) {
+          return async () => {
+            failures--;
+            throw new Error("socket hang up");
+          };
+        }
+        const value = Reflect.get(target, property);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+    const keeper = await newKeeper({}, flakySigner);
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+
+    expect((await keeper.tick()).action).to.equal("applied");
+    expect(sink.alerts[0].level).to.equal("warning");
+    expect(sink.alerts[0].message).to.equal("Sending the halving transaction failed, retrying in 10ms");
+    expect((await halvingEvents()).length).to.equal(1);
+  });
+
+  it("Should report reverts without retrying them", async function () {
+    const keeper = await newKeeper({}, otherOperator); // Lacks HALVING_OPERATOR_ROLE
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    const nonce = await ethers.provider.getTransactionCount(otherOperator.address);
+
+    expect(await keeper.hasOperatorRole()).to.equal(false);
+    const result = await keeper.tick();
+    expect(result.action).to.equal("failed");
+    expect(result.reason).to.match(/^AccessControlUnauthorizedAccount\(/);
+    expect(sink.alerts.length).to.equal(1);
+    expect(await ethers.provider.getTransactionCount(otherOperator.address)).to.equal(nonce);
+  });
+
+  it("Should replace a stuck transaction with the same nonce and bumped fees", async function () {
+    const keeper = await newKeeper({ confirmationTimeoutMs: 100, replaceAfterMs: 0 });
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    const nonce = await ethers.provider.getTransactionCount(keeperAccount.address);
+    await ethers.provider.send("evm_setAutomine", [false]);
+
+    const first = await keeper.tick();
+    expect(first.action).to.equal("pending");
+    const original = (await ethers.provider.getTransaction(first.txHash!))!;
+
+    const second = await keeper.tick();
+    expect(second.action).to.equal("pending");
+    expect(second.txHash).to.not.equal(first.txHash);
+    const replacement = (await ethers.provider.getTransaction(second.txHash!))!;
+    expect(replacement.nonce).to.equal(original.nonce);
+    expect(replacement.maxFeePerGas).to.be.greaterThan(original.maxFeePerGas!);
+
+    await ethers.provider.send("evm_mine");
+    const settled = await keeper.tick();
+    expect(settled.action).to.equal("applied");
+    expect(settled.txHash).to.equal(second.txHash);
+    expect(await ethers.provider.getTransactionCount(keeperAccount.address)).to.equal(nonce + 1);
+    expect((await halvingEvents()).length).to.equal(1);
+  });
+
+  it("Should halve once when two keepers race for the same threshold", async function () {
+    await adaptiveHalving.grantRole(await adaptiveHalving.HALVING_OPERATOR_ROLE(), otherOperator.address);
+    const keepers = [await newKeeper({ confirmationTimeoutMs: 100 }), await newKeeper({ confirmationTimeoutMs: 100 }, otherOperator)];
+    await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+    await ethers.provider.send("evm_setAutomine", [false]);
+
+    expect((await keepers[0].tick()).action).to.equal("pending");
+    expect((await keepers[1].tick()).action).to.equal("pending");
+    await ethers.provider.send("evm_mine");
+
+    const actions = [(await keepers[0].tick()).action, (await keepers[1].tick()).action];
+    expect(actions).to.have.members(["applied", "already-applied"]);
+    expect((await halvingEvents()).length).to.equal(1);
+  });
+
+  it("Should post alerts to a webhook", async function () {
+    const received: KeeperAlert[] = [];
+    const server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push(JSON.parse(body));
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`;
+      const keeper = await newKeeper({ sink: new WebhookAlertSink(url, "info") });
+      await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+      await keeper.tick();
+
+      expect(received.map((alert) => alert.message)).to.deep.equal(["Submitted halving transaction", "Halving #1 applied"]);
+      expect(received[1].details!.newRatePercent).to.equal(50);
+
+      // Warnings-only sinks drop routine notices
+      received.length = 0;
+      await new WebhookAlertSink(url, "warning").send({ level: "info", message: "routine", timestamp: 0 });
+      expect(received).to.deep.equal([]);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,232 @@
+// test/LockedStaking.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuelMock, PoWaiCore, AdaptiveHalving, MockRandomnessCoordinator } from "../typechain-types";
+import { PoWaiClient } from "../scripts/sdk/client";
+import { getEventArgs } from "../scripts/sdk/events";
+import { TIER_ROLLS } from "../scripts/sdk/tiers";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiMockFixture } from "./fixtures";
+
+describe("Locked staking", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+  let client: PoWaiClient; // Connected as user1
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+
+  const PRECISION_FACTOR = 10n ** 10n;
+  const ONE_DAY_SECONDS = 24 * 3600;
+  const YEAR_SECONDS = 365n * 24n * 3600n;
+  const HALVING_THRESHOLD = toWei(21_000_000);
+  const GLOBAL_BURN_THRESHOLD_FACTOR = toWei(2_100_000_000);
+  // First claim waits past the 24h cap: 24 CFL * 3x stake boost for 100-999 CFL staked
+  const FULL_DAY_MINT_POWER = toWei(72);
+
+  const LOCK_30_DAYS = 0;
+  const LOCK_90_DAYS = 1;
+  const LOCK_365_DAYS = 3;
+
+  before(async function () {
+    [owner, user1] = await ethers.getSigners();
+  });
+
+  // Claims for user1, settles the claim on the Common tier and returns the settled claim
+  async function claimAndFulfill() {
+    return client.claim({ settle: (requestId) => randomnessCoordinator.fulfillRandomness(requestId, TIER_ROLLS.Common) });
+  }
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiMockFixture));
+
+    client = new PoWaiClient(user1, {
+      ChronoFuel: await chronoFuel.getAddress(),
+      AdaptiveHalving: await adaptiveHalving.getAddress(),
+      PoWaiCore: await poWaiCore.getAddress(),
+    });
+    await chronoFuel.connect(owner).transfer(user1.address, toWei(1000));
+    await chronoFuel.connect(user1).approve(await poWaiCore.getAddress(), toWei(1000));
+  });
+
+  describe("Positions", function () {
+    it("Should open positions with the terms of their lock tier and enumerate them", async function () {
+      const tx = await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_90_DAYS);
+      const block = await ethers.provider.getBlock((await tx.wait())!.blockNumber);
+      await expect(tx)
+        .to.emit(poWaiCore, "LockedStaked")
+        .withArgs(user1.address, 0, toWei(100), LOCK_90_DAYS, block!.timestamp + 90 * ONE_DAY_SECONDS);
+      await poWaiCore.connect(user1).stakeLocked(toWei(50), LOCK_365_DAYS);
+
+      const positions = await poWaiCore.getLockPositions(user1.address);
+      expect(positions.length).to.equal(2);
+      expect(positions[0].amount).to.equal(toWei(100));
+      expect(positions[0].boostPercent).to.equal(125);
+      expect(positions[0].startTimestamp).to.equal(block!.timestamp);
+      expect(positions[1].lockTierId).to.equal(LOCK_365_DAYS);
+      expect(positions[1].boostPercent).to.equal(200);
+      expect(await poWaiCore.getLockPositionCount(user1.address)).to.equal(2);
+      expect(await poWaiCore.getOpenLockPositionIds(user1.address)).to.deep.equal([0n, 1n]);
+
+      expect(await poWaiCore.getUserLockedAmount(user1.address)).to.equal(toWei(150));
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(0); // Flexible stake only
+      expect(await poWaiCore.getUserTotalStakedAmount(user1.address)).to.equal(toWei(150));
+      expect(await poWaiCore.getTotalStakedAmount()).to.equal(toWei(150));
+    });
+
+    it("Should reject an unknown lock tier or a zero amount", async function () {
+      await expect(poWaiCore.connect(user1).stakeLocked(toWei(100), 4))
+        .to.be.revertedWith("PoWaiCore: Invalid lock tier");
+      await expect(poWaiCore.connect(user1).stakeLocked(0, LOCK_30_DAYS))
+        .to.be.revertedWith("PoWaiCore: Stake amount must be positive");
+    });
+
+    it("Should cap the number of open positions per user", async function () {
+      const maxOpen = Number(await poWaiCore.MAX_OPEN_LOCK_POSITIONS());
+      for (let i = 0; i < maxOpen; i++) {
+        await poWaiCore.connect(user1).stakeLocked(toWei(1), LOCK_30_DAYS);
+      }
+      await expect(poWaiCore.connect(user1).stakeLocked(toWei(1), LOCK_30_DAYS))
+        .to.be.revertedWith("PoWaiCore: Too many open lock positions");
+
+      await moveTime(30 * ONE_DAY_SECONDS);
+      await poWaiCore.connect(user1).unstakeLocked(3);
+      await poWaiCore.connect(user1).stakeLocked(toWei(1), LOCK_30_DAYS); // A closed position frees a slot
+      expect(await poWaiCore.getLockPositionCount(user1.address)).to.equal(maxOpen + 1);
+    });
+
+    it("Should keep flexible stake separate from locked stake", async function () {
+      await poWaiCore.connect(user1).stake(toWei(100));
+      await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_30_DAYS);
+
+      await expect(poWaiCore.connect(user1).unstake(toWei(150)))
+        .to.be.revertedWith("PoWaiCore: Insufficient staked amount");
+      await poWaiCore.connect(user1).unstake(toWei(100));
+      expect(await poWaiCore.getUserLockedAmount(user1.address)).to.equal(toWei(100));
+    });
+  });
+
+  describe("Lock boost", function () {
+    it("Should leave flexible-only rewards unchanged", async function () {
+      await poWaiCore.connect(user1).stake(toWei(100));
+
+      const preview = await poWaiCore.previewClaim(user1.address);
+      expect(preview.lockBoostScaled).to.equal(PRECISION_FACTOR);
+      const claim = await claimAndFulfill();
+      expect(claim.mintPower).to.equal(FULL_DAY_MINT_POWER);
+    });
+
+    it("Should apply the full boost of a position that is the whole stake", async function () {
+      await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_365_DAYS);
+
+      const claim = await claimAndFulfill();
+      expect(claim.stakedAmount).to.equal(toWei(100));
+      expect(claim.mintPower).to.equal(FULL_DAY_MINT_POWER * 2n);
+      expect(claim.reward).to.equal(FULL_DAY_MINT_POWER * 2n);
+    });
+
+    it("Should weight the boost by each position's share of the total stake", async function () {
+      await poWaiCore.connect(user1).stake(toWei(100));
+      await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_90_DAYS);
+
+      // Half the stake at 1.25x and half at 1.0x
+      const preview = await poWaiCore.previewClaim(user1.address);
+      expect(preview.lockBoostScaled).to.equal((PRECISION_FACTOR * 1125n) / 1000n);
+      expect(preview.mintPower).to.equal((FULL_DAY_MINT_POWER * 1125n) / 1000n);
+
+      const claim = await claimAndFulfill();
+      expect(claim.stakedAmount).to.equal(toWei(200));
+      expect(claim.mintPower).to.equal(preview.mintPower);
+    });
+
+    it("Should stop boosting once a position has unlocked", async function () {
+      await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_30_DAYS);
+      await moveTime(30 * ONE_DAY_SECONDS);
+
+      expect((await poWaiCore.previewClaim(user1.address)).lockBoostScaled).to.equal(PRECISION_FACTOR);
+      const claim = await claimAndFulfill();
+      expect(claim.mintPower).to.equal(FULL_DAY_MINT_POWER); // Still staked, now at 1.0x
+    });
+  });
+
+  describe("Unstaking", function () {
+    it("Should return the whole position without a penalty after unlock", async function () {
+      await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_30_DAYS);
+      await moveTime(30 * ONE_DAY_SECONDS);
+      const balanceBefore = await chronoFuel.balanceOf(user1.address);
+      const burnedBefore = await chronoFuel.getTotalGlobalBurned();
+
+      await expect(poWaiCore.connect(user1).unstakeLocked(0))
+        .to.emit(poWaiCore, "LockedUnstaked")
+        .withArgs(user1.address, 0, toWei(100), 0);
+
+      expect(await chronoFuel.balanceOf(user1.address)).to.equal(balanceBefore + toWei(100));
+      expect(await chronoFuel.getTotalGlobalBurned()).to.equal(burnedBefore);
+      expect((await poWaiCore.getLockPosition(user1.address, 0)).withdrawn).to.equal(true);
+      expect(await poWaiCore.getOpenLockPositionIds(user1.address)).to.deep.equal([]);
+      expect(await poWaiCore.getTotalStakedAmount()).to.equal(0);
+    });
+
+    it("Should burn a pro-rated penalty on early exit and count it as globally burned", async function () {
+      await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_365_DAYS);
+      await moveTime(Number(YEAR_SECONDS / 2n));
+      const position = await poWaiCore.getLockPosition(user1.address, 0);
+      const balanceBefore = await chronoFuel.balanceOf(user1.address);
+      const burnedBefore = await chronoFuel.getTotalGlobalBurned();
+
+      const tx = await poWaiCore.connect(user1).unstakeLocked(0);
+      const receipt = await tx.wait();
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+      const remaining = position.unlockTimestamp - BigInt(block!.timestamp);
+      const expectedPenalty = (toWei(100) * 25n * remaining) / (100n * YEAR_SECONDS);
+
+      const { amountReturned, penaltyBurned } = await getEventArgs(receipt, poWaiCore, "LockedUnstaked");
+      expect(penaltyBurned).to.equal(expectedPenalty);
+      expect(penaltyBurned).to.be.closeTo(toWei(12.5), toWei(0.01)); // Half of the 25% maximum
+      expect(amountReturned).to.equal(toWei(100) - expectedPenalty);
+
+      expect(await chronoFuel.balanceOf(user1.address)).to.equal(balanceBefore + amountReturned);
+      expect(await chronoFuel.getTotalGlobalBurned()).to.equal(burnedBefore + expectedPenalty);
+      expect(await chronoFuel.getUserBurnedAmount(user1.address)).to.equal(0); // A penalty earns no burn boost
+    });
+
+    it("Should raise the next halving threshold by the burned penalty", async function () {
+      await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_365_DAYS);
+      await poWaiCore.connect(user1).unstakeLocked(0);
+      const globalBurned = await chronoFuel.getTotalGlobalBurned();
+      expect(globalBurned).to.be.greaterThan(0);
+
+      await poWaiCore.connect(user1).stake(toWei(100));
+      await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+      await claimAndFulfill(); // Settling the claim applies the halving
+
+      const expectedThreshold =
+        (HALVING_THRESHOLD * (PRECISION_FACTOR + (globalBurned * PRECISION_FACTOR) / GLOBAL_BURN_THRESHOLD_FACTOR)) /
+        PRECISION_FACTOR;
+      expect(await adaptiveHalving.getHalvingCount()).to.equal(1);
+      expect(await adaptiveHalving.getCurrentHalvingThreshold()).to.equal(expectedThreshold);
+    });
+
+    it("Should preview the payout and penalty of closing a position", async function () {
+      await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_30_DAYS);
+
+      const [amountReturned, penalty] = await poWaiCore.previewUnstakeLocked(user1.address, 0);
+      expect(penalty).to.be.closeTo(toWei(25), toWei(0.01)); // Just opened: close to the 25% maximum
+      expect(amountReturned + penalty).to.equal(toWei(100));
+    });
+
+    it("Should reject unknown or already withdrawn positions", async function () {
+      await expect(poWaiCore.connect(user1).unstakeLocked(0))
+        .to.be.revertedWith("PoWaiCore: Unknown lock position");
+
+      await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_30_DAYS);
+      await poWaiCore.connect(user1).unstakeLocked(0);
+      await expect(poWaiCore.connect(user1).unstakeLocked(0))
+        .to.be.revertedWith("PoWaiCore: Lock position already withdrawn");
+    });
+  });
+});
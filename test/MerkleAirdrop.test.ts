@@ -0,0 +1,150 @@
+// test/MerkleAirdrop.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuel, PoWaiCore, MerkleAirdropDistributor } from "../typechain-types";
+import { collectAirdropRights, toEntitlements } from "../scripts/airdrop/airdropRights";
+import { AirdropTree, buildAirdropTree } from "../scripts/airdrop/merkleTree";
+import { deployProxy } from "../scripts/upgrades/proxies";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiFixture } from "./fixtures";
+
+describe("Merkle airdrop", function () {
+  let chronoFuel: ChronoFuel;
+  let poWaiCore: PoWaiCore;
+  let partnerToken: ChronoFuel; // Any ERC20 works; a second CFL deployment stands in for the partner token
+  let distributor: MerkleAirdropDistributor;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+  let user3: SignerWithAddress;
+  let user4: SignerWithAddress;
+
+  const AMOUNT_PER_RIGHT = toWei(2);
+  const CLAIM_PERIOD_SECONDS = 30 * 24 * 3600;
+
+  let snapshotBlock: number;
+  let tree: AirdropTree;
+
+  before(async function () {
+    [owner, user1, user2, user3, user4] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    ({ chronoFuel, poWaiCore } = await loadFixture(poWaiFixture));
+    partnerToken = await deployProxy(await ethers.getContractFactory("ChronoFuel"));
+    await partnerToken.waitForDeployment();
+
+    for (const user of [user1, user2, user3, user4]) {
+      await chronoFuel.connect(owner).transfer(user.address, toWei(1000));
+      await chronoFuel.connect(user).approve(await poWaiCore.getAddress(), toWei(1000));
+    }
+
+    await poWaiCore.connect(user1).boostBurn(toWei(10));
+    await poWaiCore.connect(user2).boostBurn(toWei(25));
+    await poWaiCore.connect(user1).boostBurn(toWei(5));
+    await poWaiCore.connect(user3).boostBurn(toWei(7)); // Three burners, so the tree has an odd leaf
+    snapshotBlock = await ethers.provider.getBlockNumber();
+    // Burns after the snapshot must not count
+    await poWaiCore.connect(user1).boostBurn(toWei(100));
+    await poWaiCore.connect(user4).boostBurn(toWei(50));
+
+    const rights = await collectAirdropRights(poWaiCore, snapshotBlock, 0, 3); // Tiny chunks exercise paging
+    tree = buildAirdropTree(toEntitlements(rights, AMOUNT_PER_RIGHT));
+
+    const latest = await ethers.provider.getBlock("latest");
+    const DistributorFactory = await ethers.getContractFactory("MerkleAirdropDistributor");
+    distributor = await DistributorFactory.deploy(
+      await partnerToken.getAddress(),
+      tree.merkleRoot,
+      latest!.timestamp + CLAIM_PERIOD_SECONDS
+    );
+    await distributor.waitForDeployment();
+    await partnerToken.transfer(await distributor.getAddress(), tree.totalAmount);
+  });
+
+  describe("Snapshot", function () {
+    it("Should sum airdropRights of burns up to the snapshot block only", async function () {
+      const rights = await collectAirdropRights(poWaiCore, snapshotBlock);
+
+      expect(rights.get(user1.address)).to.equal(15);
+      expect(rights.get(user2.address)).to.equal(25);
+      expect(rights.get(user3.address)).to.equal(7);
+      expect(rights.has(user4.address)).to.equal(false);
+    });
+
+    it("Should build a deterministic tree with one claim per burner", async function () {
+      expect(Object.keys(tree.claims)).to.have.members([user1.address, user2.address, user3.address]);
+      expect(tree.claims[user1.address].amount).to.equal((15n * AMOUNT_PER_RIGHT).toString());
+      expect(tree.totalAmount).to.equal(47n * AMOUNT_PER_RIGHT);
+
+      const rebuilt = buildAirdropTree(toEntitlements(await collectAirdropRights(poWaiCore, snapshotBlock), AMOUNT_PER_RIGHT));
+      expect(rebuilt.merkleRoot).to.equal(tree.merkleRoot);
+    });
+  });
+
+  describe("MerkleAirdropDistributor", function () {
+    it("Should pay a valid claim and mark it as claimed", async function () {
+      const { index, amount, proof } = tree.claims[user1.address];
+
+      await expect(distributor.connect(user4).claim(index, user1.address, amount, proof)) // Anyone can submit
+        .to.emit(distributor, "Claimed")
+        .withArgs(index, user1.address, amount);
+
+      expect(await partnerToken.balanceOf(user1.address)).to.equal(amount);
+      expect(await distributor.isClaimed(index)).to.equal(true);
+    });
+
+    it("Should pay out every account in the tree", async function () {
+      for (const [account, { index, amount, proof }] of Object.entries(tree.claims)) {
+        await distributor.claim(index, account, amount, proof);
+      }
+      expect(await partnerToken.balanceOf(await distributor.getAddress())).to.equal(0);
+    });
+
+    it("Should reject a second claim for the same index", async function () {
+      const { index, amount, proof } = tree.claims[user2.address];
+      await distributor.claim(index, user2.address, amount, proof);
+
+      await expect(distributor.claim(index, user2.address, amount, proof))
+        .to.be.revertedWith("MerkleAirdropDistributor: Already claimed");
+    });
+
+    it("Should reject a claim with a wrong amount or account", async function () {
+      const { index, amount, proof } = tree.claims[user1.address];
+
+      await expect(distributor.claim(index, user1.address, BigInt(amount) + 1n, proof))
+        .to.be.revertedWith("MerkleAirdropDistributor: Invalid proof");
+      await expect(distributor.claim(index, user4.address, amount, proof))
+        .to.be.revertedWith("MerkleAirdropDistributor: Invalid proof");
+    });
+
+    it("Should close claims and allow a sweep after expiry", async function () {
+      const { index, amount, proof } = tree.claims[user1.address];
+      await distributor.claim(index, user1.address, amount, proof);
+
+      await expect(distributor.sweep(owner.address))
+        .to.be.revertedWith("MerkleAirdropDistributor: Claim period not ended");
+
+      await moveTime(CLAIM_PERIOD_SECONDS + 1);
+      const user2Claim = tree.claims[user2.address];
+      await expect(distributor.claim(user2Claim.index, user2.address, user2Claim.amount, user2Claim.proof))
+        .to.be.revertedWith("MerkleAirdropDistributor: Claim period has ended");
+
+      const remaining = tree.totalAmount - BigInt(amount);
+      await expect(distributor.sweep(owner.address))
+        .to.emit(distributor, "Swept")
+        .withArgs(owner.address, remaining);
+      expect(await partnerToken.balanceOf(await distributor.getAddress())).to.equal(0);
+    });
+
+    it("Should only let the admin sweep", async function () {
+      await moveTime(CLAIM_PERIOD_SECONDS + 1);
+      await expect(distributor.connect(user1).sweep(user1.address))
+        .to.be.revertedWithCustomError(distributor, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await distributor.DEFAULT_ADMIN_ROLE());
+    });
+  });
+});
@@ -0,0 +1,232 @@
+// test/MetaTransactions.test.ts
+
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import { ethers } from "hardhat";
+import { HDNodeWallet, Interface } from "ethers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuelMock, PoWaiCore, AdaptiveHalving, MockRandomnessCoordinator, PoWaiForwarder } from "../typechain-types";
+import { createRelayServer, PoWaiRelayer, RelayRejectedError } from "../scripts/relayer/relayer";
+import { forwardRequestToJson, signForwardRequest, signPermit } from "../scripts/relayer/signing";
+import { deployProxy } from "../scripts/upgrades/proxies";
+import { getEventArgs } from "../scripts/sdk/events";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiMockFixture } from "./fixtures";
+
+describe("Permits and meta-transactions", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+  let forwarder: PoWaiForwarder;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let relayerAccount: SignerWithAddress;
+  let gaslessUser: HDNodeWallet; // Holds CFL but no native gas
+
+  before(async function () {
+    [owner, user1, relayerAccount] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiMockFixture));
+
+    const PoWaiForwarderFactory = await ethers.getContractFactory("PoWaiForwarder");
+    forwarder = await PoWaiForwarderFactory.deploy();
+    await forwarder.waitForDeployment();
+    await poWaiCore.setTrustedForwarder(await forwarder.getAddress());
+
+    gaslessUser = ethers.Wallet.createRandom().connect(ethers.provider);
+    await chronoFuel.connect(owner).transfer(gaslessUser.address, toWei(1000));
+    await chronoFuel.connect(owner).transfer(user1.address, toWei(1000));
+  });
+
+  async function newRelayer() {
+    return PoWaiRelayer.forPoWaiCore(relayerAccount, await poWaiCore.getAddress());
+  }
+
+  async function signCall(signer: SignerWithAddress | HDNodeWallet, functionName: string, args: any[] = []) {
+    const data = (poWaiCore.interface as Interface).encodeFunctionData(functionName, args);
+    return signForwardRequest(signer, forwarder, { to: await poWaiCore.getAddress(), data });
+  }
+
+  describe("EIP-2612 permits", function () {
+    it("Should set the allowance from a signed permit", async function () {
+      const spender = await poWaiCore.getAddress();
+      const { deadline, v, r, s } = await signPermit(user1, chronoFuel, spender, toWei(50));
+
+      await chronoFuel.connect(owner).permit(user1.address, spender, toWei(50), deadline, v, r, s);
+      expect(await chronoFuel.allowance(user1.address, spender)).to.equal(toWei(50));
+      expect(await chronoFuel.nonces(user1.address)).to.equal(1);
+
+      await expect(chronoFuel.connect(owner).permit(user1.address, spender, toWei(50), deadline, v, r, s))
+        .to.be.revertedWithCustomError(chronoFuel, "ERC2612InvalidSigner");
+    });
+
+    it("Should stake with a permit instead of an approve", async function () {
+      const permit = await signPermit(user1, chronoFuel, await poWaiCore.getAddress(), toWei(100));
+
+      await expect(poWaiCore.connect(user1).stakeWithPermit(toWei(100), permit.deadline, permit.v, permit.r, permit.s))
+        .to.emit(poWaiCore, "Staked")
+        .withArgs(user1.address, toWei(100));
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(toWei(100));
+      expect(await chronoFuel.allowance(user1.address, await poWaiCore.getAddress())).to.equal(0);
+    });
+
+    it("Should burn for boost with a permit instead of an approve", async function () {
+      const permit = await signPermit(user1, chronoFuel, await poWaiCore.getAddress(), toWei(10));
+
+      await expect(poWaiCore.connect(user1).boostBurnWithPermit(toWei(10), permit.deadline, permit.v, permit.r, permit.s))
+        .to.emit(poWaiCore, "BurnedForBoost")
+        .withArgs(user1.address, toWei(10));
+      expect(await poWaiCore.getUserBurnRecordCount(user1.address)).to.equal(1);
+      expect(await chronoFuel.getUserBurnedAmount(user1.address)).to.equal(toWei(10));
+    });
+
+    it("Should still stake when the permit was front-run", async function () {
+      const spender = await poWaiCore.getAddress();
+      const permit = await signPermit(user1, chronoFuel, spender, toWei(100));
+      // Someone watching the mempool submits the permit first
+      await chronoFuel.connect(owner).permit(user1.address, spender, toWei(100), permit.deadline, permit.v, permit.r, permit.s);
+
+      await poWaiCore.connect(user1).stakeWithPermit(toWei(100), permit.deadline, permit.v, permit.r, permit.s);
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(toWei(100));
+    });
+
+    it("Should not stake with an expired or mismatched permit", async function () {
+      const spender = await poWaiCore.getAddress();
+      const latest = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      const expired = await signPermit(user1, chronoFuel, spender, toWei(100), latest - 1n);
+      await expect(poWaiCore.connect(user1).stakeWithPermit(toWei(100), expired.deadline, expired.v, expired.r, expired.s))
+        .to.be.revertedWithCustomError(chronoFuel, "ERC20InsufficientAllowance");
+
+      const tooSmall = await signPermit(user1, chronoFuel, spender, toWei(50));
+      await expect(poWaiCore.connect(user1).stakeWithPermit(toWei(100), tooSmall.deadline, tooSmall.v, tooSmall.r, tooSmall.s))
+        .to.be.revertedWithCustomError(chronoFuel, "ERC20InsufficientAllowance");
+    });
+  });
+
+  describe("Trusted forwarder", function () {
+    it("Should only be set once, by an admin", async function () {
+      await expect(poWaiCore.connect(user1).setTrustedForwarder(user1.address))
+        .to.be.revertedWithCustomError(poWaiCore, "AccessControlUnauthorizedAccount");
+      await expect(poWaiCore.setTrustedForwarder(user1.address))
+        .to.be.revertedWith("PoWaiCore: Trusted forwarder already set or invalid update");
+      expect(await poWaiCore.isTrustedForwarder(await forwarder.getAddress())).to.equal(true);
+      expect(await poWaiCore.isTrustedForwarder(user1.address)).to.equal(false);
+    });
+
+    it("Should not accept forwarded calls before a forwarder is linked", async function () {
+      const PoWaiCoreFactory = await ethers.getContractFactory("PoWaiCore");
+      const unlinkedCore = await deployProxy(PoWaiCoreFactory, [await chronoFuel.getAddress()]);
+      const data = unlinkedCore.interface.encodeFunctionData("claimReward");
+      const request = await signForwardRequest(user1, forwarder, { to: await unlinkedCore.getAddress(), data, gas: 500_000n });
+
+      await expect(forwarder.execute(request))
+        .to.be.revertedWithCustomError(forwarder, "ERC2771UntrustfulTarget");
+    });
+
+    it("Should not forward a request whose signature does not match its sender", async function () {
+      const permit = await signPermit(user1, chronoFuel, await poWaiCore.getAddress(), toWei(100));
+      await poWaiCore.connect(user1).stakeWithPermit(toWei(100), permit.deadline, permit.v, permit.r, permit.s);
+      const request = await signCall(user1, "unstake", [toWei(100)]);
+      const tampered = { ...request, from: owner.address };
+
+      await expect(forwarder.execute(tampered)).to.be.revertedWithCustomError(forwarder, "ERC2771ForwarderInvalidSigner");
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(toWei(100));
+    });
+  });
+
+  describe("Relayer", function () {
+    it("Should stake and claim for a user without native gas", async function () {
+      const relayer = await newRelayer();
+      expect(await ethers.provider.getBalance(gaslessUser.address)).to.equal(0);
+
+      const permit = await signPermit(gaslessUser, chronoFuel, await poWaiCore.getAddress(), toWei(500));
+      const stakeRequest = await signCall(gaslessUser, "stakeWithPermit", [toWei(500), permit.deadline, permit.v, permit.r, permit.s]);
+      const staked = await relayer.relay(stakeRequest);
+      expect(staked.functionName).to.equal("stakeWithPermit");
+      expect(await poWaiCore.getUserStakedAmount(gaslessUser.address)).to.equal(toWei(500));
+
+      await moveTime(3600);
+      const claimed = await relayer.relay(await signCall(gaslessUser, "claimReward"));
+      const { user, requestId } = await getEventArgs(claimed.receipt, poWaiCore, "RewardRequested");
+      expect(user).to.equal(gaslessUser.address);
+
+      const balanceBefore = await chronoFuel.balanceOf(gaslessUser.address);
+      await randomnessCoordinator.fulfillRandomness(requestId, 0);
+      expect(await chronoFuel.balanceOf(gaslessUser.address)).to.be.greaterThan(balanceBefore);
+      expect(await poWaiCore.getUserLastClaimTime(gaslessUser.address)).to.be.greaterThan(0);
+      expect(await ethers.provider.getBalance(gaslessUser.address)).to.equal(0);
+    });
+
+    it("Should burn for boost through the relayer", async function () {
+      const relayer = await newRelayer();
+      const permit = await signPermit(gaslessUser, chronoFuel, await poWaiCore.getAddress(), toWei(20));
+      await relayer.relay(await signCall(gaslessUser, "boostBurnWithPermit", [toWei(20), permit.deadline, permit.v, permit.r, permit.s]));
+
+      expect(await poWaiCore.getUserBurnRecordCount(gaslessUser.address)).to.equal(1);
+      expect(await chronoFuel.getUserBurnedAmount(gaslessUser.address)).to.equal(toWei(20));
+    });
+
+    it("Should reject admin functions, other targets and replayed requests", async function () {
+      const relayer = await newRelayer();
+
+      const adminCall = poWaiCore.interface.encodeFunctionData("setMaxWaitHours", [48]);
+      const adminRequest = await signForwardRequest(owner, forwarder, { to: await poWaiCore.getAddress(), data: adminCall, gas: 200_000n });
+      await expect(relayer.relay(adminRequest)).to.be.rejectedWith(RelayRejectedError, "Function setMaxWaitHours is not relayed");
+
+      const transferCall = chronoFuel.interface.encodeFunctionData("transfer", [relayerAccount.address, toWei(1)]);
+      const tokenRequest = await signForwardRequest(gaslessUser, forwarder, { to: await chronoFuel.getAddress(), data: transferCall, gas: 100_000n });
+      await expect(relayer.relay(tokenRequest)).to.be.rejectedWith(RelayRejectedError, "Only calls to PoWaiCore");
+
+      const permit = await signPermit(gaslessUser, chronoFuel, await poWaiCore.getAddress(), toWei(10));
+      const request = await signCall(gaslessUser, "stakeWithPermit", [toWei(10), permit.deadline, permit.v, permit.r, permit.s]);
+      await relayer.relay(request);
+      await expect(relayer.relay(request)).to.be.rejectedWith(RelayRejectedError, "Invalid signature or nonce already used");
+
+      const greedy = await signForwardRequest(gaslessUser, forwarder, { to: await poWaiCore.getAddress(), data: request.data, gas: 5_000_000n });
+      await expect(relayer.relay(greedy)).to.be.rejectedWith(RelayRejectedError, "above the limit");
+    });
+
+    it("Should reject expired requests and calls that would revert, without sending anything", async function () {
+      const relayer = await newRelayer();
+      const nonce = await ethers.provider.getTransactionCount(relayerAccount.address);
+
+      const latest = BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+      const data = poWaiCore.interface.encodeFunctionData("unstake", [toWei(1)]);
+      const expired = await signForwardRequest(gaslessUser, forwarder, { to: await poWaiCore.getAddress(), data, gas: 200_000n, deadline: latest });
+      await expect(relayer.relay(expired)).to.be.rejectedWith(RelayRejectedError, "Request has expired");
+
+      const failing = await signForwardRequest(gaslessUser, forwarder, { to: await poWaiCore.getAddress(), data, gas: 200_000n });
+      await expect(relayer.relay(failing)).to.be.rejectedWith(RelayRejectedError, "unstake would revert: PoWaiCore: Insufficient staked amount");
+
+      expect(await ethers.provider.getTransactionCount(relayerAccount.address)).to.equal(nonce);
+    });
+
+    it("Should relay requests posted to the HTTP server", async function () {
+      const server = createRelayServer(await newRelayer());
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      try {
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/relay`;
+        const permit = await signPermit(gaslessUser, chronoFuel, await poWaiCore.getAddress(), toWei(100));
+        const request = await signCall(gaslessUser, "stakeWithPermit", [toWei(100), permit.deadline, permit.v, permit.r, permit.s]);
+
+        const accepted = await fetch(url, { method: "POST", body: JSON.stringify(forwardRequestToJson(request)) });
+        expect(accepted.status).to.equal(200);
+        expect((await accepted.json()).functionName).to.equal("stakeWithPermit");
+        expect(await poWaiCore.getUserStakedAmount(gaslessUser.address)).to.equal(toWei(100));
+
+        const replayed = await fetch(url, { method: "POST", body: JSON.stringify(forwardRequestToJson(request)) });
+        expect(replayed.status).to.equal(400);
+        expect((await replayed.json()).error).to.equal("Invalid signature or nonce already used");
+
+        const malformed = await fetch(url, { method: "POST", body: "{}" });
+        expect(malformed.status).to.equal(400);
+      } finally {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+      }
+    });
+  });
+});
@@ -0,0 +1,220 @@
+// test/PoWaiLens.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuelMock, PoWaiCore, AdaptiveHalving, MockRandomnessCoordinator, PoWaiLens } from "../typechain-types";
+import { deployProxy } from "../scripts/upgrades/proxies";
+import { getEventArgs } from "../scripts/sdk/events";
+import { TIER_ROLLS } from "../scripts/sdk/tiers";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiMockFixture } from "./fixtures";
+
+describe("PoWaiLens and previewClaim", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+  let poWaiLens: PoWaiLens;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  const PRECISION_FACTOR = 10n ** 10n;
+  const HALVING_THRESHOLD = toWei(21_000_000);
+  const ONE_DAY_SECONDS = 24 * 3600;
+  const MAX_COOLDOWN_SECONDS = 15n * 60n;
+  const COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS = 12n;
+  // 24h of waiting with a 100 CFL stake: 24 CFL * 3x stake boost
+  const FULL_DAY_MINT_POWER = toWei(72);
+  // Sum of probability (%) * multiplier (x10) across Common, Rare, Epic and Legendary
+  const EXPECTED_MULTIPLIER_PER_MILLE = 70n * 10n + 22n * 18n + 7n * 35n + 1n * 80n;
+
+  before(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+  });
+
+  // Claims for user1, settles the claim on the Common tier and returns the RewardClaimed args
+  async function claimAndFulfill() {
+    const tx = await poWaiCore.connect(user1).claimReward();
+    const { requestId } = await getEventArgs(await tx.wait(), poWaiCore, "RewardRequested");
+    const receipt = await (await randomnessCoordinator.fulfillRandomness(requestId, TIER_ROLLS.Common)).wait();
+    return getEventArgs(receipt, poWaiCore, "RewardClaimed");
+  }
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiMockFixture));
+
+    const PoWaiLensFactory = await ethers.getContractFactory("PoWaiLens");
+    poWaiLens = await PoWaiLensFactory.deploy(await poWaiCore.getAddress());
+    await poWaiLens.waitForDeployment();
+
+    await chronoFuel.connect(owner).transfer(user1.address, toWei(1000));
+    await chronoFuel.connect(user1).approve(await poWaiCore.getAddress(), toWei(1000));
+    await poWaiCore.connect(user1).stake(toWei(100));
+    await claimAndFulfill(); // Sets lastClaimTimestamp
+  });
+
+  describe("previewClaim", function () {
+    it("Should preview exactly what a claim locks in and pays", async function () {
+      await poWaiCore.connect(user1).boostBurn(toWei(100)); // 1 + 0.7 * sqrt(100) = 8x burn boost
+      await moveTime(ONE_DAY_SECONDS + 3600); // Past the 24h cap, so the next block pays the same time reward
+
+      const preview = await poWaiCore.previewClaim(user1.address);
+      expect(preview.timeReward).to.equal(toWei(24));
+      expect(preview.stakeBoost).to.equal(3);
+      expect(preview.burnBoostScaled).to.equal(8n * PRECISION_FACTOR);
+      expect(preview.halvingFactor).to.equal(PRECISION_FACTOR);
+      expect(preview.mintPower).to.equal(FULL_DAY_MINT_POWER * 8n);
+      expect(preview.canClaim).to.equal(true);
+
+      const args = await claimAndFulfill();
+      expect(args.baseMintPower).to.equal(preview.mintPower);
+      expect(args.finalReward).to.equal(preview.tierRewards[0]);
+      expect(args.cooldownUsed).to.equal(preview.cooldown);
+    });
+
+    it("Should report the reward of every tier and the probability-weighted expected reward", async function () {
+      await moveTime(ONE_DAY_SECONDS);
+      const preview = await poWaiCore.previewClaim(user1.address);
+
+      expect(preview.tierRewards[0]).to.equal(FULL_DAY_MINT_POWER);
+      expect(preview.tierRewards[1]).to.equal((FULL_DAY_MINT_POWER * 18n) / 10n);
+      expect(preview.tierRewards[2]).to.equal((FULL_DAY_MINT_POWER * 35n) / 10n);
+      expect(preview.tierRewards[3]).to.equal(FULL_DAY_MINT_POWER * 8n);
+      expect(preview.expectedReward).to.equal((FULL_DAY_MINT_POWER * EXPECTED_MULTIPLIER_PER_MILLE) / 1000n);
+    });
+
+    it("Should report when the cooldown ends without minting anything", async function () {
+      const lastClaim = await poWaiCore.getUserLastClaimTime(user1.address);
+      const supplyBefore = await chronoFuel.totalSupply();
+
+      const preview = await poWaiCore.previewClaim(user1.address);
+      expect(preview.cooldown).to.equal(MAX_COOLDOWN_SECONDS - COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS);
+      expect(preview.claimableAt).to.equal(lastClaim + preview.cooldown);
+      expect(preview.canClaim).to.equal(false);
+      expect(await chronoFuel.totalSupply()).to.equal(supplyBefore);
+
+      await moveTime(Number(preview.cooldown));
+      expect((await poWaiCore.previewClaim(user1.address)).canClaim).to.equal(true);
+    });
+
+    it("Should count an inactive user as active when computing their cooldown", async function () {
+      const preview = await poWaiCore.previewClaim(user2.address);
+
+      // user1 is already active; user2 would become the second active user by claiming
+      expect(preview.cooldown).to.equal(MAX_COOLDOWN_SECONDS - 2n * COOLDOWN_DECREASE_PER_ACTIVE_USER_SECONDS);
+      expect(preview.canClaim).to.equal(false); // No stake
+    });
+
+    it("Should preview the halving factor and a shield exemption without consuming the shield", async function () {
+      await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+      await adaptiveHalving.connect(owner).checkAndApplyHalving();
+      await moveTime(ONE_DAY_SECONDS);
+
+      let preview = await poWaiCore.previewClaim(user1.address);
+      expect(preview.halvingFactor).to.equal(PRECISION_FACTOR / 2n);
+      expect(preview.mintPower).to.equal(FULL_DAY_MINT_POWER / 2n);
+
+      await adaptiveHalving.connect(owner).grantAntiHalvingShield(user1.address);
+      preview = await poWaiCore.previewClaim(user1.address);
+      expect(preview.halvingFactor).to.equal(PRECISION_FACTOR);
+      expect(preview.mintPower).to.equal(FULL_DAY_MINT_POWER);
+      expect(await adaptiveHalving.hasAntiHalvingShield(user1.address)).to.equal(true);
+    });
+  });
+
+  describe("PoWaiLens", function () {
+    it("Should return a user's full state in a single call", async function () {
+      await poWaiCore.connect(user1).boostBurn(toWei(10));
+      await adaptiveHalving.connect(owner).grantAntiHalvingShield(user1.address);
+
+      const state = await poWaiLens.getUserState(user1.address);
+      const preview = await poWaiCore.previewClaim(user1.address);
+
+      expect(state.stakedAmount).to.equal(toWei(100));
+      expect(state.lastClaimTimestamp).to.equal(await poWaiCore.getUserLastClaimTime(user1.address));
+      expect(state.effectiveCooldown).to.equal(preview.cooldown);
+      expect(state.claimableAt).to.equal(preview.claimableAt);
+      expect(state.isActive).to.equal(true);
+      expect(state.hasAntiHalvingShield).to.equal(true);
+      expect(state.cflBalance).to.equal(await chronoFuel.balanceOf(user1.address));
+      expect(state.cflAllowance).to.equal(await chronoFuel.allowance(user1.address, await poWaiCore.getAddress()));
+      expect(state.totalBurned).to.equal(toWei(10));
+      expect(state.burnRecordCount).to.equal(1);
+      expect(state.claimPreview.mintPower).to.equal(preview.mintPower);
+    });
+
+    it("Should return the global halving state", async function () {
+      await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+      await adaptiveHalving.connect(owner).checkAndApplyHalving();
+      await poWaiCore.connect(user1).boostBurn(toWei(5));
+
+      const state = await poWaiLens.getHalvingState();
+
+      expect(state.halvingCount).to.equal(1);
+      expect(state.currentHalvingThreshold).to.equal(await adaptiveHalving.currentHalvingThreshold());
+      expect(state.halvingEpochStartMined).to.equal(await adaptiveHalving.halvingEpochStartMined());
+      expect(state.totalMined).to.equal(await chronoFuel.getTotalMinedTokens());
+      expect(state.emissionFactor).to.equal(PRECISION_FACTOR / 2n);
+      expect(state.adjustedHalvingRate).to.equal(await adaptiveHalving.getAdjustedHalvingRate());
+      expect(state.halvingKeyEffectPercentage).to.equal(0);
+      expect(state.totalGlobalBurned).to.equal(toWei(5));
+      expect(state.totalSupply).to.equal(await chronoFuel.totalSupply());
+      expect(state.totalStaked).to.equal(toWei(100));
+      expect(state.activeUsers).to.equal(1);
+      expect(state.maxSupply).to.equal(await chronoFuel.maxSupply());
+      expect(state.remainingSupply).to.equal(state.maxSupply - state.totalMined);
+      expect(state.epochEmissionBudget).to.equal(await chronoFuel.epochEmissionBudget());
+      expect(state.remainingEpochBudget).to.equal(await adaptiveHalving.remainingEpochBudget());
+    });
+
+    it("Should leave the halving fields at zero while PoWaiCore is not linked to AdaptiveHalving", async function () {
+      const PoWaiCoreFactory = await ethers.getContractFactory("PoWaiCore");
+      const unlinkedCore = await deployProxy(PoWaiCoreFactory, [await chronoFuel.getAddress()]);
+      const PoWaiLensFactory = await ethers.getContractFactory("PoWaiLens");
+      const unlinkedLens = await PoWaiLensFactory.deploy(await unlinkedCore.getAddress());
+
+      const state = await unlinkedLens.getHalvingState();
+      expect(state.halvingCount).to.equal(0);
+      expect(state.emissionFactor).to.equal(0);
+      expect(state.adjustedHalvingRate).to.equal(0);
+      expect(state.remainingEpochBudget).to.equal(0);
+      expect(state.totalSupply).to.equal(await chronoFuel.totalSupply());
+
+      const userState = await unlinkedLens.getUserState(user1.address);
+      expect(userState.hasAntiHalvingShield).to.equal(false);
+      expect(userState.claimPreview.halvingFactor).to.equal(PRECISION_FACTOR);
+    });
+
+    it("Should paginate burn records", async function () {
+      await poWaiCore.connect(user1).boostBurn(toWei(1));
+      await poWaiCore.connect(user1).boostBurn(toWei(2));
+      await poWaiCore.connect(user1).boostBurn(toWei(3));
+
+      const [firstPage, total] = await poWaiLens.getBurnRecords(user1.address, 0, 2);
+      expect(total).to.equal(3);
+      expect(firstPage.map((record) => record.amountBurned)).to.deep.equal([toWei(1), toWei(2)]);
+
+      const [lastPage] = await poWaiLens.getBurnRecords(user1.address, 2, 5);
+      expect(lastPage.map((record) => record.amountBurned)).to.deep.equal([toWei(3)]);
+
+      const [emptyPage, totalPastEnd] = await poWaiLens.getBurnRecords(user1.address, 5, 1);
+      expect(emptyPage.length).to.equal(0);
+      expect(totalPastEnd).to.equal(3);
+    });
+
+    it("Should combine everything into a single dashboard call", async function () {
+      await poWaiCore.connect(user1).boostBurn(toWei(1));
+      await poWaiCore.connect(user1).boostBurn(toWei(2));
+
+      const [userState, halvingState, burnRecords] = await poWaiLens.getDashboard(user1.address, 1, 10);
+
+      expect(userState.stakedAmount).to.equal(toWei(100));
+      expect(userState.burnRecordCount).to.equal(2);
+      expect(halvingState.emissionFactor).to.equal(PRECISION_FACTOR);
+      expect(burnRecords.map((record) => record.amountBurned)).to.deep.equal([toWei(2)]);
+    });
+  });
+});
@@ -0,0 +1,267 @@
+// test/Sdk.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuel, PoWaiCore, AdaptiveHalving, MockRandomnessCoordinator } from "../typechain-types";
+import { PoWaiClient, SettledClaim } from "../scripts/sdk/client";
+import { loadAddressBook } from "../scripts/sdk/addressBook";
+import {
+  CooldownNotPassedError,
+  InsufficientAllowanceError,
+  InsufficientBalanceError,
+  InvalidAmountError,
+  NoDeferredRewardsError,
+  NotClaimOperatorError,
+  PausedError,
+  PoWaiError,
+  toPoWaiError,
+  UnauthorizedError,
+} from "../scripts/sdk/errors";
+import { getEventArgs } from "../scripts/sdk/events";
+import { DEFAULT_REWARD_TIERS, rewardTierName, TIER_ROLLS } from "../scripts/sdk/tiers";
+import { formatCfl, fromWei, toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiFixture } from "./fixtures";
+
+describe("PoWaiClient SDK", function () {
+  let chronoFuel: ChronoFuel;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+  let client: PoWaiClient; // Connected as user1
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  const ONE_DAY_SECONDS = 24 * 3600;
+  // A claim after a full day with 100-999 CFL staked: 24 CFL * 3x stake boost
+  const FULL_DAY_MINT_POWER = 72;
+
+  const settleWith = (roll: bigint) => (requestId: bigint) => randomnessCoordinator.fulfillRandomness(requestId, roll);
+
+  before(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiFixture));
+
+    client = new PoWaiClient(user1, {
+      ChronoFuel: await chronoFuel.getAddress(),
+      AdaptiveHalving: await adaptiveHalving.getAddress(),
+      PoWaiCore: await poWaiCore.getAddress(),
+    });
+    await chronoFuel.transfer(user1.address, toWei(1000));
+  });
+
+  describe("Units and tiers", function () {
+    it("Should convert between CFL and wei", async function () {
+      expect(toWei(12.5)).to.equal(12_500_000_000_000_000_000n);
+      expect(toWei("0.000000000000000001")).to.equal(1n);
+      expect(fromWei(toWei(72))).to.equal(72);
+      expect(formatCfl(toWei("1234.5"))).to.equal("1234.5 CFL");
+      expect(() => toWei("1.0000000000000000001")).to.throw();
+    });
+
+    it("Should name reward tiers and read the live tier terms", async function () {
+      expect(rewardTierName(2n)).to.equal("Epic");
+      expect(() => rewardTierName(4)).to.throw("Unknown reward tier 4");
+      expect(await client.rewardTiers()).to.deep.equal(DEFAULT_REWARD_TIERS);
+
+      await poWaiCore.setRewardTiers([60, 30, 9, 1], [10, 20, 40, 100]);
+      expect((await client.rewardTiers()).Legendary).to.deep.equal({ probability: 1, multiplier: 10 });
+    });
+  });
+
+  describe("Claims", function () {
+    beforeEach(async function () {
+      await client.stake(toWei(100), { approve: true });
+      await client.claim({ settle: settleWith(TIER_ROLLS.Common) }); // Sets lastClaimTimestamp
+      await moveTime(ONE_DAY_SECONDS);
+    });
+
+    it("Should return the settled reward by tier name", async function () {
+      const balanceBefore = await client.balanceOf();
+      const preview = await client.previewClaim();
+
+      const result = await client.claim({ settle: settleWith(TIER_ROLLS.Epic) });
+
+      expect(result.tier).to.equal("Epic");
+      expect(result.user).to.equal(user1.address);
+      expect(fromWei(result.mintPower)).to.be.closeTo(FULL_DAY_MINT_POWER, 0.01);
+      expect(fromWei(result.reward)).to.be.closeTo(FULL_DAY_MINT_POWER * DEFAULT_REWARD_TIERS.Epic.multiplier, 0.01);
+      expect(result.minted).to.equal(result.reward);
+      expect(result.deferred).to.equal(0n);
+      expect(result.cooldownUsed).to.equal(888);
+      expect(result.timeWaitedSeconds).to.be.closeTo(ONE_DAY_SECONDS, 10);
+      expect(result.staked).to.equal(undefined);
+      expect(await client.balanceOf()).to.equal(balanceBefore + result.minted);
+      // The preview was taken a block earlier, so it is off by a second of mint power
+      expect(fromWei(preview.tierRewards.Epic)).to.be.closeTo(fromWei(result.reward), 0.01);
+      expect(preview.canClaim).to.equal(true);
+    });
+
+    it("Should report what claimAndStake staked and claimAndBurn burned", async function () {
+      const staked = await client.claim({ mode: "stake", settle: settleWith(TIER_ROLLS.Common) });
+      expect(staked.staked).to.equal(staked.minted);
+      expect((await client.status()).staked).to.equal(toWei(100) + staked.minted);
+
+      await moveTime(ONE_DAY_SECONDS);
+      const burned = await client.claim({ mode: "burn", burnPercent: 25, settle: settleWith(TIER_ROLLS.Rare) });
+      expect(burned.tier).to.equal("Rare");
+      expect(burned.burned).to.equal(burned.minted / 4n);
+      expect(burned.paidOut).to.equal(burned.minted - burned.burned!);
+      expect(burned.burnRecordIndex).to.equal(0n);
+      expect((await client.status()).totalBurned).to.equal(burned.burned);
+    });
+
+    it("Should claim for a user who approved the operator", async function () {
+      const operatorClient = client.connect(user2);
+      await expect(operatorClient.requestClaim({ for: user1.address, mode: "stake" })).to.be.rejectedWith(NotClaimOperatorError);
+
+      await client.setClaimOperator(user2.address, ["stake"]);
+      await expect(operatorClient.requestClaim({ for: user1.address, mode: "payout" })).to.be.rejectedWith(NotClaimOperatorError);
+      const result = await operatorClient.claim({ for: user1.address, mode: "stake", settle: settleWith(TIER_ROLLS.Common) });
+      expect(result.user).to.equal(user1.address);
+      expect(result.staked).to.equal(result.minted);
+    });
+
+    it("Should wait for a settlement that arrives later, and time out without one", async function () {
+      const request = await client.requestClaim();
+      const waiting = client.waitForClaim(request, { pollingIntervalMs: 20 });
+      await randomnessCoordinator.fulfillRandomness(request.requestId, TIER_ROLLS.Legendary);
+      const result = await waiting;
+      expect(result.requestId).to.equal(request.requestId);
+      expect(result.tier).to.equal("Legendary");
+
+      await moveTime(ONE_DAY_SECONDS);
+      const unsettled = await client.requestClaim();
+      await expect(client.waitForClaim(unsettled, { timeoutMs: 50, pollingIntervalMs: 10 })).to.be.rejectedWith(
+        `Claim request #${unsettled.requestId} was not settled within 50 ms`
+      );
+    });
+
+    it("Should match the settlement by request id when the same claim settles out of order", async function () {
+      const first = await client.requestClaim();
+      await moveTime(ONE_DAY_SECONDS);
+      const second = await client.requestClaim();
+      expect(second.mintPower).to.equal(first.mintPower); // Both waited the capped time
+
+      await randomnessCoordinator.fulfillRandomness(second.requestId, TIER_ROLLS.Legendary);
+      await expect(client.waitForClaim(first, { timeoutMs: 50, pollingIntervalMs: 10 })).to.be.rejectedWith(
+        `Claim request #${first.requestId} was not settled within 50 ms`
+      );
+
+      await randomnessCoordinator.fulfillRandomness(first.requestId, TIER_ROLLS.Common);
+      const firstResult = await client.waitForClaim(first);
+      const secondResult = await client.waitForClaim(second);
+      expect([firstResult.requestId, firstResult.tier]).to.deep.equal([first.requestId, "Common"]);
+      expect([secondResult.requestId, secondResult.tier]).to.deep.equal([second.requestId, "Legendary"]);
+    });
+
+    it("Should follow settled claims of one user until stopped", async function () {
+      await chronoFuel.transfer(user2.address, toWei(1000));
+      const other = client.connect(user2);
+      await other.stake(toWei(100), { approve: true });
+
+      const seen: SettledClaim[] = [];
+      const subscription = await client.watchClaims((claim) => {
+        seen.push(claim);
+      }, { user: user1.address, pollingIntervalMs: 20 });
+      try {
+        await other.claim({ settle: settleWith(TIER_ROLLS.Common) });
+        const mine = await client.claim({ settle: settleWith(TIER_ROLLS.Rare) });
+        for (let i = 0; i < 50 && seen.length === 0; i++) {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        expect(seen).to.have.lengthOf(1);
+        expect(seen[0].tier).to.equal("Rare");
+        expect(seen[0].txHash).to.equal(mine.txHash);
+      } finally {
+        subscription.stop();
+      }
+    });
+  });
+
+  describe("Errors", function () {
+    it("Should throw typed errors for revert strings", async function () {
+      await client.stake(toWei(100), { approve: true });
+      await client.requestClaim();
+      const error = await client.requestClaim().catch((e) => e);
+      expect(error).to.be.instanceOf(CooldownNotPassedError);
+      expect(error).to.be.instanceOf(PoWaiError);
+      expect(error.reason).to.equal("PoWaiCore: Cooldown not yet passed");
+      expect(error.name).to.equal("CooldownNotPassedError");
+
+      await expect(client.stake(toWei(0))).to.be.rejectedWith(InvalidAmountError, "PoWaiCore: Stake amount must be positive");
+      await expect(client.claimDeferredRewards()).to.be.rejectedWith(NoDeferredRewardsError);
+
+      await poWaiCore.pause();
+      await expect(client.boostBurn(toWei(1), { approve: true })).to.be.rejectedWith(PausedError, "PoWaiCore: Paused");
+    });
+
+    it("Should decode custom errors with their arguments", async function () {
+      const allowance = await client.boostBurn(toWei(10)).catch((e) => e);
+      expect(allowance).to.be.instanceOf(InsufficientAllowanceError);
+      expect(allowance.spender).to.equal(await poWaiCore.getAddress());
+      expect(allowance.allowance).to.equal(0n);
+      expect(allowance.needed).to.equal(toWei(10));
+
+      const balance = await client.connect(user2).boostBurn(toWei(10), { approve: true }).catch((e) => e);
+      expect(balance).to.be.instanceOf(InsufficientBalanceError);
+      expect(balance.account).to.equal(user2.address);
+      expect(balance.balance).to.equal(0n);
+
+      const unauthorized = await poWaiCore.connect(user1).setMaxWaitHours(48).catch((e) => toPoWaiError(e));
+      expect(unauthorized).to.be.instanceOf(UnauthorizedError);
+      expect((unauthorized as UnauthorizedError).account).to.equal(user1.address);
+      expect((unauthorized as UnauthorizedError).role).to.equal(await poWaiCore.DEFAULT_ADMIN_ROLE());
+    });
+
+    it("Should leave errors that are not reverts alone", async function () {
+      const error = new Error("connection refused");
+      expect(toPoWaiError(error)).to.equal(error);
+      expect(() => getEventArgs({ hash: "0x01", logs: [] }, poWaiCore, "RewardClaimed")).to.throw("No RewardClaimed event in tx 0x01");
+    });
+  });
+
+  describe("Address book", function () {
+    let dir: string;
+
+    beforeEach(function () {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "powai-sdk-"));
+    });
+
+    afterEach(function () {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should connect to the deployment recorded for the network", async function () {
+      const deployment = client.deployment;
+      fs.writeFileSync(path.join(dir, "hardhat.json"), JSON.stringify(deployment));
+      fs.writeFileSync(path.join(dir, "hardhat.layouts.json"), JSON.stringify({ PoWaiCore: [] }));
+      const book = loadAddressBook(dir);
+      expect(Object.keys(book)).to.deep.equal(["hardhat"]);
+
+      const connected = await PoWaiClient.fromAddressBook(user1, book);
+      expect(await connected.poWaiCore.getAddress()).to.equal(deployment.PoWaiCore);
+      expect(await connected.balanceOf()).to.equal(toWei(1000));
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const byChainId = await PoWaiClient.fromAddressBook(user1, { [chainId.toString()]: deployment });
+      expect(byChainId.deployment).to.deep.equal(deployment);
+    });
+
+    it("Should reject networks missing from the address book", async function () {
+      await expect(PoWaiClient.fromAddressBook(user1, loadAddressBook(dir), "monadTestnet")).to.be.rejectedWith(
+        "No PoWai deployment for monadTestnet in the address book (known: none)"
+      );
+      const incomplete = { hardhat: { ChronoFuel: client.deployment.ChronoFuel } } as any;
+      await expect(PoWaiClient.fromAddressBook(user1, incomplete)).to.be.rejectedWith("missing AdaptiveHalving, PoWaiCore");
+    });
+  });
+});
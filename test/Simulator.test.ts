@@ -0,0 +1,262 @@
+// test/Simulator.test.ts
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { ChronoFuelMock, PoWaiCoreHarness, AdaptiveHalving, MockRandomnessCoordinator } from "../typechain-types";
+import {
+  calculateBurnBoost,
+  calculateStakeBoost,
+  calculateTimeReward,
+  cooldownForActiveUsers,
+  DEFAULT_PARAMS,
+  integerSqrt,
+  ModelParams,
+} from "../scripts/simulator/math";
+import { ModelRevertError, PoWaiModel, TREASURY } from "../scripts/simulator/model";
+import { SeededRandom } from "../scripts/simulator/random";
+import { simulate, SimulationConfig, toCsv } from "../scripts/simulator/simulate";
+import { loadScenario } from "../scripts/simulator/runSimulation";
+import { getEventArgs } from "../scripts/sdk/events";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiHarnessFixture } from "./fixtures";
+
+describe("Tokenomics simulator", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCoreHarness;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+
+  let owner: SignerWithAddress;
+  let users: SignerWithAddress[];
+
+  const HALVING_THRESHOLD = toWei(21_000_000);
+  const USER_FUNDS = toWei(100_000);
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    owner = signers[0];
+    users = signers.slice(1, 5);
+  });
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiHarnessFixture));
+
+    for (const user of users) {
+      await chronoFuel.connect(owner).transfer(user.address, USER_FUNDS);
+      await chronoFuel.connect(user).approve(await poWaiCore.getAddress(), ethers.MaxUint256);
+    }
+  });
+
+  const latestTimestamp = async () => BigInt((await ethers.provider.getBlock("latest"))!.timestamp);
+  const blockTimestamp = async (receipt: any) => BigInt((await ethers.provider.getBlock(receipt.blockNumber))!.timestamp);
+
+  describe("Reward math", function () {
+    it("Should match the contract helpers for randomized inputs", async function () {
+      const random = new SeededRandom("math");
+      const params: ModelParams = { ...DEFAULT_PARAMS, burnFactorNumerator: 13n, minCooldownSeconds: 30n, maxCooldownSeconds: 600n };
+      await poWaiCore.setBurnFactorNumerator(params.burnFactorNumerator);
+      await poWaiCore.setCooldownBounds(params.minCooldownSeconds, params.maxCooldownSeconds);
+
+      // Edge cases first, then random magnitudes from wei to billions of CFL
+      const times = [0n, 1n, 3599n, 3600n, 24n * 3600n, 24n * 3600n + 1n];
+      const amounts = [0n, 1n, 10n ** 18n - 1n, 10n ** 18n, 9n * 10n ** 18n, 10n ** 27n, 10n ** 30n];
+      for (let i = 0; i < 25; i++) {
+        times.push(random.nextBigInt(60n * 3600n));
+        amounts.push(random.nextBigInt(10n ** BigInt(random.nextInt(1, 30))));
+      }
+
+      for (const time of times) {
+        expect(await poWaiCore.calculateTimeReward(time), `time ${time}`).to.equal(calculateTimeReward(time, params));
+      }
+      for (const amount of amounts) {
+        expect(await poWaiCore.calculateStakeBoost(amount), `stake ${amount}`).to.equal(calculateStakeBoost(amount));
+        expect(await poWaiCore.calculateBurnBoost(amount), `burn ${amount}`).to.equal(calculateBurnBoost(amount, params));
+      }
+      for (let i = 0; i < 25; i++) {
+        const x = random.nextWord() >> BigInt(random.nextInt(0, 255));
+        expect(await poWaiCore.integerSqrt(x), `sqrt ${x}`).to.equal(integerSqrt(x));
+        const activeUsers = BigInt(random.nextInt(0, 80));
+        expect(await poWaiCore.cooldownForActiveUsers(activeUsers)).to.equal(cooldownForActiveUsers(activeUsers, params));
+      }
+    });
+  });
+
+  describe("Differential runs", function () {
+    // Runs the same random operations on-chain and in the model and compares every claim and the state after each step
+    async function runDifferential(seed: string, steps: number) {
+      const random = new SeededRandom(seed);
+      const params: ModelParams = { ...DEFAULT_PARAMS };
+      const model = new PoWaiModel(params);
+      const accounts = users.map((user) => user.address);
+      for (const account of accounts) {
+        model.transfer(TREASURY, account, USER_FUNDS);
+      }
+      // Tier rolls spread evenly over Common, Rare, Epic and Legendary
+      const tierRolls = [0n, 75n, 95n, 99n];
+      const counts = { claims: 0, rejectedClaims: 0, halvings: 0 };
+
+      for (let step = 0; step < steps; step++) {
+        const index = random.nextInt(0, users.length - 1);
+        const user = users[index];
+        const account = accounts[index];
+        const action = random.nextInt(0, 9);
+
+        if (action <= 3) {
+          // Claim (or fail the cooldown check the same way)
+          if (model.getUserTotalStakedAmount(account) === 0n) {
+            const amount = random.nextBigInt(toWei(5_000)) + 1n;
+            await poWaiCore.connect(user).stake(amount);
+            model.stake(account, amount);
+            continue;
+          }
+          const randomWord = random.nextBigInt(10n ** 30n) * 100n + tierRolls[random.nextInt(0, 3)];
+          const claimTx = poWaiCore.connect(user).claimReward();
+          const now = (await latestTimestamp()) + 1n; // Automine puts the claim in the next second
+          let expected;
+          try {
+            expected = model.claim(account, now, randomWord);
+          } catch (error) {
+            expect(error).to.be.instanceOf(ModelRevertError);
+            await expect(claimTx).to.be.revertedWith((error as Error).message);
+            counts.rejectedClaims++;
+            continue;
+          }
+          const receipt = await (await claimTx).wait();
+          expect(await blockTimestamp(receipt)).to.equal(now);
+          const { requestId, mintPower } = await getEventArgs(receipt, poWaiCore, "RewardRequested");
+          expect(mintPower, `mint power at step ${step}`).to.equal(expected.mintPower);
+
+          const fulfillReceipt = await (await randomnessCoordinator.fulfillRandomness(requestId, randomWord)).wait();
+          const claimed = await getEventArgs(fulfillReceipt, poWaiCore, "RewardClaimed");
+          expect(claimed.finalReward).to.equal(expected.finalReward);
+          expect(claimed.rewardTierId).to.equal(expected.rewardTierId);
+          expect(claimed.timeWaitedSeconds).to.equal(expected.timeWaitedSeconds);
+          expect(claimed.cooldownUsed).to.equal(expected.cooldownUsed);
+          expect(claimed.halvingFactor).to.equal(expected.halvingFactor);
+          expect(claimed.mintedReward).to.equal(expected.mintedReward);
+          expect(claimed.deferredReward).to.equal(expected.deferredReward);
+          const halvingLogs = fulfillReceipt!.logs.filter((log: any) => log.address === adaptiveHalving.target);
+          const triggered = halvingLogs.some((log: any) => adaptiveHalving.interface.parseLog(log)?.name === "HalvingTriggered");
+          expect(triggered).to.equal(expected.halvingTriggered);
+
+          counts.claims++;
+          counts.halvings += expected.halvingTriggered ? 1 : 0;
+        } else if (action === 4) {
+          const amount = random.nextBigInt(model.balanceOf(account) / 4n + 1n) + 1n;
+          if (random.nextInt(0, 1) === 0) {
+            await poWaiCore.connect(user).stake(amount);
+            model.stake(account, amount);
+          } else {
+            await poWaiCore.connect(user).boostBurn(amount);
+            model.boostBurn(account, amount);
+          }
+        } else if (action === 5) {
+          const state = model.user(account);
+          if (state.openLockPositionIds.length > 0 && random.nextInt(0, 1) === 0) {
+            const positionId = state.openLockPositionIds[random.nextInt(0, state.openLockPositionIds.length - 1)];
+            const receipt = await (await poWaiCore.connect(user).unstakeLocked(positionId)).wait();
+            model.unstakeLocked(account, positionId, await blockTimestamp(receipt));
+          } else if (state.openLockPositionIds.length < 10) {
+            const amount = random.nextBigInt(model.balanceOf(account) / 4n + 1n) + 1n;
+            const tier = random.nextInt(0, 3);
+            const receipt = await (await poWaiCore.connect(user).stakeLocked(amount, tier)).wait();
+            model.stakeLocked(account, amount, tier, await blockTimestamp(receipt));
+          }
+        } else if (action === 6) {
+          const staked = model.user(account).stakedAmount;
+          if (staked > 0n) {
+            const amount = random.nextBigInt(staked) + 1n;
+            await poWaiCore.connect(user).unstake(amount);
+            model.unstake(account, amount);
+          }
+        } else if (action === 7) {
+          // Mostly minutes to hours; sometimes long enough for locks to expire
+          await moveTime(random.nextInt(0, 9) === 0 ? random.nextInt(30, 120) * 86400 : random.nextInt(0, 30 * 3600));
+        } else if (action === 8) {
+          // CFL mined outside PoWaiCore, pushing the next claim over the halving threshold
+          const amount = random.nextBigInt(HALVING_THRESHOLD / 2n);
+          await chronoFuel.simulateMining(owner.address, amount);
+          model.mint(TREASURY, amount);
+        } else {
+          const maxWaitHours = BigInt(random.nextInt(1, 48));
+          await poWaiCore.setMaxWaitHours(maxWaitHours);
+          params.maxWaitHours = maxWaitHours;
+        }
+
+        // State after every step
+        const now = await latestTimestamp();
+        expect(await chronoFuel.totalSupply(), `supply at step ${step}`).to.equal(model.totalSupply);
+        expect(await chronoFuel.getTotalMinedTokens()).to.equal(model.totalMinedTokens);
+        expect(await chronoFuel.getTotalGlobalBurned()).to.equal(model.totalGlobalBurned);
+        expect(await chronoFuel.balanceOf(account)).to.equal(model.balanceOf(account));
+        expect(await poWaiCore.getTotalStakedAmount()).to.equal(model.totalStakedAmount);
+        expect(await poWaiCore.getCurrentActiveUsersCount()).to.equal(model.activeUsersCount(now));
+        expect(await poWaiCore.getEffectiveCooldown()).to.equal(model.getEffectiveCooldown(now));
+        expect(await adaptiveHalving.getHalvingCount()).to.equal(model.halvingCount);
+        expect(await adaptiveHalving.getEmissionFactor()).to.equal(model.emissionFactorScaled);
+        expect(await adaptiveHalving.getCumulativeHalvingKeyEffectPercentage()).to.equal(model.halvingKeyEffectPercentage);
+        expect(await adaptiveHalving.getAdjustedHalvingRate()).to.equal(model.getAdjustedHalvingRate());
+        const [due, minedThisEpoch, threshold] = await adaptiveHalving.getHalvingStatus();
+        expect({ due, minedThisEpoch, threshold }).to.deep.equal(model.getHalvingStatus());
+        expect(await adaptiveHalving.hasAntiHalvingShield(account)).to.equal(model.user(account).hasAntiHalvingShield);
+        expect(await adaptiveHalving.remainingEpochBudget()).to.equal(model.remainingEpochBudget());
+        expect(await chronoFuel.remainingSupply()).to.equal(model.remainingSupply());
+        expect(await poWaiCore.deferredRewards(account)).to.equal(model.deferredRewards.get(account) ?? 0n);
+      }
+      return counts;
+    }
+
+    for (const seed of ["alpha", "bravo", "charlie"]) {
+      it(`Should match on-chain claims, burns, locks and halvings (seed ${seed})`, async function () {
+        this.timeout(120_000);
+        const counts = await runDifferential(seed, 60);
+        expect(counts.claims).to.be.greaterThan(5);
+        expect(counts.halvings).to.be.greaterThan(0);
+      });
+    }
+  });
+
+  describe("Population runs", function () {
+    const config: SimulationConfig = {
+      months: 2,
+      seed: "test",
+      params: {
+        initialHalvingThreshold: toWei(20_000).toString(), // Halve often enough to see it in two months
+        tierProbabilities: [70, 22, 8, 0], // No Halving Keys, so halvings keep biting
+      },
+      populations: [
+        { name: "stakers", users: 15, balance: "2000", stake: "1000", claimIntervalHours: 24, compoundPercent: 50 },
+        { name: "burners", users: 5, balance: "5000", lock: { amount: "2000", tier: 0 }, claimIntervalHours: 12, burnPercent: 30 },
+      ],
+    };
+
+    it("Should produce reproducible snapshots whose supply adds up", async function () {
+      const rows = simulate(config);
+      expect(rows.length).to.equal(60);
+      expect(toCsv(simulate(config))).to.equal(toCsv(rows));
+
+      for (const row of rows) {
+        expect(row.totalSupply).to.equal(DEFAULT_PARAMS.initialSupply + row.powaiMinted - row.totalBurned);
+      }
+      const last = rows[rows.length - 1];
+      expect(last.halvingCount).to.be.greaterThan(0n);
+      expect(last.emissionFactorScaled).to.be.lessThan(10n ** 10n);
+      expect(rows.reduce((sum, row) => sum + row.claims, 0)).to.be.greaterThan(20 * 60 * 0.9);
+
+      const csv = toCsv(rows).trim().split("\n");
+      expect(csv.length).to.equal(61);
+      expect(csv[0].split(",")).to.include.members(["day", "total_supply_cfl", "halving_count", "legendary_claims"]);
+      expect(csv[1].split(",").length).to.equal(csv[0].split(",").length);
+    });
+
+    it("Should apply command-line overrides to the scenario", async function () {
+      const scenario = loadScenario(["--months", "1", "--scale", "0.01", "--seed", "cli", "--set", "maxWaitHours=12"]);
+      expect(scenario.months).to.equal(1);
+      expect(scenario.seed).to.equal("cli");
+      expect(scenario.params).to.deep.equal({ maxWaitHours: "12" });
+      expect(scenario.populations.every((population) => population.users >= 1)).to.equal(true);
+      expect(simulate(scenario).length).to.equal(30);
+    });
+  });
+});
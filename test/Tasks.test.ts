@@ -0,0 +1,228 @@
+// test/Tasks.test.ts
+
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre, { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ChronoFuelMock,
+  PoWaiCore,
+  AdaptiveHalving,
+  BurnCertificateNFT,
+  MockRandomnessCoordinator,
+} from "../typechain-types";
+import { PoWaiDeployment } from "../tasks/deployment";
+import { decodeRevertReason } from "../tasks/revert";
+import { TIER_ROLLS } from "../scripts/sdk/tiers";
+import { toWei } from "../scripts/sdk/units";
+import { deployPoWaiContracts, loadFixture, poWaiMockFixture } from "./fixtures";
+
+describe("powai:* Hardhat tasks", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let burnCertificateNFT: BurnCertificateNFT;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+
+  let deploymentDir: string;
+  let deployment: string;
+
+  const HALVING_THRESHOLD = toWei(21_000_000);
+  const USER1 = 1; // Signer index of user1
+
+  // Runs a task against the test deployment file
+  const run = (name: string, args: Record<string, unknown> = {}) => hre.run(name, { deployment, account: USER1, ...args });
+
+  before(async function () {
+    [owner, user1] = await ethers.getSigners();
+  });
+
+  // Deploys the system; `link` wires it up like scripts/deploy.ts
+  async function deploySystem(link: boolean) {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = link
+      ? await loadFixture(poWaiMockFixture)
+      : await deployPoWaiContracts<ChronoFuelMock>("ChronoFuelMock"));
+    const BurnCertificateNFTFactory = await ethers.getContractFactory("BurnCertificateNFT");
+    burnCertificateNFT = await BurnCertificateNFTFactory.deploy();
+
+    const poWaiCoreAddress = await poWaiCore.getAddress();
+    if (link) {
+      await burnCertificateNFT.setPoWaiCoreContract(poWaiCoreAddress);
+      await poWaiCore.setBurnCertificateNFT(await burnCertificateNFT.getAddress());
+    } else {
+      await poWaiCore.setRandomnessProvider(await randomnessCoordinator.getAddress());
+    }
+
+    const addresses: PoWaiDeployment = {
+      ChronoFuel: await chronoFuel.getAddress(),
+      AdaptiveHalving: await adaptiveHalving.getAddress(),
+      PoWaiCore: poWaiCoreAddress,
+      BurnCertificateNFT: await burnCertificateNFT.getAddress(),
+    };
+    fs.writeFileSync(deployment, JSON.stringify(addresses));
+
+    await chronoFuel.connect(owner).transfer(user1.address, toWei(1000));
+  }
+
+  beforeEach(async function () {
+    deploymentDir = fs.mkdtempSync(path.join(os.tmpdir(), "powai-tasks-"));
+    deployment = path.join(deploymentDir, "deployment.json");
+  });
+
+  afterEach(function () {
+    fs.rmSync(deploymentDir, { recursive: true, force: true });
+  });
+
+  describe("User tasks", function () {
+    beforeEach(async function () {
+      await deploySystem(true);
+    });
+
+    it("Should approve and stake, then report it in powai:status", async function () {
+      await run("powai:stake", { amount: "100" });
+      await run("powai:stake", { amount: "50", lock: 3 });
+
+      const status = await run("powai:status", { address: user1.address });
+      expect(status.stakedAmount).to.equal(toWei(100));
+      expect(status.lockedAmount).to.equal(toWei(50));
+      expect(status.balance).to.equal(toWei(850));
+      expect(status.lastClaimTimestamp).to.equal(0);
+      expect(status.canClaim).to.equal(true);
+    });
+
+    it("Should claim, settle locally and report the remaining cooldown", async function () {
+      await run("powai:stake", { amount: "100" });
+
+      const result = await run("powai:claim", { settle: TIER_ROLLS.Common });
+      expect(result.rewardTierId).to.equal(0);
+      expect(result.finalReward).to.equal(toWei(72)); // 24h cap * 3x stake boost
+
+      const status = await run("powai:status", { address: user1.address });
+      expect(status.cooldownRemaining).to.be.greaterThan(0);
+      expect(status.canClaim).to.equal(false);
+    });
+
+    it("Should compound a claim into the stake or a burn", async function () {
+      await run("powai:stake", { amount: "100" });
+      const staked = await run("powai:claim", { stake: true, settle: TIER_ROLLS.Common });
+      expect(staked.mintedReward).to.equal(toWei(72));
+      expect((await run("powai:status", { address: user1.address })).stakedAmount).to.equal(toWei(172));
+
+      await ethers.provider.send("evm_increaseTime", [24 * 3600]);
+      await run("powai:claim", { burnPercent: 50, settle: TIER_ROLLS.Common });
+      expect((await run("powai:status", { address: user1.address })).burnRecordCount).to.equal(1);
+
+      await expect(run("powai:claim", { stake: true, burnPercent: 50 })).to.be.rejectedWith("Pass at most one of --stake or --burn-percent");
+    });
+
+    it("Should claim for a user who approved the account as claim operator", async function () {
+      await run("powai:stake", { amount: "100" });
+      await expect(run("powai:claim", { account: 0, for: user1.address })).to.be.rejectedWith(
+        "Reward requested reverted: PoWaiCore: Not an approved claim operator"
+      );
+
+      await run("powai:claim-operator", { operator: owner.address, modes: "stake" });
+      await expect(run("powai:claim", { account: 0, for: user1.address })).to.be.rejectedWith(
+        "Reward requested reverted: PoWaiCore: Not an approved claim operator"
+      );
+      const result = await run("powai:claim", { account: 0, for: user1.address, stake: true, settle: TIER_ROLLS.Common });
+      expect(result.mintedReward).to.equal(toWei(72));
+      expect(await poWaiCore.getUserStakedAmount(user1.address)).to.equal(toWei(172));
+
+      await expect(run("powai:claim-operator", { operator: owner.address, modes: "stake,vote" })).to.be.rejectedWith(
+        'Unknown claim mode "vote"'
+      );
+      await run("powai:claim-operator", { operator: owner.address });
+      expect(await poWaiCore.claimOperators(user1.address, owner.address)).to.equal(0b111);
+      await run("powai:claim-operator", { operator: owner.address, revoke: true });
+      expect(await poWaiCore.claimOperators(user1.address, owner.address)).to.equal(0);
+    });
+
+    it("Should surface the revert reason of a failed transaction", async function () {
+      await run("powai:stake", { amount: "100" });
+      await run("powai:claim", { settle: TIER_ROLLS.Common });
+
+      await expect(run("powai:claim")).to.be.rejectedWith("Reward requested reverted: PoWaiCore: Cooldown not yet passed");
+      await expect(run("powai:unstake", { amount: "500" })).to.be.rejectedWith("PoWaiCore: Insufficient staked amount");
+    });
+
+    it("Should burn for a boost, optionally with a certificate", async function () {
+      await run("powai:burn-boost", { amount: "10" });
+      await run("powai:burn-boost", { amount: "2.5", certificate: true });
+
+      const status = await run("powai:status", { address: user1.address });
+      expect(status.burnRecordCount).to.equal(2);
+      expect(status.totalBurned).to.equal(toWei(12.5));
+      expect(await burnCertificateNFT.balanceOf(user1.address)).to.equal(1);
+    });
+
+    it("Should close a locked position through powai:unstake", async function () {
+      await run("powai:stake", { amount: "100", lock: 0 });
+      await run("powai:unstake", { position: 0 });
+
+      expect((await poWaiCore.getLockPosition(user1.address, 0)).withdrawn).to.equal(true);
+      await expect(run("powai:unstake", {})).to.be.rejectedWith("Pass exactly one of --amount or --position");
+    });
+  });
+
+  describe("Operator tasks", function () {
+    it("Should report and apply a due halving", async function () {
+      await deploySystem(true);
+      expect((await run("powai:halving-check", { account: 0 })).due).to.equal(false);
+
+      await chronoFuel.simulateMining(owner.address, HALVING_THRESHOLD);
+      await expect(run("powai:halving-check", { apply: true })) // user1 is not an operator
+        .to.be.rejectedWith("does not hold HALVING_OPERATOR_ROLE");
+
+      const result = await run("powai:halving-check", { account: 0, apply: true });
+      expect(result.due).to.equal(true);
+      expect(result.applied).to.equal(true);
+      expect(await adaptiveHalving.getHalvingCount()).to.equal(1);
+    });
+
+    it("Should report missing links and repair them with --fix", async function () {
+      await deploySystem(false);
+
+      const before = await run("powai:link", { account: 0 });
+      expect(before.links["ChronoFuel.powaiCoreContract"]).to.equal("missing");
+      expect(before.links["PoWaiCore.chronoFuelToken"]).to.equal("ok");
+      expect(before.roles["ChronoFuel.MINTER_ROLE(PoWaiCore)"]).to.equal(false);
+
+      await expect(run("powai:link", { fix: true })) // user1 is not an admin
+        .to.be.rejectedWith("AccessControlUnauthorizedAccount");
+
+      const fixed = await run("powai:link", { account: 0, fix: true });
+      expect(fixed.links["AdaptiveHalving.powaiCoreContract"]).to.equal("fixed");
+      expect(fixed.links["PoWaiCore.burnCertificateNFT"]).to.equal("fixed");
+
+      const after = await run("powai:link", { account: 0 });
+      expect(Object.values(after.links).every((state) => state === "ok")).to.equal(true);
+      expect(Object.values(after.roles).every((held) => held)).to.equal(true);
+    });
+
+    it("Should fail clearly without a deployment file", async function () {
+      await expect(hre.run("powai:status", { address: user1.address, account: 0 }))
+        .to.be.rejectedWith(`No PoWai deployment found for network "hardhat"`);
+    });
+  });
+
+  describe("decodeRevertReason", function () {
+    it("Should decode reason strings and custom errors", async function () {
+      await deploySystem(false);
+      const interfaces = [poWaiCore.interface];
+
+      const reasonError = await poWaiCore.connect(user1).unstake(1).catch((e) => e);
+      expect(decodeRevertReason(reasonError, interfaces)).to.equal("PoWaiCore: Insufficient staked amount");
+
+      const customError = await poWaiCore.connect(user1).setMaxWaitHours(1).catch((e) => e);
+      expect(decodeRevertReason(customError, interfaces)).to.match(/^AccessControlUnauthorizedAccount\(0x/);
+
+      expect(decodeRevertReason(new Error("network down"), interfaces)).to.equal(null);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+// test/Upgrades.test.ts
+
+import { expect } from "chai";
+import { artifacts, ethers } from "hardhat";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ChronoFuel,
+  ChronoFuelMock,
+  PoWaiCore,
+  AdaptiveHalving,
+  MockRandomnessCoordinator,
+  PoWaiCoreV2Mock,
+  LegacyChronoFuel,
+} from "../typechain-types";
+import {
+  deployProxy,
+  getImplementationAddress,
+  getInitializedVersion,
+  pendingReinitializer,
+  StorageLayoutError,
+  upgradeProxy,
+} from "../scripts/upgrades/proxies";
+import { compareStorageLayouts, readStorageLayout } from "../scripts/upgrades/storageLayout";
+import { getEventArgs } from "../scripts/sdk/events";
+import { TIER_ROLLS } from "../scripts/sdk/tiers";
+import { toWei } from "../scripts/sdk/units";
+import { loadFixture, moveTime, poWaiMockFixture } from "./fixtures";
+
+describe("Upgradeable proxies", function () {
+  let chronoFuel: ChronoFuelMock;
+  let poWaiCore: PoWaiCore;
+  let adaptiveHalving: AdaptiveHalving;
+  let randomnessCoordinator: MockRandomnessCoordinator;
+
+  let owner: SignerWithAddress;
+  let user1: SignerWithAddress;
+  let user2: SignerWithAddress;
+
+  const ONE_DAY_SECONDS = 24 * 3600;
+  const LOCK_90_DAYS = 1;
+
+  before(async function () {
+    [owner, user1, user2] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    ({ chronoFuel, adaptiveHalving, poWaiCore, randomnessCoordinator } = await loadFixture(poWaiMockFixture));
+  });
+
+  // Stakes, locks, claims and burns for two users, so every kind of user state is in the proxy's storage
+  async function populate() {
+    for (const user of [user1, user2]) {
+      await chronoFuel.connect(owner).transfer(user.address, toWei(1000));
+      await chronoFuel.connect(user).approve(await poWaiCore.getAddress(), toWei(1000));
+    }
+    await poWaiCore.connect(user1).stake(toWei(300));
+    await poWaiCore.connect(user1).stakeLocked(toWei(100), LOCK_90_DAYS);
+    await poWaiCore.connect(user2).stake(toWei(150));
+    await moveTime(ONE_DAY_SECONDS);
+
+    const tx = await poWaiCore.connect(user1).claimReward();
+    const { requestId } = await getEventArgs(await tx.wait(), poWaiCore, "RewardRequested");
+    await randomnessCoordinator.fulfillRandomness(requestId, TIER_ROLLS.Common);
+
+    await poWaiCore.connect(user1).boostBurn(toWei(20));
+    await poWaiCore.connect(user2).boostBurn(toWei(5));
+    await poWaiCore.connect(user2).boostBurn(toWei(7));
+  }
+
+  async function snapshot(user: string) {
+    const burnRecords = [];
+    for (let i = 0n; i < (await poWaiCore.getUserBurnRecordCount(user)); i++) {
+      burnRecords.push([...(await poWaiCore.userBurnRecords(user, i))]);
+    }
+    return {
+      userData: [...(await poWaiCore.userData(user))],
+      burnRecords,
+      lockPositions: (await poWaiCore.getLockPositions(user)).map((position) => [...position]),
+      balance: await chronoFuel.balanceOf(user),
+      burned: await chronoFuel.getUserBurnedAmount(user),
+    };
+  }
+
+  async function upgradeCoreTo(contractName: string, callData?: string) {
+    return upgradeProxy({
+      contractName,
+      proxyAddress: await poWaiCore.getAddress(),
+      factory: await ethers.getContractFactory(contractName),
+      previousLayout: await readStorageLayout(artifacts, "PoWaiCore"),
+      nextLayout: await readStorageLayout(artifacts, contractName),
+      callData,
+    });
+  }
+
+  describe("Deployment", function () {
+    it("Should initialize the proxies and leave the implementations uninitializable", async function () {
+      expect(await chronoFuel.name()).to.equal("ChronoFuel");
+      expect(await chronoFuel.symbol()).to.equal("CFL");
+      expect(await chronoFuel.hasRole(await chronoFuel.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await adaptiveHalving.emissionFactorScaled()).to.equal(10n ** 10n);
+      expect(await poWaiCore.maxWaitHours()).to.equal(24);
+      expect(await poWaiCore.burnFactorNumerator()).to.equal(7);
+
+      const implementation = await getImplementationAddress(ethers.provider, await poWaiCore.getAddress());
+      const coreImplementation = poWaiCore.attach(implementation) as PoWaiCore;
+      await expect(coreImplementation.initialize(await chronoFuel.getAddress())).to.be.revertedWithCustomError(
+        poWaiCore,
+        "InvalidInitialization"
+      );
+    });
+
+    it("Should not initialize a proxy twice", async function () {
+      await expect(poWaiCore.connect(user1).initialize(user1.address)).to.be.revertedWithCustomError(poWaiCore, "InvalidInitialization");
+      await expect(chronoFuel.connect(user1).initialize()).to.be.revertedWithCustomError(chronoFuel, "InvalidInitialization");
+      await expect(adaptiveHalving.initialize(await chronoFuel.getAddress())).to.be.revertedWithCustomError(
+        adaptiveHalving,
+        "InvalidInitialization"
+      );
+    });
+  });
+
+  describe("Upgrading a populated system", function () {
+    it("Should keep userData, userBurnRecords and totalStakedAmount across a PoWaiCore upgrade", async function () {
+      await populate();
+      const before1 = await snapshot(user1.address);
+      const before2 = await snapshot(user2.address);
+      const totalStakedBefore = await poWaiCore.totalStakedAmount();
+      expect((await poWaiCore.userData(user1.address)).stakedAmount).to.equal(toWei(300));
+      expect(before1.burnRecords.length).to.equal(1);
+      expect(before2.burnRecords.length).to.equal(2);
+
+      const proxyAddress = await poWaiCore.getAddress();
+      const implementationBefore = await getImplementationAddress(ethers.provider, proxyAddress);
+      const V2Factory = await ethers.getContractFactory("PoWaiCoreV2Mock");
+      const result = await upgradeCoreTo("PoWaiCoreV2Mock", V2Factory.interface.encodeFunctionData("initializeV2", [2]));
+
+      expect(result.implementation).to.not.equal(implementationBefore);
+      expect(await getImplementationAddress(ethers.provider, proxyAddress)).to.equal(result.implementation);
+      const upgraded = V2Factory.attach(proxyAddress) as PoWaiCoreV2Mock;
+      expect(await upgraded.upgradeNote()).to.equal(2);
+
+      expect(await snapshot(user1.address)).to.deep.equal(before1);
+      expect(await snapshot(user2.address)).to.deep.equal(before2);
+      expect(await upgraded.totalStakedAmount()).to.equal(totalStakedBefore);
+      expect(await upgraded.getTotalStakedAmount()).to.equal(toWei(550));
+      expect(await upgraded.adaptiveHalving()).to.equal(await adaptiveHalving.getAddress());
+      expect(await upgraded.hasRole(await upgraded.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+    });
+
+    it("Should keep working after the upgrade", async function () {
+      await populate();
+      await upgradeCoreTo("PoWaiCoreV2Mock");
+      const upgraded = (await ethers.getContractFactory("PoWaiCoreV2Mock")).attach(await poWaiCore.getAddress()) as PoWaiCoreV2Mock;
+
+      await moveTime(ONE_DAY_SECONDS);
+      await upgraded.connect(user1).unstake(toWei(100));
+      expect((await upgraded.userData(user1.address)).stakedAmount).to.equal(toWei(200));
+      expect(await upgraded.totalStakedAmount()).to.equal(toWei(450));
+
+      const tx = await upgraded.connect(user2).claimReward();
+      const { requestId } = await getEventArgs(await tx.wait(), upgraded, "RewardRequested");
+      await expect(randomnessCoordinator.fulfillRandomness(requestId, TIER_ROLLS.Common)).to.emit(upgraded, "RewardClaimed");
+    });
+
+    it("Should keep balances, roles and halving state across ChronoFuel and AdaptiveHalving upgrades", async function () {
+      await populate();
+      const supplyBefore = await chronoFuel.totalSupply();
+      const minedBefore = await chronoFuel.getTotalMinedTokens();
+      const balanceBefore = await chronoFuel.balanceOf(user1.address);
+      const thresholdBefore = await adaptiveHalving.currentHalvingThreshold();
+
+      for (const [contractName, proxy] of [
+        ["ChronoFuelMock", chronoFuel],
+        ["AdaptiveHalving", adaptiveHalving],
+      ] as const) {
+        await upgradeProxy({
+          contractName,
+          proxyAddress: await proxy.getAddress(),
+          factory: await ethers.getContractFactory(contractName),
+          previousLayout: await readStorageLayout(artifacts, contractName),
+          nextLayout: await readStorageLayout(artifacts, contractName),
+        });
+      }
+
+      expect(await chronoFuel.totalSupply()).to.equal(supplyBefore);
+      expect(await chronoFuel.getTotalMinedTokens()).to.equal(minedBefore);
+      expect(await chronoFuel.balanceOf(user1.address)).to.equal(balanceBefore);
+      expect(await chronoFuel.hasRole(await chronoFuel.MINTER_ROLE(), await poWaiCore.getAddress())).to.be.true;
+      expect(await adaptiveHalving.currentHalvingThreshold()).to.equal(thresholdBefore);
+      expect(await adaptiveHalving.powaiCoreContract()).to.equal(await poWaiCore.getAddress());
+    });
+  });
+
+  describe("Upgrading ChronoFuel from before the emission limits", function () {
+    let legacy: LegacyChronoFuel;
+    let legacyAddress: string;
+
+    beforeEach(async function () {
+      legacy = await deployProxy(await ethers.getContractFactory("LegacyChronoFuel"));
+      legacyAddress = await legacy.getAddress();
+      await legacy.transfer(user1.address, toWei(1000));
+    });
+
+    async function upgradeLegacy(callData?: string) {
+      await upgradeProxy({
+        contractName: "ChronoFuel",
+        proxyAddress: legacyAddress,
+        factory: await ethers.getContractFactory("ChronoFuel"),
+        previousLayout: await readStorageLayout(artifacts, "LegacyChronoFuel"),
+        nextLayout: await readStorageLayout(artifacts, "ChronoFuel"),
+        callData,
+      });
+      return (await ethers.getContractFactory("ChronoFuel")).attach(legacyAddress) as ChronoFuel;
+    }
+
+    it("Should call initializeV2 by default and set the emission limits", async function () {
+      expect(await getInitializedVersion(ethers.provider, legacyAddress)).to.equal(1);
+      const reinitializer = await pendingReinitializer(ethers.provider, "ChronoFuel", legacyAddress);
+      expect(reinitializer?.call).to.equal("initializeV2(address)");
+
+      const ChronoFuelFactory = await ethers.getContractFactory("ChronoFuel");
+      const upgraded = await upgradeLegacy(ChronoFuelFactory.interface.encodeFunctionData(reinitializer!.call, [user2.address]));
+      expect(await upgraded.maxSupply()).to.equal(await upgraded.DEFAULT_MAX_SUPPLY());
+      expect(await upgraded.epochEmissionBudget()).to.equal(await upgraded.DEFAULT_EPOCH_EMISSION_BUDGET());
+      expect(await upgraded.hasRole(await upgraded.PAUSER_ROLE(), user2.address)).to.be.true;
+      expect(await upgraded.hasRole(await upgraded.PAUSER_ROLE(), owner.address)).to.be.false;
+      expect(await upgraded.balanceOf(user1.address)).to.equal(toWei(1000));
+      expect(await upgraded.getTotalMinedTokens()).to.equal(await upgraded.INITIAL_SUPPLY());
+
+      expect(await getInitializedVersion(ethers.provider, legacyAddress)).to.equal(2);
+      expect(await pendingReinitializer(ethers.provider, "ChronoFuel", legacyAddress)).to.equal(undefined);
+      await expect(upgraded.initializeV2(owner.address)).to.be.revertedWithCustomError(upgraded, "InvalidInitialization");
+    });
+
+    it("Should mint rewards and halve once per threshold on the upgraded token", async function () {
+      const upgraded = await upgradeLegacy(
+        (await ethers.getContractFactory("ChronoFuel")).interface.encodeFunctionData("initializeV2", [owner.address])
+      );
+      const halving = await deployProxy(await ethers.getContractFactory("AdaptiveHalving"), [legacyAddress]);
+      const core = await deployProxy(await ethers.getContractFactory("PoWaiCore"), [legacyAddress]);
+      const coordinator = await (await ethers.getContractFactory("MockRandomnessCoordinator")).deploy();
+      await upgraded.setPoWaiCoreContract(await core.getAddress());
+      await core.setAdaptiveHalving(await halving.getAddress());
+      await halving.setPoWaiCoreContract(await core.getAddress());
+      await core.setRandomnessProvider(await coordinator.getAddress());
+
+      await upgraded.connect(user1).approve(await core.getAddress(), toWei(100));
+      await core.connect(user1).stake(toWei(100));
+      await moveTime(ONE_DAY_SECONDS);
+      const { requestId } = await getEventArgs(await (await core.connect(user1).claimReward()).wait(), core, "RewardRequested");
+      const settled = await (await coordinator.fulfillRandomness(requestId, TIER_ROLLS.Common)).wait();
+
+      const claimed = await getEventArgs(settled, core, "RewardClaimed");
+      expect([claimed.mintedReward, claimed.deferredReward]).to.deep.equal([toWei(72), 0n]);
+      expect(await halving.halvingCount()).to.equal(0);
+      expect(await halving.emissionFactorScaled()).to.equal(10n ** 10n);
+    });
+
+    it("Should leave the limits at 0 without the reinitializer until the admin runs it", async function () {
+      const upgraded = await upgradeLegacy();
+      expect(await upgraded.maxSupply()).to.equal(0);
+      expect((await pendingReinitializer(ethers.provider, "ChronoFuel", legacyAddress))?.call).to.equal("initializeV2(address)");
+
+      await expect(upgraded.connect(user1).initializeV2(user1.address))
+        .to.be.revertedWithCustomError(upgraded, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await upgraded.DEFAULT_ADMIN_ROLE());
+      await expect(upgraded.initializeV2(ethers.ZeroAddress)).to.be.revertedWith("ChronoFuel: Zero address not allowed for pauser");
+      await upgraded.initializeV2(user2.address);
+      expect(await upgraded.maxSupply()).to.equal(await upgraded.DEFAULT_MAX_SUPPLY());
+      expect(await upgraded.hasRole(await upgraded.PAUSER_ROLE(), user2.address)).to.be.true;
+    });
+
+    it("Should refuse initialize on a proxy initialized at version 1", async function () {
+      const upgraded = await upgradeLegacy();
+      await expect(upgraded.connect(user1).initialize()).to.be.revertedWithCustomError(upgraded, "InvalidInitialization");
+      expect(await upgraded.hasRole(await upgraded.DEFAULT_ADMIN_ROLE(), user1.address)).to.be.false;
+      expect(await upgraded.balanceOf(user1.address)).to.equal(toWei(1000));
+    });
+
+    it("Should initialize new proxies at version 2, so initializeV2 never runs on them", async function () {
+      const chronoFuelAddress = await chronoFuel.getAddress();
+      expect(await getInitializedVersion(ethers.provider, chronoFuelAddress)).to.equal(2);
+      expect(await pendingReinitializer(ethers.provider, "ChronoFuel", chronoFuelAddress)).to.equal(undefined);
+
+      await expect(chronoFuel.initializeV2(user1.address)).to.be.revertedWithCustomError(chronoFuel, "InvalidInitialization");
+      await expect(chronoFuel.initialize()).to.be.revertedWithCustomError(chronoFuel, "InvalidInitialization");
+      expect(await chronoFuel.hasRole(await chronoFuel.PAUSER_ROLE(), user1.address)).to.be.false;
+      expect(await pendingReinitializer(ethers.provider, "AdaptiveHalving", await adaptiveHalving.getAddress())).to.equal(undefined);
+    });
+  });
+
+  describe("Safety checks", function () {
+    it("Should refuse an implementation whose storage layout clashes, before sending anything", async function () {
+      const implementationBefore = await getImplementationAddress(ethers.provider, await poWaiCore.getAddress());
+
+      const error: StorageLayoutError = await upgradeCoreTo("PoWaiCoreStorageClashMock").then(
+        () => expect.fail("upgrade should have been refused"),
+        (e) => e
+      );
+      expect(error).to.be.instanceOf(StorageLayoutError);
+      expect(error.problems[0]).to.equal("slot 0 held _roles but now holds insertedValue (variable inserted, removed or renamed)");
+      expect(await getImplementationAddress(ethers.provider, await poWaiCore.getAddress())).to.equal(implementationBefore);
+    });
+
+    it("Should accept appended state and reject removed or retyped state", async function () {
+      const previous = await readStorageLayout(artifacts, "PoWaiCore");
+      expect(compareStorageLayouts(previous, await readStorageLayout(artifacts, "PoWaiCoreV2Mock"))).to.deep.equal([]);
+      expect(compareStorageLayouts(previous, await readStorageLayout(artifacts, "PoWaiCoreHarness"))).to.deep.equal([]);
+
+      const last = previous[previous.length - 1];
+      expect(compareStorageLayouts(previous, previous.slice(0, -1))).to.deep.equal([`${last.label} (slot ${last.slot}) was removed`]);
+      const retyped = previous.map((entry) => (entry.label === "totalStakedAmount" ? { ...entry, type: "uint128" } : entry));
+      expect(compareStorageLayouts(previous, retyped)).to.deep.equal(["totalStakedAmount changed type from uint256 to uint128"]);
+    });
+
+    it("Should only let the admin upgrade", async function () {
+      const implementation = await (await ethers.getContractFactory("PoWaiCoreV2Mock")).deploy();
+      await expect(poWaiCore.connect(user1).upgradeToAndCall(await implementation.getAddress(), "0x"))
+        .to.be.revertedWithCustomError(poWaiCore, "AccessControlUnauthorizedAccount")
+        .withArgs(user1.address, await poWaiCore.DEFAULT_ADMIN_ROLE());
+      await expect(chronoFuel.connect(user1).upgradeToAndCall(await implementation.getAddress(), "0x")).to.be.revertedWithCustomError(
+        chronoFuel,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("Should refuse implementations that could not be upgraded again", async function () {
+      await expect(poWaiCore.upgradeToAndCall(await randomnessCoordinator.getAddress(), "0x")).to.be.revertedWith(
+        "PoWaiUpgradeable: New implementation is not UUPS"
+      );
+    });
+
+    it("Should only upgrade through the proxy", async function () {
+      const implementation = poWaiCore.attach(await getImplementationAddress(ethers.provider, await poWaiCore.getAddress())) as PoWaiCore;
+      await expect(implementation.upgradeToAndCall(await randomnessCoordinator.getAddress(), "0x")).to.be.revertedWith(
+        "PoWaiUpgradeable: Must be called through the proxy"
+      );
+    });
+  });
+});
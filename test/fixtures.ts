@@ -0,0 +1,98 @@
+// test/fixtures.ts
+
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  AdaptiveHalving,
+  ChronoFuel,
+  ChronoFuelMock,
+  MockRandomnessCoordinator,
+  PoWaiCore,
+  PoWaiCoreHarness,
+  PoWaiLens,
+} from "../typechain-types";
+import { deployProxy } from "../scripts/upgrades/proxies";
+
+export { loadFixture };
+
+// Helper function to move blockchain time forward
+export async function moveTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine");
+}
+
+/**
+ * The core contracts every test file starts from. `T` and `C` are the ChronoFuel and PoWaiCore
+ * builds behind the proxies, so fixtures using the test mocks keep their extra functions typed.
+ */
+export interface PoWaiSystem<T = ChronoFuel, C = PoWaiCore> {
+  chronoFuel: T;
+  adaptiveHalving: AdaptiveHalving;
+  poWaiCore: C;
+  poWaiLens: PoWaiLens;
+  randomnessCoordinator: MockRandomnessCoordinator;
+}
+
+/**
+ * Deploys ChronoFuel, AdaptiveHalving and PoWaiCore behind proxies, plus the PoWaiLens reading
+ * PoWaiCore and a mock randomness coordinator, without linking anything. Tests of the linking
+ * itself start from here.
+ */
+export async function deployPoWaiContracts<T = ChronoFuel, C = PoWaiCore>(
+  chronoFuelContract: "ChronoFuel" | "ChronoFuelMock" = "ChronoFuel",
+  poWaiCoreContract: "PoWaiCore" | "PoWaiCoreHarness" = "PoWaiCore"
+): Promise<PoWaiSystem<T, C>> {
+  const chronoFuel = await deployProxy(await ethers.getContractFactory(chronoFuelContract));
+  const adaptiveHalving = await deployProxy(await ethers.getContractFactory("AdaptiveHalving"), [await chronoFuel.getAddress()]);
+  const poWaiCore = await deployProxy(await ethers.getContractFactory(poWaiCoreContract), [await chronoFuel.getAddress()]);
+
+  const poWaiLens = await (await ethers.getContractFactory("PoWaiLens")).deploy(await poWaiCore.getAddress());
+  await poWaiLens.waitForDeployment();
+
+  const randomnessCoordinator = await (await ethers.getContractFactory("MockRandomnessCoordinator")).deploy();
+  await randomnessCoordinator.waitForDeployment();
+
+  return { chronoFuel, adaptiveHalving, poWaiCore, poWaiLens, randomnessCoordinator } as unknown as PoWaiSystem<T, C>;
+}
+
+/**
+ * Links a system the way scripts/deploy.ts does: PoWaiCore becomes the ChronoFuel minter and
+ * the AdaptiveHalving operator, and draws its randomness from the mock coordinator.
+ */
+export async function linkPoWaiContracts(system: PoWaiSystem<unknown, unknown>) {
+  const chronoFuel = system.chronoFuel as ChronoFuel;
+  const poWaiCore = system.poWaiCore as PoWaiCore;
+  const poWaiCoreAddress = await poWaiCore.getAddress();
+
+  await chronoFuel.setPoWaiCoreContract(poWaiCoreAddress);
+  await poWaiCore.setAdaptiveHalving(await system.adaptiveHalving.getAddress());
+  await system.adaptiveHalving.setPoWaiCoreContract(poWaiCoreAddress);
+  await poWaiCore.setRandomnessProvider(await system.randomnessCoordinator.getAddress());
+}
+
+async function deployLinkedSystem<T, C>(
+  chronoFuelContract: "ChronoFuel" | "ChronoFuelMock",
+  poWaiCoreContract: "PoWaiCore" | "PoWaiCoreHarness"
+): Promise<PoWaiSystem<T, C>> {
+  const system = await deployPoWaiContracts<T, C>(chronoFuelContract, poWaiCoreContract);
+  await linkPoWaiContracts(system);
+  return system;
+}
+
+// --- Fixtures ---
+// Pass these to loadFixture: the first call deploys and snapshots, later calls revert to the snapshot.
+
+// The production contracts, linked and owned by the first signer
+export function poWaiFixture(): Promise<PoWaiSystem> {
+  return deployLinkedSystem("ChronoFuel", "PoWaiCore");
+}
+
+// As poWaiFixture, with ChronoFuelMock so tests can simulate mining up to the halving thresholds
+export function poWaiMockFixture(): Promise<PoWaiSystem<ChronoFuelMock>> {
+  return deployLinkedSystem("ChronoFuelMock", "PoWaiCore");
+}
+
+// As poWaiMockFixture, with PoWaiCoreHarness exposing the internal reward math
+export function poWaiHarnessFixture(): Promise<PoWaiSystem<ChronoFuelMock, PoWaiCoreHarness>> {
+  return deployLinkedSystem("ChronoFuelMock", "PoWaiCoreHarness");
+}